@@ -0,0 +1,794 @@
+/**
+ * Mock REST Server
+ * Implements the endpoints used by src/services/dataSource.ts (apiDataSource)
+ * against a JSON file, so the backend migration can be developed offline.
+ *
+ * Start:   npm run mock-server
+ * Client:  VITE_API_URL=http://localhost:3001/api npm run dev
+ *
+ * Environment variables:
+ *   PORT     - Port to listen on (default 3001)
+ *   DB_FILE  - JSON file used as database (default mock-server/db.json,
+ *              created from mock-server/seed.json on first start)
+ */
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync, copyFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SERVER_DIR = dirname(fileURLToPath(import.meta.url));
+const PORT = Number(process.env.PORT) || 3001;
+const DB_FILE = process.env.DB_FILE || join(SERVER_DIR, 'db.json');
+const SEED_FILE = join(SERVER_DIR, 'seed.json');
+const API_PREFIX = '/api';
+
+// ============================================
+// Database
+// ============================================
+
+/**
+ * Load the database, creating it from the seed file if it does not exist
+ */
+function loadDb() {
+  if (!existsSync(DB_FILE)) {
+    copyFileSync(SEED_FILE, DB_FILE);
+    console.log(`Datenbank ${DB_FILE} aus seed.json erstellt`);
+  }
+  const db = JSON.parse(readFileSync(DB_FILE, 'utf-8'));
+  const auditLog = db.auditLog ?? [];
+  return {
+    members: db.members ?? [],
+    families: db.families ?? [],
+    // Logs written before the hash chain existed are sealed once
+    auditLog: auditLog.every(entry => entry.hash) ? auditLog : sealAuditLog(auditLog),
+  };
+}
+
+// ============================================
+// Audit Hash Chain (mirrors src/services/auditIntegrityService.ts)
+// ============================================
+
+const GENESIS_HASH = '0'.repeat(64);
+
+function canonicalJson(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const fields = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function computeAuditEntryHash(entry) {
+  return createHash('sha256').update(canonicalJson({ ...entry, hash: undefined })).digest('hex');
+}
+
+function sealAuditEntry(entry, previousHash) {
+  const linked = { ...entry, previousHash, hash: undefined };
+  return { ...linked, hash: computeAuditEntryHash(linked) };
+}
+
+function sealAuditLog(entries) {
+  let previousHash = GENESIS_HASH;
+  const sealed = [...entries].reverse().map(entry => {
+    const sealedEntry = sealAuditEntry(entry, previousHash);
+    previousHash = sealedEntry.hash;
+    return sealedEntry;
+  });
+  return sealed.reverse();
+}
+
+function getAuditChainHead(entries) {
+  const newest = entries[0];
+  if (!newest?.hash) return undefined;
+  return { hash: newest.hash, entryCount: entries.length, timestamp: newest.timestamp };
+}
+
+function isHeadCovered(entries, head) {
+  const oldest = entries[entries.length - 1];
+  if (!oldest) return false;
+  if (oldest.previousHash === head.hash || entries.some(entry => entry.hash === head.hash)) return true;
+  return head.timestamp !== undefined && head.timestamp < oldest.timestamp;
+}
+
+function getValidStartHashes(entries) {
+  const hashes = new Set([GENESIS_HASH]);
+  entries.forEach(entry => {
+    const lastArchivedHash = entry.details?.lastArchivedHash;
+    if (entry.action === 'AUDIT_LOG_ARCHIVED' && typeof lastArchivedHash === 'string') {
+      hashes.add(lastArchivedHash);
+    }
+  });
+  return hashes;
+}
+
+function verifyAuditChain(entries, knownHeads = []) {
+  const oldestFirst = [...entries].reverse();
+  const validStartHashes = getValidStartHashes(entries);
+  const knownHashes = new Set(knownHeads.map(head => head.hash));
+  for (let i = 0; i < oldestFirst.length; i++) {
+    const entry = oldestFirst[i];
+    let problem;
+    if (!entry.hash || !entry.previousHash) {
+      problem = 'missing-hash';
+    } else if (computeAuditEntryHash(entry) !== entry.hash) {
+      problem = 'content-modified';
+    } else if (i > 0 && entry.previousHash !== oldestFirst[i - 1].hash) {
+      problem = 'link-broken';
+    } else if (i === 0 && !validStartHashes.has(entry.previousHash)) {
+      if (entry.action !== 'AUDIT_LOG_CLEARED') {
+        problem = 'link-broken';
+      } else if (!knownHashes.has(entry.previousHash)) {
+        problem = 'unknown-anchor';
+      }
+    }
+    if (problem) {
+      return {
+        valid: false,
+        checkedCount: i + 1,
+        firstBroken: { entryId: entry.id, timestamp: entry.timestamp, position: i + 1, problem },
+      };
+    }
+  }
+  const head = getAuditChainHead(entries);
+  const missingHead = knownHeads.find(known => !isHeadCovered(entries, known));
+  return { valid: !missingHead, checkedCount: oldestFirst.length, head, missingHead };
+}
+
+/**
+ * Verify the log, optionally against a head recorded by the client (query head and count)
+ */
+function verifyAuditLog(query) {
+  const hash = query.get('head');
+  const knownHeads = hash ? [{ hash, entryCount: Number(query.get('count')) || 0 }] : [];
+  return verifyAuditChain(db.auditLog, knownHeads);
+}
+
+let db = loadDb();
+
+function saveDb() {
+  writeFileSync(DB_FILE, JSON.stringify(db, null, 2));
+}
+
+// ============================================
+// Business Logic (mirrors src/services/memberService.ts)
+// ============================================
+
+class HttpError extends Error {
+  constructor(status, message, extra = {}) {
+    super(message);
+    this.status = status;
+    // Additional properties of the error response body
+    this.extra = extra;
+  }
+}
+
+/** Actor of the request being handled (X-Actor header), stamped into audit entries */
+let requestActor;
+
+const now = () => new Date().toISOString();
+const fullName = (member) => `${member.firstName} ${member.lastName}`;
+
+function logAction(action, description, memberId, familyId, details) {
+  const entry = {
+    id: randomUUID(),
+    timestamp: now(),
+    action,
+    description,
+    memberId,
+    familyId,
+    details,
+    actor: requestActor,
+  };
+  db.auditLog.unshift(sealAuditEntry(entry, db.auditLog[0]?.hash ?? GENESIS_HASH));
+}
+
+function findMember(id) {
+  const member = db.members.find(m => m.id === id);
+  if (!member) throw new HttpError(404, `Mitglied mit ID ${id} nicht gefunden`);
+  return member;
+}
+
+function findFamily(id) {
+  const family = db.families.find(f => f.id === id);
+  if (!family) throw new HttpError(404, `Familie mit ID ${id} nicht gefunden`);
+  return family;
+}
+
+function validateFormData(data) {
+  const missing = ['firstName', 'lastName', 'birthDate', 'entryDate'].filter(field => !data?.[field]);
+  if (missing.length > 0) {
+    throw new HttpError(400, `Pflichtfelder fehlen: ${missing.join(', ')}`);
+  }
+  if (data.familyId) findFamily(data.familyId);
+}
+
+function pickFormFields(data) {
+  return {
+    firstName: data.firstName,
+    lastName: data.lastName,
+    birthDate: data.birthDate,
+    street: data.street ?? '',
+    postalCode: data.postalCode ?? '',
+    city: data.city ?? '',
+    iban: data.iban ?? '',
+    bic: data.bic ?? '',
+    entryDate: data.entryDate,
+    exitDate: data.exitDate || undefined,
+    familyId: data.familyId || undefined,
+    isMainFamilyMember: Boolean(data.familyId && data.isMainFamilyMember),
+  };
+}
+
+function setMainMember(familyId, memberId) {
+  const family = findFamily(familyId);
+  const member = findMember(memberId);
+
+  const replacedMembers = [];
+  db.members.forEach(m => {
+    if (m.familyId === familyId && m.id !== memberId && m.isMainFamilyMember) {
+      const before = { ...m };
+      m.isMainFamilyMember = false;
+      m.updatedAt = now();
+      replacedMembers.push({ member: m, changes: diffMemberFields(before, m) });
+    }
+  });
+  family.mainMemberId = memberId;
+  family.updatedAt = now();
+  const before = { ...member };
+  if (!member.isMainFamilyMember) {
+    member.isMainFamilyMember = true;
+    member.updatedAt = now();
+  }
+
+  logAction(
+    'FAMILY_MAIN_MEMBER_CHANGED',
+    `"${fullName(member)}" ist jetzt Hauptmitglied der Familie "${family.name}"`,
+    member.id,
+    family.id,
+    { memberName: fullName(member), familyName: family.name, changes: diffMemberFields(before, member) }
+  );
+  replacedMembers.forEach(({ member: replaced, changes }) => {
+    logAction(
+      'FAMILY_MAIN_MEMBER_CHANGED',
+      `"${fullName(replaced)}" ist nicht mehr Hauptmitglied der Familie "${family.name}"`,
+      replaced.id,
+      family.id,
+      { memberName: fullName(replaced), familyName: family.name, newMainMemberId: member.id, changes }
+    );
+  });
+  return family;
+}
+
+function createMember(data) {
+  validateFormData(data);
+  const timestamp = now();
+  const member = { id: randomUUID(), ...pickFormFields(data), isActive: true, createdAt: timestamp, updatedAt: timestamp };
+  db.members.push(member);
+  logAction('MEMBER_CREATED', `Mitglied "${fullName(member)}" wurde erstellt`, member.id, member.familyId, {
+    memberName: fullName(member),
+  });
+
+  if (member.familyId) {
+    const family = findFamily(member.familyId);
+    logAction(
+      'FAMILY_MEMBER_ADDED',
+      `Mitglied "${fullName(member)}" wurde zur Familie "${family.name}" hinzugefügt`,
+      member.id,
+      family.id,
+      { memberName: fullName(member), familyName: family.name }
+    );
+    if (member.isMainFamilyMember) setMainMember(family.id, member.id);
+  }
+  return member;
+}
+
+const FIELD_LABELS = {
+  firstName: 'Vorname',
+  lastName: 'Nachname',
+  birthDate: 'Geburtsdatum',
+  street: 'Straße',
+  postalCode: 'PLZ',
+  city: 'Ort',
+  iban: 'IBAN',
+  bic: 'BIC',
+  entryDate: 'Eintrittsdatum',
+  exitDate: 'Austrittsdatum',
+  familyId: 'Familie',
+  isMainFamilyMember: 'Hauptmitglied',
+  isActive: 'Status',
+};
+
+const BOOLEAN_FIELDS = new Set(['isActive', 'isMainFamilyMember']);
+// All fields the app can store encrypted are only logged masked
+const MASKED_FIELDS = new Set(['iban', 'bic', 'birthDate']);
+const FULLY_MASKED_FIELDS = new Set(['birthDate']);
+
+function toFieldValue(field, value) {
+  if (BOOLEAN_FIELDS.has(field)) return Boolean(value);
+  if (value === undefined || value === null || value === '') return null;
+  return String(value);
+}
+
+function maskValue(value, field) {
+  if (typeof value !== 'string') return value;
+  const compact = value.replace(/\s/g, '');
+  if (compact.length <= 8 || FULLY_MASKED_FIELDS.has(field)) return '*'.repeat(compact.length);
+  return `${compact.slice(0, 4)}${'*'.repeat(compact.length - 8)}${compact.slice(-4)}`;
+}
+
+/**
+ * Old and new value of every changed field, as stored in details.changes
+ */
+function diffMemberFields(before, after) {
+  return Object.entries(FIELD_LABELS).flatMap(([field, label]) => {
+    const oldValue = toFieldValue(field, before[field]);
+    const newValue = toFieldValue(field, after[field]);
+    if (oldValue === newValue) return [];
+
+    const change = { field, label, oldValue, newValue };
+    if (field === 'familyId') {
+      if (oldValue) change.oldDisplay = db.families.find(f => f.id === oldValue)?.name;
+      if (newValue) change.newDisplay = db.families.find(f => f.id === newValue)?.name;
+    }
+    if (MASKED_FIELDS.has(field)) {
+      Object.assign(change, { oldValue: maskValue(oldValue, field), newValue: maskValue(newValue, field), masked: true });
+    }
+    return [change];
+  });
+}
+
+/**
+ * Log that a member leaves its family and/or joins another one (the member is updated by the caller)
+ */
+function changeFamily(member, newFamilyId) {
+  if (member.familyId === newFamilyId) return;
+  if (member.familyId) {
+    const oldFamily = db.families.find(f => f.id === member.familyId);
+    if (oldFamily) {
+      logAction(
+        'FAMILY_MEMBER_REMOVED',
+        `Mitglied "${fullName(member)}" wurde aus Familie "${oldFamily.name}" entfernt`,
+        member.id,
+        oldFamily.id,
+        { memberName: fullName(member), familyName: oldFamily.name }
+      );
+      if (oldFamily.mainMemberId === member.id) {
+        oldFamily.mainMemberId = undefined;
+        oldFamily.updatedAt = now();
+      }
+    }
+  }
+  if (newFamilyId) {
+    const newFamily = findFamily(newFamilyId);
+    logAction(
+      'FAMILY_MEMBER_ADDED',
+      `Mitglied "${fullName(member)}" wurde zur Familie "${newFamily.name}" hinzugefügt`,
+      member.id,
+      newFamily.id,
+      { memberName: fullName(member), familyName: newFamily.name }
+    );
+  }
+}
+
+function editMember(id, data) {
+  validateFormData(data);
+  const member = findMember(id);
+  // Optimistic locking: the client sends the updatedAt of the version it edited
+  if (data.expectedUpdatedAt !== undefined && member.updatedAt !== data.expectedUpdatedAt) {
+    throw new HttpError(409, `${fullName(member)} wurde inzwischen an anderer Stelle geändert.`, { current: member });
+  }
+  const fields = pickFormFields(data);
+  const before = { ...member };
+
+  changeFamily(member, fields.familyId);
+  Object.assign(member, fields, { updatedAt: now() });
+
+  const changes = diffMemberFields(before, member);
+  if (changes.length > 0) {
+    logAction('MEMBER_UPDATED', `Mitglied "${fullName(member)}" wurde aktualisiert`, member.id, member.familyId, {
+      changedFields: changes.map(change => change.label),
+      changes,
+      memberName: fullName(member),
+    });
+  }
+  if (member.isMainFamilyMember && member.familyId) setMainMember(member.familyId, member.id);
+  return member;
+}
+
+function setMemberActive(id, isActive) {
+  const member = findMember(id);
+  const before = { ...member };
+  member.isActive = isActive;
+  member.exitDate = isActive ? undefined : now().split('T')[0];
+  member.updatedAt = now();
+  logAction(
+    isActive ? 'MEMBER_ACTIVATED' : 'MEMBER_DEACTIVATED',
+    `Mitglied "${fullName(member)}" wurde ${isActive ? 'aktiviert' : 'deaktiviert'}`,
+    member.id,
+    member.familyId,
+    { memberName: fullName(member), changes: diffMemberFields(before, member) }
+  );
+  return member;
+}
+
+/** Actions that change member fields */
+const MEMBER_CHANGING_ACTIONS = new Set([
+  'MEMBER_UPDATED', 'MEMBER_ACTIVATED', 'MEMBER_DEACTIVATED', 'MEMBER_RESTORED', 'INTEGRITY_REPAIRED',
+  'FAMILY_MEMBER_REMOVED', 'FAMILY_MAIN_MEMBER_CHANGED', 'ACTION_UNDONE', 'ACTION_REDONE',
+]);
+
+/**
+ * Check whether an audit entry concerns a member
+ * (undo/redo entries of several members list them in details.memberIds)
+ */
+function concernsMember(entry, memberId) {
+  return entry.memberId === memberId ||
+    (Array.isArray(entry.details?.memberIds) && entry.details.memberIds.includes(memberId));
+}
+
+/** Operations that can change every member without recording their field changes */
+const ALL_MEMBERS_ACTIONS = new Set([
+  'DATA_IMPORTED', 'BACKUP_RESTORED', 'SNAPSHOT_RESTORED', 'AUDIT_LOG_CLEARED', 'AUDIT_LOG_ARCHIVED',
+]);
+
+/**
+ * Check whether an audit entry belongs to the history of a member
+ * (its own entries and operations that may have changed all members)
+ */
+function inMemberHistory(entry, memberId) {
+  return concernsMember(entry, memberId) || affectsAllMembers(entry);
+}
+
+/**
+ * Check whether an audit entry may have changed all members without recording
+ * their field changes (imports that logged every member do not count)
+ */
+function affectsAllMembers(entry) {
+  return ALL_MEMBERS_ACTIONS.has(entry.action) && entry.details?.loggedPerMember !== true;
+}
+
+/**
+ * Field changes of a member recorded in an audit entry, undefined if none were recorded for it
+ */
+function getMemberChanges(entry, memberId) {
+  if (Array.isArray(entry.details?.memberChanges)) {
+    return entry.details.memberChanges.find(item => item.memberId === memberId)?.changes;
+  }
+  if (entry.memberId === memberId && Array.isArray(entry.details?.changes)) return entry.details.changes;
+  return undefined;
+}
+
+/**
+ * Restore a former version of a member: the values before an audit entry
+ * ({ entryId }) or the state at a point in time ({ pointInTime }).
+ * Fields only recorded masked (IBAN, BIC, birth date) keep their current value.
+ */
+function restoreMember(id, source) {
+  const member = findMember(id);
+  const history = db.auditLog.filter(entry => inMemberHistory(entry, id));
+  const getChanges = (entry) => (Array.isArray(entry.details?.changes) ? entry.details.changes : []);
+  const values = {};
+  const displays = {};
+  const masked = new Set();
+  let restoredFrom;
+
+  if (source?.entryId) {
+    const entry = history.find(e => e.id === source.entryId);
+    if (!entry) throw new HttpError(404, 'Der Eintrag wurde in der Historie des Mitglieds nicht gefunden.');
+    if (entry.action !== 'MEMBER_UPDATED' || !getChanges(entry).some(change => !change.masked)) {
+      throw new HttpError(400, 'Nur Änderungen an Mitgliedsdaten können rückgängig gemacht werden.');
+    }
+    getChanges(entry).forEach(change => {
+      if (change.masked) {
+        masked.add(change.field);
+        return;
+      }
+      values[change.field] = change.oldValue;
+      displays[change.field] = change.oldDisplay;
+    });
+    restoredFrom = { entryId: entry.id, timestamp: entry.timestamp };
+  } else if (source?.pointInTime) {
+    const pointInTime = new Date(source.pointInTime);
+    if (Number.isNaN(pointInTime.getTime())) throw new HttpError(400, 'Ungültiger Zeitpunkt');
+    if (new Date(member.createdAt) > pointInTime) {
+      throw new HttpError(400, 'Zu diesem Zeitpunkt war das Mitglied noch nicht erfasst.');
+    }
+    // Revert all later changes, newest first
+    const laterEntries = history
+      .filter(entry => new Date(entry.timestamp) > pointInTime)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    // Archived entries are no longer in the log: a gap if they reach past the point in time
+    const incomplete = laterEntries.filter(entry => entry.action === 'AUDIT_LOG_ARCHIVED'
+      ? !(new Date(entry.details?.toTimestamp) <= pointInTime)
+      : !getMemberChanges(entry, id) && (MEMBER_CHANGING_ACTIONS.has(entry.action) || affectsAllMembers(entry)));
+    if (incomplete.length > 0) {
+      throw new HttpError(
+        400,
+        `${incomplete.length} spätere(r) Eintrag/Einträge enthalten keine Feldwerte des Mitglieds. ` +
+        'Der Stand zu diesem Zeitpunkt kann nicht vollständig wiederhergestellt werden.'
+      );
+    }
+    laterEntries.forEach(entry => (getMemberChanges(entry, id) ?? []).forEach(change => {
+        values[change.field] = change.oldValue;
+        displays[change.field] = change.oldDisplay;
+        if (change.masked) masked.add(change.field);
+        else masked.delete(change.field);
+      }));
+    masked.forEach(field => delete values[field]);
+    restoredFrom = { timestamp: pointInTime.toISOString() };
+  } else {
+    throw new HttpError(400, 'entryId oder pointInTime fehlt');
+  }
+
+  const fields = {};
+  Object.keys(FIELD_LABELS).forEach(field => {
+    if (!(field in values)) return;
+    const value = values[field];
+    fields[field] = value === null ? (field === 'exitDate' || field === 'familyId' ? undefined : '') : value;
+  });
+  const familyId = 'familyId' in fields ? fields.familyId : member.familyId;
+  if (familyId && !db.families.some(f => f.id === familyId)) {
+    throw new HttpError(
+      400,
+      `Die Familie "${displays.familyId ?? familyId}" existiert nicht mehr. Bitte ordnen Sie das Mitglied manuell einer Familie zu.`
+    );
+  }
+  if (!familyId) fields.isMainFamilyMember = false;
+
+  const changes = diffMemberFields(member, { ...member, ...fields });
+  if (changes.length === 0) throw new HttpError(400, 'Die Daten entsprechen bereits diesem Stand.');
+
+  changeFamily(member, familyId);
+  Object.assign(member, fields, { updatedAt: now() });
+  const when = new Date(restoredFrom.timestamp).toLocaleString('de-DE');
+  logAction(
+    'MEMBER_RESTORED',
+    restoredFrom.entryId
+      ? `Mitglied "${fullName(member)}" wurde auf den Stand vor der Änderung vom ${when} zurückgesetzt`
+      : `Mitglied "${fullName(member)}" wurde auf den Stand vom ${when} zurückgesetzt`,
+    member.id,
+    member.familyId,
+    {
+      changedFields: changes.map(change => change.label),
+      changes,
+      memberName: fullName(member),
+      restoredEntryId: restoredFrom.entryId,
+      restoredTimestamp: restoredFrom.timestamp,
+      skippedFields: [...masked].map(field => FIELD_LABELS[field]),
+    }
+  );
+  if (member.isMainFamilyMember && member.familyId) setMainMember(member.familyId, member.id);
+  return member;
+}
+
+function removeFromFamily(id) {
+  const member = findMember(id);
+  const family = member.familyId && db.families.find(f => f.id === member.familyId);
+  if (!family) return member;
+
+  const before = { ...member };
+  if (family.mainMemberId === id) {
+    family.mainMemberId = undefined;
+    family.updatedAt = now();
+  }
+  member.familyId = undefined;
+  member.isMainFamilyMember = false;
+  member.updatedAt = now();
+  logAction(
+    'FAMILY_MEMBER_REMOVED',
+    `Mitglied "${fullName(member)}" wurde aus Familie "${family.name}" entfernt`,
+    member.id,
+    family.id,
+    { memberName: fullName(member), familyName: family.name, changes: diffMemberFields(before, member) }
+  );
+  return member;
+}
+
+function createFamily(body) {
+  if (!body?.name?.trim()) throw new HttpError(400, 'Familienname fehlt');
+  const timestamp = now();
+  const family = {
+    id: randomUUID(),
+    name: body.name.trim(),
+    mainMemberId: body.mainMemberId || undefined,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  db.families.push(family);
+  logAction('FAMILY_CREATED', `Familie "${family.name}" wurde erstellt`, undefined, family.id, {
+    familyName: family.name,
+  });
+  return family;
+}
+
+function queryMembers(query) {
+  const showActive = query.get('showActive') !== 'false';
+  const showInactive = query.get('showInactive') !== 'false';
+  const search = (query.get('search') || '').toLowerCase();
+  const familyId = query.get('familyId');
+
+  return db.members
+    .filter(m => (m.isActive ? showActive : showInactive))
+    .filter(m => !search || [m.firstName, m.lastName, m.city, m.id].some(v => v.toLowerCase().includes(search)))
+    .filter(m => !familyId || m.familyId === familyId)
+    .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+}
+
+function queryAuditLog(query) {
+  const action = query.get('action');
+  const memberId = query.get('memberId');
+  const familyId = query.get('familyId');
+  const actorId = query.get('actorId');
+  const from = query.get('from') ? new Date(`${query.get('from')}T00:00:00`) : undefined;
+  const to = query.get('to') ? new Date(`${query.get('to')}T23:59:59.999`) : undefined;
+  const search = (query.get('search') || '').trim().toLowerCase();
+
+  const matches = db.auditLog.filter(entry => {
+    if (action && entry.action !== action) return false;
+    if (memberId && !concernsMember(entry, memberId)) return false;
+    if (familyId && entry.familyId !== familyId) return false;
+    if (actorId === '__none__' ? entry.actor : actorId && entry.actor?.id !== actorId) return false;
+    const timestamp = new Date(entry.timestamp);
+    if (from && timestamp < from) return false;
+    if (to && timestamp > to) return false;
+    if (search) {
+      const changes = Array.isArray(entry.details?.changes) ? entry.details.changes : [];
+      const texts = [entry.description, entry.actor?.name, entry.memberId, entry.familyId, ...changes.map(c => c.label)];
+      if (!texts.some(text => text?.toLowerCase().includes(search))) return false;
+    }
+    return true;
+  });
+
+  const pageSize = Math.max(1, Math.floor(Number(query.get('pageSize')) || 20));
+  const totalPages = Math.max(1, Math.ceil(matches.length / pageSize));
+  const page = Math.min(Math.max(1, Math.floor(Number(query.get('page')) || 1)), totalPages);
+  return {
+    entries: matches.slice((page - 1) * pageSize, page * pageSize),
+    total: matches.length,
+    page,
+    pageSize,
+    totalPages,
+  };
+}
+
+// ============================================
+// Routing
+// ============================================
+
+/** Routes: [method, path pattern, handler(params, query, body)] */
+const routes = [
+  ['GET', '/members', (_, query) => queryMembers(query)],
+  ['POST', '/members', (_, __, body) => createMember(body)],
+  ['GET', '/members/:id', ({ id }) => findMember(id)],
+  ['PUT', '/members/:id', ({ id }, _, body) => editMember(id, body)],
+  ['POST', '/members/:id/activate', ({ id }) => setMemberActive(id, true)],
+  ['POST', '/members/:id/deactivate', ({ id }) => setMemberActive(id, false)],
+  ['POST', '/members/:id/restore', ({ id }, _, body) => restoreMember(id, body)],
+  ['DELETE', '/members/:id/family', ({ id }) => removeFromFamily(id)],
+  ['GET', '/members/:id/audit-log', ({ id }) => db.auditLog.filter(entry => inMemberHistory(entry, id))],
+  ['GET', '/stats', () => ({
+    total: db.members.length,
+    active: db.members.filter(m => m.isActive).length,
+    inactive: db.members.filter(m => !m.isActive).length,
+    familyCount: db.families.length,
+  })],
+  ['GET', '/families', () => [...db.families].sort((a, b) => a.name.localeCompare(b.name))],
+  ['POST', '/families', (_, __, body) => createFamily(body)],
+  ['GET', '/families/:id', ({ id }) => findFamily(id)],
+  ['GET', '/families/:id/members', ({ id }) => db.members.filter(m => m.familyId === id)],
+  ['PUT', '/families/:id/main-member', ({ id }, _, body) => setMainMember(id, body?.memberId)],
+  ['GET', '/audit-log', (_, query) => db.auditLog.slice(0, Number(query.get('limit')) || 50)],
+  ['GET', '/audit-log/search', (_, query) => queryAuditLog(query)],
+  ['GET', '/audit-log/verify', (_, query) => verifyAuditLog(query)],
+];
+
+/**
+ * Find the handler of a request and the values of its path parameters
+ * @throws HttpError 400 if a path segment is not validly URI-encoded
+ */
+function matchRoute(method, path) {
+  const segments = path.split('/').filter(Boolean);
+  for (const [routeMethod, pattern, handler] of routes) {
+    if (routeMethod !== method) continue;
+    const patternSegments = pattern.split('/').filter(Boolean);
+    if (patternSegments.length !== segments.length) continue;
+
+    const params = {};
+    const matches = patternSegments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        try {
+          params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        } catch {
+          throw new HttpError(400, `Ungültig kodierter Pfad: ${path}`);
+        }
+        return true;
+      }
+      return segment === segments[index];
+    });
+    if (matches) return { handler, params };
+  }
+  return null;
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    request.on('data', chunk => (data += chunk));
+    request.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : undefined);
+      } catch {
+        reject(new HttpError(400, 'Ungültiges JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function parseActor(header) {
+  if (!header) return undefined;
+  try {
+    const actor = JSON.parse(decodeURIComponent(header));
+    return typeof actor?.id === 'string' && typeof actor?.name === 'string'
+      ? { id: actor.id, name: actor.name }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function send(response, status, body) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Actor',
+  });
+  response.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+
+  if (!url.pathname.startsWith(API_PREFIX)) {
+    send(response, 404, { error: 'Nicht gefunden' });
+    return;
+  }
+
+  try {
+    const route = matchRoute(request.method, url.pathname.slice(API_PREFIX.length));
+    if (!route) {
+      throw new HttpError(404, `Unbekannter Endpunkt: ${request.method} ${url.pathname}`);
+    }
+
+    const body = await readBody(request);
+    requestActor = parseActor(request.headers['x-actor']);
+    const result = route.handler(route.params, url.searchParams, body);
+    if (request.method !== 'GET') saveDb();
+    send(response, 200, result);
+  } catch (error) {
+    // Discard partial changes of the failed request
+    db = loadDb();
+    const status = error instanceof HttpError ? error.status : 500;
+    send(response, status, { error: error.message, ...(error instanceof HttpError ? error.extra : {}) });
+  }
+
+  console.log(`${request.method} ${url.pathname} -> ${response.statusCode}`);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock-Server läuft auf http://localhost:${PORT}${API_PREFIX} (Datei: ${DB_FILE})`);
+});
@@ -0,0 +1,45 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { spawn } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = 3917;
+const API_URL = `http://localhost:${PORT}/api`;
+
+const dataDir = mkdtempSync(join(tmpdir(), 'kanu-mock-server-'));
+let server;
+
+beforeAll(async () => {
+  server = spawn(process.execPath, [join(dirname(fileURLToPath(import.meta.url)), 'server.js')], {
+    env: { ...process.env, PORT: String(PORT), DB_FILE: join(dataDir, 'db.json') },
+  });
+  // The server announces itself once it listens
+  await new Promise((resolve, reject) => {
+    server.stdout.on('data', chunk => {
+      if (String(chunk).includes('läuft')) resolve();
+    });
+    server.on('exit', code => reject(new Error(`Mock-Server beendet (${code})`)));
+  });
+});
+
+afterAll(() => {
+  server.kill();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('mock server', () => {
+  it('answers 400 for a malformed path', async () => {
+    const response = await fetch(`${API_URL}/members/%E0%A4%A`);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('Ungültig kodierter Pfad');
+  });
+
+  it('answers 404 for an unknown member', async () => {
+    const response = await fetch(`${API_URL}/members/${encodeURIComponent('unbekannt-ä')}`);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -3,12 +3,16 @@
  * Kanu Member Management Demo App
  */
 
-import { useState, useEffect, type ReactNode } from 'react';
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
 import type { Member, MemberFormData } from './models/types';
 import { useMembers } from './hooks/useMembers';
 import { useFamilies } from './hooks/useFamilies';
-import { initializeExampleData, resetToExampleData } from './services/initService';
-import { Button, Card, CardHeader, Modal, ThemeToggle } from './components/ui';
+import { useUndoRedo } from './hooks/useUndoRedo';
+import { useEncryption } from './hooks/useEncryption';
+import { resetToExampleData } from './services/initService';
+import { ConcurrentModificationError } from './services/memberService';
+import { subscribeToExternalChanges } from './services/syncService';
+import { ActorSwitcher, Button, Card, CardHeader, Modal, ThemeToggle, Toast } from './components/ui';
 import { MemberList } from './components/members/MemberList';
 import { MemberForm } from './components/members/MemberForm';
 import { MemberFilter } from './components/members/MemberFilter';
@@ -16,20 +20,44 @@ import { MemberDetails } from './components/members/MemberDetails';
 import { CSVImportExport } from './components/members/CSVImportExport';
 import { FamilyManager } from './components/families/FamilyManager';
 import { AuditLogViewer } from './components/audit/AuditLogViewer';
+import { BackupRestore } from './components/settings/BackupRestore';
+import { SnapshotManager } from './components/settings/SnapshotManager';
+import { ActorManager } from './components/settings/ActorManager';
+import { AuditArchiveManager } from './components/settings/AuditArchiveManager';
+import { EncryptionManager } from './components/settings/EncryptionManager';
+import { DataIntegrityChecker } from './components/settings/DataIntegrityChecker';
+import { EncryptionUnlockBanner } from './components/EncryptionUnlock';
+import { StorageUsageMeter } from './components/settings/StorageUsageMeter';
+import { StorageWarning } from './components/StorageWarning';
+import { getUrlParams, updateUrlParams } from './utils/urlParams';
 
 type TabType = 'members' | 'families' | 'audit' | 'settings';
 
+const TAB_IDS: TabType[] = ['members', 'families', 'audit', 'settings'];
+
+/**
+ * Read the active tab from the URL (?tab=audit), so filtered views can be shared
+ */
+function getInitialTab(): TabType {
+  const tab = getUrlParams().get('tab');
+  return TAB_IDS.find(id => id === tab) ?? 'members';
+}
+
 function App() {
-  const [activeTab, setActiveTab] = useState<TabType>('members');
+  const [activeTab, setActiveTab] = useState<TabType>(getInitialTab);
   const [isFormModalOpen, setIsFormModalOpen] = useState(false);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
   const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
   const [memberToToggle, setMemberToToggle] = useState<Member | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [resetError, setResetError] = useState<string | null>(null);
   
   const {
     members,
     loading,
+    error: membersError,
     filter,
     stats,
     setFilter,
@@ -37,29 +65,62 @@ function App() {
     addMember,
     updateMember,
     toggleMemberStatus,
+    restoreMemberVersion,
     getMemberById,
   } = useMembers();
   
   const {
     families,
+    error: familiesError,
     refreshFamilies,
     addFamily,
-    getFamilyById,
   } = useFamilies();
   
-  // Initialize example data on first load
+  const dataError = membersError || familiesError || resetError;
+  
+  const refreshAll = useCallback(() => {
+    refreshMembers();
+    refreshFamilies();
+  }, [refreshMembers, refreshFamilies]);
+  
+  const undoRedo = useUndoRedo(refreshAll);
+  
+  // Keep the member shown in the details modal up to date when another tab changes it
+  const detailsMemberId = isDetailsModalOpen ? selectedMember?.id : undefined;
+  useEffect(() => {
+    if (!detailsMemberId) return;
+    return subscribeToExternalChanges(async () => {
+      const current = await getMemberById(detailsMemberId);
+      if (current) setSelectedMember(current);
+    });
+  }, [detailsMemberId, getMemberById]);
+  
+  // Reload the data when the encrypted fields were unlocked, locked or decrypted
+  const handleEncryptionChange = useCallback(() => {
+    refreshAll();
+    if (!detailsMemberId) return;
+    getMemberById(detailsMemberId).then(current => {
+      if (current) setSelectedMember(current);
+    });
+  }, [refreshAll, detailsMemberId, getMemberById]);
+  
+  const encryption = useEncryption(handleEncryptionChange);
+  
+  // Keep the active tab in the URL (the default tab needs no parameter)
   useEffect(() => {
-    initializeExampleData();
-  }, []);
+    updateUrlParams({ tab: activeTab === 'members' ? undefined : activeTab });
+  }, [activeTab]);
   
   // Handlers
   const handleAddMember = () => {
     setSelectedMember(null);
+    setFormError(null);
     setIsFormModalOpen(true);
   };
   
   const handleEditMember = (member: Member) => {
     setSelectedMember(member);
+    setFormError(null);
     setIsFormModalOpen(true);
   };
   
@@ -73,46 +134,67 @@ function App() {
     setIsConfirmModalOpen(true);
   };
   
-  const confirmToggleStatus = () => {
+  const confirmToggleStatus = async () => {
     if (memberToToggle) {
-      toggleMemberStatus(memberToToggle.id);
       setIsConfirmModalOpen(false);
       setMemberToToggle(null);
       
-      // If details modal is open, refresh the selected member
-      if (isDetailsModalOpen && selectedMember?.id === memberToToggle.id) {
-        const updated = getMemberById(memberToToggle.id);
-        if (updated) setSelectedMember(updated);
+      try {
+        const updated = await toggleMemberStatus(memberToToggle.id);
+        
+        // If details modal is open, refresh the selected member
+        if (isDetailsModalOpen && selectedMember?.id === memberToToggle.id) {
+          setSelectedMember(updated);
+        }
+      } catch {
+        // The error is shown by the hook's error banner
       }
     }
   };
   
-  const handleFormSubmit = (data: MemberFormData) => {
-    if (selectedMember) {
-      updateMember(selectedMember.id, data);
-    } else {
-      addMember(data);
+  const handleFormSubmit = async (data: MemberFormData, expectedUpdatedAt?: string) => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      if (selectedMember) {
+        await updateMember(selectedMember.id, data, expectedUpdatedAt);
+      } else {
+        await addMember(data);
+      }
+      setIsFormModalOpen(false);
+      setSelectedMember(null);
+      refreshFamilies();
+    } catch (err) {
+      // Conflicting edits are resolved in the form
+      if (err instanceof ConcurrentModificationError) throw err;
+      setFormError(err instanceof Error ? err.message : 'Fehler beim Speichern');
+    } finally {
+      setIsSaving(false);
     }
-    setIsFormModalOpen(false);
-    setSelectedMember(null);
-    refreshFamilies();
   };
   
-  const handleCreateFamily = (name: string) => {
-    addFamily(name);
+  const handleCreateFamily = async (name: string) => {
+    try {
+      await addFamily(name);
+    } catch {
+      // The error is shown by the hook's error banner
+    }
   };
   
-  const handleResetData = () => {
-    if (confirm('Möchten Sie wirklich alle Daten zurücksetzen und die Demo-Daten neu laden?')) {
-      resetToExampleData();
+  const handleResetData = async () => {
+    if (!confirm('Möchten Sie wirklich alle Daten zurücksetzen und die Demo-Daten neu laden?')) return;
+    try {
+      await resetToExampleData({ confirmWithoutSnapshot: message => confirm(message) });
+      setResetError(null);
       refreshMembers();
       refreshFamilies();
+    } catch (err) {
+      setResetError(err instanceof Error ? err.message : 'Fehler beim Zurücksetzen');
     }
   };
   
   const handleImportComplete = () => {
-    refreshMembers();
-    refreshFamilies();
+    refreshAll();
   };
   
   // Tab navigation
@@ -174,8 +256,35 @@ function App() {
               </div>
             </div>
             
-            {/* Theme Toggle & GitHub Link */}
+            {/* Actor, Undo/Redo, Theme Toggle & GitHub Link */}
             <div className="flex items-center gap-3">
+              <ActorSwitcher />
+              {undoRedo.available && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={undoRedo.undo}
+                    disabled={!undoRedo.canUndo}
+                    className="bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-white/10 p-2 rounded-lg transition-colors"
+                    title={undoRedo.undoLabel ? `Rückgängig: ${undoRedo.undoLabel} (Strg+Z)` : 'Rückgängig (Strg+Z)'}
+                    aria-label="Rückgängig"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={undoRedo.redo}
+                    disabled={!undoRedo.canRedo}
+                    className="bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-white/10 p-2 rounded-lg transition-colors"
+                    title={undoRedo.redoLabel ? `Wiederholen: ${undoRedo.redoLabel} (Strg+Y)` : 'Wiederholen (Strg+Y)'}
+                    aria-label="Wiederholen"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                    </svg>
+                  </button>
+                </div>
+              )}
               <ThemeToggle />
               <a
                 href="https://github.com/malibay81/KanuMemberDemo"
@@ -236,6 +345,27 @@ function App() {
       
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Data Error */}
+        <StorageWarning onOpenSettings={() => setActiveTab('settings')} />
+        
+        {encryption.enabled && !encryption.unlocked && <EncryptionUnlockBanner />}
+        
+        {dataError && (
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{dataError}</p>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                refreshMembers();
+                refreshFamilies();
+              }}
+            >
+              Erneut versuchen
+            </Button>
+          </div>
+        )}
+        
         {/* Members Tab */}
         {activeTab === 'members' && (
           <div className="space-y-6">
@@ -270,7 +400,10 @@ function App() {
             </Card>
             
             {/* CSV Import/Export */}
-            <CSVImportExport onImportComplete={handleImportComplete} />
+            <CSVImportExport
+              onImportComplete={handleImportComplete}
+              onShowIntegrityIssues={() => setActiveTab('settings')}
+            />
           </div>
         )}
         
@@ -341,6 +474,20 @@ function App() {
                 </div>
               </div>
             </Card>
+            
+            <ActorManager />
+            
+            <EncryptionManager />
+            
+            <DataIntegrityChecker onRepairComplete={handleImportComplete} />
+            
+            <BackupRestore onRestoreComplete={handleImportComplete} />
+            
+            <SnapshotManager onRestoreComplete={handleImportComplete} />
+            
+            <StorageUsageMeter />
+            
+            <AuditArchiveManager />
           </div>
         )}
       </main>
@@ -364,9 +511,15 @@ function App() {
         title={selectedMember ? 'Mitglied bearbeiten' : 'Neues Mitglied anlegen'}
         size="lg"
       >
+        {formError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {formError}
+          </div>
+        )}
         <MemberForm
           member={selectedMember || undefined}
           families={families}
+          isLoading={isSaving}
           onSubmit={handleFormSubmit}
           onCancel={() => {
             setIsFormModalOpen(false);
@@ -388,14 +541,20 @@ function App() {
         {selectedMember && (
           <MemberDetails
             member={selectedMember}
-            family={selectedMember.familyId ? getFamilyById(selectedMember.familyId) : undefined}
+            family={selectedMember.familyId ? families.find(f => f.id === selectedMember.familyId) : undefined}
             onEdit={() => {
               setIsDetailsModalOpen(false);
+              setFormError(null);
               setIsFormModalOpen(true);
             }}
             onToggleStatus={() => {
               handleToggleStatus(selectedMember);
             }}
+            onRestore={async (source) => {
+              const restored = await restoreMemberVersion(selectedMember.id, source);
+              setSelectedMember(restored);
+              refreshFamilies();
+            }}
             onClose={() => {
               setIsDetailsModalOpen(false);
               setSelectedMember(null);
@@ -440,6 +599,21 @@ function App() {
           </div>
         </div>
       </Modal>
+      
+      {/* Undo/Redo Toast */}
+      {undoRedo.toast && (
+        <Toast
+          message={undoRedo.toast.message}
+          variant={undoRedo.toast.variant}
+          actionLabel={
+            undoRedo.toast.action === 'undo' ? 'Rückgängig'
+              : undoRedo.toast.action === 'redo' ? 'Wiederholen'
+              : undefined
+          }
+          onAction={undoRedo.toast.action === 'undo' ? undoRedo.undo : undoRedo.redo}
+          onClose={undoRedo.dismissToast}
+        />
+      )}
     </div>
   );
 }
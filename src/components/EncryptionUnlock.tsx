@@ -0,0 +1,61 @@
+/**
+ * Encryption Unlock Components
+ * Passphrase prompt for the encrypted member fields, shown as banner while the
+ * data is locked (once per session, the key is not stored)
+ */
+
+import { useState } from 'react';
+import { Button, Input } from './ui';
+import { unlock } from '../services/encryptionService';
+
+export function EncryptionUnlockForm() {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Entsperren');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row sm:items-start gap-2">
+      <div className="flex-1 max-w-xs">
+        <Input
+          type="password"
+          aria-label="Passwort"
+          placeholder="Passwort"
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          error={error ?? undefined}
+          disabled={isUnlocking}
+        />
+      </div>
+      <Button type="submit" variant="secondary" disabled={isUnlocking || !passphrase}>
+        {isUnlocking ? 'Entsperre...' : 'Entsperren'}
+      </Button>
+    </form>
+  );
+}
+
+export function EncryptionUnlockBanner() {
+  return (
+    <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-3">
+      <p className="text-sm text-yellow-800">
+        Bankdaten und weitere geschützte Felder sind verschlüsselt gespeichert. Geben Sie das
+        Passwort ein, um sie anzuzeigen und zu bearbeiten.
+      </p>
+      <EncryptionUnlockForm />
+    </div>
+  );
+}
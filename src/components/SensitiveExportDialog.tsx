@@ -0,0 +1,59 @@
+/**
+ * Sensitive Export Dialog Component
+ * Asks whether encrypted member fields are exported decrypted or stay encrypted
+ * (CSV export, backup download)
+ */
+
+import { Button, Modal } from './ui';
+import { ENCRYPTABLE_FIELD_LABELS } from '../services/encryptionService';
+import { useEncryption } from '../hooks/useEncryption';
+
+interface SensitiveExportDialogProps {
+  isOpen: boolean;
+  /** What is exported, e.g. 'CSV-Export' */
+  title: string;
+  onChoose: (includeDecrypted: boolean) => void;
+  onCancel: () => void;
+}
+
+export function SensitiveExportDialog({ isOpen, title, onChoose, onCancel }: SensitiveExportDialogProps) {
+  const { unlocked, fields } = useEncryption();
+  const fieldLabels = fields.map(field => ENCRYPTABLE_FIELD_LABELS[field]).join(', ');
+
+  return (
+    <Modal isOpen={isOpen} onClose={onCancel} title={title} size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          Die Felder {fieldLabels} sind verschlüsselt gespeichert. Sollen sie entschlüsselt in die
+          Datei aufgenommen werden?
+        </p>
+        <ul className="text-sm text-gray-600 list-disc list-inside space-y-1">
+          <li>
+            <span className="font-medium">Verschlüsselt lassen:</span> Die Werte können nur mit dem
+            Passwort in dieser Anwendung wieder gelesen werden.
+          </li>
+          <li>
+            <span className="font-medium">Entschlüsselt aufnehmen:</span> Die Datei enthält die Werte im
+            Klartext. Bewahren Sie sie entsprechend sicher auf.
+          </li>
+        </ul>
+        {!unlocked && (
+          <p className="text-sm text-yellow-700">
+            Zum Entschlüsseln müssen die Daten zuerst mit dem Passwort entsperrt werden.
+          </p>
+        )}
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+          <Button variant="ghost" onClick={onCancel}>
+            Abbrechen
+          </Button>
+          <Button variant="secondary" onClick={() => onChoose(false)}>
+            Verschlüsselt lassen
+          </Button>
+          <Button onClick={() => onChoose(true)} disabled={!unlocked}>
+            Entschlüsselt aufnehmen
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Startup Error Component
+ * Shown instead of the app if the stored data cannot be loaded safely
+ */
+
+import { SchemaVersionError } from '../services/migrationService';
+import { Card } from './ui';
+
+interface StartupErrorProps {
+  error: unknown;
+}
+
+export function StartupError({ error }: StartupErrorProps) {
+  const isNewerSchema = error instanceof SchemaVersionError;
+  
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center p-4">
+      <Card className="max-w-lg w-full">
+        <h1 className="text-xl font-semibold text-red-700 mb-2">
+          {isNewerSchema ? 'Daten einer neueren Version gefunden' : 'Die Anwendung konnte nicht gestartet werden'}
+        </h1>
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          {error instanceof Error ? error.message : 'Unbekannter Fehler'}
+        </p>
+        {isNewerSchema && (
+          <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+            Um Datenverlust zu vermeiden, wird diese ältere App-Version nicht ausgeführt.
+            Bitte verwenden Sie die aktuelle Version der Anwendung.
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Storage Warning Component
+ * Warns when the browser storage is nearly full, before saving fails,
+ * and explains what to do when a change could not be saved because it is full
+ * or because a background write failed
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from './ui';
+import { onDataCommitted, onStorageQuotaExceeded, onWriteFailed, requiresReload } from '../services/storageService';
+import {
+  canSwitchToIndexedDB,
+  formatBytes,
+  getStorageUsage,
+  isStorageNearlyFull,
+  switchToIndexedDB,
+  type StorageUsage,
+} from '../services/storageUsageService';
+
+interface StorageWarningProps {
+  onOpenSettings: () => void;
+}
+
+export function StorageWarning({ onOpenSettings }: StorageWarningProps) {
+  const [usage, setUsage] = useState<StorageUsage | undefined>(undefined);
+  const [quotaExceeded, setQuotaExceeded] = useState(false);
+  const [writeError, setWriteError] = useState<Error | null>(null);
+  const [switchError, setSwitchError] = useState<string | null>(null);
+
+  // Check on start and after every write
+  useEffect(() => {
+    const check = () => {
+      getStorageUsage()
+        .then(setUsage)
+        .catch(error => console.error('Speicherbelegung konnte nicht ermittelt werden:', error));
+    };
+    check();
+    const unsubscribeCommits = onDataCommitted(() => {
+      // A successful write means there is enough space again
+      setQuotaExceeded(false);
+      check();
+    });
+    const unsubscribeQuota = onStorageQuotaExceeded(() => {
+      setQuotaExceeded(true);
+      check();
+    });
+    const unsubscribeWriteFailures = onWriteFailed(error => {
+      setWriteError(error);
+    });
+    return () => {
+      unsubscribeCommits();
+      unsubscribeQuota();
+      unsubscribeWriteFailures();
+    };
+  }, []);
+
+  const handleSwitch = async () => {
+    if (!confirm('Die Daten werden in die IndexedDB übertragen und die Anwendung neu geladen. Fortfahren?')) {
+      return;
+    }
+    try {
+      await switchToIndexedDB();
+      window.location.reload();
+    } catch (error) {
+      setSwitchError(error instanceof Error ? error.message : 'Fehler beim Umstellen auf IndexedDB');
+    }
+  };
+
+  if (quotaExceeded) {
+    return (
+      <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg space-y-3">
+        <div className="text-sm text-red-700">
+          <p className="font-medium">
+            Der Browser-Speicher ist voll – die letzte Änderung wurde nicht gespeichert.
+          </p>
+          <p>Die gespeicherten Daten sind unverändert. So schaffen Sie Platz:</p>
+          <ul className="list-disc list-inside mt-1">
+            <li>Ältere Einträge der Historie archivieren (Einstellungen → Archivierung der Historie)</li>
+            {canSwitchToIndexedDB() && (
+              <li>Auf IndexedDB umstellen, die deutlich mehr Platz bietet</li>
+            )}
+          </ul>
+          {switchError && <p className="mt-2">{switchError}</p>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="secondary" size="sm" onClick={onOpenSettings}>
+            Zur Archivierung
+          </Button>
+          {canSwitchToIndexedDB() && (
+            <Button variant="secondary" size="sm" onClick={handleSwitch}>
+              Auf IndexedDB umstellen
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (writeError) {
+    return (
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+        <div className="text-sm text-red-700">
+          <p className="font-medium">{writeError.message}</p>
+          {!requiresReload(writeError) && (
+            <p>Die letzte Änderung wurde zurückgenommen. Bitte prüfen Sie die Daten und wiederholen Sie die Änderung.</p>
+          )}
+        </div>
+        {requiresReload(writeError) ? (
+          <Button variant="secondary" size="sm" onClick={() => window.location.reload()}>
+            Seite neu laden
+          </Button>
+        ) : (
+          <Button variant="secondary" size="sm" onClick={() => setWriteError(null)}>
+            Schließen
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (!usage || !isStorageNearlyFull(usage)) return null;
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+      <p className="text-sm text-yellow-800">
+        Der Browser-Speicher ist zu {Math.round(usage.ratio * 100)} % belegt
+        ({formatBytes(usage.usedBytes)} von {formatBytes(usage.quotaBytes)}). Archivieren Sie ältere
+        Einträge der Historie, bevor Änderungen nicht mehr gespeichert werden können.
+      </p>
+      <Button variant="secondary" size="sm" onClick={onOpenSettings}>
+        Zur Archivierung
+      </Button>
+    </div>
+  );
+}
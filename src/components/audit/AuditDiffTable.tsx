@@ -0,0 +1,45 @@
+/**
+ * Audit Diff Table Component
+ * Shows old and new value of each field changed by an audit log entry
+ */
+
+import type { FieldChange } from '../../models/types';
+import { formatFieldValue } from '../../services/auditService';
+
+interface AuditDiffTableProps {
+  changes: FieldChange[];
+}
+
+export function AuditDiffTable({ changes }: AuditDiffTableProps) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="mt-2 overflow-x-auto">
+      <table className="min-w-full text-xs border border-gray-200 rounded">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="px-2 py-1 text-left font-medium text-gray-500">Feld</th>
+            <th className="px-2 py-1 text-left font-medium text-gray-500">Vorher</th>
+            <th className="px-2 py-1 text-left font-medium text-gray-500">Nachher</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {changes.map(change => (
+            <tr key={change.field}>
+              <td className="px-2 py-1 text-gray-700 whitespace-nowrap">
+                {change.label}
+                {change.masked && <span className="ml-1 text-gray-400">(maskiert)</span>}
+              </td>
+              <td className="px-2 py-1 text-red-700 line-through decoration-red-300 font-mono break-all">
+                {formatFieldValue(change.field, change.oldValue, change.oldDisplay)}
+              </td>
+              <td className="px-2 py-1 text-green-700 font-mono break-all">
+                {formatFieldValue(change.field, change.newValue, change.newDisplay)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,22 +1,160 @@
 /**
  * Audit Log Viewer Component
- * Displays the history of all actions in the application
+ * Displays the history of all actions in the application.
+ * The complete log can be searched and filtered; the filters are kept in the URL.
  */
 
-import { useState, useEffect } from 'react';
-import type { AuditLogEntry } from '../../models/types';
-import { Card, Badge, Button } from '../ui';
-import { getRecentAuditLogs, formatActionType } from '../../services/auditService';
+import { useState, useEffect, useCallback } from 'react';
+import type { AuditChainHead, AuditLogPage, AuditLogQuery, Family, Member } from '../../models/types';
+import { Card, Badge, Button, Input, Select } from '../ui';
+import {
+  DEFAULT_AUDIT_PAGE_SIZE,
+  NO_ACTOR_FILTER,
+  formatActionType,
+  getAuditActionTypes,
+  getFieldChanges,
+  isAuditActionType,
+} from '../../services/auditService';
+import { getDataSource } from '../../services/dataSource';
+import { subscribeToExternalChanges } from '../../services/syncService';
+import { describeChainProblem, type AuditChainStatus } from '../../services/auditIntegrityService';
+import { getActors } from '../../services/actorService';
+import { downloadAuditLog, type AuditExportFormat } from '../../services/auditExportService';
+import { getUrlParams, updateUrlParams } from '../../utils/urlParams';
+import { AuditDiffTable } from './AuditDiffTable';
+
+/** URL parameter of each filter */
+const URL_KEYS = {
+  action: 'action',
+  memberId: 'member',
+  familyId: 'family',
+  actorId: 'actor',
+  from: 'from',
+  to: 'to',
+  search: 'q',
+  page: 'page',
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Read the filters from the URL, ignoring invalid values
+ */
+function readQueryFromUrl(): AuditLogQuery {
+  const params = getUrlParams();
+  const get = (key: keyof typeof URL_KEYS) => params.get(URL_KEYS[key]) || undefined;
+  const action = get('action');
+  const from = get('from');
+  const to = get('to');
+  const page = Number(get('page'));
+
+  return {
+    action: action && isAuditActionType(action) ? action : undefined,
+    memberId: get('memberId'),
+    familyId: get('familyId'),
+    actorId: get('actorId'),
+    from: from && DATE_PATTERN.test(from) ? from : undefined,
+    to: to && DATE_PATTERN.test(to) ? to : undefined,
+    search: get('search'),
+    page: Number.isInteger(page) && page > 1 ? page : undefined,
+  };
+}
+
+/**
+ * Write the filters to the URL (empty filters are removed)
+ */
+function writeQueryToUrl(query: AuditLogQuery): void {
+  updateUrlParams({
+    [URL_KEYS.action]: query.action,
+    [URL_KEYS.memberId]: query.memberId,
+    [URL_KEYS.familyId]: query.familyId,
+    [URL_KEYS.actorId]: query.actorId,
+    [URL_KEYS.from]: query.from,
+    [URL_KEYS.to]: query.to,
+    [URL_KEYS.search]: query.search,
+    [URL_KEYS.page]: query.page && query.page > 1 ? query.page : undefined,
+  });
+}
+
+/**
+ * Remove all filters from the URL
+ */
+function clearQueryFromUrl(): void {
+  updateUrlParams(Object.fromEntries(Object.values(URL_KEYS).map(key => [key, undefined])));
+}
 
 export function AuditLogViewer() {
-  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
-  const [displayCount, setDisplayCount] = useState(20);
+  const [query, setQuery] = useState<AuditLogQuery>(readQueryFromUrl);
+  const [result, setResult] = useState<AuditLogPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null);
+  const [recordedHead, setRecordedHead] = useState<AuditChainHead | undefined>();
+  const [headInput, setHeadInput] = useState({ hash: '', count: '' });
+  const [headError, setHeadError] = useState<string | null>(null);
+  const [exportedHead, setExportedHead] = useState<AuditChainHead | undefined>();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [families, setFamilies] = useState<Family[]>([]);
+  
+  const loadLogs = useCallback(async () => {
+    try {
+      setResult(await getDataSource().queryAuditLogs({ ...query, pageSize: DEFAULT_AUDIT_PAGE_SIZE }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Historie');
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+  
+  const verifyLog = useCallback(async () => {
+    try {
+      setChainStatus(await getDataSource().verifyAuditLog(recordedHead));
+    } catch (err) {
+      console.error('Fehler bei der Integritätsprüfung:', err);
+      setChainStatus(null);
+    }
+  }, [recordedHead]);
+  
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
   
   useEffect(() => {
-    const allLogs = getRecentAuditLogs(100);
-    setLogs(allLogs);
+    verifyLog();
+  }, [verifyLog]);
+  
+  // Members and families for the filter options
+  useEffect(() => {
+    const dataSource = getDataSource();
+    Promise.all([dataSource.getMembers(), dataSource.getFamilies()])
+      .then(([allMembers, allFamilies]) => {
+        setMembers([...allMembers].sort((a, b) =>
+          a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName)));
+        setFamilies(allFamilies);
+      })
+      .catch(err => console.error('Fehler beim Laden der Filteroptionen:', err));
   }, []);
   
+  // Keep the filters in the URL while the viewer is shown
+  useEffect(() => {
+    writeQueryToUrl(query);
+  }, [query]);
+  
+  useEffect(() => clearQueryFromUrl, []);
+  
+  // Reload when another tab wrote to the log
+  useEffect(() => {
+    return subscribeToExternalChanges(collections => {
+      if (collections.includes('auditLog')) {
+        loadLogs();
+        verifyLog();
+      }
+    });
+  }, [loadLogs, verifyLog]);
+  
   const formatDateTime = (dateString: string): string => {
     return new Date(dateString).toLocaleString('de-DE', {
       day: '2-digit',
@@ -29,6 +167,11 @@ export function AuditLogViewer() {
   };
   
   const getActionBadgeVariant = (action: string): 'success' | 'danger' | 'warning' | 'info' | 'gray' => {
+    if (action.startsWith('BACKUP') || action.startsWith('SNAPSHOT')) return 'info';
+    if (action === 'ACTION_UNDONE' || action === 'ACTION_REDONE' || action === 'MEMBER_RESTORED') return 'warning';
+    if (action === 'INTEGRITY_REPAIRED') return 'warning';
+    if (action === 'AUDIT_LOG_CLEARED') return 'danger';
+    if (action === 'AUDIT_LOG_ARCHIVED') return 'info';
     if (action.includes('CREATED')) return 'success';
     if (action.includes('DEACTIVATED') || action.includes('REMOVED')) return 'danger';
     if (action.includes('ACTIVATED') || action.includes('ADDED')) return 'success';
@@ -37,36 +180,292 @@ export function AuditLogViewer() {
     return 'gray';
   };
   
-  const displayedLogs = logs.slice(0, displayCount);
-  const hasMore = logs.length > displayCount;
+  // Configured actors plus the ones found on this page (removed actors keep their entries)
+  const actorNames = new Map<string, string>();
+  getActors().forEach(actor => actorNames.set(actor.id, actor.name));
+  result?.entries.forEach(log => {
+    if (log.actor) actorNames.set(log.actor.id, log.actor.name);
+  });
+  const actorOptions = [...actorNames.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  
+  const hasFilters = Object.entries(query).some(([key, value]) => key !== 'page' && value);
+  const logs = result?.entries ?? [];
+  
+  // Changing a filter starts again on the first page
+  const updateFilter = (changes: Partial<AuditLogQuery>) => {
+    setQuery(prev => ({ ...prev, ...changes, page: undefined }));
+  };
   
-  const handleLoadMore = () => {
-    setDisplayCount(prev => prev + 20);
+  const goToPage = (page: number) => {
+    setQuery(prev => ({ ...prev, page }));
+  };
+  
+  const handleResetFilters = () => {
+    setQuery({});
   };
   
   const handleRefresh = () => {
-    const allLogs = getRecentAuditLogs(100);
-    setLogs(allLogs);
+    setLoading(true);
+    loadLogs();
+    verifyLog();
+  };
+  
+  // Exports the local log, so only available without backend
+  const canExport = getDataSource().kind === 'local';
+  
+  const handleExport = (format: AuditExportFormat) => {
+    try {
+      setExportedHead(downloadAuditLog(query, format).chainHead);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Export der Historie');
+    }
+    // The export itself is logged
+    loadLogs();
+    verifyLog();
+  };
+  
+  // Checks the log against a head recorded outside the application
+  const handleCheckHead = (e: React.FormEvent) => {
+    e.preventDefault();
+    const hash = headInput.hash.trim().toLowerCase();
+    const entryCount = Number(headInput.count);
+    if (!HASH_PATTERN.test(hash)) {
+      setHeadError('Der Hash muss aus 64 Hexadezimalzeichen bestehen.');
+      return;
+    }
+    if (!Number.isInteger(entryCount) || entryCount < 1) {
+      setHeadError('Die Anzahl der Einträge muss eine positive ganze Zahl sein.');
+      return;
+    }
+    setHeadError(null);
+    setRecordedHead({ hash, entryCount });
   };
   
   return (
     <Card>
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
         <div>
-          <h3 className="text-lg font-medium text-gray-900">Änderungshistorie</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-medium text-gray-900">Änderungshistorie</h3>
+            {chainStatus && (
+              <span
+                title={chainStatus.valid
+                  ? `Hash-Kette über ${chainStatus.checkedCount} Einträge geprüft`
+                  : 'Die Hash-Kette der Historie ist unterbrochen'}
+              >
+                <Badge variant={chainStatus.valid ? 'success' : 'danger'} size="sm">
+                  {chainStatus.valid ? '✓ Integrität bestätigt' : '✗ Integrität verletzt'}
+                </Badge>
+              </span>
+            )}
+          </div>
           <p className="text-sm text-gray-500">
-            Protokoll aller Aktionen im System ({logs.length} Einträge)
+            Protokoll aller Aktionen im System
+            {result && ` (${result.total} ${hasFilters ? 'Treffer' : 'Einträge'})`}
           </p>
         </div>
-        <Button variant="ghost" size="sm" onClick={handleRefresh}>
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-          </svg>
-          Aktualisieren
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          {canExport && (
+            <>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handleExport('csv')}
+                disabled={!result?.total}
+                title="Gefilterte Einträge als CSV exportieren"
+              >
+                CSV exportieren
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handleExport('jsonl')}
+                disabled={!result?.total}
+                title="Gefilterte Einträge als JSON Lines exportieren"
+              >
+                JSONL exportieren
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={handleRefresh}>
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Aktualisieren
+          </Button>
+        </div>
+      </div>
+      
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      
+      {chainStatus?.firstBroken && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <p className="font-medium">Die Historie wurde außerhalb der Anwendung verändert.</p>
+          <p className="mt-1">
+            Erster fehlerhafter Eintrag: Nr. {chainStatus.firstBroken.position} (ältester = 1)
+            vom {formatDateTime(chainStatus.firstBroken.timestamp)} –{' '}
+            {describeChainProblem(chainStatus.firstBroken.problem)}.
+          </p>
+          <p className="mt-1 font-mono text-xs">ID: {chainStatus.firstBroken.entryId}</p>
+        </div>
+      )}
+      
+      {chainStatus?.missingHead && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <p className="font-medium">Neuere Einträge fehlen.</p>
+          <p className="mt-1">
+            Der festgehaltene Stand ({chainStatus.missingHead.entryCount} Einträge) ist nicht mehr in der Historie
+            enthalten. Einträge wurden außerhalb der Anwendung entfernt.
+          </p>
+          <p className="mt-1 font-mono text-xs break-all">Hash: {chainStatus.missingHead.hash}</p>
+        </div>
+      )}
+      
+      {chainStatus && (
+        <details className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+          <summary className="cursor-pointer font-medium">Stand der Hash-Kette</summary>
+          <p className="mt-2">
+            {chainStatus.head
+              ? <>Aktueller Stand: {chainStatus.head.entryCount} Einträge, Hash{' '}
+                <span className="font-mono text-xs break-all">{chainStatus.head.hash}</span></>
+              : 'Die Historie ist leer.'}
+          </p>
+          {exportedHead && (
+            <p className="mt-1">
+              Beim letzten Export festgehalten: {exportedHead.entryCount} Einträge, Hash{' '}
+              <span className="font-mono text-xs break-all">{exportedHead.hash}</span>
+            </p>
+          )}
+          <p className="mt-2 text-gray-500">
+            Notieren Sie diesen Stand außerhalb der Anwendung. Mit einem früher notierten Stand lässt sich prüfen,
+            ob seitdem Einträge entfernt wurden.
+          </p>
+          <form className="mt-2 grid grid-cols-1 sm:grid-cols-4 gap-3 items-end" onSubmit={handleCheckHead}>
+            <div className="sm:col-span-2">
+              <Input
+                id="audit-head-hash"
+                label="Festgehaltener Hash"
+                value={headInput.hash}
+                onChange={(e) => setHeadInput({ ...headInput, hash: e.target.value })}
+              />
+            </div>
+            <Input
+              id="audit-head-count"
+              label="Anzahl Einträge"
+              type="number"
+              min={1}
+              value={headInput.count}
+              onChange={(e) => setHeadInput({ ...headInput, count: e.target.value })}
+            />
+            <Button type="submit" variant="secondary">Stand prüfen</Button>
+          </form>
+          {headError && <p className="mt-2 text-red-600">{headError}</p>}
+          {recordedHead && chainStatus && !headError && (
+            <p className={`mt-2 ${chainStatus.missingHead ? 'text-red-600' : 'text-green-700'}`}>
+              {chainStatus.missingHead
+                ? 'Der notierte Stand fehlt in der Historie.'
+                : 'Der notierte Stand ist in der Historie enthalten.'}
+            </p>
+          )}
+        </details>
+      )}
+      
+      <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div className="sm:col-span-2">
+          <Input
+            id="audit-search"
+            label="Suche"
+            type="search"
+            placeholder="Beschreibung, Name, ID..."
+            value={query.search ?? ''}
+            onChange={(e) => updateFilter({ search: e.target.value || undefined })}
+          />
+        </div>
+        <Select
+          id="audit-action"
+          label="Aktion"
+          value={query.action ?? ''}
+          onChange={(e) => updateFilter({
+            action: isAuditActionType(e.target.value) ? e.target.value : undefined,
+          })}
+        >
+          <option value="">Alle Aktionen</option>
+          {getAuditActionTypes().map(action => (
+            <option key={action} value={action}>{formatActionType(action)}</option>
+          ))}
+        </Select>
+        <Select
+          id="audit-actor"
+          label="Person"
+          value={query.actorId ?? ''}
+          onChange={(e) => updateFilter({ actorId: e.target.value || undefined })}
+        >
+          <option value="">Alle Personen</option>
+          {actorOptions.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+          <option value={NO_ACTOR_FILTER}>Ohne Zuordnung</option>
+        </Select>
+        <Select
+          id="audit-member"
+          label="Mitglied"
+          value={query.memberId ?? ''}
+          onChange={(e) => updateFilter({ memberId: e.target.value || undefined })}
+        >
+          <option value="">Alle Mitglieder</option>
+          {members.map(member => (
+            <option key={member.id} value={member.id}>
+              {member.lastName}, {member.firstName}
+            </option>
+          ))}
+        </Select>
+        <Select
+          id="audit-family"
+          label="Familie"
+          value={query.familyId ?? ''}
+          onChange={(e) => updateFilter({ familyId: e.target.value || undefined })}
+        >
+          <option value="">Alle Familien</option>
+          {families.map(family => (
+            <option key={family.id} value={family.id}>{family.name}</option>
+          ))}
+        </Select>
+        <Input
+          id="audit-from"
+          label="Von"
+          type="date"
+          value={query.from ?? ''}
+          max={query.to}
+          onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+        />
+        <Input
+          id="audit-to"
+          label="Bis"
+          type="date"
+          value={query.to ?? ''}
+          min={query.from}
+          onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+        />
       </div>
       
-      {logs.length === 0 ? (
+      {hasFilters && (
+        <div className="mb-4">
+          <Button variant="ghost" size="sm" onClick={handleResetFilters}>
+            Filter zurücksetzen
+          </Button>
+        </div>
+      )}
+      
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600">Lade Historie...</span>
+        </div>
+      ) : logs.length === 0 ? (
         <div className="text-center py-8">
           <svg
             className="mx-auto h-12 w-12 text-gray-400"
@@ -83,16 +482,18 @@ export function AuditLogViewer() {
           </svg>
           <h3 className="mt-2 text-sm font-medium text-gray-900">Keine Einträge</h3>
           <p className="mt-1 text-sm text-gray-500">
-            Es wurden noch keine Aktionen protokolliert.
+            {hasFilters
+              ? 'Keine Einträge passen zu den gewählten Filtern.'
+              : 'Es wurden noch keine Aktionen protokolliert.'}
           </p>
         </div>
       ) : (
         <>
           <div className="space-y-3">
-            {displayedLogs.map((log) => (
+            {logs.map((log) => (
               <div
                 key={log.id}
-                className="flex flex-col sm:flex-row sm:items-start gap-3 p-3 bg-gray-50 rounded-lg"
+                className={`flex flex-col sm:flex-row sm:items-start gap-3 p-3 bg-gray-50 rounded-lg ${log.id === chainStatus?.firstBroken?.entryId ? 'ring-2 ring-red-400' : ''}`}
               >
                 <div className="flex-shrink-0">
                   <Badge variant={getActionBadgeVariant(log.action)} size="sm">
@@ -105,15 +506,42 @@ export function AuditLogViewer() {
                     <div className="mt-1 text-xs text-gray-500">
                       {(() => {
                         const details = log.details;
+                        const changes = getFieldChanges(log);
+                        if (changes.length > 0) {
+                          return <AuditDiffTable changes={changes} />;
+                        }
                         if (details.changedFields && Array.isArray(details.changedFields)) {
                           return <span>Geänderte Felder: {(details.changedFields as string[]).join(', ')}</span>;
                         }
                         if (details.importedCount !== undefined) {
                           return <span>Importiert: {String(details.importedCount)}, Aktualisiert: {String(details.updatedCount)}</span>;
                         }
+                        if (details.familyCount !== undefined) {
+                          return <span>Mitglieder: {String(details.memberCount)}, Familien: {String(details.familyCount)}, Historien-Einträge: {String(details.auditLogCount)}</span>;
+                        }
+                        if (log.action === 'AUDIT_LOG_ARCHIVED') {
+                          return (
+                            <span>
+                              Archivierte Einträge: {String(details.entryCount)} aus dem Zeitraum{' '}
+                              {formatDateTime(String(details.fromTimestamp))} – {formatDateTime(String(details.toTimestamp))}
+                            </span>
+                          );
+                        }
+                        if (details.entryCount !== undefined) {
+                          const filters = Object.entries((details.filters ?? {}) as Record<string, string>);
+                          return (
+                            <span>
+                              Exportierte Einträge: {String(details.entryCount)}
+                              {filters.length > 0 && `, Filter: ${filters.map(([key, value]) => `${key}=${value}`).join(', ')}`}
+                            </span>
+                          );
+                        }
                         if (details.memberCount !== undefined) {
                           return <span>Exportierte Mitglieder: {String(details.memberCount)}</span>;
                         }
+                        if (details.migrations && Array.isArray(details.migrations)) {
+                          return <span>Migrationen: {(details.migrations as string[]).join('; ')}</span>;
+                        }
                         return null;
                       })()}
                     </div>
@@ -124,17 +552,34 @@ export function AuditLogViewer() {
                     </p>
                   )}
                 </div>
-                <div className="text-xs text-gray-400 whitespace-nowrap">
-                  {formatDateTime(log.timestamp)}
+                <div className="text-xs text-gray-400 whitespace-nowrap sm:text-right">
+                  <div>{formatDateTime(log.timestamp)}</div>
+                  {log.actor && <div className="text-gray-500">{log.actor.name}</div>}
                 </div>
               </div>
             ))}
           </div>
           
-          {hasMore && (
-            <div className="mt-4 text-center">
-              <Button variant="ghost" onClick={handleLoadMore}>
-                Weitere {Math.min(20, logs.length - displayCount)} Einträge laden
+          {result && result.totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-between gap-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => goToPage(result.page - 1)}
+                disabled={result.page <= 1}
+              >
+                Zurück
+              </Button>
+              <span className="text-sm text-gray-500">
+                Seite {result.page} von {result.totalPages}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => goToPage(result.page + 1)}
+                disabled={result.page >= result.totalPages}
+              >
+                Weiter
               </Button>
             </div>
           )}
@@ -0,0 +1,212 @@
+/**
+ * CSV Column Mapping Dialog Component
+ * Assigns the columns of a CSV file with a foreign layout to member fields,
+ * with suggestions, date format and saved mapping profiles
+ */
+
+import { useState } from 'react';
+import type { CSVColumnMapping, CSVDateFormat, MemberCSVField } from '../../models/types';
+import { Button, Input, Modal, Select } from '../ui';
+import {
+  CSV_FIELD_LABELS,
+  CSV_HEADERS,
+  REQUIRED_CSV_HEADERS,
+  type CSVFileInfo,
+} from '../../services/csvService';
+import {
+  CSV_DATE_FORMAT_LABELS,
+  applyMappingProfile,
+  deleteMappingProfile,
+  findMatchingProfile,
+  getMappingProfiles,
+  saveMappingProfile,
+  suggestColumnMapping,
+  validateColumnMapping,
+} from '../../services/csvMappingService';
+
+interface CSVColumnMappingDialogProps {
+  file: CSVFileInfo;
+  fileName: string;
+  onConfirm: (mapping: CSVColumnMapping) => void;
+  onCancel: () => void;
+}
+
+export function CSVColumnMappingDialog({ file, fileName, onConfirm, onCancel }: CSVColumnMappingDialogProps) {
+  // A saved profile that fits the columns is preselected
+  const [initialProfile] = useState(() => findMatchingProfile(file));
+  const [profiles, setProfiles] = useState(getMappingProfiles);
+  const [profileId, setProfileId] = useState(initialProfile?.id ?? '');
+  const [mapping, setMapping] = useState<CSVColumnMapping>(
+    () => initialProfile ? applyMappingProfile(initialProfile, file) : suggestColumnMapping(file)
+  );
+  const [profileName, setProfileName] = useState(initialProfile?.name ?? '');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const problems = validateColumnMapping(mapping);
+
+  const handleProfileChange = (id: string) => {
+    const profile = profiles.find(candidate => candidate.id === id);
+    setProfileId(id);
+    setProfileName(profile?.name ?? '');
+    setMapping(profile ? applyMappingProfile(profile, file) : suggestColumnMapping(file));
+    setMessage(null);
+  };
+
+  const handleColumnChange = (header: string, field: MemberCSVField | '') => {
+    setMapping(current => {
+      const columns = { ...current.columns };
+      if (field) {
+        columns[header] = field;
+      } else {
+        delete columns[header];
+      }
+      return { ...current, columns };
+    });
+  };
+
+  const handleSaveProfile = () => {
+    try {
+      const profile = saveMappingProfile(profileName, mapping);
+      setProfiles(getMappingProfiles());
+      setProfileId(profile.id);
+      setMessage({ type: 'success', text: `Profil "${profile.name}" wurde gespeichert.` });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Fehler beim Speichern des Profils',
+      });
+    }
+  };
+
+  const handleDeleteProfile = () => {
+    const profile = profiles.find(candidate => candidate.id === profileId);
+    if (!profile || !confirm(`Möchten Sie das Profil "${profile.name}" wirklich löschen?`)) {
+      return;
+    }
+    deleteMappingProfile(profile.id);
+    setProfiles(getMappingProfiles());
+    setProfileId('');
+    setProfileName('');
+    setMessage({ type: 'success', text: `Profil "${profile.name}" wurde gelöscht.` });
+  };
+
+  return (
+    <Modal isOpen onClose={onCancel} title={`Spalten zuordnen: ${fileName}`} size="xl">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Die Spalten der Datei entsprechen nicht dem Exportformat. Bitte prüfen Sie die vorgeschlagene
+          Zuordnung zu den Mitgliedsfeldern. Nicht zugeordnete Spalten werden ignoriert.
+        </p>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="max-w-xs w-full">
+            <Select
+              label="Zuordnungsprofil"
+              value={profileId}
+              onChange={(e) => handleProfileChange(e.target.value)}
+            >
+              <option value="">Automatischer Vorschlag</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </Select>
+          </div>
+          {profileId && (
+            <Button variant="ghost" onClick={handleDeleteProfile}>
+              Profil löschen
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Spalte der Datei</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Beispielwerte</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Mitgliedsfeld</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {file.headers.map((header, index) => (
+                <tr key={index}>
+                  <td className="px-3 py-2 text-gray-900">
+                    {header || <span className="text-gray-400">Spalte {index + 1} ohne Überschrift</span>}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600 font-mono text-xs">
+                    {file.sampleRows.map(row => row[index]).filter(Boolean).join(' · ') || '–'}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={mapping.columns[header] ?? ''}
+                      onChange={(e) => handleColumnChange(header, e.target.value as MemberCSVField | '')}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      aria-label={`Feld für Spalte ${header || index + 1}`}
+                      disabled={!header}
+                    >
+                      <option value="">Ignorieren</option>
+                      {CSV_HEADERS.map(field => (
+                        <option key={field} value={field}>
+                          {CSV_FIELD_LABELS[field]}{REQUIRED_CSV_HEADERS.includes(field) ? ' *' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="max-w-xs">
+          <Select
+            label="Datumsformat"
+            value={mapping.dateFormat}
+            onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value as CSVDateFormat })}
+          >
+            {Object.entries(CSV_DATE_FORMAT_LABELS).map(([format, label]) => (
+              <option key={format} value={format}>{label}</option>
+            ))}
+          </Select>
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800 list-disc list-inside">
+            {problems.map(problem => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="max-w-xs w-full">
+            <Input
+              label="Zuordnung als Profil speichern"
+              placeholder="z.B. Alte Excel-Liste"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+          </div>
+          <Button variant="secondary" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+            Profil speichern
+          </Button>
+        </div>
+
+        {message && (
+          <div className={`p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 border border-green-200 text-green-700' : 'bg-red-50 border border-red-200 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+          <Button variant="secondary" onClick={onCancel}>
+            Abbrechen
+          </Button>
+          <Button onClick={() => onConfirm(mapping)} disabled={problems.length > 0}>
+            Weiter zur Vorschau
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,55 +1,138 @@
 /**
  * CSV Import/Export Component
- * Handles importing and exporting member data as CSV
+ * Handles importing and exporting member and family data as CSV, ZIP or Excel workbook
  */
 
 import { useState, useRef } from 'react';
 import { Button, Card } from '../ui';
-import { downloadCSV, importMembersFromCSV, generateCSVTemplate } from '../../services/csvService';
-import type { CSVImportResult } from '../../models/types';
+import { SensitiveExportDialog } from '../SensitiveExportDialog';
+import { CSVImportPreviewDialog } from './CSVImportPreviewDialog';
+import { CSVColumnMappingDialog } from './CSVColumnMappingDialog';
+import {
+  applyCSVImport,
+  downloadCSV,
+  downloadFamiliesCSV,
+  downloadXlsx,
+  downloadZip,
+  generateCSVTemplate,
+  inspectCSV,
+  isNativeCSVLayout,
+  previewCSVImport,
+  readCSVImportFiles,
+  type CSVFileInfo,
+  type CSVImportFiles,
+  type CSVImportOptions,
+} from '../../services/csvService';
+import { isEncryptionEnabled } from '../../services/encryptionService';
+import { downloadCSVFile } from '../../utils/download';
+import type { CSVColumnMapping, CSVImportPreview, CSVImportResult } from '../../models/types';
+
+/** Exports that contain member data */
+type MemberExportKind = 'csv' | 'zip' | 'xlsx';
+
+/** Title of the dialog asking for encrypted fields */
+const EXPORT_TITLES: Record<MemberExportKind, string> = {
+  csv: 'CSV-Export',
+  zip: 'ZIP-Export',
+  xlsx: 'Excel-Export',
+};
+
+/**
+ * A previewed import; files and options are kept to create the preview again
+ */
+interface PendingImport {
+  files: CSVImportFiles;
+  options: CSVImportOptions;
+  preview: CSVImportPreview;
+  fileName: string;
+}
 
 interface CSVImportExportProps {
   onImportComplete: () => void;
+  /** Open the data integrity check (shown if the import left inconsistencies) */
+  onShowIntegrityIssues?: () => void;
 }
 
-export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
+export function CSVImportExport({ onImportComplete, onShowIntegrityIssues }: CSVImportExportProps) {
   const [importResult, setImportResult] = useState<CSVImportResult | null>(null);
+  const [importPreview, setImportPreview] = useState<PendingImport | null>(null);
+  const [columnMapping, setColumnMapping] = useState<{ files: CSVImportFiles; file: CSVFileInfo; fileName: string } | null>(null);
   const [isImporting, setIsImporting] = useState(false);
+  const [pendingExport, setPendingExport] = useState<MemberExportKind | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const handleExport = () => {
-    const date = new Date().toISOString().split('T')[0];
-    downloadCSV(`mitglieder_export_${date}.csv`);
+  const runExport = (download: (date: string) => void) => {
+    setExportError(null);
+    try {
+      download(new Date().toISOString().split('T')[0]);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Fehler beim Export');
+    }
+  };
+  
+  const exportMembers = (kind: MemberExportKind, includeDecrypted: boolean) => {
+    setPendingExport(null);
+    runExport(date => {
+      if (kind === 'xlsx') {
+        downloadXlsx(`mitglieder_export_${date}.xlsx`, { includeDecrypted });
+      } else if (kind === 'zip') {
+        downloadZip(`mitglieder_export_${date}.zip`, { includeDecrypted });
+      } else {
+        downloadCSV(`mitglieder_export_${date}.csv`, { includeDecrypted });
+      }
+    });
+  };
+  
+  const handleExport = (kind: MemberExportKind) => {
+    // Encrypted fields are only exported decrypted on explicit request
+    if (isEncryptionEnabled()) {
+      setPendingExport(kind);
+    } else {
+      exportMembers(kind, false);
+    }
+  };
+  
+  const handleExportFamilies = () => {
+    runExport(date => downloadFamiliesCSV(`familien_export_${date}.csv`));
   };
   
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
   
+  const showImportError = (error: unknown) => {
+    setImportResult({
+      success: false,
+      imported: 0,
+      updated: 0,
+      errors: [error instanceof Error ? error.message : 'Unbekannter Fehler beim Import'],
+    });
+  };
+  
+  const showPreview = (files: CSVImportFiles, options: CSVImportOptions, fileName: string) => {
+    setImportPreview({ files, options, preview: previewCSVImport(files, options), fileName });
+  };
+  
+  // Nothing is saved until the rows are confirmed in the preview.
+  // Member files with a foreign layout (e.g. German headers) need a column mapping first.
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
     
-    setIsImporting(true);
     setImportResult(null);
     
     try {
-      const content = await file.text();
-      const result = importMembersFromCSV(content);
-      setImportResult(result);
-      
-      if (result.success || result.imported > 0 || result.updated > 0) {
-        onImportComplete();
+      const files = await readCSVImportFiles(file.name, await file.arrayBuffer());
+      const info = files.members !== undefined ? inspectCSV(files.members) : undefined;
+      if (info && info.headers.length > 0 && !isNativeCSVLayout(info.headers)) {
+        setColumnMapping({ files, file: info, fileName: file.name });
+      } else {
+        showPreview(files, {}, file.name);
       }
     } catch (error) {
-      setImportResult({
-        success: false,
-        imported: 0,
-        updated: 0,
-        errors: [error instanceof Error ? error.message : 'Unbekannter Fehler beim Import'],
-      });
+      showImportError(error);
     } finally {
-      setIsImporting(false);
       // Reset file input
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -57,19 +140,42 @@ export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
     }
   };
   
-  const handleDownloadTemplate = () => {
-    const template = generateCSVTemplate();
-    const blob = new Blob(['\ufeff' + template], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
+  const handleMappingConfirm = (mapping: CSVColumnMapping) => {
+    if (!columnMapping) return;
+    showPreview(columnMapping.files, { mapping }, columnMapping.fileName);
+    setColumnMapping(null);
+  };
+  
+  const handleCreateMissingFamiliesChange = (createMissingFamilies: boolean) => {
+    if (!importPreview) return;
+    showPreview(importPreview.files, { ...importPreview.options, createMissingFamilies }, importPreview.fileName);
+  };
+  
+  const handleApplyImport = async (selectedLines: number[], selectedFamilyIds: string[]) => {
+    if (!importPreview) return;
     
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'mitglieder_vorlage.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    setIsImporting(true);
+    
+    try {
+      const result = await applyCSVImport(importPreview.preview, selectedLines, selectedFamilyIds, {
+        confirmWithoutSnapshot: message => confirm(message),
+      });
+      setImportResult(result);
+      setImportPreview(null);
+      
+      if (result.imported > 0 || result.updated > 0 || result.familiesImported || result.familiesUpdated) {
+        onImportComplete();
+      }
+    } catch (error) {
+      showImportError(error);
+      setImportPreview(null);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  
+  const handleDownloadTemplate = () => {
+    downloadCSVFile(generateCSVTemplate(), 'mitglieder_vorlage.csv');
   };
   
   const clearResult = () => {
@@ -78,7 +184,7 @@ export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
   
   return (
     <Card>
-      <h3 className="text-lg font-medium text-gray-900 mb-4">CSV Import / Export</h3>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Import / Export (CSV, Excel)</h3>
       
       <div className="space-y-4">
         {/* Export Section */}
@@ -86,17 +192,35 @@ export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
           <div className="flex-1">
             <h4 className="text-sm font-medium text-gray-700">Export</h4>
             <p className="text-sm text-gray-500">
-              Alle Mitglieder inkl. Status und Familien-IDs als CSV exportieren.
+              Alle Mitglieder inkl. Status und Familien als CSV exportieren, oder Mitglieder und
+              Familien zusammen als Excel-Datei bzw. ZIP-Archiv (zum Übertragen in einen anderen Browser).
             </p>
           </div>
-          <Button variant="secondary" onClick={handleExport}>
-            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-            </svg>
-            CSV exportieren
-          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="ghost" size="sm" onClick={handleExportFamilies}>
+              Familien (CSV)
+            </Button>
+            <Button variant="secondary" onClick={() => handleExport('csv')}>
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              CSV exportieren
+            </Button>
+            <Button variant="secondary" onClick={() => handleExport('xlsx')}>
+              Excel (XLSX)
+            </Button>
+            <Button variant="secondary" onClick={() => handleExport('zip')}>
+              Alles als ZIP
+            </Button>
+          </div>
         </div>
         
+        {exportError && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-700">
+            {exportError}
+          </div>
+        )}
+        
         <hr className="border-gray-200" />
         
         {/* Import Section */}
@@ -104,7 +228,8 @@ export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
           <div className="flex-1">
             <h4 className="text-sm font-medium text-gray-700">Import</h4>
             <p className="text-sm text-gray-500">
-              Mitglieder aus CSV importieren. Bestehende Mitglieder werden anhand der ID aktualisiert.
+              Mitglieder oder Familien aus CSV bzw. beides aus einer Excel-Datei oder einem ZIP-Export importieren. Bestehende
+              Einträge werden anhand der ID aktualisiert, alle Änderungen werden vorher zur Auswahl angezeigt.
             </p>
           </div>
           <div className="flex gap-2">
@@ -129,7 +254,7 @@ export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
                   <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                   </svg>
-                  CSV importieren
+                  Datei importieren
                 </>
               )}
             </Button>
@@ -137,11 +262,11 @@ export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv"
+            accept=".csv,.zip,.xlsx"
             onChange={handleFileChange}
             className="hidden"
-            aria-label="CSV-Datei auswählen"
-            title="CSV-Datei auswählen"
+            aria-label="CSV-, ZIP- oder Excel-Datei auswählen"
+            title="CSV-, ZIP- oder Excel-Datei auswählen"
           />
         </div>
         
@@ -156,7 +281,27 @@ export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
                 <div className="mt-1 text-sm text-gray-600">
                   <p>Neu importiert: {importResult.imported}</p>
                   <p>Aktualisiert: {importResult.updated}</p>
+                  {(importResult.familiesImported || importResult.familiesUpdated) ? (
+                    <p>Familien neu / aktualisiert: {importResult.familiesImported ?? 0} / {importResult.familiesUpdated ?? 0}</p>
+                  ) : null}
                 </div>
+                {importResult.integrityIssues && importResult.integrityIssues.length > 0 && (
+                  <div className="mt-2">
+                    <p className="text-sm font-medium text-yellow-700">
+                      Die Datenprüfung hat {importResult.integrityIssues.length} Unstimmigkeiten gefunden:
+                    </p>
+                    <ul className="mt-1 text-sm text-yellow-700 list-disc list-inside max-h-32 overflow-y-auto">
+                      {importResult.integrityIssues.map(issue => (
+                        <li key={issue.id}>{issue.description}</li>
+                      ))}
+                    </ul>
+                    {onShowIntegrityIssues && (
+                      <Button variant="ghost" size="sm" className="mt-2" onClick={onShowIntegrityIssues}>
+                        Zur Datenprüfung
+                      </Button>
+                    )}
+                  </div>
+                )}
                 {importResult.errors.length > 0 && (
                   <div className="mt-2">
                     <p className="text-sm font-medium text-red-700">Fehler:</p>
@@ -184,10 +329,41 @@ export function CSVImportExport({ onImportComplete }: CSVImportExportProps) {
         {/* Help Text */}
         <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded">
           <p className="font-medium mb-1">CSV-Format:</p>
-          <p>Semikolon (;) als Trennzeichen. Erforderliche Spalten: firstName, lastName, birthDate, entryDate.</p>
+          <p>Semikolon (;), Komma oder Tabulator als Trennzeichen (wird erkannt), UTF-8 oder Windows-1252. Erforderliche Spalten: firstName, lastName, birthDate, entryDate.</p>
           <p>Datumsformat: YYYY-MM-DD (z.B. 2024-01-15)</p>
+          <p>Dateien mit anderen Spalten (z.B. „Vorname“, „Geb.-Datum“, „PLZ“) werden vor dem Import zugeordnet.</p>
+          <p>Excel-Dateien (.xlsx): ein Tabellenblatt für Mitglieder und optional eines für Familien, mit denselben Spalten; Datumszellen werden übernommen.</p>
+          <p>Familien: Spalten id, name, mainMemberId. Fehlende Familien können aus den Spalten familyId bzw. familyName der Mitglieder angelegt werden.</p>
         </div>
       </div>
+      
+      {columnMapping && (
+        <CSVColumnMappingDialog
+          file={columnMapping.file}
+          fileName={columnMapping.fileName}
+          onConfirm={handleMappingConfirm}
+          onCancel={() => setColumnMapping(null)}
+        />
+      )}
+      
+      {importPreview && (
+        <CSVImportPreviewDialog
+          preview={importPreview.preview}
+          fileName={importPreview.fileName}
+          isApplying={isImporting}
+          createMissingFamilies={importPreview.options.createMissingFamilies ?? false}
+          onCreateMissingFamiliesChange={handleCreateMissingFamiliesChange}
+          onApply={handleApplyImport}
+          onCancel={() => setImportPreview(null)}
+        />
+      )}
+      
+      <SensitiveExportDialog
+        isOpen={pendingExport !== null}
+        title={EXPORT_TITLES[pendingExport ?? 'csv']}
+        onChoose={(includeDecrypted) => pendingExport && exportMembers(pendingExport, includeDecrypted)}
+        onCancel={() => setPendingExport(null)}
+      />
     </Card>
   );
 }
@@ -0,0 +1,258 @@
+/**
+ * CSV Import Preview Dialog Component
+ * Shows new, changed and unchanged rows and errors of a CSV file (members and
+ * families) before it is imported, and lets the user choose the rows to take over
+ */
+
+import { useState } from 'react';
+import type { CSVImportPreview } from '../../models/types';
+import { Badge, Button, Modal } from '../ui';
+import { AuditDiffTable } from '../audit/AuditDiffTable';
+
+interface CSVImportPreviewDialogProps {
+  preview: CSVImportPreview;
+  fileName: string;
+  isApplying: boolean;
+  /** Families the members refer to are created if they do not exist */
+  createMissingFamilies: boolean;
+  onCreateMissingFamiliesChange: (createMissingFamilies: boolean) => void;
+  onApply: (selectedLines: number[], selectedFamilyIds: string[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Line numbers of the rows that can be taken over
+ */
+function changedLines(preview: CSVImportPreview): number[] {
+  return preview.rows.filter(row => row.status !== 'unchanged').map(row => row.line);
+}
+
+export function CSVImportPreviewDialog({
+  preview,
+  fileName,
+  isApplying,
+  createMissingFamilies,
+  onCreateMissingFamiliesChange,
+  onApply,
+  onCancel,
+}: CSVImportPreviewDialogProps) {
+  const changedRows = preview.rows.filter(row => row.status !== 'unchanged');
+  const fileFamilies = preview.families.filter(row => row.line !== undefined && row.status !== 'unchanged');
+  const createdFamilies = preview.families.filter(row => row.line === undefined);
+  const [selectedLines, setSelectedLines] = useState<Set<number>>(() => new Set(changedLines(preview)));
+  const [selectedFamilyIds, setSelectedFamilyIds] = useState<Set<string>>(
+    () => new Set(fileFamilies.map(row => row.family.id))
+  );
+  const [shownPreview, setShownPreview] = useState(preview);
+  
+  // The preview is created again if the family option changes: rows that only
+  // change now are selected as well, the choice for the others is kept
+  if (preview !== shownPreview) {
+    const previousLines = new Set(changedLines(shownPreview));
+    const lines = changedLines(preview);
+    setShownPreview(preview);
+    setSelectedLines(current => new Set(
+      lines.filter(line => current.has(line) || !previousLines.has(line))
+    ));
+  }
+
+  const newCount = changedRows.filter(row => row.status === 'new').length;
+  const unchangedCount = preview.rows.length - changedRows.length;
+
+  const toggleLine = (line: number, checked: boolean) => {
+    setSelectedLines(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(line);
+      } else {
+        next.delete(line);
+      }
+      return next;
+    });
+  };
+
+  const selectAll = (checked: boolean) => {
+    setSelectedLines(checked ? new Set(changedRows.map(row => row.line)) : new Set());
+  };
+  
+  const toggleFamily = (id: string, checked: boolean) => {
+    setSelectedFamilyIds(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+  
+  const selectedCount = selectedLines.size + selectedFamilyIds.size;
+
+  return (
+    <Modal isOpen onClose={onCancel} title={`Import-Vorschau: ${fileName}`} size="xl">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">Neu</p>
+            <p className="text-lg font-semibold text-green-700">{newCount}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">Geändert</p>
+            <p className="text-lg font-semibold text-yellow-700">{changedRows.length - newCount}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">Unverändert</p>
+            <p className="text-lg font-semibold text-gray-900">{unchangedCount}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">Fehler</p>
+            <p className="text-lg font-semibold text-red-700">{preview.errors.length}</p>
+          </div>
+        </div>
+
+        {preview.errors.length > 0 && (
+          <div className="p-3 rounded-lg bg-red-50 border border-red-200">
+            <p className="text-sm font-medium text-red-700">
+              Diese Zeilen werden nicht importiert:
+            </p>
+            <ul className="mt-1 text-sm text-red-600 list-disc list-inside max-h-32 overflow-y-auto">
+              {preview.errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {(preview.missingFamilyCount > 0 || createMissingFamilies) && (
+          <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+            {preview.missingFamilyCount > 0 && (
+              <p className="mb-2">
+                {preview.missingFamilyCount === 1
+                  ? 'Eine Familie, auf die Mitglieder der Datei verweisen, gibt es nicht.'
+                  : `${preview.missingFamilyCount} Familien, auf die Mitglieder der Datei verweisen, gibt es nicht.`}
+              </p>
+            )}
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={createMissingFamilies}
+                onChange={(e) => onCreateMissingFamiliesChange(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                disabled={isApplying}
+              />
+              <span className="ml-2">Fehlende Familien automatisch anlegen</span>
+            </label>
+          </div>
+        )}
+        
+        {(fileFamilies.length > 0 || createdFamilies.length > 0) && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Familien</h4>
+            <ul className="max-h-48 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {fileFamilies.map(row => (
+                <li key={row.family.id} className="p-3">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedFamilyIds.has(row.family.id)}
+                      onChange={(e) => toggleFamily(row.family.id, e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      disabled={isApplying}
+                    />
+                    <span className="text-sm font-medium text-gray-900">{row.family.name}</span>
+                    <Badge variant={row.status === 'new' ? 'success' : 'warning'} size="sm">
+                      {row.status === 'new' ? 'Neu' : 'Geändert'}
+                    </Badge>
+                    <span className="text-xs text-gray-500">Zeile {row.line}</span>
+                  </label>
+                  {row.status === 'updated' && (
+                    <div className="ml-6">
+                      <AuditDiffTable changes={row.changes} />
+                    </div>
+                  )}
+                </li>
+              ))}
+              {createdFamilies.map(row => (
+                <li key={row.family.id} className="p-3 flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900">{row.family.name}</span>
+                  <Badge variant="info" size="sm">Wird angelegt</Badge>
+                  <span className="text-xs text-gray-500">mit den ausgewählten Mitgliedern</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        
+        {changedRows.length > 0 ? (
+          <>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={selectedLines.size === changedRows.length}
+                  onChange={(e) => selectAll(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  disabled={isApplying}
+                />
+                <span className="ml-2 text-sm text-gray-700">Alle auswählen</span>
+              </label>
+              <span className="text-sm text-gray-500">
+                {selectedLines.size} von {changedRows.length} ausgewählt
+              </span>
+            </div>
+
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {changedRows.map(row => (
+                <li key={row.line} className="p-3">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedLines.has(row.line)}
+                      onChange={(e) => toggleLine(row.line, e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      disabled={isApplying}
+                    />
+                    <span className="text-sm font-medium text-gray-900">
+                      {row.member.firstName} {row.member.lastName}
+                    </span>
+                    <Badge variant={row.status === 'new' ? 'success' : 'warning'} size="sm">
+                      {row.status === 'new' ? 'Neu' : 'Geändert'}
+                    </Badge>
+                    <span className="text-xs text-gray-500">Zeile {row.line}</span>
+                  </label>
+                  {row.status === 'updated' && (
+                    <div className="ml-6">
+                      <AuditDiffTable changes={row.changes} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : preview.rows.length > 0 && (
+          <p className="text-sm text-gray-500">Die Datei enthält keine neuen oder geänderten Mitglieder.</p>
+        )}
+
+        {unchangedCount > 0 && (
+          <p className="text-sm text-gray-500">
+            {unchangedCount} {unchangedCount === 1 ? 'Zeile stimmt' : 'Zeilen stimmen'} mit den
+            gespeicherten Daten überein und {unchangedCount === 1 ? 'wird' : 'werden'} übersprungen.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+          <Button variant="secondary" onClick={onCancel} disabled={isApplying}>
+            Abbrechen
+          </Button>
+          <Button
+            onClick={() => onApply([...selectedLines], [...selectedFamilyIds])}
+            disabled={isApplying || selectedCount === 0}
+          >
+            {isApplying ? 'Importiere...' : `${selectedCount} Zeilen übernehmen`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
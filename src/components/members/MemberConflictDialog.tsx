@@ -0,0 +1,135 @@
+/**
+ * Member Conflict Dialog Component
+ * Shown by MemberForm when the edited member was saved elsewhere (e.g. in another tab)
+ * in the meantime. Lets the user merge, overwrite or discard their changes.
+ */
+
+import type { Family, MemberFormData } from '../../models/types';
+import { MEMBER_FIELD_LABELS } from '../../services/memberService';
+import { Badge, Button } from '../ui';
+
+interface MemberConflictDialogProps {
+  /** Form values the user started editing from */
+  base: MemberFormData;
+  /** The user's unsaved form values */
+  mine: MemberFormData;
+  /** The values stored in the meantime */
+  theirs: MemberFormData;
+  families: Family[];
+  onMerge: (merged: MemberFormData) => void;
+  onOverwrite: () => void;
+  onDiscard: () => void;
+  isLoading?: boolean;
+}
+
+const FIELDS = Object.keys(MEMBER_FIELD_LABELS) as Array<keyof MemberFormData>;
+
+/**
+ * Merge two concurrent edits: fields changed only by one side keep that change,
+ * fields changed by both sides keep the user's own value
+ */
+function mergeMemberFormData(
+  base: MemberFormData,
+  mine: MemberFormData,
+  theirs: MemberFormData
+): MemberFormData {
+  const merged = { ...theirs };
+  FIELDS.forEach(field => {
+    if (mine[field] !== base[field]) {
+      (merged as Record<string, unknown>)[field] = mine[field];
+    }
+  });
+  return merged;
+}
+
+export function MemberConflictDialog({
+  base,
+  mine,
+  theirs,
+  families,
+  onMerge,
+  onOverwrite,
+  onDiscard,
+  isLoading = false,
+}: MemberConflictDialogProps) {
+  const differingFields = FIELDS.filter(field => mine[field] !== theirs[field]);
+
+  const formatValue = (field: keyof MemberFormData, value: MemberFormData[keyof MemberFormData]): string => {
+    if (field === 'familyId') {
+      return families.find(f => f.id === value)?.name || '-';
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'Ja' : 'Nein';
+    }
+    return value || '-';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+        Dieses Mitglied wurde inzwischen an anderer Stelle (z.B. in einem anderen Tab) geändert.
+        Bitte entscheiden Sie, wie mit Ihren Änderungen verfahren werden soll.
+      </div>
+
+      {differingFields.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Feld</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Ihre Eingabe</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Gespeicherte Version</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {differingFields.map(field => {
+                const changedByMe = mine[field] !== base[field];
+                const changedByOthers = theirs[field] !== base[field];
+                return (
+                  <tr key={field}>
+                    <td className="px-3 py-2 text-gray-700">
+                      {MEMBER_FIELD_LABELS[field]}
+                      {changedByMe && changedByOthers && (
+                        <span className="ml-2">
+                          <Badge variant="warning" size="sm">Beide geändert</Badge>
+                        </span>
+                      )}
+                    </td>
+                    <td className={`px-3 py-2 ${changedByMe ? 'font-medium text-gray-900' : 'text-gray-500'}`}>
+                      {formatValue(field, mine[field])}
+                    </td>
+                    <td className={`px-3 py-2 ${changedByOthers ? 'font-medium text-gray-900' : 'text-gray-500'}`}>
+                      {formatValue(field, theirs[field])}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">
+          Ihre Eingaben stimmen mit der gespeicherten Version überein.
+        </p>
+      )}
+
+      <ul className="text-xs text-gray-500 space-y-1">
+        <li><strong>Zusammenführen:</strong> Übernimmt die Änderungen beider Seiten in das Formular; bei Feldern, die beide geändert haben, gilt Ihre Eingabe.</li>
+        <li><strong>Überschreiben:</strong> Speichert Ihre Eingaben und verwirft die anderen Änderungen.</li>
+        <li><strong>Verwerfen:</strong> Lädt die gespeicherte Version in das Formular.</li>
+      </ul>
+
+      <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-3 pt-4 border-t border-gray-200">
+        <Button type="button" variant="secondary" onClick={onDiscard} disabled={isLoading}>
+          Verwerfen
+        </Button>
+        <Button type="button" variant="danger" onClick={onOverwrite} disabled={isLoading}>
+          Überschreiben
+        </Button>
+        <Button type="button" variant="primary" onClick={() => onMerge(mergeMemberFormData(base, mine, theirs))} disabled={isLoading}>
+          Zusammenführen
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,15 +4,27 @@
  */
 
 import { useState, useEffect } from 'react';
-import type { Member, Family, AuditLogEntry } from '../../models/types';
+import type { Member, Family, AuditLogEntry, MemberRestoreSource } from '../../models/types';
 import { StatusBadge, Badge, Button, Card } from '../ui';
-import { getAuditLogsForMember, formatActionType } from '../../services/auditService';
+import {
+  formatActionType,
+  getFieldChanges,
+  getMemberFieldChanges,
+  isRestorableMemberEntry,
+  maskValue,
+} from '../../services/auditService';
+import { isEncryptedValue, isFieldEncrypted } from '../../services/encryptionService';
+import { getDataSource } from '../../services/dataSource';
+import { AuditDiffTable } from '../audit/AuditDiffTable';
+import { MemberTimeTravel } from './MemberTimeTravel';
 
 interface MemberDetailsProps {
   member: Member;
   family?: Family;
   onEdit: () => void;
   onToggleStatus: () => void;
+  /** Restore a former version from the history (rejects with the error to show) */
+  onRestore: (source: MemberRestoreSource) => Promise<void>;
   onClose: () => void;
 }
 
@@ -21,15 +33,26 @@ export function MemberDetails({
   family,
   onEdit,
   onToggleStatus,
+  onRestore,
   onClose,
 }: MemberDetailsProps) {
   const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
   const [showAllLogs, setShowAllLogs] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [showBankDetails, setShowBankDetails] = useState(false);
   
   useEffect(() => {
-    const logs = getAuditLogsForMember(member.id);
-    setAuditLogs(logs);
-  }, [member.id]);
+    let cancelled = false;
+    getDataSource().getAuditLogsForMember(member.id)
+      .then(logs => {
+        if (!cancelled) setAuditLogs(logs);
+      })
+      .catch(error => console.error('Fehler beim Laden der Historie:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [member.id, member.updatedAt]);
   
   const formatDate = (dateString: string): string => {
     return new Date(dateString).toLocaleDateString('de-DE', {
@@ -49,6 +72,18 @@ export function MemberDetails({
     });
   };
   
+  // Encrypted bank details are shown masked until they are revealed
+  const formatBankDetail = (field: 'iban' | 'bic', value: string): string => {
+    if (!value) return '-';
+    if (isEncryptedValue(value)) return '🔒 verschlüsselt';
+    if (isFieldEncrypted(field) && !showBankDetails) return String(maskValue(value));
+    return value;
+  };
+  
+  const hasHiddenBankDetails = (['iban', 'bic'] as const).some(field =>
+    isFieldEncrypted(field) && member[field] && !isEncryptedValue(member[field])
+  );
+  
   const calculateAge = (birthDate: string): number => {
     const today = new Date();
     const birth = new Date(birthDate);
@@ -60,6 +95,39 @@ export function MemberDetails({
     return age;
   };
   
+  const handleRestore = async (source: MemberRestoreSource, question: string) => {
+    if (!confirm(question)) return;
+    setIsRestoring(true);
+    setRestoreError(null);
+    try {
+      await onRestore(source);
+    } catch (err) {
+      setRestoreError(err instanceof Error ? err.message : 'Fehler beim Wiederherstellen');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+  
+  const restoreEntry = (log: AuditLogEntry) => {
+    const maskedLabels = getFieldChanges(log)
+      .filter(change => change.masked)
+      .map(change => change.label);
+    handleRestore(
+      { entryId: log.id },
+      `Die Werte vor der Änderung vom ${formatDateTime(log.timestamp)} wiederherstellen?` +
+        (maskedLabels.length > 0
+          ? `\n\n${maskedLabels.join(', ')} wurde nur maskiert protokolliert und bleibt unverändert.`
+          : '')
+    );
+  };
+  
+  const restorePointInTime = (pointInTime: string) => {
+    handleRestore(
+      { pointInTime },
+      `Den Stand vom ${formatDate(pointInTime)} wiederherstellen? Maskiert protokollierte Felder bleiben unverändert.`
+    );
+  };
+  
   const displayedLogs = showAllLogs ? auditLogs : auditLogs.slice(0, 5);
   
   return (
@@ -102,7 +170,9 @@ export function MemberDetails({
           <div>
             <dt className="text-sm text-gray-500">Geburtsdatum</dt>
             <dd className="text-sm font-medium text-gray-900">
-              {formatDate(member.birthDate)} ({calculateAge(member.birthDate)} Jahre)
+              {isEncryptedValue(member.birthDate)
+                ? '🔒 verschlüsselt'
+                : `${formatDate(member.birthDate)} (${calculateAge(member.birthDate)} Jahre)`}
             </dd>
           </div>
           <div>
@@ -133,15 +203,22 @@ export function MemberDetails({
       
       {/* Bank Details */}
       <Card>
-        <h3 className="text-lg font-medium text-gray-900 mb-4">Bankdaten</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Bankdaten</h3>
+          {hasHiddenBankDetails && (
+            <Button variant="ghost" size="sm" onClick={() => setShowBankDetails(!showBankDetails)}>
+              {showBankDetails ? 'Verbergen' : 'Anzeigen'}
+            </Button>
+          )}
+        </div>
         <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
           <div>
             <dt className="text-sm text-gray-500">IBAN</dt>
-            <dd className="text-sm font-mono text-gray-900">{member.iban || '-'}</dd>
+            <dd className="text-sm font-mono text-gray-900">{formatBankDetail('iban', member.iban)}</dd>
           </div>
           <div>
             <dt className="text-sm text-gray-500">BIC</dt>
-            <dd className="text-sm font-mono text-gray-900">{member.bic || '-'}</dd>
+            <dd className="text-sm font-mono text-gray-900">{formatBankDetail('bic', member.bic)}</dd>
           </div>
         </dl>
       </Card>
@@ -173,6 +250,21 @@ export function MemberDetails({
         </dl>
       </Card>
       
+      {restoreError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {restoreError}
+        </div>
+      )}
+      
+      {/* State at a past date */}
+      <MemberTimeTravel
+        member={member}
+        family={family}
+        history={auditLogs}
+        onRestore={restorePointInTime}
+        isRestoring={isRestoring}
+      />
+      
       {/* Audit Log */}
       <Card>
         <h3 className="text-lg font-medium text-gray-900 mb-4">Änderungshistorie</h3>
@@ -192,6 +284,10 @@ export function MemberDetails({
                     </div>
                     <div className="text-gray-500">{log.description}</div>
                     {(() => {
+                      const changes = getMemberFieldChanges(log, member.id) ?? [];
+                      if (changes.length > 0) {
+                        return <AuditDiffTable changes={changes} />;
+                      }
                       const changedFields = log.details?.changedFields;
                       if (changedFields && Array.isArray(changedFields)) {
                         return (
@@ -202,9 +298,21 @@ export function MemberDetails({
                       }
                       return null;
                     })()}
+                    {isRestorableMemberEntry(log) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => restoreEntry(log)}
+                        disabled={isRestoring}
+                        className="mt-1"
+                      >
+                        Diese Version wiederherstellen
+                      </Button>
+                    )}
                   </div>
-                  <div className="text-xs text-gray-400 whitespace-nowrap">
-                    {formatDateTime(log.timestamp)}
+                  <div className="text-xs text-gray-400 whitespace-nowrap text-right">
+                    <div>{formatDateTime(log.timestamp)}</div>
+                    {log.actor && <div className="text-gray-500">{log.actor.name}</div>}
                   </div>
                 </div>
               ))}
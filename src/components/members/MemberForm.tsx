@@ -1,20 +1,64 @@
 /**
  * Member Form Component
- * Used for creating and editing members
+ * Used for creating and editing members.
+ * Edits are saved with the member's updatedAt as optimistic-locking token;
+ * if the member was changed elsewhere in the meantime, a conflict dialog is shown.
  */
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import type { Member, MemberFormData, Family } from '../../models/types';
+import { ConcurrentModificationError } from '../../services/memberService';
+import { isEncryptedValue } from '../../services/encryptionService';
 import { Button, Input, Select } from '../ui';
+import { MemberConflictDialog } from './MemberConflictDialog';
 
 interface MemberFormProps {
   member?: Member;
   families: Family[];
-  onSubmit: (data: MemberFormData) => void;
+  /**
+   * Save the form data. Rejects with ConcurrentModificationError if the member
+   * was changed since the version identified by expectedUpdatedAt.
+   */
+  onSubmit: (data: MemberFormData, expectedUpdatedAt?: string) => Promise<void>;
   onCancel: () => void;
   isLoading?: boolean;
 }
 
+/**
+ * Input properties for a field whose value is still encrypted (the data is locked).
+ * The encrypted value is kept unchanged when the form is saved.
+ */
+function lockedFieldProps(value: string | undefined) {
+  if (!isEncryptedValue(value)) return {};
+  return {
+    type: 'text',
+    value: '🔒 verschlüsselt',
+    readOnly: true,
+    disabled: true,
+    helperText: 'Zum Bearbeiten die Daten entsperren',
+  };
+}
+
+/**
+ * Extract the editable fields of a member
+ */
+function toFormData(member: Member): MemberFormData {
+  return {
+    firstName: member.firstName,
+    lastName: member.lastName,
+    birthDate: member.birthDate,
+    street: member.street,
+    postalCode: member.postalCode,
+    city: member.city,
+    iban: member.iban,
+    bic: member.bic,
+    entryDate: member.entryDate,
+    exitDate: member.exitDate,
+    familyId: member.familyId,
+    isMainFamilyMember: member.isMainFamilyMember,
+  };
+}
+
 export function MemberForm({
   member,
   families,
@@ -22,7 +66,7 @@ export function MemberForm({
   onCancel,
   isLoading = false,
 }: MemberFormProps) {
-  const [formData, setFormData] = useState<MemberFormData>({
+  const [formData, setFormData] = useState<MemberFormData>(() => member ? toFormData(member) : {
     firstName: '',
     lastName: '',
     birthDate: '',
@@ -39,25 +83,11 @@ export function MemberForm({
   
   const [errors, setErrors] = useState<Partial<Record<keyof MemberFormData, string>>>({});
   
-  // Initialize form with member data if editing
-  useEffect(() => {
-    if (member) {
-      setFormData({
-        firstName: member.firstName,
-        lastName: member.lastName,
-        birthDate: member.birthDate,
-        street: member.street,
-        postalCode: member.postalCode,
-        city: member.city,
-        iban: member.iban,
-        bic: member.bic,
-        entryDate: member.entryDate,
-        exitDate: member.exitDate,
-        familyId: member.familyId,
-        isMainFamilyMember: member.isMainFamilyMember,
-      });
-    }
-  }, [member]);
+  // Version of the member the edits are based on
+  const [baseMember, setBaseMember] = useState<Member | undefined>(member);
+  
+  // Version stored elsewhere in the meantime (shows the conflict dialog)
+  const [conflictingMember, setConflictingMember] = useState<Member | null>(null);
   
   const handleChange = (field: keyof MemberFormData, value: string | boolean | undefined) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -87,13 +117,51 @@ export function MemberForm({
     return Object.keys(newErrors).length === 0;
   };
   
+  const submit = async (data: MemberFormData, expectedUpdatedAt?: string) => {
+    try {
+      await onSubmit(data, expectedUpdatedAt);
+    } catch (err) {
+      if (!(err instanceof ConcurrentModificationError)) throw err;
+      setConflictingMember(err.currentMember);
+    }
+  };
+  
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validate()) {
-      onSubmit(formData);
+      submit(formData, baseMember?.updatedAt);
     }
   };
   
+  // Continue editing on top of the stored version
+  const resolveConflict = (data: MemberFormData) => {
+    setBaseMember(conflictingMember!);
+    setFormData(data);
+    setConflictingMember(null);
+  };
+  
+  const handleOverwrite = () => {
+    const current = conflictingMember!;
+    setBaseMember(current);
+    setConflictingMember(null);
+    submit(formData, current.updatedAt);
+  };
+  
+  if (baseMember && conflictingMember) {
+    return (
+      <MemberConflictDialog
+        base={toFormData(baseMember)}
+        mine={formData}
+        theirs={toFormData(conflictingMember)}
+        families={families}
+        onMerge={resolveConflict}
+        onOverwrite={handleOverwrite}
+        onDiscard={() => resolveConflict(toFormData(conflictingMember))}
+        isLoading={isLoading}
+      />
+    );
+  }
+  
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Personal Information */}
@@ -124,6 +192,7 @@ export function MemberForm({
             error={errors.birthDate}
             required
             disabled={isLoading}
+            {...lockedFieldProps(formData.birthDate)}
           />
         </div>
       </div>
@@ -165,6 +234,7 @@ export function MemberForm({
             onChange={(e) => handleChange('iban', e.target.value)}
             placeholder="DE89 3704 0044 0532 0130 00"
             disabled={isLoading}
+            {...lockedFieldProps(formData.iban)}
           />
           <Input
             label="BIC"
@@ -172,6 +242,7 @@ export function MemberForm({
             onChange={(e) => handleChange('bic', e.target.value)}
             placeholder="COBADEFFXXX"
             disabled={isLoading}
+            {...lockedFieldProps(formData.bic)}
           />
         </div>
       </div>
@@ -5,6 +5,7 @@
 
 import type { Member, Family } from '../../models/types';
 import { StatusBadge, Badge, Button } from '../ui';
+import { isEncryptedValue, isFieldEncrypted } from '../../services/encryptionService';
 
 interface MemberListProps {
   members: Member[];
@@ -37,6 +38,12 @@ export function MemberList({
     });
   };
   
+  // Encrypted birth dates stay masked in the list, they are shown in the details
+  const formatBirthDate = (birthDate: string): string => {
+    if (isEncryptedValue(birthDate)) return '🔒 verschlüsselt';
+    return isFieldEncrypted('birthDate') ? '••.••.••••' : formatDate(birthDate);
+  };
+  
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -118,7 +125,7 @@ export function MemberList({
                         )}
                       </div>
                       <div className="text-sm text-gray-500">
-                        {formatDate(member.birthDate)}
+                        {formatBirthDate(member.birthDate)}
                       </div>
                     </div>
                   </div>
@@ -190,7 +197,7 @@ export function MemberList({
                       {member.firstName} {member.lastName}
                     </div>
                     <div className="text-sm text-gray-500">
-                      {formatDate(member.birthDate)}
+                      {formatBirthDate(member.birthDate)}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,159 @@
+/**
+ * Member Time Travel Component
+ * Shows the state of a member at a chosen date next to the current state,
+ * reconstructed from the audit log
+ */
+
+import { useState } from 'react';
+import type { Member, Family, AuditLogEntry } from '../../models/types';
+import { Button, Card, Input } from '../ui';
+import {
+  formatActionType,
+  formatFieldValue,
+  maskValue,
+  reconstructMemberAt,
+  toFieldValue,
+} from '../../services/auditService';
+import { AUDITED_FIELD_LABELS } from '../../services/memberService';
+
+interface MemberTimeTravelProps {
+  member: Member;
+  family?: Family;
+  /** Audit log entries of the member */
+  history: AuditLogEntry[];
+  /** Restore the state at the given point in time (ISO datetime) */
+  onRestore?: (pointInTime: string) => void;
+  isRestoring?: boolean;
+}
+
+export function MemberTimeTravel({
+  member,
+  family,
+  history,
+  onRestore,
+  isRestoring = false,
+}: MemberTimeTravelProps) {
+  const [date, setDate] = useState('');
+  const today = new Date().toISOString().split('T')[0];
+
+  // The state at the end of the chosen day
+  const pointInTime = date ? new Date(`${date}T23:59:59.999`) : undefined;
+  const reconstructed = pointInTime
+    ? reconstructMemberAt(member, history, pointInTime)
+    : undefined;
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    });
+  };
+
+  const rows = reconstructed
+    ? Object.entries(AUDITED_FIELD_LABELS).map(([field, label]) => {
+        const isMasked = reconstructed.maskedFields.includes(field);
+        const currentValue = toFieldValue(field, member[field as keyof Member]);
+        const pastValue = reconstructed.values[field] ?? null;
+        // Masked values can only be compared in masked form
+        const comparableCurrent = isMasked ? maskValue(currentValue, field) : currentValue;
+
+        let pastDisplay = reconstructed.displays[field];
+        if (field === 'familyId' && !pastDisplay && pastValue === currentValue) {
+          pastDisplay = family?.name;
+        }
+
+        return {
+          field,
+          label,
+          isMasked,
+          changed: pastValue !== comparableCurrent,
+          past: formatFieldValue(field, pastValue, pastDisplay),
+          current: formatFieldValue(field, currentValue, field === 'familyId' ? family?.name : undefined),
+        };
+      })
+    : [];
+  const gapActions = [...new Set(reconstructed?.incompleteEntries.map(entry => formatActionType(entry.action)))];
+  // An incomplete reconstruction must not overwrite the current data
+  const canRestore = rows.some(row => row.changed && !row.isMasked)
+    && reconstructed?.incompleteEntries.length === 0;
+
+  return (
+    <Card>
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Stand zu einem Datum</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Rekonstruiert die Daten des Mitglieds aus der Änderungshistorie.
+      </p>
+      <div className="max-w-xs">
+        <Input
+          type="date"
+          label="Stichtag"
+          value={date}
+          max={today}
+          onChange={(e) => setDate(e.target.value)}
+        />
+      </div>
+
+      {date && !reconstructed && (
+        <p className="mt-4 text-sm text-gray-500">
+          Am {formatDate(date)} war das Mitglied noch nicht erfasst
+          (angelegt am {formatDate(member.createdAt)}).
+        </p>
+      )}
+
+      {reconstructed && (
+        <div className="mt-4 space-y-3">
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Feld</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Stand {formatDate(date)}</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Aktuell</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.field} className={row.changed ? 'bg-yellow-50' : undefined}>
+                    <td className="px-3 py-2 text-gray-700 whitespace-nowrap">
+                      {row.label}
+                      {row.isMasked && <span className="ml-1 text-xs text-gray-400">(maskiert)</span>}
+                    </td>
+                    <td className={`px-3 py-2 break-all ${row.changed ? 'font-medium text-gray-900' : 'text-gray-600'}`}>
+                      {row.past}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 break-all">{row.current}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {reconstructed.incompleteEntries.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              {reconstructed.incompleteEntries.length} spätere(r) Eintrag/Einträge enthalten keine
+              Feldwerte des Mitglieds ({gapActions.join(', ')}). Der angezeigte Stand kann daher
+              unvollständig sein und kann nicht wiederhergestellt werden.
+              {reconstructed.incompleteEntries.some(entry => entry.action === 'AUDIT_LOG_ARCHIVED') && (
+                <> Archivierte Einträge lassen sich unter Einstellungen → Archivierung der Historie herunterladen.</>
+              )}
+            </div>
+          )}
+
+          {onRestore && pointInTime && canRestore && (
+            <div className="flex justify-end">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => onRestore(pointInTime.toISOString())}
+                disabled={isRestoring}
+              >
+                Diesen Stand wiederherstellen
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
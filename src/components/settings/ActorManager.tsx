@@ -0,0 +1,97 @@
+/**
+ * Actor Manager Component
+ * Maintains the list of people who can be selected as actor (e.g. board members)
+ */
+
+import { useState, useEffect } from 'react';
+import type { Actor } from '../../models/types';
+import { Button, Card, Input } from '../ui';
+import {
+  addActor,
+  getActors,
+  getCurrentActor,
+  onCurrentActorChanged,
+  removeActor,
+} from '../../services/actorService';
+import { onSettingsChanged } from '../../services/settingsService';
+
+export function ActorManager() {
+  const [actors, setActors] = useState<Actor[]>(getActors);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [currentActorId, setCurrentActorId] = useState(() => getCurrentActor()?.id);
+
+  useEffect(() => {
+    return onSettingsChanged(() => setActors(getActors()));
+  }, []);
+
+  useEffect(() => {
+    return onCurrentActorChanged(actor => setCurrentActorId(actor?.id));
+  }, []);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      addActor(name);
+      setName('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Hinzufügen');
+    }
+  };
+
+  const handleRemove = (actor: Actor) => {
+    if (confirm(`Möchten Sie "${actor.name}" wirklich entfernen? Bisherige Einträge in der Historie bleiben erhalten.`)) {
+      removeActor(actor.id);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Benutzer</h3>
+        <p className="text-sm text-gray-500">
+          Personen, die mit der App arbeiten. Nach der Auswahl in der Kopfzeile wird jede Aktion
+          in der Historie mit dem Namen protokolliert.
+        </p>
+      </div>
+
+      {actors.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">
+          Noch keine Benutzer angelegt. Einträge in der Historie werden ohne Namen protokolliert.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-4">
+          {actors.map(actor => (
+            <li key={actor.id} className="flex items-center justify-between gap-3 p-3">
+              <span className="text-sm text-gray-900">
+                {actor.name}
+                {actor.id === currentActorId && (
+                  <span className="ml-2 text-xs text-gray-500">(angemeldet)</span>
+                )}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => handleRemove(actor)}>
+                Entfernen
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <Input
+            label="Neuer Benutzer"
+            placeholder="z.B. Kassenwart Peter Müller"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            error={error ?? undefined}
+          />
+        </div>
+        <Button type="submit" variant="secondary" disabled={!name.trim()}>
+          Hinzufügen
+        </Button>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+/**
+ * Audit Archive Manager Component
+ * Configures the retention period of the audit log and lists the archives
+ * (view, download, import)
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AuditArchiveInfo, AuditLogEntry } from '../../models/types';
+import { Button, Card, Modal, Select } from '../ui';
+import {
+  archiveAuditLog,
+  downloadAuditArchive,
+  importAuditArchive,
+  isAuditArchivingAvailable,
+  listAuditArchives,
+  loadAuditArchiveEntries,
+  onAuditArchivesChanged,
+} from '../../services/auditArchiveService';
+import { formatActionType } from '../../services/auditService';
+import { getSettings, updateSettings } from '../../services/settingsService';
+import { formatBytes } from '../../services/storageUsageService';
+
+const RETENTION_OPTIONS = [0, 6, 12, 24, 36, 60];
+
+interface ArchivePreview {
+  archive: AuditArchiveInfo;
+  entries: AuditLogEntry[];
+}
+
+export function AuditArchiveManager() {
+  const [archives, setArchives] = useState<AuditArchiveInfo[]>([]);
+  const [retention, setRetention] = useState(() => getSettings().auditRetentionMonths);
+  const [preview, setPreview] = useState<ArchivePreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isAvailable = isAuditArchivingAvailable();
+
+  const loadArchives = useCallback(async () => {
+    try {
+      if (isAvailable) setArchives(await listAuditArchives());
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Fehler beim Laden der Archive',
+      });
+    }
+  }, [isAvailable]);
+
+  useEffect(() => {
+    loadArchives();
+    return onAuditArchivesChanged(loadArchives);
+  }, [loadArchives]);
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    });
+  };
+
+  const runAction = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : fallbackMessage });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const archiveNow = (months: number) => {
+    runAction(async () => {
+      const archive = await archiveAuditLog(months);
+      setMessage({
+        type: 'success',
+        text: archive
+          ? `${archive.entryCount} Einträge wurden archiviert.`
+          : 'Es gibt keine Einträge, die älter als die Aufbewahrungsfrist sind.',
+      });
+    }, 'Fehler beim Archivieren');
+  };
+
+  const handleRetentionChange = (months: number) => {
+    setRetention(months);
+    updateSettings({ auditRetentionMonths: months });
+    if (months > 0) archiveNow(months);
+  };
+
+  const handlePreview = (archive: AuditArchiveInfo) => {
+    runAction(async () => {
+      setPreview({ archive, entries: await loadAuditArchiveEntries(archive.id) });
+    }, 'Fehler beim Laden des Archivs');
+  };
+
+  const handleDownload = (archive: AuditArchiveInfo) => {
+    runAction(async () => {
+      await downloadAuditArchive(archive.id);
+    }, 'Fehler beim Herunterladen des Archivs');
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    runAction(async () => {
+      try {
+        const archive = await importAuditArchive(file);
+        setMessage({
+          type: 'success',
+          text: `Archiv mit ${archive.entryCount} Einträgen (${formatDate(archive.fromTimestamp)} – ${formatDate(archive.toTimestamp)}) wurde importiert.`,
+        });
+      } finally {
+        // Reset file input
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+        }
+      }
+    }, 'Fehler beim Importieren des Archivs');
+  };
+
+  return (
+    <Card>
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Archivierung der Historie</h3>
+        <p className="text-sm text-gray-500">
+          Ältere Einträge werden komprimiert archiviert, damit der Browser-Speicher nicht voll läuft.
+          In der Historie bleibt ein Eintrag „Historie archiviert“ mit der Zusammenfassung.
+        </p>
+      </div>
+
+      {!isAvailable ? (
+        <p className="text-sm text-gray-500">
+          Die Archivierung benötigt IndexedDB und Komprimierung, die in diesem Browser nicht verfügbar sind.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="max-w-xs w-full">
+              <Select
+                label="Einträge archivieren nach"
+                value={String(retention)}
+                onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                disabled={isWorking}
+              >
+                {RETENTION_OPTIONS.map(option => (
+                  <option key={option} value={option}>
+                    {option === 0 ? 'Nie (alle Einträge behalten)' : `${option} Monaten`}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <Button
+              variant="secondary"
+              onClick={() => archiveNow(retention)}
+              disabled={isWorking || retention === 0}
+            >
+              Jetzt archivieren
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gz,application/gzip"
+              onChange={handleFileChange}
+              className="hidden"
+              id="audit-archive-file-input"
+            />
+            <Button
+              variant="ghost"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isWorking}
+            >
+              Archiv importieren
+            </Button>
+          </div>
+
+          {message && (
+            <div className={`p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 border border-green-200 text-green-700' : 'bg-red-50 border border-red-200 text-red-700'}`}>
+              {message.text}
+            </div>
+          )}
+
+          {archives.length === 0 ? (
+            <p className="text-sm text-gray-500">Noch keine Archive vorhanden.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {archives.map(archive => (
+                <li key={archive.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3">
+                  <div className="flex-1">
+                    <span className="text-sm font-medium text-gray-900">
+                      {formatDate(archive.fromTimestamp)} – {formatDate(archive.toTimestamp)}
+                    </span>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {archive.entryCount} Einträge, {formatBytes(archive.compressedSize)},
+                      archiviert am {formatDate(archive.createdAt)}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => handlePreview(archive)} disabled={isWorking}>
+                      Anzeigen
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => handleDownload(archive)} disabled={isWorking}>
+                      Herunterladen
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Preview Modal */}
+      <Modal
+        isOpen={preview !== null}
+        onClose={() => setPreview(null)}
+        title={preview
+          ? `Archiv ${formatDate(preview.archive.fromTimestamp)} – ${formatDate(preview.archive.toTimestamp)}`
+          : ''}
+        size="xl"
+      >
+        {preview && (
+          <div className="space-y-4">
+            <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Zeitpunkt</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Aktion</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Beschreibung</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.entries.map(entry => (
+                    <tr key={entry.id}>
+                      <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                        {new Date(entry.timestamp).toLocaleString('de-DE')}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{formatActionType(entry.action)}</td>
+                      <td className="px-3 py-2 text-gray-900">{entry.description}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+              <Button variant="secondary" onClick={() => setPreview(null)}>
+                Schließen
+              </Button>
+              <Button onClick={() => handleDownload(preview.archive)} disabled={isWorking}>
+                Herunterladen
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </Card>
+  );
+}
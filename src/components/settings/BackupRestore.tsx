@@ -0,0 +1,229 @@
+/**
+ * Backup/Restore Component
+ * Downloads a full JSON backup and restores all data from a backup file
+ */
+
+import { useState, useRef } from 'react';
+import { Button, Card } from '../ui';
+import { SensitiveExportDialog } from '../SensitiveExportDialog';
+import {
+  downloadBackup,
+  parseBackup,
+  validateBackup,
+  restoreBackup,
+  type BackupFile,
+} from '../../services/backupService';
+import { isEncryptionEnabled } from '../../services/encryptionService';
+
+interface BackupRestoreProps {
+  onRestoreComplete: () => void;
+}
+
+interface PendingRestore {
+  fileName: string;
+  backup: BackupFile;
+  problems: string[];
+}
+
+export function BackupRestore({ onRestoreComplete }: BackupRestoreProps) {
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const formatDateTime = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const createBackupFile = (includeDecrypted: boolean) => {
+    setIsExportDialogOpen(false);
+    try {
+      const backup = downloadBackup(undefined, { includeDecrypted });
+      setMessage({
+        type: 'success',
+        text: `Backup mit ${backup.data.members.length} Mitgliedern und ${backup.data.families.length} Familien erstellt.`,
+      });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Fehler beim Erstellen des Backups',
+      });
+    }
+  };
+
+  const handleDownload = () => {
+    // Encrypted fields are only included decrypted on explicit request
+    if (isEncryptionEnabled()) {
+      setIsExportDialogOpen(true);
+    } else {
+      createBackupFile(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    setMessage(null);
+    setPendingRestore(null);
+
+    try {
+      const backup = parseBackup(await file.text());
+      setPendingRestore({ fileName: file.name, backup, problems: validateBackup(backup) });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Die Datei konnte nicht gelesen werden',
+      });
+    } finally {
+      setIsReading(false);
+      // Reset file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+
+    try {
+      await restoreBackup(pendingRestore.backup, { confirmWithoutSnapshot: message => confirm(message) });
+      setMessage({
+        type: 'success',
+        text: `Backup vom ${formatDateTime(pendingRestore.backup.createdAt)} wurde wiederhergestellt.`,
+      });
+      setPendingRestore(null);
+      onRestoreComplete();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Fehler beim Wiederherstellen',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Backup / Wiederherstellung</h3>
+
+      <div className="space-y-4">
+        {/* Backup Section */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-gray-700">Backup</h4>
+            <p className="text-sm text-gray-500">
+              Mitglieder, Familien, Historie und Einstellungen als JSON-Datei sichern.
+            </p>
+          </div>
+          <Button variant="secondary" onClick={handleDownload}>
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            Backup herunterladen
+          </Button>
+        </div>
+
+        <hr className="border-gray-200" />
+
+        {/* Restore Section */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-gray-700">Wiederherstellen</h4>
+            <p className="text-sm text-gray-500">
+              Alle aktuellen Daten durch den Inhalt einer Backup-Datei ersetzen.
+            </p>
+          </div>
+          <Button
+            variant="primary"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReading}
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            {isReading ? 'Lese Datei...' : 'Backup auswählen'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            className="hidden"
+            aria-label="Backup-Datei auswählen"
+            title="Backup-Datei auswählen"
+          />
+        </div>
+
+        {/* Restore Preview */}
+        {pendingRestore && (
+          <div className={`p-4 rounded-lg ${pendingRestore.problems.length === 0 ? 'bg-yellow-50 border border-yellow-200' : 'bg-red-50 border border-red-200'}`}>
+            <h4 className="text-sm font-medium text-gray-900">{pendingRestore.fileName}</h4>
+            <div className="mt-1 text-sm text-gray-600">
+              <p>Erstellt am: {formatDateTime(pendingRestore.backup.createdAt)}</p>
+              <p>Mitglieder: {pendingRestore.backup.data.members.length}</p>
+              <p>Familien: {pendingRestore.backup.data.families.length}</p>
+              <p>Historien-Einträge: {pendingRestore.backup.data.auditLog.length}</p>
+              {pendingRestore.backup.encryption && (
+                <p>Geschützte Felder sind verschlüsselt (Passwort des Backups erforderlich)</p>
+              )}
+            </div>
+
+            {pendingRestore.problems.length > 0 ? (
+              <div className="mt-2">
+                <p className="text-sm font-medium text-red-700">
+                  Das Backup kann nicht wiederhergestellt werden:
+                </p>
+                <ul className="mt-1 text-sm text-red-600 list-disc list-inside max-h-32 overflow-y-auto">
+                  {pendingRestore.problems.map((problem, index) => (
+                    <li key={index}>{problem}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="mt-2 text-sm text-yellow-800">
+                Achtung: Alle aktuellen Mitglieder, Familien, Historien-Einträge und Einstellungen werden ersetzt.
+              </p>
+            )}
+
+            <div className="mt-3 flex gap-2 justify-end">
+              <Button variant="secondary" size="sm" onClick={() => setPendingRestore(null)}>
+                Abbrechen
+              </Button>
+              <Button
+                variant="danger"
+                size="sm"
+                onClick={handleRestore}
+                disabled={pendingRestore.problems.length > 0}
+              >
+                Wiederherstellen
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Result Message */}
+        {message && (
+          <div className={`p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 border border-green-200 text-green-700' : 'bg-red-50 border border-red-200 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+      </div>
+
+      <SensitiveExportDialog
+        isOpen={isExportDialogOpen}
+        title="Backup herunterladen"
+        onChoose={createBackupFile}
+        onCancel={() => setIsExportDialogOpen(false)}
+      />
+    </Card>
+  );
+}
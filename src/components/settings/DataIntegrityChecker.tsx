@@ -0,0 +1,136 @@
+/**
+ * Data Integrity Checker Component
+ * Lists inconsistencies in the member and family data by severity and repairs
+ * them one by one or all at once
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { IntegrityReport } from '../../models/types';
+import { Badge, Button, Card } from '../ui';
+import {
+  INTEGRITY_SEVERITY_LABELS,
+  repairAllIntegrityIssues,
+  repairIntegrityIssue,
+  scanDataIntegrity,
+} from '../../services/dataIntegrityService';
+import { onDataCommitted } from '../../services/storageService';
+import { subscribeToExternalChanges } from '../../services/syncService';
+
+interface DataIntegrityCheckerProps {
+  onRepairComplete: () => void;
+}
+
+export function DataIntegrityChecker({ onRepairComplete }: DataIntegrityCheckerProps) {
+  const [report, setReport] = useState<IntegrityReport>(scanDataIntegrity);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const rescan = useCallback(() => {
+    setReport(scanDataIntegrity());
+  }, []);
+
+  // Keep the list current after edits, undo and changes in other tabs
+  useEffect(() => {
+    const unsubscribeCommits = onDataCommitted(rescan);
+    const unsubscribeExternal = subscribeToExternalChanges(rescan);
+    return () => {
+      unsubscribeCommits();
+      unsubscribeExternal();
+    };
+  }, [rescan]);
+
+  const runRepair = (repair: () => string) => {
+    setMessage(null);
+    try {
+      setMessage({ type: 'success', text: repair() });
+      onRepairComplete();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Fehler beim Beheben',
+      });
+    }
+    rescan();
+  };
+
+  const handleRepair = (issueId: string, repairLabel: string) => {
+    runRepair(() => {
+      repairIntegrityIssue(issueId);
+      return `Behoben: ${repairLabel}`;
+    });
+  };
+
+  const handleRepairAll = () => {
+    if (!confirm(`Möchten Sie alle ${report.issues.length} Datenfehler automatisch beheben?`)) {
+      return;
+    }
+    runRepair(() => {
+      const { resolvedCount, report: next } = repairAllIntegrityIssues();
+      return next.issues.length === 0
+        ? `${resolvedCount} Datenfehler wurden behoben.`
+        : `${resolvedCount} Datenfehler wurden behoben, ${next.issues.length} bestehen weiterhin.`;
+    });
+  };
+
+  const errorCount = report.issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = report.issues.length - errorCount;
+
+  return (
+    <Card>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Datenprüfung</h3>
+          <p className="text-sm text-gray-500">
+            Prüft Familienzuordnungen, Hauptmitglieder und Austrittsdaten auf Widersprüche. Jede
+            Korrektur wird in der Historie protokolliert und kann rückgängig gemacht werden.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={rescan}>
+            Erneut prüfen
+          </Button>
+          {report.issues.length > 0 && (
+            <Button onClick={handleRepairAll}>
+              Alle beheben
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Geprüft am {new Date(report.checkedAt).toLocaleString('de-DE')}:{' '}
+          {report.issues.length === 0
+            ? 'keine Probleme gefunden.'
+            : `${errorCount} Fehler, ${warningCount} Warnungen.`}
+        </p>
+
+        {message && (
+          <div className={`p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 border border-green-200 text-green-700' : 'bg-red-50 border border-red-200 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+
+        {report.issues.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {report.issues.map(issue => (
+              <li key={issue.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3">
+                <div className="flex-1">
+                  <div className="flex items-start gap-2">
+                    <Badge variant={issue.severity === 'error' ? 'danger' : 'warning'} size="sm">
+                      {INTEGRITY_SEVERITY_LABELS[issue.severity]}
+                    </Badge>
+                    <span className="text-sm text-gray-900">{issue.description}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Korrektur: {issue.repairLabel}</p>
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => handleRepair(issue.id, issue.repairLabel)}>
+                  Beheben
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
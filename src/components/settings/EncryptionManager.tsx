@@ -0,0 +1,197 @@
+/**
+ * Encryption Manager Component
+ * Enables and disables the field-level encryption of sensitive member data
+ * and locks the data again before leaving a shared computer
+ */
+
+import { useState } from 'react';
+import type { EncryptableMemberField } from '../../models/types';
+import { Button, Card, Input } from '../ui';
+import { EncryptionUnlockForm } from '../EncryptionUnlock';
+import { useEncryption } from '../../hooks/useEncryption';
+import {
+  disableEncryption,
+  enableEncryption,
+  ENCRYPTABLE_FIELD_LABELS,
+  ENCRYPTABLE_FIELDS,
+  lock,
+  MIN_PASSPHRASE_LENGTH,
+} from '../../services/encryptionService';
+import { sealUnencryptedSnapshots } from '../../services/snapshotService';
+
+export function EncryptionManager() {
+  const { enabled, unlocked, fields } = useEncryption();
+  const [selectedFields, setSelectedFields] = useState<EncryptableMemberField[]>(['iban', 'bic']);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const runAction = async (action: () => Promise<void>, successText: string, fallbackMessage: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+      setMessage({ type: 'success', text: successText });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : fallbackMessage });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleField = (field: EncryptableMemberField, checked: boolean) => {
+    setSelectedFields(current => checked
+      ? [...current, field]
+      : current.filter(selected => selected !== field)
+    );
+  };
+
+  const handleEnable = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (passphrase !== confirmation) {
+      setMessage({ type: 'error', text: 'Die Passwörter stimmen nicht überein.' });
+      return;
+    }
+    runAction(
+      async () => {
+        await enableEncryption(passphrase, selectedFields);
+        try {
+          await sealUnencryptedSnapshots();
+        } catch (error) {
+          console.error('Snapshots konnten nicht verschlüsselt werden:', error);
+          throw new Error(
+            'Die Verschlüsselung ist aktiviert, ältere Snapshots konnten aber nicht verschlüsselt werden ' +
+            'und enthalten die Felder weiterhin unverschlüsselt.'
+          );
+        }
+      },
+      'Die Verschlüsselung ist aktiviert.',
+      'Fehler beim Aktivieren der Verschlüsselung'
+    );
+  };
+
+  const handleDisable = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!confirm('Die geschützten Felder werden wieder unverschlüsselt gespeichert. Fortfahren?')) {
+      return;
+    }
+    runAction(
+      () => disableEncryption(passphrase),
+      'Die Verschlüsselung ist deaktiviert.',
+      'Fehler beim Deaktivieren der Verschlüsselung'
+    );
+  };
+
+  const handleLock = () => {
+    runAction(lock, 'Die Daten sind gesperrt.', 'Fehler beim Sperren');
+  };
+
+  return (
+    <Card>
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Verschlüsselung</h3>
+        <p className="text-sm text-gray-500">
+          Bankdaten und auf Wunsch das Geburtsdatum werden mit einem Passwort verschlüsselt im Browser
+          gespeichert. Das Passwort wird nicht gespeichert und muss nach jedem Start einmal eingegeben werden.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {!enabled && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700 mb-2">Verschlüsselte Felder</legend>
+              <div className="flex flex-wrap gap-4">
+                {ENCRYPTABLE_FIELDS.map(field => (
+                  <label key={field} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={selectedFields.includes(field)}
+                      onChange={(e) => toggleField(field, e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      disabled={isWorking}
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{ENCRYPTABLE_FIELD_LABELS[field]}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-xl">
+              <Input
+                label="Passwort"
+                type="password"
+                autoComplete="new-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                helperText={`Mindestens ${MIN_PASSPHRASE_LENGTH} Zeichen`}
+                disabled={isWorking}
+              />
+              <Input
+                label="Passwort wiederholen"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                disabled={isWorking}
+              />
+            </div>
+            <p className="text-sm text-yellow-700">
+              Ohne das Passwort lassen sich die verschlüsselten Felder nicht wiederherstellen.
+            </p>
+            <p className="text-sm text-gray-500">
+              Vorhandene Snapshots werden mitverschlüsselt. Bereits heruntergeladene Backups und
+              Einträge der Historie aus älteren App-Versionen bleiben unverändert und können
+              die Felder unverschlüsselt enthalten.
+            </p>
+            <Button type="submit" disabled={isWorking || selectedFields.length === 0 || !passphrase}>
+              {isWorking ? 'Verschlüssele...' : 'Verschlüsselung aktivieren'}
+            </Button>
+          </form>
+        )}
+
+        {enabled && (
+          <p className="text-sm text-gray-700">
+            Verschlüsselt: {fields.map(field => ENCRYPTABLE_FIELD_LABELS[field]).join(', ')} –{' '}
+            {unlocked ? 'entsperrt' : 'gesperrt'}
+          </p>
+        )}
+
+        {enabled && !unlocked && <EncryptionUnlockForm />}
+
+        {enabled && unlocked && (
+          <div className="flex flex-col gap-4">
+            <div>
+              <Button variant="secondary" onClick={handleLock} disabled={isWorking}>
+                Jetzt sperren
+              </Button>
+            </div>
+            <form onSubmit={handleDisable} className="flex flex-col sm:flex-row sm:items-end gap-2">
+              <div className="max-w-xs w-full">
+                <Input
+                  label="Passwort zum Deaktivieren"
+                  type="password"
+                  autoComplete="current-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  disabled={isWorking}
+                />
+              </div>
+              <Button type="submit" variant="danger" disabled={isWorking || !passphrase}>
+                Verschlüsselung deaktivieren
+              </Button>
+            </form>
+          </div>
+        )}
+
+        {message && (
+          <div className={`p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 border border-green-200 text-green-700' : 'bg-red-50 border border-red-200 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,276 @@
+/**
+ * Snapshot Manager Component
+ * Lists the automatic snapshots and allows previewing and restoring them
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Snapshot, SnapshotInfo } from '../../models/types';
+import { Badge, Button, Card, Modal, Select, StatusBadge } from '../ui';
+import {
+  SNAPSHOT_REASON_LABELS,
+  isSnapshotStoreAvailable,
+  listSnapshots,
+  loadSnapshot,
+  onSnapshotsChanged,
+  pruneSnapshots,
+  restoreSnapshot,
+  takeSnapshot,
+} from '../../services/snapshotService';
+import { getSettings, updateSettings } from '../../services/settingsService';
+import { getAllMembers } from '../../services/storageService';
+
+interface SnapshotManagerProps {
+  onRestoreComplete: () => void;
+}
+
+const RETENTION_OPTIONS = [5, 10, 20, 50];
+
+export function SnapshotManager({ onRestoreComplete }: SnapshotManagerProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retention, setRetention] = useState(() => getSettings().snapshotRetention);
+  const [preview, setPreview] = useState<Snapshot | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const isAvailable = isSnapshotStoreAvailable();
+
+  const loadSnapshots = useCallback(async () => {
+    if (!isAvailable) return;
+    try {
+      setSnapshots(await listSnapshots());
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Fehler beim Laden der Snapshots',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [isAvailable]);
+
+  useEffect(() => {
+    loadSnapshots();
+    return onSnapshotsChanged(loadSnapshots);
+  }, [loadSnapshots]);
+
+  const formatDateTime = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const runAction = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : fallbackMessage });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRetentionChange = (value: number) => {
+    setRetention(value);
+    updateSettings({ snapshotRetention: value });
+    runAction(async () => {
+      await pruneSnapshots(value);
+      await loadSnapshots();
+    }, 'Fehler beim Löschen alter Snapshots');
+  };
+
+  const handleCreate = () => {
+    runAction(async () => {
+      await takeSnapshot('manual');
+      setMessage({ type: 'success', text: 'Snapshot wurde erstellt.' });
+    }, 'Fehler beim Erstellen des Snapshots');
+  };
+
+  const handlePreview = (id: string) => {
+    runAction(async () => {
+      const snapshot = await loadSnapshot(id);
+      if (!snapshot) throw new Error('Der Snapshot wurde nicht gefunden');
+      setPreview(snapshot);
+    }, 'Fehler beim Laden des Snapshots');
+  };
+
+  const handleRestore = (snapshot: SnapshotInfo) => {
+    if (!confirm(
+      `Möchten Sie wirklich den Stand vom ${formatDateTime(snapshot.createdAt)} wiederherstellen? ` +
+      'Der aktuelle Stand wird vorher als Snapshot gesichert.'
+    )) {
+      return;
+    }
+    runAction(async () => {
+      await restoreSnapshot(snapshot.id, { confirmWithoutSnapshot: message => confirm(message) });
+      setPreview(null);
+      setMessage({
+        type: 'success',
+        text: `Stand vom ${formatDateTime(snapshot.createdAt)} wurde wiederhergestellt.`,
+      });
+      onRestoreComplete();
+    }, 'Fehler beim Wiederherstellen');
+  };
+
+  // Compare the previewed snapshot with the current data
+  const previewDiff = (() => {
+    if (!preview) return null;
+    const currentIds = new Set(getAllMembers().map(m => m.id));
+    const snapshotIds = new Set(preview.data.members.map(m => m.id));
+    return {
+      onlyInSnapshot: [...snapshotIds].filter(id => !currentIds.has(id)).length,
+      onlyCurrent: [...currentIds].filter(id => !snapshotIds.has(id)).length,
+    };
+  })();
+
+  return (
+    <Card>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Automatische Snapshots</h3>
+          <p className="text-sm text-gray-500">
+            Vor jedem CSV-Import, Zurücksetzen und Wiederherstellen sowie einmal täglich wird der
+            gesamte Datenstand gesichert.
+          </p>
+        </div>
+        {isAvailable && (
+          <Button variant="secondary" onClick={handleCreate} disabled={isWorking}>
+            Snapshot erstellen
+          </Button>
+        )}
+      </div>
+
+      {!isAvailable ? (
+        <p className="text-sm text-gray-500">
+          Snapshots benötigen IndexedDB, das in diesem Browser nicht verfügbar ist.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="max-w-xs">
+            <Select
+              label="Anzahl aufbewahrter Snapshots"
+              value={String(retention)}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              disabled={isWorking}
+            >
+              {RETENTION_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </Select>
+          </div>
+
+          {message && (
+            <div className={`p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 border border-green-200 text-green-700' : 'bg-red-50 border border-red-200 text-red-700'}`}>
+              {message.text}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Lade Snapshots...</p>
+          ) : snapshots.length === 0 ? (
+            <p className="text-sm text-gray-500">Noch keine Snapshots vorhanden.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {snapshots.map(snapshot => (
+                <li key={snapshot.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {formatDateTime(snapshot.createdAt)}
+                      </span>
+                      <Badge variant={snapshot.reason === 'daily' ? 'gray' : 'info'} size="sm">
+                        {SNAPSHOT_REASON_LABELS[snapshot.reason]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {snapshot.memberCount} Mitglieder, {snapshot.familyCount} Familien,{' '}
+                      {snapshot.auditLogCount} Historien-Einträge
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => handlePreview(snapshot.id)} disabled={isWorking}>
+                      Vorschau
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => handleRestore(snapshot)} disabled={isWorking}>
+                      Wiederherstellen
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Preview Modal */}
+      <Modal
+        isOpen={preview !== null}
+        onClose={() => setPreview(null)}
+        title={preview ? `Snapshot vom ${formatDateTime(preview.createdAt)}` : ''}
+        size="xl"
+      >
+        {preview && previewDiff && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-gray-500">Mitglieder</p>
+                <p className="text-lg font-semibold text-gray-900">{preview.memberCount}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-gray-500">Familien</p>
+                <p className="text-lg font-semibold text-gray-900">{preview.familyCount}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-gray-500">Nur im Snapshot</p>
+                <p className="text-lg font-semibold text-green-700">{previewDiff.onlyInSnapshot}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-gray-500">Nur im aktuellen Stand</p>
+                <p className="text-lg font-semibold text-red-700">{previewDiff.onlyCurrent}</p>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Name</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Ort</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Familie</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.data.members.map(member => (
+                    <tr key={member.id}>
+                      <td className="px-3 py-2 text-gray-900">{member.firstName} {member.lastName}</td>
+                      <td className="px-3 py-2 text-gray-600">{member.city || '-'}</td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {preview.data.families.find(f => f.id === member.familyId)?.name || '-'}
+                      </td>
+                      <td className="px-3 py-2"><StatusBadge isActive={member.isActive} size="sm" /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+              <Button variant="secondary" onClick={() => setPreview(null)}>
+                Schließen
+              </Button>
+              <Button variant="danger" onClick={() => handleRestore(preview)} disabled={isWorking}>
+                Diesen Stand wiederherstellen
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Storage Usage Meter Component
+ * Shows how much of the browser storage is used, broken down by data type,
+ * and offers to move the data from LocalStorage to IndexedDB
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button, Card } from '../ui';
+import { onDataCommitted } from '../../services/storageService';
+import { onAuditArchivesChanged } from '../../services/auditArchiveService';
+import {
+  canSwitchToIndexedDB,
+  formatBytes,
+  getStorageUsage,
+  isStorageNearlyFull,
+  LOCAL_STORAGE_QUOTA_BYTES,
+  switchToIndexedDB,
+  type StorageUsage,
+} from '../../services/storageUsageService';
+
+const BACKEND_LABELS = {
+  localStorage: 'LocalStorage',
+  indexedDB: 'IndexedDB',
+  memory: 'Arbeitsspeicher',
+} as const;
+
+export function StorageUsageMeter() {
+  const [usage, setUsage] = useState<StorageUsage | undefined>(undefined);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch(err => console.error('Speicherbelegung konnte nicht ermittelt werden:', err));
+  }, []);
+
+  // Update after every write and when archives were created or imported
+  useEffect(() => {
+    loadUsage();
+    const unsubscribeCommits = onDataCommitted(loadUsage);
+    const unsubscribeArchives = onAuditArchivesChanged(loadUsage);
+    return () => {
+      unsubscribeCommits();
+      unsubscribeArchives();
+    };
+  }, [loadUsage]);
+
+  const handleSwitch = async () => {
+    if (!confirm(
+      'Die Daten werden in die IndexedDB des Browsers übertragen. ' +
+      'Die Anwendung wird danach neu geladen. Fortfahren?'
+    )) {
+      return;
+    }
+    setIsSwitching(true);
+    setError(null);
+    try {
+      await switchToIndexedDB();
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Umstellen auf IndexedDB');
+      setIsSwitching(false);
+    }
+  };
+
+  const percent = usage ? Math.min(100, Math.round(usage.ratio * 100)) : 0;
+  const barColor = !usage || usage.ratio < 0.6
+    ? 'bg-green-500'
+    : isStorageNearlyFull(usage) ? 'bg-red-500' : 'bg-yellow-500';
+
+  return (
+    <Card>
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Speicherbelegung</h3>
+        <p className="text-sm text-gray-500">
+          Wie viel Platz die Daten im Browser belegen.
+          {usage && ` Speicherort: ${BACKEND_LABELS[usage.backend]}.`}
+        </p>
+      </div>
+
+      {!usage ? (
+        <p className="text-sm text-gray-500">
+          Die Speicherbelegung kann für diesen Speicherort nicht ermittelt werden.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>{formatBytes(usage.usedBytes)} von {formatBytes(usage.quotaBytes)}</span>
+              <span>{percent} %</span>
+            </div>
+            <div className="h-3 w-full bg-gray-200 rounded-full overflow-hidden">
+              <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-200">
+              {usage.keys.map(key => (
+                <tr key={key.key}>
+                  <td className="py-1.5 text-gray-700">{key.label}</td>
+                  <td className="py-1.5 text-right text-gray-600 whitespace-nowrap">{formatBytes(key.bytes)}</td>
+                  <td className="py-1.5 pl-3 text-right text-gray-400 whitespace-nowrap w-16">
+                    {usage.usedBytes > 0 ? Math.round((key.bytes / usage.usedBytes) * 100) : 0} %
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {isStorageNearlyFull(usage) && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              Der Speicher ist fast voll. Archivieren Sie ältere Einträge der Historie
+              {canSwitchToIndexedDB() && ' oder stellen Sie auf IndexedDB um'}.
+            </div>
+          )}
+        </div>
+      )}
+
+      {canSwitchToIndexedDB() && (
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-4 border-t border-gray-200">
+          <p className="text-sm text-gray-500">
+            LocalStorage ist auf etwa {formatBytes(LOCAL_STORAGE_QUOTA_BYTES)} begrenzt. IndexedDB bietet
+            deutlich mehr Platz.
+          </p>
+          <Button variant="secondary" onClick={handleSwitch} disabled={isSwitching}>
+            Auf IndexedDB umstellen
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </Card>
+  );
+}
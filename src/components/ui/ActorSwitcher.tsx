@@ -0,0 +1,95 @@
+/**
+ * Actor Switcher Component
+ * Shows who is working with the app and allows switching the profile.
+ * If actors are configured and none is selected in this tab, the selection
+ * is shown on start (login).
+ */
+
+import { useState, useEffect } from 'react';
+import type { Actor } from '../../models/types';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import {
+  getActors,
+  getCurrentActor,
+  setCurrentActor,
+  onCurrentActorChanged,
+} from '../../services/actorService';
+import { onSettingsChanged } from '../../services/settingsService';
+
+export function ActorSwitcher() {
+  const [actors, setActors] = useState<Actor[]>(getActors);
+  const [currentActor, setCurrentActorState] = useState<Actor | undefined>(getCurrentActor);
+  const [isOpen, setIsOpen] = useState(() => getActors().length > 0 && !getCurrentActor());
+
+  useEffect(() => {
+    return onCurrentActorChanged(setCurrentActorState);
+  }, []);
+
+  // The actor list may change in the settings or in another tab
+  useEffect(() => {
+    return onSettingsChanged(() => {
+      setActors(getActors());
+      setCurrentActorState(getCurrentActor());
+    });
+  }, []);
+
+  // Actors are optional: without configured actors the switcher is hidden
+  if (actors.length === 0) return null;
+
+  const handleSelect = (id: string | undefined) => {
+    setCurrentActor(id);
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+        title="Profil wechseln"
+        aria-label={`Profil wechseln (aktuell: ${currentActor?.name ?? 'nicht angemeldet'})`}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+        </svg>
+        <span className="text-sm font-medium hidden sm:inline">
+          {currentActor?.name ?? 'Nicht angemeldet'}
+        </span>
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Wer arbeitet gerade?" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Alle Änderungen werden in der Historie mit dieser Person protokolliert.
+          </p>
+          <div className="space-y-2">
+            {actors.map(actor => (
+              <button
+                key={actor.id}
+                onClick={() => handleSelect(actor.id)}
+                className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                  actor.id === currentActor?.id
+                    ? 'border-blue-600 bg-blue-50 text-blue-800'
+                    : 'border-gray-200 hover:bg-gray-50 text-gray-900'
+                }`}
+              >
+                {actor.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+            {currentActor && (
+              <Button variant="ghost" onClick={() => handleSelect(undefined)}>
+                Abmelden
+              </Button>
+            )}
+            <Button variant="secondary" onClick={() => setIsOpen(false)}>
+              {currentActor ? 'Schließen' : 'Ohne Anmeldung fortfahren'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -1,17 +1,22 @@
 /**
  * Theme Toggle Component
  * Allows switching between light, dark, and system theme
+ * (stored in the application settings)
  */
 
 import { useState, useEffect } from 'react';
+import type { ThemeMode } from '../../models/types';
+import { getSettings, updateSettings, onSettingsChanged } from '../../services/settingsService';
 
-type Theme = 'light' | 'dark' | 'system';
+type Theme = ThemeMode;
 
 export function ThemeToggle() {
-  const [theme, setTheme] = useState<Theme>(() => {
-    const stored = localStorage.getItem('theme') as Theme;
-    return stored || 'system';
-  });
+  const [theme, setTheme] = useState<Theme>(() => getSettings().theme);
+
+  // Follow changes from other tabs or a restored backup
+  useEffect(() => {
+    return onSettingsChanged(settings => setTheme(settings.theme));
+  }, []);
 
   useEffect(() => {
     const root = document.documentElement;
@@ -26,7 +31,6 @@ export function ThemeToggle() {
     };
 
     applyTheme(theme);
-    localStorage.setItem('theme', theme);
 
     // Listen for system theme changes
     if (theme === 'system') {
@@ -38,11 +42,9 @@ export function ThemeToggle() {
   }, [theme]);
 
   const cycleTheme = () => {
-    setTheme(current => {
-      if (current === 'light') return 'dark';
-      if (current === 'dark') return 'system';
-      return 'light';
-    });
+    const next: Theme = theme === 'light' ? 'dark' : theme === 'dark' ? 'system' : 'light';
+    setTheme(next);
+    updateSettings({ theme: next });
   };
 
   const getIcon = () => {
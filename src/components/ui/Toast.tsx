@@ -0,0 +1,65 @@
+/**
+ * Toast component for short notifications with an optional action
+ */
+
+import { useEffect } from 'react';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onClose: () => void;
+  /** Time in milliseconds until the toast closes itself */
+  duration?: number;
+  variant?: 'info' | 'error';
+}
+
+export function Toast({
+  message,
+  actionLabel,
+  onAction,
+  onClose,
+  duration = 6000,
+  variant = 'info',
+}: ToastProps) {
+  // Close automatically
+  useEffect(() => {
+    const timer = setTimeout(onClose, duration);
+    return () => clearTimeout(timer);
+  }, [message, duration, onClose]);
+  
+  const variantStyles = {
+    info: 'bg-gray-900 text-white',
+    error: 'bg-red-700 text-white',
+  };
+  
+  return (
+    <div className="fixed bottom-4 inset-x-4 sm:inset-x-auto sm:right-4 z-50 flex justify-center sm:justify-end pointer-events-none">
+      <div
+        role="status"
+        aria-live="polite"
+        className={`pointer-events-auto flex items-center gap-4 px-4 py-3 rounded-lg shadow-lg text-sm ${variantStyles[variant]}`}
+      >
+        <span>{message}</span>
+        {actionLabel && onAction && (
+          <button
+            onClick={onAction}
+            className="font-medium text-blue-300 hover:text-blue-200 whitespace-nowrap"
+          >
+            {actionLabel}
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200"
+          title="Schließen"
+          aria-label="Schließen"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -9,3 +9,5 @@ export { Modal } from './Modal';
 export { Card, CardHeader } from './Card';
 export { Badge, StatusBadge } from './Badge';
 export { ThemeToggle } from './ThemeToggle';
+export { ActorSwitcher } from './ActorSwitcher';
+export { Toast } from './Toast';
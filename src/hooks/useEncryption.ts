@@ -0,0 +1,64 @@
+/**
+ * Custom hook for the field-level encryption state
+ * Follows enabling, disabling, locking and unlocking (also by other tabs)
+ */
+
+import { useState, useEffect } from 'react';
+import type { EncryptableMemberField } from '../models/types';
+import {
+  getEncryptedFields,
+  isEncryptionEnabled,
+  isUnlocked,
+  onEncryptionStateChanged,
+} from '../services/encryptionService';
+import { onDataCommitted } from '../services/storageService';
+import { subscribeToExternalChanges } from '../services/syncService';
+
+export interface EncryptionState {
+  enabled: boolean;
+  unlocked: boolean;
+  fields: EncryptableMemberField[];
+}
+
+function readEncryptionState(): EncryptionState {
+  return {
+    enabled: isEncryptionEnabled(),
+    unlocked: isUnlocked(),
+    fields: getEncryptedFields(),
+  };
+}
+
+/**
+ * @param onChange Called after the encryption state changed (e.g. to reload the members)
+ */
+export function useEncryption(onChange?: () => void): EncryptionState {
+  const [state, setState] = useState<EncryptionState>(readEncryptionState);
+
+  useEffect(() => {
+    const update = () => {
+      const next = readEncryptionState();
+      setState(current => {
+        const changed = current.enabled !== next.enabled ||
+          current.unlocked !== next.unlocked ||
+          current.fields.join() !== next.fields.join();
+        return changed ? next : current;
+      });
+    };
+    const handleStateChange = () => {
+      update();
+      onChange?.();
+    };
+
+    // Resetting the data or another tab may enable or disable the encryption
+    const unsubscribeState = onEncryptionStateChanged(handleStateChange);
+    const unsubscribeCommits = onDataCommitted(update);
+    const unsubscribeExternal = subscribeToExternalChanges(update);
+    return () => {
+      unsubscribeState();
+      unsubscribeCommits();
+      unsubscribeExternal();
+    };
+  }, [onChange]);
+
+  return state;
+}
@@ -3,45 +3,45 @@
  * Provides state management and operations for families
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import type { Family, Member } from '../models/types';
-import {
-  getFamilies,
-  getFamily,
-  createFamily,
-  getMembersOfFamily,
-  updateFamilyMainMember,
-  removeMemberFromFamily,
-} from '../services/memberService';
+import { getDataSource } from '../services/dataSource';
+import { subscribeToExternalChanges } from '../services/syncService';
 
 export interface UseFamiliesReturn {
   families: Family[];
   loading: boolean;
   error: string | null;
-  refreshFamilies: () => void;
-  addFamily: (name: string, mainMemberId?: string) => Family;
-  getFamilyById: (id: string) => Family | undefined;
-  getFamilyMembers: (familyId: string) => Member[];
-  setMainMember: (familyId: string, memberId: string) => void;
-  removeMember: (memberId: string) => void;
+  refreshFamilies: () => Promise<void>;
+  addFamily: (name: string, mainMemberId?: string) => Promise<Family>;
+  getFamilyById: (id: string) => Promise<Family | undefined>;
+  getFamilyMembers: (familyId: string) => Promise<Member[]>;
+  setMainMember: (familyId: string, memberId: string) => Promise<void>;
+  removeMember: (memberId: string) => Promise<void>;
 }
 
 export function useFamilies(): UseFamiliesReturn {
   const [families, setFamilies] = useState<Family[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
 
   // Load all families
-  const refreshFamilies = useCallback(() => {
+  const refreshFamilies = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
     setLoading(true);
     setError(null);
     try {
-      const allFamilies = getFamilies();
+      const allFamilies = await getDataSource().getFamilies();
+      if (requestId !== requestIdRef.current) return;
       setFamilies(allFamilies);
     } catch (err) {
+      if (requestId !== requestIdRef.current) return;
       setError(err instanceof Error ? err.message : 'Fehler beim Laden der Familien');
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
     }
   }, []);
 
@@ -50,34 +50,61 @@ export function useFamilies(): UseFamiliesReturn {
     refreshFamilies();
   }, [refreshFamilies]);
 
-  // Add a new family
-  const addFamily = useCallback((name: string, mainMemberId?: string): Family => {
-    const newFamily = createFamily(name, mainMemberId);
-    refreshFamilies();
-    return newFamily;
+  // Reload when another tab changed families
+  useEffect(() => {
+    return subscribeToExternalChanges(collections => {
+      if (collections.includes('families')) {
+        refreshFamilies();
+      }
+    });
   }, [refreshFamilies]);
 
+  // Run a modifying operation, surface its error and reload afterwards
+  const runMutation = useCallback(async <T,>(operation: () => Promise<T>, fallbackMessage: string): Promise<T> => {
+    setError(null);
+    try {
+      const result = await operation();
+      await refreshFamilies();
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackMessage);
+      throw err;
+    }
+  }, [refreshFamilies]);
+
+  // Add a new family
+  const addFamily = useCallback((name: string, mainMemberId?: string): Promise<Family> => {
+    return runMutation(
+      () => getDataSource().createFamily(name, mainMemberId),
+      'Fehler beim Anlegen der Familie'
+    );
+  }, [runMutation]);
+
   // Get a single family by ID
-  const getFamilyById = useCallback((id: string): Family | undefined => {
-    return getFamily(id);
+  const getFamilyById = useCallback((id: string): Promise<Family | undefined> => {
+    return getDataSource().getFamily(id);
   }, []);
 
   // Get members of a family
-  const getFamilyMembers = useCallback((familyId: string): Member[] => {
-    return getMembersOfFamily(familyId);
+  const getFamilyMembers = useCallback((familyId: string): Promise<Member[]> => {
+    return getDataSource().getMembersOfFamily(familyId);
   }, []);
 
   // Set the main member of a family
-  const setMainMember = useCallback((familyId: string, memberId: string): void => {
-    updateFamilyMainMember(familyId, memberId);
-    refreshFamilies();
-  }, [refreshFamilies]);
+  const setMainMember = useCallback((familyId: string, memberId: string): Promise<void> => {
+    return runMutation(
+      () => getDataSource().updateFamilyMainMember(familyId, memberId),
+      'Fehler beim Setzen des Hauptmitglieds'
+    );
+  }, [runMutation]);
 
   // Remove a member from their family
-  const removeMember = useCallback((memberId: string): void => {
-    removeMemberFromFamily(memberId);
-    refreshFamilies();
-  }, [refreshFamilies]);
+  const removeMember = useCallback((memberId: string): Promise<void> => {
+    return runMutation(
+      () => getDataSource().removeMemberFromFamily(memberId),
+      'Fehler beim Entfernen aus der Familie'
+    );
+  }, [runMutation]);
 
   return {
     families,
@@ -3,35 +3,25 @@
  * Provides state management and operations for members
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import type { Member, MemberFormData, MemberFilter } from '../models/types';
-import {
-  getMembers,
-  getMember,
-  createMember,
-  editMember,
-  activateMember,
-  deactivateMember,
-  getMemberStats,
-} from '../services/memberService';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Member, MemberFormData, MemberFilter, MemberStats, MemberRestoreSource } from '../models/types';
+import { getDataSource } from '../services/dataSource';
+import { ConcurrentModificationError } from '../services/memberService';
+import { subscribeToExternalChanges } from '../services/syncService';
 
 export interface UseMembersReturn {
   members: Member[];
   loading: boolean;
   error: string | null;
   filter: MemberFilter;
-  stats: {
-    total: number;
-    active: number;
-    inactive: number;
-    familyCount: number;
-  };
+  stats: MemberStats;
   setFilter: (filter: MemberFilter) => void;
-  refreshMembers: () => void;
-  addMember: (data: MemberFormData) => Member;
-  updateMember: (id: string, data: MemberFormData) => Member;
-  toggleMemberStatus: (id: string) => Member;
-  getMemberById: (id: string) => Member | undefined;
+  refreshMembers: () => Promise<void>;
+  addMember: (data: MemberFormData) => Promise<Member>;
+  updateMember: (id: string, data: MemberFormData, expectedUpdatedAt?: string) => Promise<Member>;
+  toggleMemberStatus: (id: string) => Promise<Member>;
+  restoreMemberVersion: (id: string, source: MemberRestoreSource) => Promise<Member>;
+  getMemberById: (id: string) => Promise<Member | undefined>;
 }
 
 const defaultFilter: MemberFilter = {
@@ -46,25 +36,36 @@ export function useMembers(): UseMembersReturn {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<MemberFilter>(defaultFilter);
-  const [stats, setStats] = useState({
+  const [stats, setStats] = useState<MemberStats>({
     total: 0,
     active: 0,
     inactive: 0,
     familyCount: 0,
   });
+  // Only the latest request may update the state (filter changes can overlap)
+  const requestIdRef = useRef(0);
 
   // Load members with current filter
-  const refreshMembers = useCallback(() => {
+  const refreshMembers = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
     setLoading(true);
     setError(null);
     try {
-      const filteredMembers = getMembers(filter);
+      const dataSource = getDataSource();
+      const [filteredMembers, memberStats] = await Promise.all([
+        dataSource.getMembers(filter),
+        dataSource.getMemberStats(),
+      ]);
+      if (requestId !== requestIdRef.current) return;
       setMembers(filteredMembers);
-      setStats(getMemberStats());
+      setStats(memberStats);
     } catch (err) {
+      if (requestId !== requestIdRef.current) return;
       setError(err instanceof Error ? err.message : 'Fehler beim Laden der Mitglieder');
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
     }
   }, [filter]);
 
@@ -73,38 +74,73 @@ export function useMembers(): UseMembersReturn {
     refreshMembers();
   }, [refreshMembers]);
 
-  // Add a new member
-  const addMember = useCallback((data: MemberFormData): Member => {
-    const newMember = createMember(data);
-    refreshMembers();
-    return newMember;
+  // Reload when another tab changed members or families
+  useEffect(() => {
+    return subscribeToExternalChanges(collections => {
+      if (collections.includes('members') || collections.includes('families')) {
+        refreshMembers();
+      }
+    });
   }, [refreshMembers]);
 
-  // Update an existing member
-  const updateMember = useCallback((id: string, data: MemberFormData): Member => {
-    const updatedMember = editMember(id, data);
-    refreshMembers();
-    return updatedMember;
+  // Run a modifying operation, surface its error and reload afterwards
+  const runMutation = useCallback(async <T,>(operation: () => Promise<T>, fallbackMessage: string): Promise<T> => {
+    setError(null);
+    try {
+      const result = await operation();
+      await refreshMembers();
+      return result;
+    } catch (err) {
+      // Conflicts are resolved by the caller (see MemberForm)
+      if (!(err instanceof ConcurrentModificationError)) {
+        setError(err instanceof Error ? err.message : fallbackMessage);
+      }
+      throw err;
+    }
   }, [refreshMembers]);
 
+  // Add a new member
+  const addMember = useCallback((data: MemberFormData): Promise<Member> => {
+    return runMutation(
+      () => getDataSource().createMember(data),
+      'Fehler beim Anlegen des Mitglieds'
+    );
+  }, [runMutation]);
+
+  // Update an existing member
+  const updateMember = useCallback((id: string, data: MemberFormData, expectedUpdatedAt?: string): Promise<Member> => {
+    return runMutation(
+      () => getDataSource().editMember(id, data, expectedUpdatedAt),
+      'Fehler beim Speichern des Mitglieds'
+    );
+  }, [runMutation]);
+
   // Toggle member active status
-  const toggleMemberStatus = useCallback((id: string): Member => {
-    const member = getMember(id);
-    if (!member) {
-      throw new Error(`Mitglied mit ID ${id} nicht gefunden`);
-    }
-    
-    const updatedMember = member.isActive
-      ? deactivateMember(id)
-      : activateMember(id);
-    
-    refreshMembers();
-    return updatedMember;
-  }, [refreshMembers]);
+  const toggleMemberStatus = useCallback((id: string): Promise<Member> => {
+    return runMutation(async () => {
+      const dataSource = getDataSource();
+      const member = await dataSource.getMember(id);
+      if (!member) {
+        throw new Error(`Mitglied mit ID ${id} nicht gefunden`);
+      }
+      
+      return member.isActive
+        ? dataSource.deactivateMember(id)
+        : dataSource.activateMember(id);
+    }, 'Fehler beim Ändern des Status');
+  }, [runMutation]);
+
+  // Restore a former version of a member
+  const restoreMemberVersion = useCallback((id: string, source: MemberRestoreSource): Promise<Member> => {
+    return runMutation(
+      () => getDataSource().restoreMemberVersion(id, source),
+      'Fehler beim Wiederherstellen des Mitglieds'
+    );
+  }, [runMutation]);
 
   // Get a single member by ID
-  const getMemberById = useCallback((id: string): Member | undefined => {
-    return getMember(id);
+  const getMemberById = useCallback((id: string): Promise<Member | undefined> => {
+    return getDataSource().getMember(id);
   }, []);
 
   return {
@@ -118,6 +154,7 @@ export function useMembers(): UseMembersReturn {
     addMember,
     updateMember,
     toggleMemberStatus,
+    restoreMemberVersion,
     getMemberById,
   };
 }
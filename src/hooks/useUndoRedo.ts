@@ -0,0 +1,120 @@
+/**
+ * Custom hook for undo/redo
+ * Exposes the undo/redo stacks, keyboard shortcuts (Ctrl+Z, Ctrl+Y / Ctrl+Shift+Z)
+ * and the toast shown after each recorded operation
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { getDataSource } from '../services/dataSource';
+import {
+  undo as undoCommand,
+  redo as redoCommand,
+  getUndoState,
+  onUndoStateChanged,
+  type UndoState,
+} from '../services/undoService';
+
+interface UndoToast {
+  message: string;
+  /** Offered follow-up action */
+  action?: 'undo' | 'redo';
+  variant: 'info' | 'error';
+}
+
+export interface UseUndoRedoReturn extends UndoState {
+  /** Undo is only available for the local data source */
+  available: boolean;
+  toast: UndoToast | null;
+  dismissToast: () => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+/**
+ * Check whether a keyboard event targets a text field (which has its own undo)
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * @param onChange Called after data was changed by undo or redo
+ */
+export function useUndoRedo(onChange: () => void): UseUndoRedoReturn {
+  const [state, setState] = useState<UndoState>(getUndoState);
+  const [toast, setToast] = useState<UndoToast | null>(null);
+  const available = getDataSource().kind === 'local';
+
+  // Follow the undo stack and offer to undo every new operation
+  useEffect(() => {
+    return onUndoStateChanged(recorded => {
+      setState(getUndoState());
+      if (recorded) {
+        setToast({ message: recorded.label, action: 'undo', variant: 'info' });
+      }
+    });
+  }, []);
+
+  const dismissToast = useCallback(() => {
+    setToast(null);
+  }, []);
+
+  const undo = useCallback(() => {
+    try {
+      const command = undoCommand();
+      if (!command) return;
+      setToast({ message: `Rückgängig gemacht: ${command.label}`, action: 'redo', variant: 'info' });
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Rückgängig machen fehlgeschlagen',
+        variant: 'error',
+      });
+    }
+    onChange();
+  }, [onChange]);
+
+  const redo = useCallback(() => {
+    try {
+      const command = redoCommand();
+      if (!command) return;
+      setToast({ message: `Wiederholt: ${command.label}`, action: 'undo', variant: 'info' });
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Wiederholen fehlgeschlagen',
+        variant: 'error',
+      });
+    }
+    onChange();
+  }, [onChange]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    if (!available) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [available, undo, redo]);
+
+  return {
+    ...state,
+    available,
+    toast,
+    dismissToast,
+    undo,
+    redo,
+  };
+}
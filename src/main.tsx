@@ -2,9 +2,42 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { StartupError } from './components/StartupError.tsx'
+import { initializeRepositories, resolveStorageBackend } from './repositories'
+import { runMigrations } from './services/migrationService'
+import { initializeExampleData } from './services/initService'
+import { handleFailedWrite, startSync } from './services/syncService'
+import { ensureDailySnapshot } from './services/snapshotService'
+import { applyAuditRetentionPolicy } from './services/auditArchiveService'
+import { memberEncryptionCodec } from './services/encryptionService'
+import { migrateLegacyTheme } from './services/settingsService'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const root = createRoot(document.getElementById('root')!)
+
+// The storage backend has to be ready and migrated before any component reads data
+initializeRepositories(resolveStorageBackend(), {
+  memberCodec: memberEncryptionCodec,
+  onWriteError: handleFailedWrite,
+})
+  .then(() => {
+    runMigrations()
+    migrateLegacyTheme()
+    initializeExampleData()
+    startSync()
+    ensureDailySnapshot()
+    applyAuditRetentionPolicy()
+
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    )
+  })
+  .catch((error: unknown) => {
+    console.error('Start der Anwendung fehlgeschlagen:', error)
+    root.render(
+      <StrictMode>
+        <StartupError error={error} />
+      </StrictMode>,
+    )
+  })
@@ -67,13 +67,24 @@ export type AuditActionType =
   | 'MEMBER_UPDATED'
   | 'MEMBER_ACTIVATED'
   | 'MEMBER_DEACTIVATED'
+  | 'MEMBER_RESTORED'
   | 'FAMILY_CREATED'
   | 'FAMILY_UPDATED'
   | 'FAMILY_MEMBER_ADDED'
   | 'FAMILY_MEMBER_REMOVED'
   | 'FAMILY_MAIN_MEMBER_CHANGED'
   | 'DATA_IMPORTED'
-  | 'DATA_EXPORTED';
+  | 'DATA_EXPORTED'
+  | 'SCHEMA_MIGRATED'
+  | 'BACKUP_CREATED'
+  | 'BACKUP_RESTORED'
+  | 'SNAPSHOT_RESTORED'
+  | 'ACTION_UNDONE'
+  | 'ACTION_REDONE'
+  | 'AUDIT_LOG_CLEARED'
+  | 'AUDIT_LOG_EXPORTED'
+  | 'AUDIT_LOG_ARCHIVED'
+  | 'INTEGRITY_REPAIRED';
 
 /**
  * Represents an audit log entry
@@ -99,6 +110,75 @@ export interface AuditLogEntry {
   
   /** Additional details (e.g., changed fields) */
   details?: Record<string, unknown>;
+  
+  /** Who performed the action (undefined if no actor was selected) */
+  actor?: Actor;
+  
+  /** Hash of the previous entry (see auditIntegrityService) */
+  previousHash?: string;
+  
+  /** SHA-256 hash of this entry including previousHash */
+  hash?: string;
+}
+
+/**
+ * Newest end of the audit log hash chain, recorded to detect removed entries later
+ */
+export interface AuditChainHead {
+  /** Hash of the newest entry */
+  hash: string;
+
+  /** Number of entries in the log */
+  entryCount: number;
+
+  /** Timestamp of the newest entry (unknown for a head entered by hand) */
+  timestamp?: string;
+}
+
+/**
+ * A person using the app (e.g. a board member), recorded in the audit log
+ */
+export interface Actor {
+  /** Unique identifier (UUID) */
+  id: string;
+  
+  /** Display name, e.g. 'Kassenwart Peter Müller' */
+  name: string;
+}
+
+/**
+ * Value of a member field as recorded in the audit log
+ */
+export type FieldValue = string | boolean | null;
+
+/**
+ * Change of a single member field (stored in AuditLogEntry.details.changes)
+ */
+export interface FieldChange {
+  /** Name of the Member property, e.g. 'city' */
+  field: string;
+  
+  /** Display label, e.g. 'Ort' */
+  label: string;
+  
+  oldValue: FieldValue;
+  newValue: FieldValue;
+  
+  /** Display text of the values if they are references (e.g. family names) */
+  oldDisplay?: string;
+  newDisplay?: string;
+  
+  /** Values are masked (sensitive data such as IBAN) */
+  masked?: boolean;
+}
+
+/**
+ * Field changes of one member in an operation on several members
+ * (stored in AuditLogEntry.details.memberChanges of undo/redo entries)
+ */
+export interface MemberFieldChanges {
+  memberId: string;
+  changes: FieldChange[];
 }
 
 /**
@@ -129,6 +209,63 @@ export interface MemberFilter {
   familyId?: string;
 }
 
+/**
+ * Former version of a member to restore
+ * - entryId: the values before the change recorded in this audit log entry (MEMBER_UPDATED)
+ * - pointInTime: the state at this time (ISO datetime), reconstructed from the audit log
+ */
+export type MemberRestoreSource =
+  | { entryId: string }
+  | { pointInTime: string };
+
+/**
+ * Query options for the audit log (all filters are optional and combined with AND)
+ */
+export interface AuditLogQuery {
+  action?: AuditActionType;
+  memberId?: string;
+  familyId?: string;
+
+  /** Actor ID, or NO_ACTOR_FILTER for entries without actor */
+  actorId?: string;
+
+  /** First day to include (YYYY-MM-DD, local time) */
+  from?: string;
+
+  /** Last day to include (YYYY-MM-DD, local time) */
+  to?: string;
+
+  /** Free text, matched case-insensitively against description, names and IDs */
+  search?: string;
+
+  /** Page number, starting at 1 */
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * One page of audit log entries matching an AuditLogQuery (newest first)
+ */
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+
+  /** Number of matching entries over all pages */
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/**
+ * Aggregated member statistics
+ */
+export interface MemberStats {
+  total: number;
+  active: number;
+  inactive: number;
+  familyCount: number;
+}
+
 /**
  * CSV row structure for import/export
  */
@@ -146,9 +283,20 @@ export interface MemberCSVRow {
   exitDate: string;
   isActive: string;
   familyId: string;
+  /** Name of the family (optional on import, used to find or create the family) */
+  familyName: string;
   isMainFamilyMember: string;
 }
 
+/**
+ * CSV row structure of the family export
+ */
+export interface FamilyCSVRow {
+  id: string;
+  name: string;
+  mainMemberId: string;
+}
+
 /**
  * Result of a CSV import operation
  */
@@ -157,4 +305,281 @@ export interface CSVImportResult {
   imported: number;
   updated: number;
   errors: string[];
+
+  /** Families created and updated by the import */
+  familiesImported?: number;
+  familiesUpdated?: number;
+
+  /** Data inconsistencies found after the import (see dataIntegrityService) */
+  integrityIssues?: IntegrityIssue[];
+}
+
+/**
+ * How a CSV row relates to the existing members
+ */
+export type CSVImportRowStatus = 'new' | 'updated' | 'unchanged';
+
+/**
+ * A valid CSV row in the import preview
+ */
+export interface CSVImportPreviewRow {
+  /** Line number in the file */
+  line: number;
+
+  status: CSVImportRowStatus;
+
+  /** The member as it will be saved */
+  member: Member;
+
+  /** Changed fields of the existing member (status 'updated') */
+  changes: FieldChange[];
+
+  /** updatedAt of the existing member when the preview was created */
+  existingUpdatedAt?: string;
+}
+
+/**
+ * A family in the import preview, from a families file or created for the
+ * members of the file (see CSVImportOptions.createMissingFamilies)
+ */
+export interface CSVFamilyPreviewRow {
+  /** Line number in the families file (undefined if created for members) */
+  line?: number;
+
+  status: CSVImportRowStatus;
+
+  /** The family as it will be saved */
+  family: Family;
+
+  /** Changed fields of the existing family (status 'updated') */
+  changes: FieldChange[];
+
+  /** updatedAt of the existing family when the preview was created */
+  existingUpdatedAt?: string;
+}
+
+/**
+ * Parsed CSV file(s) before anything is saved
+ */
+export interface CSVImportPreview {
+  rows: CSVImportPreviewRow[];
+
+  families: CSVFamilyPreviewRow[];
+
+  /** Number of families the members refer to that neither exist nor are created */
+  missingFamilyCount: number;
+
+  /** Rows that cannot be imported and problems with the whole file */
+  errors: string[];
+}
+
+/**
+ * Member field a CSV column can be imported into
+ */
+export type MemberCSVField = keyof MemberCSVRow;
+
+/**
+ * Format of the date columns in an imported CSV file
+ */
+export type CSVDateFormat = 'YYYY-MM-DD' | 'DD.MM.YYYY';
+
+/**
+ * Assignment of the columns of a foreign CSV layout to member fields
+ */
+export interface CSVColumnMapping {
+  /** Member field per column header of the file (ignored columns are omitted) */
+  columns: Record<string, MemberCSVField>;
+
+  dateFormat: CSVDateFormat;
+}
+
+/**
+ * A saved column mapping for files of the same layout
+ */
+export interface CSVMappingProfile {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  name: string;
+
+  mapping: CSVColumnMapping;
+}
+
+/**
+ * Color theme of the user interface
+ */
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+/**
+ * Application settings (stored with the club data and included in backups)
+ */
+export interface AppSettings {
+  /** Color theme */
+  theme: ThemeMode;
+
+  /** Number of automatic snapshots to keep */
+  snapshotRetention: number;
+
+  /** People who can be selected as actor */
+  actors: Actor[];
+
+  /** Audit log entries older than this many months are archived (0 = keep all) */
+  auditRetentionMonths: number;
+
+  /** Saved column mappings for the CSV import */
+  csvMappingProfiles: CSVMappingProfile[];
+}
+
+/**
+ * Member fields that can be encrypted at rest
+ */
+export type EncryptableMemberField = 'iban' | 'bic' | 'birthDate';
+
+/**
+ * Parameters of the field-level encryption (see encryptionService).
+ * Neither the passphrase nor the key are stored.
+ */
+export interface EncryptionConfig {
+  /** Member fields that are stored encrypted */
+  fields: EncryptableMemberField[];
+
+  /** Salt of the key derivation (base64) */
+  salt: string;
+
+  /** PBKDF2 iterations of the key derivation */
+  iterations: number;
+
+  /** Known text encrypted with the key, used to check the passphrase */
+  verifier: string;
+}
+
+/**
+ * All club data (content of backups and snapshots)
+ */
+export interface ClubData {
+  members: Member[];
+  families: Family[];
+  auditLog: AuditLogEntry[];
+  settings: Partial<AppSettings>;
+}
+
+/**
+ * Why a snapshot was taken
+ */
+export type SnapshotReason = 'daily' | 'import' | 'reset' | 'restore' | 'manual';
+
+/**
+ * Snapshot metadata (shown in the snapshot list)
+ */
+export interface SnapshotInfo {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  /** When the snapshot was taken (ISO datetime) */
+  createdAt: string;
+
+  reason: SnapshotReason;
+
+  /** Schema version of the contained data */
+  schemaVersion: number;
+
+  memberCount: number;
+  familyCount: number;
+  auditLogCount: number;
+}
+
+/**
+ * Full copy of the club data at one point in time
+ */
+export interface Snapshot extends SnapshotInfo {
+  data: ClubData;
+
+  /** Set if the encrypted member fields are contained encrypted */
+  encryption?: EncryptionConfig;
+}
+
+/**
+ * Archive metadata (shown in the archive list)
+ */
+export interface AuditArchiveInfo {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  /** When the archive was created (ISO datetime) */
+  createdAt: string;
+
+  entryCount: number;
+
+  /** Timestamps of the oldest and newest archived entry */
+  fromTimestamp: string;
+  toTimestamp: string;
+
+  /** previousHash of the oldest archived entry */
+  firstPreviousHash: string;
+
+  /** Hash of the newest archived entry (the remaining log continues from it) */
+  lastHash: string;
+
+  /** Size of the compressed archive file in bytes */
+  compressedSize: number;
+}
+
+/**
+ * Audit log entries moved out of the active log, stored as gzip-compressed archive file
+ */
+export interface AuditArchive extends AuditArchiveInfo {
+  data: ArrayBuffer;
+}
+
+/**
+ * Kind of inconsistency found by the data integrity scan
+ */
+export type IntegrityIssueType =
+  | 'MEMBER_FAMILY_MISSING'
+  | 'MAIN_FLAG_WITHOUT_FAMILY'
+  | 'INACTIVE_WITHOUT_EXIT_DATE'
+  | 'MAIN_MEMBER_MISSING'
+  | 'MAIN_MEMBER_NOT_IN_FAMILY'
+  | 'MULTIPLE_MAIN_MEMBERS'
+  | 'MAIN_MEMBER_NOT_FLAGGED'
+  | 'FLAGGED_MEMBER_NOT_MAIN';
+
+/**
+ * Severity of an inconsistency: errors break references, warnings are contradictory data
+ */
+export type IntegritySeverity = 'error' | 'warning';
+
+/**
+ * An inconsistency in the member and family data
+ */
+export interface IntegrityIssue {
+  /** Stable identifier from type and affected entity (e.g. 'MEMBER_FAMILY_MISSING:<memberId>') */
+  id: string;
+
+  type: IntegrityIssueType;
+
+  severity: IntegritySeverity;
+
+  /** Human-readable description */
+  description: string;
+
+  /** What the one-click repair does */
+  repairLabel: string;
+
+  /** Affected members */
+  memberIds: string[];
+
+  /** Affected family (if applicable) */
+  familyId?: string;
+}
+
+/**
+ * Result of a data integrity scan
+ */
+export interface IntegrityReport {
+  /** When the scan ran (ISO datetime) */
+  checkedAt: string;
+
+  /** Found issues, errors first */
+  issues: IntegrityIssue[];
 }
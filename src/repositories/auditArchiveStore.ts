@@ -0,0 +1,77 @@
+/**
+ * Audit Archive Store
+ * Persists compressed audit log archives in IndexedDB, independent of the selected
+ * storage backend (archives are only needed on demand and must not use up the
+ * LocalStorage quota).
+ */
+
+import type { AuditArchive, AuditArchiveInfo } from '../models/types';
+import { openDatabase, promisifyRequest, transactionDone, AUDIT_ARCHIVE_STORE } from './indexedDb';
+
+/**
+ * Check whether archives can be stored in this browser
+ */
+export function isAuditArchiveStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Strip the compressed data from an archive
+ */
+function toInfo(archive: AuditArchive): AuditArchiveInfo {
+  return {
+    id: archive.id,
+    createdAt: archive.createdAt,
+    entryCount: archive.entryCount,
+    fromTimestamp: archive.fromTimestamp,
+    toTimestamp: archive.toTimestamp,
+    firstPreviousHash: archive.firstPreviousHash,
+    lastHash: archive.lastHash,
+    compressedSize: archive.compressedSize,
+  };
+}
+
+/**
+ * Store an archive
+ */
+export async function putAuditArchive(archive: AuditArchive): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(AUDIT_ARCHIVE_STORE, 'readwrite');
+  transaction.objectStore(AUDIT_ARCHIVE_STORE).put(archive);
+  await transactionDone(transaction);
+}
+
+/**
+ * List all archives without their data, newest first
+ */
+export async function listAuditArchiveInfos(): Promise<AuditArchiveInfo[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(AUDIT_ARCHIVE_STORE, 'readonly');
+  const index = transaction.objectStore(AUDIT_ARCHIVE_STORE).index('createdAt');
+  const infos: AuditArchiveInfo[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      infos.push(toInfo(cursor.value as AuditArchive));
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return infos;
+}
+
+/**
+ * Load a single archive including its compressed data
+ */
+export async function getAuditArchive(id: string): Promise<AuditArchive | undefined> {
+  const db = await openDatabase();
+  const transaction = db.transaction(AUDIT_ARCHIVE_STORE, 'readonly');
+  return promisifyRequest<AuditArchive | undefined>(transaction.objectStore(AUDIT_ARCHIVE_STORE).get(id));
+}
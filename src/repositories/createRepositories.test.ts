@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StorageDriver } from './types';
+import { createMemoryDriver } from './memoryDriver';
+import { createLocalStorageDriver } from './localStorageDriver';
+import { STORAGE_KEYS, createRepositories } from './createRepositories';
+import { buildMember, FAMILY } from '../test/fixtures';
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe.each<[string, () => StorageDriver]>([
+  ['memory', () => createMemoryDriver()],
+  ['localStorage', () => createLocalStorageDriver()],
+])('createRepositories with the %s driver', (_, createDriver) => {
+  it('stores members and families and finds members by family', () => {
+    const driver = createDriver();
+    const repositories = createRepositories(driver);
+
+    repositories.families.add(FAMILY);
+    repositories.members.add(buildMember('a', 'f1'));
+    repositories.members.add(buildMember('b'));
+    repositories.members.update({ ...buildMember('b', 'f1'), city: 'Bonn' });
+
+    const reopened = createRepositories(driver);
+    expect(reopened.families.getById('f1')?.name).toBe('Familie Schmidt');
+    expect(reopened.members.getByFamilyId('f1').map(m => m.id)).toEqual(['a', 'b']);
+    expect(reopened.members.getById('b')?.city).toBe('Bonn');
+  });
+
+  it('refuses to update unknown entities', () => {
+    const repositories = createRepositories(createDriver());
+
+    expect(() => repositories.members.update(buildMember('x'))).toThrow('not found');
+    expect(() => repositories.families.update(FAMILY)).toThrow('not found');
+  });
+
+  it('keeps the newest audit log entry first', () => {
+    const repositories = createRepositories(createDriver());
+
+    repositories.audit.add({ id: '1', timestamp: '2024-01-01T00:00:00.000Z', action: 'MEMBER_CREATED', description: '', memberId: 'a' });
+    repositories.audit.add({ id: '2', timestamp: '2024-01-02T00:00:00.000Z', action: 'DATA_IMPORTED', description: '' });
+    repositories.audit.add({ id: '3', timestamp: '2024-01-03T00:00:00.000Z', action: 'MEMBER_CREATED', description: '', memberId: 'b' });
+
+    expect(repositories.audit.getAll().map(entry => entry.id)).toEqual(['3', '2', '1']);
+    expect(repositories.audit.getByMemberId('a').map(entry => entry.id)).toEqual(['2', '1']);
+  });
+
+  it('clears the stored data', () => {
+    const driver = createDriver();
+    const repositories = createRepositories(driver);
+    repositories.members.add(buildMember('a'));
+    repositories.meta.setInitialized();
+
+    repositories.clear();
+
+    expect(repositories.members.getAll()).toEqual([]);
+    expect(repositories.meta.isInitialized()).toBe(false);
+    expect(driver.readRaw(STORAGE_KEYS.MEMBERS)).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Repository Factory
+ * Builds the typed repositories on top of a storage driver.
+ * All backends share this implementation; they only differ in their driver.
+ * Members and families are kept parsed and indexed in an entity cache.
+ */
+
+import type {
+  Member,
+  Family,
+  AuditLogEntry,
+  AuditActionType,
+  AuditChainHead,
+  AppSettings,
+  EncryptionConfig,
+} from '../models/types';
+import type {
+  StorageDriver,
+  Repositories,
+  MemberRepository,
+  FamilyRepository,
+  AuditRepository,
+  SettingsRepository,
+  MetaRepository,
+  RepositoryOptions,
+} from './types';
+import { createEntityCache, type EntityCache } from './entityCache';
+
+// Storage keys
+export const STORAGE_KEYS = {
+  MEMBERS: 'kanu_members',
+  FAMILIES: 'kanu_families',
+  AUDIT_LOG: 'kanu_audit_log',
+  SETTINGS: 'kanu_settings',
+  INITIALIZED: 'kanu_initialized',
+  SCHEMA_VERSION: 'kanu_schema_version',
+  ENCRYPTION: 'kanu_encryption',
+  AUDIT_CHAIN_HEADS: 'kanu_audit_heads',
+} as const;
+
+/**
+ * Keys removed by clear(). Settings, the encryption config and the known
+ * audit chain heads stay, so the anchor of a cleared audit log can still be verified.
+ */
+const CLUB_DATA_KEYS = [
+  STORAGE_KEYS.MEMBERS,
+  STORAGE_KEYS.FAMILIES,
+  STORAGE_KEYS.AUDIT_LOG,
+  STORAGE_KEYS.INITIALIZED,
+] as const;
+
+/**
+ * Create the member repository
+ */
+function createMemberRepository(cache: EntityCache<Member, 'familyId'>): MemberRepository {
+  return {
+    getAll() {
+      return cache.getAll();
+    },
+
+    getById(id) {
+      return cache.getById(id);
+    },
+
+    getByFamilyId(familyId) {
+      return cache.getByIndex('familyId', familyId);
+    },
+
+    add(member) {
+      cache.replaceAll([...cache.getAll(), member]);
+    },
+
+    update(updatedMember) {
+      const members = cache.getAll();
+      const index = members.findIndex(m => m.id === updatedMember.id);
+      if (index === -1) {
+        throw new Error(`Member with ID ${updatedMember.id} not found`);
+      }
+      members[index] = updatedMember;
+      cache.replaceAll(members);
+    },
+
+    replaceAll(members) {
+      cache.replaceAll(members);
+    },
+  };
+}
+
+/**
+ * Create the family repository
+ */
+function createFamilyRepository(cache: EntityCache<Family, never>): FamilyRepository {
+  return {
+    getAll() {
+      return cache.getAll();
+    },
+
+    getById(id) {
+      return cache.getById(id);
+    },
+
+    add(family) {
+      cache.replaceAll([...cache.getAll(), family]);
+    },
+
+    update(updatedFamily) {
+      const families = cache.getAll();
+      const index = families.findIndex(f => f.id === updatedFamily.id);
+      if (index === -1) {
+        throw new Error(`Family with ID ${updatedFamily.id} not found`);
+      }
+      families[index] = updatedFamily;
+      cache.replaceAll(families);
+    },
+
+    replaceAll(families) {
+      cache.replaceAll(families);
+    },
+  };
+}
+
+/**
+ * Check whether an audit log entry concerns a member.
+ * Undo/redo entries of operations on several members list them in details.memberIds.
+ */
+export function concernsMember(entry: AuditLogEntry, memberId: string): boolean {
+  if (entry.memberId === memberId) return true;
+  const memberIds = entry.details?.memberIds;
+  return Array.isArray(memberIds) && memberIds.includes(memberId);
+}
+
+/**
+ * Operations that can change every member without recording their field changes.
+ * Clearing or archiving the log removes recorded changes, so they count as well.
+ */
+const ALL_MEMBERS_ACTIONS = new Set<AuditActionType>([
+  'DATA_IMPORTED',
+  'BACKUP_RESTORED',
+  'SNAPSHOT_RESTORED',
+  'AUDIT_LOG_CLEARED',
+  'AUDIT_LOG_ARCHIVED',
+]);
+
+/**
+ * Check whether an audit log entry records an operation that may have changed
+ * every member without recording their field changes (e.g. a restored backup).
+ * Imports that logged every member separately (details.loggedPerMember) do not count.
+ */
+export function affectsAllMembers(entry: AuditLogEntry): boolean {
+  return ALL_MEMBERS_ACTIONS.has(entry.action) && entry.details?.loggedPerMember !== true;
+}
+
+/**
+ * Create the audit log repository
+ */
+function createAuditRepository(driver: StorageDriver): AuditRepository {
+  const getAll = (): AuditLogEntry[] => driver.read<AuditLogEntry[]>(STORAGE_KEYS.AUDIT_LOG, []);
+
+  return {
+    getAll,
+
+    getByMemberId(memberId) {
+      return getAll().filter(entry => concernsMember(entry, memberId) || affectsAllMembers(entry));
+    },
+
+    add(entry) {
+      const log = getAll();
+      log.unshift(entry); // Add to beginning for chronological order (newest first)
+      driver.write(STORAGE_KEYS.AUDIT_LOG, log);
+    },
+
+    replaceAll(entries) {
+      driver.write(STORAGE_KEYS.AUDIT_LOG, entries);
+    },
+
+    clear() {
+      driver.write(STORAGE_KEYS.AUDIT_LOG, []);
+    },
+  };
+}
+
+/**
+ * Create the settings repository
+ */
+function createSettingsRepository(driver: StorageDriver): SettingsRepository {
+  return {
+    get() {
+      return driver.read<Partial<AppSettings>>(STORAGE_KEYS.SETTINGS, {});
+    },
+
+    save(settings) {
+      driver.write(STORAGE_KEYS.SETTINGS, settings);
+    },
+  };
+}
+
+/**
+ * Create the meta repository
+ */
+function createMetaRepository(driver: StorageDriver): MetaRepository {
+  return {
+    isInitialized() {
+      return driver.read<boolean>(STORAGE_KEYS.INITIALIZED, false);
+    },
+
+    setInitialized() {
+      driver.write(STORAGE_KEYS.INITIALIZED, true);
+    },
+
+    getSchemaVersion() {
+      return driver.read<number | undefined>(STORAGE_KEYS.SCHEMA_VERSION, undefined);
+    },
+
+    setSchemaVersion(version) {
+      driver.write(STORAGE_KEYS.SCHEMA_VERSION, version);
+    },
+
+    getEncryptionConfig() {
+      return driver.read<EncryptionConfig | undefined>(STORAGE_KEYS.ENCRYPTION, undefined);
+    },
+
+    setEncryptionConfig(config) {
+      driver.write(STORAGE_KEYS.ENCRYPTION, config);
+    },
+
+    clearEncryptionConfig() {
+      driver.remove(STORAGE_KEYS.ENCRYPTION);
+    },
+
+    getAuditChainHeads() {
+      return driver.read<AuditChainHead[]>(STORAGE_KEYS.AUDIT_CHAIN_HEADS, []);
+    },
+
+    setAuditChainHeads(heads) {
+      driver.write(STORAGE_KEYS.AUDIT_CHAIN_HEADS, heads);
+    },
+  };
+}
+
+/**
+ * Create all repositories for the given driver
+ */
+export function createRepositories(driver: StorageDriver, options: RepositoryOptions = {}): Repositories {
+  const memberCache = createEntityCache<Member, 'familyId'>(
+    driver,
+    STORAGE_KEYS.MEMBERS,
+    ['familyId'],
+    options.memberCodec
+  );
+  const familyCache = createEntityCache<Family, never>(driver, STORAGE_KEYS.FAMILIES);
+  const invalidateCaches = () => {
+    memberCache.invalidate();
+    familyCache.invalidate();
+  };
+
+  return {
+    backend: driver.type,
+    members: createMemberRepository(memberCache),
+    families: createFamilyRepository(familyCache),
+    audit: createAuditRepository(driver),
+    settings: createSettingsRepository(driver),
+    meta: createMetaRepository(driver),
+    clear() {
+      CLUB_DATA_KEYS.forEach(key => driver.remove(key));
+      invalidateCaches();
+    },
+    getStorageSizes() {
+      return Object.fromEntries(Object.values(STORAGE_KEYS).map(key => [key, driver.size(key)]));
+    },
+    async refresh() {
+      await driver.refresh?.();
+      invalidateCaches();
+    },
+  };
+}
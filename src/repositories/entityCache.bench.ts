@@ -0,0 +1,69 @@
+/**
+ * Entity Cache Benchmark
+ * Compares lookups on 10,000 generated members: parsing the stored array on
+ * every access (as before the cache) against the indexed entity cache.
+ * Run with `npm run bench`.
+ */
+
+import { bench, describe } from 'vitest';
+import type { Member } from '../models/types';
+import { createMemoryDriver } from './memoryDriver';
+import { createEntityCache } from './entityCache';
+import { STORAGE_KEYS } from './createRepositories';
+
+const MEMBER_COUNT = 10_000;
+const FAMILY_COUNT = 2_000;
+const LOOKUPS = 100;
+
+/**
+ * Generate members, every second one belongs to a family
+ */
+function generateMembers(count: number): Member[] {
+  const timestamp = new Date(2024, 0, 1).toISOString();
+  return Array.from({ length: count }, (_, i) => ({
+    id: `member-${i}`,
+    firstName: `Vorname ${i}`,
+    lastName: `Nachname ${i % 500}`,
+    birthDate: `19${50 + (i % 50)}-0${1 + (i % 9)}-1${i % 10}`,
+    street: `Hauptstraße ${i}`,
+    postalCode: String(10000 + i),
+    city: 'Köln',
+    iban: 'DE89370400440532013000',
+    bic: 'COBADEFFXXX',
+    entryDate: '2020-01-01',
+    isActive: i % 10 !== 0,
+    familyId: i % 2 === 0 ? `family-${i % FAMILY_COUNT}` : undefined,
+    isMainFamilyMember: i < FAMILY_COUNT * 2 && i % 2 === 0,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }));
+}
+
+const driver = createMemoryDriver({ [STORAGE_KEYS.MEMBERS]: generateMembers(MEMBER_COUNT) });
+const cache = createEntityCache<Member, 'familyId'>(driver, STORAGE_KEYS.MEMBERS, ['familyId']);
+const lookupIds = Array.from({ length: LOOKUPS }, (_, i) => `member-${(i * 97) % MEMBER_COUNT}`);
+const lookupFamilyIds = Array.from({ length: LOOKUPS }, (_, i) => `family-${(i * 31) % FAMILY_COUNT}`);
+
+describe(`getById (${LOOKUPS} lookups in ${MEMBER_COUNT} members)`, () => {
+  bench('uncached driver read', () => {
+    lookupIds.forEach(id => {
+      driver.read<Member[]>(STORAGE_KEYS.MEMBERS, []).find(member => member.id === id);
+    });
+  });
+
+  bench('entity cache', () => {
+    lookupIds.forEach(id => cache.getById(id));
+  });
+});
+
+describe(`getByFamilyId (${LOOKUPS} lookups in ${MEMBER_COUNT} members)`, () => {
+  bench('uncached driver read', () => {
+    lookupFamilyIds.forEach(familyId => {
+      driver.read<Member[]>(STORAGE_KEYS.MEMBERS, []).filter(member => member.familyId === familyId);
+    });
+  });
+
+  bench('entity cache', () => {
+    lookupFamilyIds.forEach(familyId => cache.getByIndex('familyId', familyId));
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Member } from '../models/types';
+import { createMemoryDriver } from './memoryDriver';
+import { createEntityCache } from './entityCache';
+import { STORAGE_KEYS } from './createRepositories';
+import { buildMember } from '../test/fixtures';
+
+describe('createEntityCache', () => {
+  it('parses the stored collection only once for repeated lookups', () => {
+    const driver = createMemoryDriver({ [STORAGE_KEYS.MEMBERS]: [buildMember('a', 'f1'), buildMember('b', 'f1'), buildMember('c')] });
+    const read = vi.spyOn(driver, 'read');
+    const cache = createEntityCache<Member, 'familyId'>(driver, STORAGE_KEYS.MEMBERS, ['familyId']);
+
+    expect(cache.getById('b')?.id).toBe('b');
+    expect(cache.getByIndex('familyId', 'f1').map(m => m.id)).toEqual(['a', 'b']);
+    expect(cache.getByIndex('familyId', undefined).map(m => m.id)).toEqual(['c']);
+    expect(cache.getAll()).toHaveLength(3);
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands out copies that do not change the cache', () => {
+    const driver = createMemoryDriver({ [STORAGE_KEYS.MEMBERS]: [buildMember('a')] });
+    const cache = createEntityCache<Member, 'familyId'>(driver, STORAGE_KEYS.MEMBERS, ['familyId']);
+
+    cache.getById('a')!.city = 'Bonn';
+    cache.getAll()[0].city = 'Bonn';
+
+    expect(cache.getById('a')?.city).toBe('Köln');
+  });
+
+  it('writes through and keeps the indexes up to date', () => {
+    const driver = createMemoryDriver();
+    const cache = createEntityCache<Member, 'familyId'>(driver, STORAGE_KEYS.MEMBERS, ['familyId']);
+
+    cache.replaceAll([buildMember('a', 'f1'), buildMember('b', 'f2')]);
+
+    expect(driver.read<Member[]>(STORAGE_KEYS.MEMBERS, []).map(m => m.id)).toEqual(['a', 'b']);
+    expect(cache.getByIndex('familyId', 'f2').map(m => m.id)).toEqual(['b']);
+  });
+
+  it('keeps the cached data if the write fails', () => {
+    const driver = createMemoryDriver({ [STORAGE_KEYS.MEMBERS]: [buildMember('a')] });
+    const cache = createEntityCache<Member, 'familyId'>(driver, STORAGE_KEYS.MEMBERS, ['familyId']);
+    vi.spyOn(driver, 'write').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+
+    expect(() => cache.replaceAll([buildMember('a'), buildMember('b')])).toThrow();
+    expect(cache.getAll().map(m => m.id)).toEqual(['a']);
+  });
+
+  it('picks up changes written elsewhere before the next write', () => {
+    // Two tabs sharing the same storage
+    const driver = createMemoryDriver({ [STORAGE_KEYS.MEMBERS]: [buildMember('a'), buildMember('b')] });
+    const tab1 = createEntityCache<Member, 'familyId'>(driver, STORAGE_KEYS.MEMBERS, ['familyId']);
+    const tab2 = createEntityCache<Member, 'familyId'>(driver, STORAGE_KEYS.MEMBERS, ['familyId']);
+    tab1.getAll();
+
+    tab2.replaceAll(tab2.getAll().map(m => (m.id === 'b' ? { ...m, city: 'Bonn' } : m)));
+    tab1.replaceAll(tab1.getAll().map(m => (m.id === 'a' ? { ...m, city: 'Essen' } : m)));
+
+    const stored = driver.read<Member[]>(STORAGE_KEYS.MEMBERS, []);
+    expect(stored.map(m => m.city)).toEqual(['Essen', 'Bonn']);
+    expect(tab2.getById('a')?.city).toBe('Essen');
+  });
+
+  it('decodes the stored data again after invalidate', () => {
+    const driver = createMemoryDriver({ [STORAGE_KEYS.MEMBERS]: [buildMember('a')] });
+    let city = 'Köln';
+    const codec = {
+      encode: (members: Member[]) => members,
+      decode: (members: Member[]) => members.map(m => ({ ...m, city })),
+    };
+    const cache = createEntityCache<Member, 'familyId'>(driver, STORAGE_KEYS.MEMBERS, ['familyId'], codec);
+    cache.getAll();
+
+    city = 'Bonn';
+    expect(cache.getById('a')?.city).toBe('Köln');
+
+    cache.invalidate();
+    expect(cache.getById('a')?.city).toBe('Bonn');
+  });
+});
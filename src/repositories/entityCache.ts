@@ -0,0 +1,124 @@
+/**
+ * Entity Cache
+ * Keeps a stored collection parsed in memory, indexed by id and optionally by
+ * further properties, so lookups do not parse the whole JSON array again.
+ * Writes go through to the driver. Before each access the stored value is
+ * compared with the one the cache was built from, so a change made elsewhere
+ * (another tab) is picked up even before its sync message has arrived and
+ * cannot be overwritten with stale data.
+ *
+ * Entities are handed out as shallow copies, so callers may modify them without
+ * touching the cache. This requires flat entities (Member, Family).
+ *
+ * An optional codec converts between the stored and the cached form
+ * (e.g. encrypted member fields, see encryptionService).
+ */
+
+import type { EntityCodec, StorageDriver } from './types';
+
+/**
+ * Cached collection of one storage key
+ */
+export interface EntityCache<T extends { id: string }, K extends keyof T> {
+  /** All entities in stored order */
+  getAll(): T[];
+
+  getById(id: string): T | undefined;
+
+  /** Entities whose indexed property has the given value */
+  getByIndex(field: K, value: T[K]): T[];
+
+  /** Write the collection; the cache is only updated if the write succeeded */
+  replaceAll(entities: T[]): void;
+
+  /** Drop the cached data, it is read again on the next access */
+  invalidate(): void;
+}
+
+interface CacheState<T, K extends keyof T> {
+  /** Serialized value the cache was built from */
+  raw: string | null;
+  entities: T[];
+  byId: Map<string, T>;
+  indexes: Map<K, Map<T[K], T[]>>;
+}
+
+/**
+ * Create a cache for the collection stored under `key`
+ * @param indexedFields Properties to build lookup indexes for (e.g. familyId)
+ */
+export function createEntityCache<T extends { id: string }, K extends keyof T>(
+  driver: StorageDriver,
+  key: string,
+  indexedFields: K[] = [],
+  codec?: EntityCodec<T>
+): EntityCache<T, K> {
+  let state: CacheState<T, K> | null = null;
+
+  const copy = (entity: T): T => ({ ...entity });
+
+  const buildState = (raw: string | null, entities: T[]): CacheState<T, K> => {
+    const byId = new Map<string, T>();
+    const indexes = new Map<K, Map<T[K], T[]>>(indexedFields.map(field => [field, new Map()]));
+
+    entities.forEach(entity => {
+      byId.set(entity.id, entity);
+      indexedFields.forEach(field => {
+        const index = indexes.get(field)!;
+        const bucket = index.get(entity[field]);
+        if (bucket) {
+          bucket.push(entity);
+        } else {
+          index.set(entity[field], [entity]);
+        }
+      });
+    });
+
+    return { raw, entities, byId, indexes };
+  };
+
+  const load = (): CacheState<T, K> => {
+    // Comparing the strings is much cheaper than parsing them
+    const raw = driver.readRaw(key);
+    if (!state || state.raw !== raw) {
+      const stored = driver.read<T[]>(key, []);
+      state = buildState(raw, codec ? codec.decode(stored) : stored);
+    }
+    return state;
+  };
+
+  return {
+    getAll() {
+      return load().entities.map(copy);
+    },
+
+    getById(id) {
+      const entity = load().byId.get(id);
+      return entity && copy(entity);
+    },
+
+    getByIndex(field, value) {
+      const index = load().indexes.get(field);
+      if (!index) {
+        throw new Error(`No index for "${String(field)}" in "${key}"`);
+      }
+      return (index.get(value) ?? []).map(copy);
+    },
+
+    replaceAll(entities) {
+      if (codec) {
+        // Cache what was actually stored, decoded like on load
+        const stored = codec.encode(entities);
+        driver.write(key, stored);
+        state = buildState(driver.readRaw(key), codec.decode(stored).map(copy));
+        return;
+      }
+      driver.write(key, entities);
+      state = buildState(driver.readRaw(key), entities.map(copy));
+    },
+
+    invalidate() {
+      state = null;
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Storage Errors
+ * Errors thrown by the storage drivers, independent of the backend.
+ */
+
+/**
+ * Thrown if a value cannot be written because the storage quota is exhausted.
+ * The previously stored value of the key is left unchanged.
+ */
+export class StorageQuotaError extends Error {
+  /** Storage key that could not be written */
+  readonly key: string;
+
+  /** Estimated size of the value that did not fit (bytes) */
+  readonly requiredBytes: number;
+
+  constructor(key: string, requiredBytes: number) {
+    super('Der Browser-Speicher ist voll. Die letzte Änderung wurde nicht gespeichert.');
+    this.name = 'StorageQuotaError';
+    this.key = key;
+    this.requiredBytes = requiredBytes;
+  }
+}
+
+/**
+ * Thrown if the storage cannot be used any more until the app is reloaded,
+ * e.g. because the data held in memory could not be matched with the stored data.
+ */
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+/**
+ * Check whether an error thrown by the browser means that the storage quota is exhausted
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError'
+    || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' // Firefox
+    || error.code === 22;
+}
@@ -0,0 +1,151 @@
+/**
+ * Repository Registry
+ * Selects the storage backend at startup and provides the active repositories.
+ * The backend is configured via the VITE_STORAGE_BACKEND environment variable
+ * ("localStorage" | "indexedDB" | "memory"), default is LocalStorage.
+ * A backend chosen in the settings (e.g. IndexedDB when LocalStorage is full)
+ * takes precedence.
+ */
+
+import type { Repositories, RepositoryOptions, StorageBackendType } from './types';
+import { createRepositories } from './createRepositories';
+import { createLocalStorageDriver } from './localStorageDriver';
+import { createIndexedDbDriver } from './indexedDbDriver';
+import { createMemoryDriver } from './memoryDriver';
+
+export type {
+  StorageBackendType,
+  StorageDriver,
+  EntityCodec,
+  RepositoryOptions,
+  WriteErrorListener,
+  Repositories,
+  MemberRepository,
+  FamilyRepository,
+  AuditRepository,
+  SettingsRepository,
+  MetaRepository,
+} from './types';
+export { STORAGE_KEYS, createRepositories, concernsMember, affectsAllMembers } from './createRepositories';
+export { createLocalStorageDriver } from './localStorageDriver';
+export { createIndexedDbDriver, copyLocalStorageToIndexedDb } from './indexedDbDriver';
+export { createMemoryDriver } from './memoryDriver';
+export { StorageQuotaError, StorageUnavailableError, isQuotaExceededError } from './errors';
+export {
+  isSnapshotStoreAvailable,
+  putSnapshot,
+  listSnapshotInfos,
+  getSnapshot,
+  deleteSnapshots,
+} from './snapshotStore';
+export {
+  isAuditArchiveStoreAvailable,
+  putAuditArchive,
+  listAuditArchiveInfos,
+  getAuditArchive,
+} from './auditArchiveStore';
+
+const STORAGE_BACKENDS: StorageBackendType[] = ['localStorage', 'indexedDB', 'memory'];
+
+/**
+ * LocalStorage key of the backend chosen in the settings.
+ * It has to be known before the repositories exist, so it is not part of the settings.
+ */
+const BACKEND_PREFERENCE_KEY = 'kanu_storage_backend';
+
+let activeRepositories: Repositories | null = null;
+
+/**
+ * Get the backend chosen in the settings
+ */
+export function getStorageBackendPreference(): StorageBackendType | undefined {
+  try {
+    const preference = localStorage.getItem(BACKEND_PREFERENCE_KEY);
+    return STORAGE_BACKENDS.includes(preference as StorageBackendType)
+      ? preference as StorageBackendType
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Choose the backend for the next start (takes effect after a reload).
+ * Switching from LocalStorage to an empty IndexedDB copies the existing data.
+ */
+export function setStorageBackendPreference(backend: StorageBackendType): void {
+  try {
+    localStorage.setItem(BACKEND_PREFERENCE_KEY, backend);
+  } catch (error) {
+    console.error('Speicher-Backend konnte nicht gespeichert werden:', error);
+    throw new Error('Das Speicher-Backend konnte nicht gespeichert werden.');
+  }
+}
+
+/**
+ * Check whether IndexedDB can be used as backend in this browser
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Determine the configured storage backend
+ */
+export function resolveStorageBackend(): StorageBackendType {
+  const preference = getStorageBackendPreference();
+  if (preference) return preference;
+
+  const configured = import.meta.env.VITE_STORAGE_BACKEND;
+  if (configured && STORAGE_BACKENDS.includes(configured as StorageBackendType)) {
+    return configured as StorageBackendType;
+  }
+  if (configured) {
+    console.warn(`Unbekanntes Speicher-Backend "${configured}", verwende LocalStorage`);
+  }
+  return 'localStorage';
+}
+
+/**
+ * Initialize the repositories for the given backend.
+ * Must be awaited once before the app renders. Falls back to LocalStorage
+ * if IndexedDB cannot be opened (e.g. in private browsing mode).
+ */
+export async function initializeRepositories(
+  backend: StorageBackendType = resolveStorageBackend(),
+  options: RepositoryOptions = {}
+): Promise<Repositories> {
+  switch (backend) {
+    case 'indexedDB':
+      try {
+        activeRepositories = createRepositories(await createIndexedDbDriver(options.onWriteError), options);
+      } catch (error) {
+        console.error('IndexedDB konnte nicht geöffnet werden, verwende LocalStorage:', error);
+        activeRepositories = createRepositories(createLocalStorageDriver(), options);
+      }
+      break;
+    case 'memory':
+      activeRepositories = createRepositories(createMemoryDriver(), options);
+      break;
+    default:
+      activeRepositories = createRepositories(createLocalStorageDriver(), options);
+  }
+  return activeRepositories;
+}
+
+/**
+ * Replace the active repositories (e.g. with in-memory repositories in tests)
+ */
+export function setRepositories(repositories: Repositories): void {
+  activeRepositories = repositories;
+}
+
+/**
+ * Get the active repositories
+ */
+export function getRepositories(): Repositories {
+  if (!activeRepositories) {
+    throw new Error('Repositories not initialized, call initializeRepositories() first');
+  }
+  return activeRepositories;
+}
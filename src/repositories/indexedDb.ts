@@ -0,0 +1,127 @@
+/**
+ * IndexedDB Helpers
+ * Small promise wrappers around the IndexedDB API.
+ */
+
+export const DB_NAME = 'kanu-member-db';
+export const DB_VERSION = 4;
+
+/** Object store holding the key/value data of the IndexedDB driver */
+export const KEY_VALUE_STORE = 'keyValue';
+
+/** Object store holding the data snapshots (version 2) */
+export const SNAPSHOT_STORE = 'snapshots';
+
+/** Object store holding the compressed audit log archives (version 3) */
+export const AUDIT_ARCHIVE_STORE = 'auditArchives';
+
+/** Object store holding the snapshots without their data, for listing them (version 4) */
+export const SNAPSHOT_INFO_STORE = 'snapshotInfos';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const versionChangeListeners = new Set<() => void>();
+
+/**
+ * Copy the list fields of the stored snapshots into the info store (upgrade to version 4)
+ */
+function copySnapshotInfos(transaction: IDBTransaction): void {
+  const infoStore = transaction.objectStore(SNAPSHOT_INFO_STORE);
+  const request = transaction.objectStore(SNAPSHOT_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const { id, createdAt, reason, schemaVersion, memberCount, familyCount, auditLogCount } = cursor.value;
+    infoStore.put({ id, createdAt, reason, schemaVersion, memberCount, familyCount, auditLogCount });
+    cursor.continue();
+  };
+}
+
+/**
+ * Open (and if necessary create/upgrade) the application database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KEY_VALUE_STORE)) {
+          db.createObjectStore(KEY_VALUE_STORE);
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          const store = db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(AUDIT_ARCHIVE_STORE)) {
+          const store = db.createObjectStore(AUDIT_ARCHIVE_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_INFO_STORE)) {
+          const store = db.createObjectStore(SNAPSHOT_INFO_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+          copySnapshotInfos(request.transaction!);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab wants to upgrade the database: let the users of the
+        // connection finish their writes, then close it so the upgrade can run
+        db.onversionchange = () => {
+          versionChangeListeners.forEach(listener => listener());
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => {
+        console.warn('IndexedDB-Upgrade wartet, bis andere Tabs der App geschlossen sind');
+      };
+    });
+
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Register a listener that is called when another tab upgrades the database.
+ * The open connection is closed right after the listeners ran; a newer schema
+ * cannot be opened by this version of the app, so it has to be reloaded.
+ * @returns Function to remove the listener
+ */
+export function onDatabaseVersionChange(listener: () => void): () => void {
+  versionChangeListeners.add(listener);
+  return () => versionChangeListeners.delete(listener);
+}
+
+/**
+ * Wrap an IDBRequest into a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has completed
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,205 @@
+/**
+ * IndexedDB Driver
+ * IndexedDB is asynchronous while the services work synchronously, so the
+ * driver loads all values into a memory cache at startup and writes changes
+ * through to IndexedDB in the background.
+ * The writes of one synchronous operation (e.g. a committed unit of work) go
+ * into a single IndexedDB transaction, so they are stored all-or-nothing.
+ */
+
+import type { StorageDriver, WriteErrorListener } from './types';
+import { STORAGE_KEYS } from './createRepositories';
+import { StorageQuotaError, StorageUnavailableError, isQuotaExceededError } from './errors';
+import { openDatabase, onDatabaseVersionChange, promisifyRequest, transactionDone, KEY_VALUE_STORE } from './indexedDb';
+
+/**
+ * Load all key/value pairs from the object store
+ */
+async function loadAll(db: IDBDatabase): Promise<Map<string, string>> {
+  const transaction = db.transaction(KEY_VALUE_STORE, 'readonly');
+  const store = transaction.objectStore(KEY_VALUE_STORE);
+  const [keys, values] = await Promise.all([
+    promisifyRequest(store.getAllKeys()),
+    promisifyRequest(store.getAll()),
+  ]);
+
+  const cache = new Map<string, string>();
+  keys.forEach((key, index) => cache.set(String(key), values[index] as string));
+  return cache;
+}
+
+/**
+ * Copy existing LocalStorage data into an empty database,
+ * so switching the backend does not lose the club's data.
+ */
+async function importFromLocalStorage(db: IDBDatabase, cache: Map<string, string>): Promise<void> {
+  const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite');
+  const store = transaction.objectStore(KEY_VALUE_STORE);
+
+  Object.values(STORAGE_KEYS).forEach(key => {
+    const item = localStorage.getItem(key);
+    if (item !== null) {
+      cache.set(key, item);
+      store.put(item, key);
+    }
+  });
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Replace the driver's data in IndexedDB with the current LocalStorage data.
+ * Used when switching the backend to IndexedDB, so older data in the
+ * database cannot shadow the current data.
+ */
+export async function copyLocalStorageToIndexedDb(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite');
+  transaction.objectStore(KEY_VALUE_STORE).clear();
+  await transactionDone(transaction);
+  await importFromLocalStorage(db, new Map());
+}
+
+/**
+ * Create a driver backed by IndexedDB.
+ * Resolves once the cache has been hydrated. A failed background write
+ * restores the stored values in the cache and is passed to onWriteError.
+ * If the stored values cannot be read back, or another tab upgrades the database,
+ * the cache no longer matches the database: the driver then refuses all further
+ * writes until the app is reloaded.
+ */
+export async function createIndexedDbDriver(onWriteError?: WriteErrorListener): Promise<StorageDriver> {
+  const db = await openDatabase();
+  const cache = await loadAll(db);
+
+  if (cache.size === 0) {
+    await importFromLocalStorage(db, cache);
+  }
+
+  // Writes waiting for the next transaction, and the number of writes per key
+  let pending = new Map<string, string | null>();
+  const writeCounts = new Map<string, number>();
+
+  // Set once the driver cannot be used any more
+  let failure: StorageUnavailableError | null = null;
+
+  /**
+   * Put the cache back to the stored values after a failed write.
+   * Keys written again in the meantime keep their newer value.
+   */
+  const restoreStoredValues = async () => {
+    // Queue waiting writes before the read, so it sees them
+    flush();
+    const countsBefore = new Map(writeCounts);
+    const stored = await loadAll(db);
+    new Set([...cache.keys(), ...stored.keys()]).forEach(key => {
+      if (writeCounts.get(key) !== countsBefore.get(key)) return;
+      const item = stored.get(key);
+      if (item === undefined) {
+        cache.delete(key);
+      } else {
+        cache.set(key, item);
+      }
+    });
+  };
+
+  const handleWriteError = async (error: unknown, writes: Map<string, string | null>) => {
+    console.error(`Error saving to IndexedDB keys "${[...writes.keys()].join('", "')}":`, error);
+    if (failure) return;
+    try {
+      await restoreStoredValues();
+    } catch (reloadError) {
+      console.error('Error reloading IndexedDB after a failed write:', reloadError);
+      if (failure) return;
+      failure = new StorageUnavailableError(
+        'Die Daten konnten nicht gespeichert und nicht neu geladen werden. Bitte laden Sie die Seite neu, bevor Sie weitere Änderungen vornehmen.'
+      );
+      onWriteError?.(failure);
+      return;
+    }
+
+    const requiredBytes = [...writes].reduce((sum, [key, item]) => sum + (key.length + (item?.length ?? 0)) * 2, 0);
+    onWriteError?.(
+      isQuotaExceededError(error)
+        ? new StorageQuotaError([...writes.keys()][0], requiredBytes)
+        : new Error('Die Daten konnten nicht gespeichert werden')
+    );
+  };
+
+  const flush = () => {
+    if (pending.size === 0) return;
+    const writes = pending;
+    pending = new Map();
+    try {
+      const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite');
+      const store = transaction.objectStore(KEY_VALUE_STORE);
+      writes.forEach((item, key) => {
+        if (item === null) {
+          store.delete(key);
+        } else {
+          store.put(item, key);
+        }
+      });
+      transactionDone(transaction).catch(error => handleWriteError(error, writes));
+    } catch (error) {
+      handleWriteError(error, writes);
+    }
+  };
+
+  // The connection is closed once another tab upgrades the database
+  onDatabaseVersionChange(() => {
+    flush();
+    if (failure) return;
+    failure = new StorageUnavailableError(
+      'Die Anwendung wurde in einem anderen Tab aktualisiert. Bitte laden Sie die Seite neu, bevor Sie weitere Änderungen vornehmen.'
+    );
+    onWriteError?.(failure);
+  });
+
+  const persist = (key: string, item: string | null) => {
+    if (pending.size === 0) {
+      queueMicrotask(flush);
+    }
+    pending.set(key, item);
+    writeCounts.set(key, (writeCounts.get(key) ?? 0) + 1);
+  };
+
+  return {
+    type: 'indexedDB',
+
+    read<T>(key: string, defaultValue: T): T {
+      const item = cache.get(key);
+      return item ? JSON.parse(item) : defaultValue;
+    },
+
+    readRaw(key: string): string | null {
+      return cache.get(key) ?? null;
+    },
+
+    write<T>(key: string, data: T): void {
+      if (failure) throw failure;
+      const item = JSON.stringify(data);
+      cache.set(key, item);
+      persist(key, item);
+    },
+
+    remove(key: string): void {
+      if (failure) throw failure;
+      cache.delete(key);
+      persist(key, null);
+    },
+
+    size(key: string): number {
+      // Estimate: the values are stored as strings
+      const item = cache.get(key);
+      return item === undefined ? 0 : (key.length + item.length) * 2;
+    },
+
+    async refresh(): Promise<void> {
+      if (failure) throw failure;
+      const current = await loadAll(db);
+      cache.clear();
+      current.forEach((item, key) => cache.set(key, item));
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLocalStorageDriver } from './localStorageDriver';
+import { StorageQuotaError } from './errors';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createLocalStorageDriver', () => {
+  it('reports a full storage as StorageQuotaError', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', {
+      setItem: () => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      },
+    });
+
+    const write = () => createLocalStorageDriver().write('kanu_members', ['abc']);
+
+    expect(write).toThrow(StorageQuotaError);
+    expect(write).toThrow(expect.objectContaining({ key: 'kanu_members', requiredBytes: 38 }));
+  });
+
+  it('reports other write errors as plain errors', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', {
+      setItem: () => {
+        throw new DOMException('Access denied', 'SecurityError');
+      },
+    });
+
+    expect(() => createLocalStorageDriver().write('kanu_members', [])).toThrow('nicht gespeichert werden');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * LocalStorage Driver
+ * Persists data synchronously in the browser's LocalStorage.
+ */
+
+import type { StorageDriver } from './types';
+import { StorageQuotaError, isQuotaExceededError } from './errors';
+
+/**
+ * Create a driver backed by window.localStorage
+ */
+export function createLocalStorageDriver(): StorageDriver {
+  return {
+    type: 'localStorage',
+
+    read<T>(key: string, defaultValue: T): T {
+      try {
+        const item = localStorage.getItem(key);
+        return item ? JSON.parse(item) : defaultValue;
+      } catch (error) {
+        console.error(`Error reading from localStorage key "${key}":`, error);
+        return defaultValue;
+      }
+    },
+
+    readRaw(key: string): string | null {
+      return localStorage.getItem(key);
+    },
+
+    write<T>(key: string, data: T): void {
+      const item = JSON.stringify(data);
+      try {
+        localStorage.setItem(key, item);
+      } catch (error) {
+        console.error(`Error saving to localStorage key "${key}":`, error);
+        if (isQuotaExceededError(error)) {
+          throw new StorageQuotaError(key, (key.length + item.length) * 2);
+        }
+        throw new Error('Die Daten konnten nicht gespeichert werden');
+      }
+    },
+
+    remove(key: string): void {
+      localStorage.removeItem(key);
+    },
+
+    size(key: string): number {
+      // LocalStorage keeps strings as UTF-16 (two bytes per character)
+      const item = localStorage.getItem(key);
+      return item === null ? 0 : (key.length + item.length) * 2;
+    },
+  };
+}
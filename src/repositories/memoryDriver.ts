@@ -0,0 +1,43 @@
+/**
+ * In-Memory Driver
+ * Keeps all data in a Map. Nothing survives a page reload, which makes it
+ * suitable for headless tests and throwaway demo sessions.
+ */
+
+import type { StorageDriver } from './types';
+
+/**
+ * Create a driver backed by a Map
+ * @param initialData - Optional raw values to seed the store with
+ */
+export function createMemoryDriver(initialData: Record<string, unknown> = {}): StorageDriver {
+  const store = new Map<string, string>(
+    Object.entries(initialData).map(([key, value]) => [key, JSON.stringify(value)])
+  );
+
+  return {
+    type: 'memory',
+
+    read<T>(key: string, defaultValue: T): T {
+      const item = store.get(key);
+      return item ? JSON.parse(item) : defaultValue;
+    },
+
+    readRaw(key: string): string | null {
+      return store.get(key) ?? null;
+    },
+
+    write<T>(key: string, data: T): void {
+      store.set(key, JSON.stringify(data));
+    },
+
+    remove(key: string): void {
+      store.delete(key);
+    },
+
+    size(key: string): number {
+      const item = store.get(key);
+      return item === undefined ? 0 : (key.length + item.length) * 2;
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Snapshot Store
+ * Persists data snapshots in IndexedDB, independent of the selected storage backend
+ * (snapshots can be large and are only needed asynchronously).
+ * The list fields of each snapshot are kept in a separate store, so listing
+ * does not load the data.
+ */
+
+import type { Snapshot, SnapshotInfo } from '../models/types';
+import { openDatabase, promisifyRequest, transactionDone, SNAPSHOT_STORE, SNAPSHOT_INFO_STORE } from './indexedDb';
+
+/**
+ * Check whether snapshots can be stored in this browser
+ */
+export function isSnapshotStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Strip the data from a snapshot
+ */
+function toInfo(snapshot: Snapshot): SnapshotInfo {
+  return {
+    id: snapshot.id,
+    createdAt: snapshot.createdAt,
+    reason: snapshot.reason,
+    schemaVersion: snapshot.schemaVersion,
+    memberCount: snapshot.memberCount,
+    familyCount: snapshot.familyCount,
+    auditLogCount: snapshot.auditLogCount,
+  };
+}
+
+/**
+ * Store a snapshot
+ */
+export async function putSnapshot(snapshot: Snapshot): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SNAPSHOT_STORE, SNAPSHOT_INFO_STORE], 'readwrite');
+  transaction.objectStore(SNAPSHOT_STORE).put(snapshot);
+  transaction.objectStore(SNAPSHOT_INFO_STORE).put(toInfo(snapshot));
+  await transactionDone(transaction);
+}
+
+/**
+ * List all snapshots without their data, newest first
+ */
+export async function listSnapshotInfos(): Promise<SnapshotInfo[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOT_INFO_STORE, 'readonly');
+  const index = transaction.objectStore(SNAPSHOT_INFO_STORE).index('createdAt');
+  const infos: SnapshotInfo[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      infos.push(cursor.value as SnapshotInfo);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return infos;
+}
+
+/**
+ * Load a single snapshot including its data
+ */
+export async function getSnapshot(id: string): Promise<Snapshot | undefined> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOT_STORE, 'readonly');
+  return promisifyRequest<Snapshot | undefined>(transaction.objectStore(SNAPSHOT_STORE).get(id));
+}
+
+/**
+ * Delete snapshots
+ */
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([SNAPSHOT_STORE, SNAPSHOT_INFO_STORE], 'readwrite');
+  const snapshots = transaction.objectStore(SNAPSHOT_STORE);
+  const infos = transaction.objectStore(SNAPSHOT_INFO_STORE);
+  ids.forEach(id => {
+    snapshots.delete(id);
+    infos.delete(id);
+  });
+  await transactionDone(transaction);
+}
@@ -0,0 +1,168 @@
+/**
+ * Repository Interfaces
+ * Typed persistence contracts used by the services.
+ * Business logic only depends on these interfaces, so the storage backend
+ * (LocalStorage, IndexedDB, in-memory) can be swapped without touching it.
+ */
+
+import type { Member, Family, AuditLogEntry, AuditChainHead, AppSettings, EncryptionConfig } from '../models/types';
+
+/**
+ * Available storage backends
+ */
+export type StorageBackendType = 'localStorage' | 'indexedDB' | 'memory';
+
+/**
+ * Low-level key/value driver.
+ * Values are stored as JSON, so every backend behaves like LocalStorage
+ * (e.g. properties with value `undefined` are dropped on write).
+ */
+export interface StorageDriver {
+  /** Backend this driver persists to */
+  readonly type: StorageBackendType;
+
+  /** Read and parse a value, returns the default if the key does not exist */
+  read<T>(key: string, defaultValue: T): T;
+
+  /** Read the serialized value without parsing it (null if the key does not exist) */
+  readRaw(key: string): string | null;
+
+  /** Serialize and write a value */
+  write<T>(key: string, data: T): void;
+
+  /** Remove a key */
+  remove(key: string): void;
+
+  /** Approximate size of the stored value in bytes (0 if the key does not exist) */
+  size(key: string): number;
+
+  /**
+   * Reload cached values after another tab changed the storage
+   * (only needed by drivers that cache, e.g. IndexedDB)
+   */
+  refresh?(): Promise<void>;
+}
+
+/**
+ * Called when a write failed after the driver had accepted it
+ * (drivers that write in the background, e.g. IndexedDB).
+ * A full storage is reported as StorageQuotaError.
+ */
+export type WriteErrorListener = (error: Error) => void;
+
+/**
+ * Converts entities between their stored and their in-memory form.
+ * Both functions must not modify the given entities.
+ */
+export interface EntityCodec<T> {
+  /** Convert entities before they are written */
+  encode(entities: T[]): T[];
+
+  /** Convert entities after they were read */
+  decode(entities: T[]): T[];
+}
+
+/**
+ * Options of createRepositories
+ */
+export interface RepositoryOptions {
+  /** Codec applied to the stored members (e.g. field-level encryption) */
+  memberCodec?: EntityCodec<Member>;
+
+  /**
+   * Called when a background write failed. The repositories return the
+   * stored data again at that point, the failed change is lost. If the stored
+   * data cannot be read back, a StorageUnavailableError is passed and all
+   * further writes fail until the app is reloaded.
+   */
+  onWriteError?: WriteErrorListener;
+}
+
+/**
+ * Persistence operations for members
+ */
+export interface MemberRepository {
+  getAll(): Member[];
+  getById(id: string): Member | undefined;
+  getByFamilyId(familyId: string): Member[];
+  add(member: Member): void;
+  update(member: Member): void;
+  replaceAll(members: Member[]): void;
+}
+
+/**
+ * Persistence operations for families
+ */
+export interface FamilyRepository {
+  getAll(): Family[];
+  getById(id: string): Family | undefined;
+  add(family: Family): void;
+  update(family: Family): void;
+  replaceAll(families: Family[]): void;
+}
+
+/**
+ * Persistence operations for the audit log (newest entry first)
+ */
+export interface AuditRepository {
+  getAll(): AuditLogEntry[];
+  /**
+   * Entries of the member, including operations on several members that list it
+   * and operations that may have changed all members (see affectsAllMembers)
+   */
+  getByMemberId(memberId: string): AuditLogEntry[];
+  add(entry: AuditLogEntry): void;
+  replaceAll(entries: AuditLogEntry[]): void;
+  clear(): void;
+}
+
+/**
+ * Persistence operations for the application settings
+ */
+export interface SettingsRepository {
+  /** Stored settings (keys that were never set are missing) */
+  get(): Partial<AppSettings>;
+  save(settings: Partial<AppSettings>): void;
+}
+
+/**
+ * Technical application state (flags that are not part of the club data)
+ */
+export interface MetaRepository {
+  isInitialized(): boolean;
+  setInitialized(): void;
+
+  /** Version of the persisted data schema (undefined for data from before versioning) */
+  getSchemaVersion(): number | undefined;
+  setSchemaVersion(version: number): void;
+
+  /** Parameters of the field-level encryption (undefined if not enabled) */
+  getEncryptionConfig(): EncryptionConfig | undefined;
+  setEncryptionConfig(config: EncryptionConfig): void;
+  clearEncryptionConfig(): void;
+
+  /** Heads of the audit log hash chain recorded by this app, newest first */
+  getAuditChainHeads(): AuditChainHead[];
+  setAuditChainHeads(heads: AuditChainHead[]): void;
+}
+
+/**
+ * All repositories of one storage backend
+ */
+export interface Repositories {
+  backend: StorageBackendType;
+  members: MemberRepository;
+  families: FamilyRepository;
+  audit: AuditRepository;
+  settings: SettingsRepository;
+  meta: MetaRepository;
+
+  /** Remove the members, families, audit log and initialized flag of this backend */
+  clear(): void;
+
+  /** Approximate stored size of every storage key in bytes */
+  getStorageSizes(): Record<string, number>;
+
+  /** Reload data that was changed by another tab */
+  refresh(): Promise<void>;
+}
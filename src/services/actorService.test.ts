@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAuditLog } from './storageService';
+import { logDataExported } from './auditService';
+import { addActor, getActors, getCurrentActor, removeActor, setCurrentActor } from './actorService';
+
+beforeEach(() => {
+  setRepositories(createRepositories(createMemoryDriver()));
+  setCurrentActor(undefined);
+});
+
+describe('addActor', () => {
+  it('adds actors sorted by name', () => {
+    addActor('  Petra ');
+    addActor('Hans');
+
+    expect(getActors().map(actor => actor.name)).toEqual(['Hans', 'Petra']);
+  });
+
+  it('refuses empty and duplicate names', () => {
+    addActor('Hans');
+
+    expect(() => addActor(' ')).toThrow('Namen eingeben');
+    expect(() => addActor('hans')).toThrow('bereits vorhanden');
+  });
+});
+
+describe('current actor', () => {
+  it('is recorded on every audit log entry', () => {
+    logDataExported(1);
+    const actor = addActor('Hans');
+    setCurrentActor(actor.id);
+    logDataExported(2);
+
+    expect(getAuditLog().map(entry => entry.actor)).toEqual([{ id: actor.id, name: 'Hans' }, undefined]);
+  });
+
+  it('is cleared when the actor is removed, while the log keeps the name', () => {
+    const actor = addActor('Hans');
+    setCurrentActor(actor.id);
+    logDataExported(1);
+
+    removeActor(actor.id);
+
+    expect(getCurrentActor()).toBeUndefined();
+    expect(getAuditLog()[0].actor?.name).toBe('Hans');
+  });
+});
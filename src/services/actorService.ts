@@ -0,0 +1,115 @@
+/**
+ * Actor Service
+ * Manages the people using the app (e.g. board members) and the actor of the
+ * current session. The list of actors is stored in the settings; the selected
+ * actor is kept per browser tab (sessionStorage), like a login.
+ * Every audit log entry is stamped with the current actor.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Actor } from '../models/types';
+import { getSettings, updateSettings } from './settingsService';
+
+const SESSION_KEY = 'kanu_current_actor';
+
+const listeners = new Set<(actor: Actor | undefined) => void>();
+
+/** Actor of this session if sessionStorage is not available */
+let fallbackActorId: string | undefined;
+
+function readSessionActorId(): string | undefined {
+  try {
+    return sessionStorage.getItem(SESSION_KEY) ?? undefined;
+  } catch {
+    return fallbackActorId;
+  }
+}
+
+function writeSessionActorId(id: string | undefined): void {
+  try {
+    if (id) {
+      sessionStorage.setItem(SESSION_KEY, id);
+    } else {
+      sessionStorage.removeItem(SESSION_KEY);
+    }
+  } catch {
+    fallbackActorId = id;
+  }
+}
+
+function notifyListeners(): void {
+  const actor = getCurrentActor();
+  listeners.forEach(listener => listener(actor));
+}
+
+// ============================================
+// Actor List
+// ============================================
+
+/**
+ * Get all configured actors, sorted by name
+ */
+export function getActors(): Actor[] {
+  return [...getSettings().actors].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Add an actor
+ * @throws Error if the name is empty or already used
+ */
+export function addActor(name: string): Actor {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Bitte einen Namen eingeben');
+  }
+  const actors = getSettings().actors;
+  if (actors.some(actor => actor.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`"${trimmed}" ist bereits vorhanden`);
+  }
+
+  const actor: Actor = { id: uuidv4(), name: trimmed };
+  updateSettings({ actors: [...actors, actor] });
+  return actor;
+}
+
+/**
+ * Remove an actor. Existing audit log entries keep the recorded name.
+ */
+export function removeActor(id: string): void {
+  updateSettings({ actors: getSettings().actors.filter(actor => actor.id !== id) });
+  if (readSessionActorId() === id) {
+    setCurrentActor(undefined);
+  }
+}
+
+// ============================================
+// Current Actor
+// ============================================
+
+/**
+ * Get the actor of this session
+ * @returns undefined if no actor is selected (or the selected one was removed)
+ */
+export function getCurrentActor(): Actor | undefined {
+  const id = readSessionActorId();
+  return id ? getSettings().actors.find(actor => actor.id === id) : undefined;
+}
+
+/**
+ * Select the actor of this session (login / profile switch)
+ */
+export function setCurrentActor(id: string | undefined): void {
+  writeSessionActorId(id);
+  notifyListeners();
+}
+
+/**
+ * Subscribe to changes of the current actor
+ * @returns Function to unsubscribe
+ */
+export function onCurrentActorChanged(listener: (actor: Actor | undefined) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
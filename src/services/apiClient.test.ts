@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { ApiError, apiRequest } from './apiClient';
+
+/**
+ * Answer every request with the given response
+ */
+function respondWith(response: Response): void {
+  vi.stubGlobal('fetch', vi.fn(async () => response));
+}
+
+beforeEach(() => {
+  vi.stubEnv('VITE_API_URL', 'http://localhost:3001/api/');
+  setRepositories(createRepositories(createMemoryDriver()));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('apiRequest', () => {
+  it('sends JSON to the configured URL and parses the answer', async () => {
+    respondWith(Response.json({ id: 'm1' }));
+
+    expect(await apiRequest('/members', { method: 'POST', body: { firstName: 'Anna' }, query: { search: '' } }))
+      .toEqual({ id: 'm1' });
+    expect(fetch).toHaveBeenCalledWith('http://localhost:3001/api/members', expect.objectContaining({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"firstName":"Anna"}',
+    }));
+  });
+
+  it('returns undefined for an empty answer', async () => {
+    respondWith(new Response(null, { status: 204 }));
+
+    expect(await apiRequest('/members/m1/family', { method: 'DELETE' })).toBeUndefined();
+  });
+
+  it('reports an HTML error page as ApiError with its status', async () => {
+    respondWith(new Response('<html><body>Bad Gateway</body></html>', { status: 502 }));
+
+    const error = await apiRequest('/members').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 502, message: 'Anfrage fehlgeschlagen (502)' });
+  });
+
+  it('reports a successful answer that is no JSON as invalid', async () => {
+    respondWith(new Response('<html></html>', { status: 200 }));
+
+    await expect(apiRequest('/members')).rejects.toThrow('Ungültige Antwort des Servers (200)');
+  });
+
+  it('passes on the error message and body of the server', async () => {
+    respondWith(Response.json({ error: 'Mitglied nicht gefunden' }, { status: 404 }));
+
+    await expect(apiRequest('/members/m1')).rejects.toMatchObject({
+      status: 404,
+      message: 'Mitglied nicht gefunden',
+      body: { error: 'Mitglied nicht gefunden' },
+    });
+  });
+
+  it('fails without a configured URL', async () => {
+    vi.stubEnv('VITE_API_URL', '');
+
+    await expect(apiRequest('/members')).rejects.toMatchObject({ status: 0 });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * API Client
+ * Minimal fetch wrapper for the REST backend.
+ * The base URL is configured via the VITE_API_URL environment variable.
+ */
+
+import { getCurrentActor } from './actorService';
+
+/**
+ * Error returned by the REST backend
+ */
+export class ApiError extends Error {
+  /** HTTP status code (0 if the server was not reachable) */
+  readonly status: number;
+
+  /** Parsed response body, if any */
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Get the configured API base URL (without trailing slash)
+ */
+export function getApiBaseUrl(): string | undefined {
+  const url = import.meta.env.VITE_API_URL;
+  return url ? url.replace(/\/+$/, '') : undefined;
+}
+
+/**
+ * Perform a JSON request against the REST backend
+ */
+export async function apiRequest<T>(
+  path: string,
+  options: { method?: string; body?: unknown; query?: Record<string, string | number | boolean | undefined> } = {}
+): Promise<T> {
+  const baseUrl = getApiBaseUrl();
+  if (!baseUrl) {
+    throw new ApiError('Keine API-URL konfiguriert (VITE_API_URL)', 0);
+  }
+
+  const params = new URLSearchParams();
+  Object.entries(options.query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  const queryString = params.toString();
+  const url = `${baseUrl}${path}${queryString ? `?${queryString}` : ''}`;
+
+  const headers: Record<string, string> = {};
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  // The backend records the actor in the audit log (URI-encoded, names may contain umlauts)
+  const actor = getCurrentActor();
+  if (actor) {
+    headers['X-Actor'] = encodeURIComponent(JSON.stringify({ id: actor.id, name: actor.name }));
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: options.method ?? 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+  } catch (error) {
+    throw new ApiError(
+      `Server nicht erreichbar: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`,
+      0
+    );
+  }
+
+  const text = await response.text();
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    // e.g. an HTML error page of a proxy
+    throw new ApiError(
+      response.ok
+        ? `Ungültige Antwort des Servers (${response.status})`
+        : `Anfrage fehlgeschlagen (${response.status})`,
+      response.status
+    );
+  }
+
+  if (!response.ok) {
+    const message = body && typeof body === 'object' && 'error' in body
+      ? String(body.error)
+      : `Anfrage fehlgeschlagen (${response.status})`;
+    throw new ApiError(message, response.status, body);
+  }
+
+  return body as T;
+}
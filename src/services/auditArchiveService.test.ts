@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuditArchive, AuditLogEntry } from '../models/types';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAuditLog } from './storageService';
+import { logDataExported, verifyAuditLog } from './auditService';
+import {
+  archiveAuditLog,
+  findArchivableEntries,
+  importAuditArchive,
+  loadAuditArchiveEntries,
+} from './auditArchiveService';
+import { gunzipText, gzipText } from '../utils/gzip';
+
+// IndexedDB is not available in Node, the archives are kept in a Map instead
+const store = vi.hoisted(() => ({ archives: new Map<string, AuditArchive>() }));
+
+vi.mock('../repositories/auditArchiveStore', () => ({
+  isAuditArchiveStoreAvailable: () => true,
+  putAuditArchive: async (archive: AuditArchive) => {
+    store.archives.set(archive.id, structuredClone(archive));
+  },
+  listAuditArchiveInfos: async () => [...store.archives.values()]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  getAuditArchive: async (id: string) => structuredClone(store.archives.get(id)),
+}));
+
+/**
+ * Build an audit log entry at the given time
+ */
+function entry(id: string, timestamp: string): AuditLogEntry {
+  return { id, timestamp, action: 'DATA_EXPORTED', description: id };
+}
+
+/**
+ * Log an export at the given time
+ */
+function exportAt(time: string): AuditLogEntry {
+  vi.setSystemTime(new Date(time));
+  return logDataExported(1);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  store.archives.clear();
+  setRepositories(createRepositories(createMemoryDriver()));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('findArchivableEntries', () => {
+  const now = new Date('2024-07-01T00:00:00.000Z');
+
+  it('returns the oldest entries before the cutoff up to the first newer one', () => {
+    const log = [
+      entry('e1', '2024-06-01T00:00:00.000Z'),
+      entry('e2', '2023-01-01T00:00:00.000Z'),
+      entry('e3', '2024-05-01T00:00:00.000Z'),
+      entry('e4', '2023-01-01T00:00:00.000Z'),
+      entry('e5', '2022-12-01T00:00:00.000Z'),
+    ];
+
+    expect(findArchivableEntries(log, 12, now).map(item => item.id)).toEqual(['e4', 'e5']);
+    expect(findArchivableEntries(log, 24, now)).toEqual([]);
+  });
+
+  it('archives nothing without a retention period', () => {
+    expect(findArchivableEntries([entry('e1', '2000-01-01T00:00:00.000Z')], 0, now)).toEqual([]);
+  });
+});
+
+describe('archiveAuditLog', () => {
+  it('moves the old entries into an archive and keeps the log verifiable', async () => {
+    const oldest = exportAt('2023-01-01T10:00:00.000Z');
+    const older = exportAt('2023-02-01T10:00:00.000Z');
+    const recent = exportAt('2024-06-01T10:00:00.000Z');
+    vi.setSystemTime(new Date('2024-07-01T10:00:00.000Z'));
+
+    const info = await archiveAuditLog(12);
+
+    expect(info).toMatchObject({ entryCount: 2, lastHash: older.hash });
+    expect(getAuditLog().map(item => item.action)).toEqual(['AUDIT_LOG_ARCHIVED', 'DATA_EXPORTED']);
+    expect(getAuditLog()[1].id).toBe(recent.id);
+    expect(verifyAuditLog().valid).toBe(true);
+    expect((await loadAuditArchiveEntries(info!.id)).map(item => item.id)).toEqual([older.id, oldest.id]);
+  });
+
+  it('does nothing if no entry is old enough', async () => {
+    exportAt('2024-06-01T10:00:00.000Z');
+
+    expect(await archiveAuditLog(12)).toBeUndefined();
+    expect(getAuditLog()).toHaveLength(1);
+  });
+});
+
+describe('importAuditArchive', () => {
+  it('rejects an archive whose entries were modified', async () => {
+    exportAt('2023-01-01T10:00:00.000Z');
+    exportAt('2023-02-01T10:00:00.000Z');
+    vi.setSystemTime(new Date('2024-07-01T10:00:00.000Z'));
+    const info = await archiveAuditLog(12);
+    const content = JSON.parse(await gunzipText(store.archives.get(info!.id)!.data));
+    content.entries[1].description = 'Daten exportiert (0 Mitglieder)';
+    store.archives.clear();
+
+    await expect(importAuditArchive(new Blob([await gzipText(JSON.stringify(content))])))
+      .rejects.toThrow('Das Archiv ist beschädigt');
+    expect(store.archives.size).toBe(0);
+  });
+
+  it('rejects files that are no archive', async () => {
+    await expect(importAuditArchive(new Blob([await gzipText('{"format":"anders"}')])))
+      .rejects.toThrow('kein gültiges Historien-Archiv');
+    await expect(importAuditArchive(new Blob(['kein gzip'])))
+      .rejects.toThrow('kein gültiges Historien-Archiv');
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Audit Archive Service
+ * Retention policy for the audit log: entries older than the configured number of
+ * months are moved into gzip-compressed archive files in IndexedDB, so the active
+ * log (which is re-serialized on every write) stays small. A summary entry
+ * (AUDIT_LOG_ARCHIVED) remains in the log and keeps the hash chain verifiable.
+ * Archives can be downloaded and imported again (e.g. on another computer).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { AuditArchiveInfo, AuditLogEntry } from '../models/types';
+import {
+  isAuditArchiveStoreAvailable,
+  putAuditArchive,
+  listAuditArchiveInfos,
+  getAuditArchive,
+} from '../repositories';
+import { getAuditLog, saveAuditLog, runInTransaction } from './storageService';
+import { logAuditLogArchived } from './auditService';
+import { GENESIS_HASH, describeChainProblem, verifyAuditChain } from './auditIntegrityService';
+import { getSettings } from './settingsService';
+import { gunzipText, gzipText, isGzipAvailable } from '../utils/gzip';
+import { downloadFile } from '../utils/download';
+
+/** Identifies a file as audit log archive of this app */
+export const AUDIT_ARCHIVE_FORMAT = 'kanu-audit-archive';
+
+/** Version of the archive file layout */
+export const AUDIT_ARCHIVE_FORMAT_VERSION = 1;
+
+/**
+ * Content of an archive file (before compression)
+ */
+interface AuditArchiveFile {
+  format: typeof AUDIT_ARCHIVE_FORMAT;
+  formatVersion: number;
+  id: string;
+  createdAt: string;
+
+  /** Archived entries, newest first (like the audit log) */
+  entries: AuditLogEntry[];
+}
+
+const changeListeners = new Set<() => void>();
+
+/**
+ * Subscribe to changes of the archive list
+ * @returns Function to unsubscribe
+ */
+export function onAuditArchivesChanged(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Check whether archives can be created in this browser (IndexedDB and gzip)
+ */
+export function isAuditArchivingAvailable(): boolean {
+  return isAuditArchiveStoreAvailable() && isGzipAvailable();
+}
+
+/**
+ * Build the archive metadata from the archived entries
+ */
+function describeArchive(
+  id: string,
+  createdAt: string,
+  entries: AuditLogEntry[],
+  compressedSize: number
+): AuditArchiveInfo {
+  const oldest = entries[entries.length - 1];
+  const newest = entries[0];
+  return {
+    id,
+    createdAt,
+    entryCount: entries.length,
+    fromTimestamp: oldest.timestamp,
+    toTimestamp: newest.timestamp,
+    firstPreviousHash: oldest.previousHash ?? GENESIS_HASH,
+    lastHash: newest.hash ?? '',
+    compressedSize,
+  };
+}
+
+// ============================================
+// Archiving
+// ============================================
+
+/**
+ * Find the entries older than the retention period.
+ * Only the oldest entries up to the first newer one are returned, so the
+ * remaining log is still one unbroken chain.
+ * @param entries Audit log, newest entry first
+ */
+export function findArchivableEntries(
+  entries: AuditLogEntry[],
+  retentionMonths: number,
+  now: Date = new Date()
+): AuditLogEntry[] {
+  if (retentionMonths <= 0) return [];
+  const cutoff = new Date(now);
+  cutoff.setMonth(cutoff.getMonth() - retentionMonths);
+
+  let start = entries.length;
+  while (start > 0 && new Date(entries[start - 1].timestamp) < cutoff) {
+    start--;
+  }
+  return entries.slice(start);
+}
+
+/**
+ * Move the entries older than the retention period into a new archive.
+ * The archive is stored before the entries are removed from the log.
+ * @returns The new archive, or undefined if no entry is old enough
+ */
+export async function archiveAuditLog(
+  retentionMonths: number = getSettings().auditRetentionMonths
+): Promise<AuditArchiveInfo | undefined> {
+  const entries = findArchivableEntries(getAuditLog(), retentionMonths);
+  if (entries.length === 0) return undefined;
+
+  const file: AuditArchiveFile = {
+    format: AUDIT_ARCHIVE_FORMAT,
+    formatVersion: AUDIT_ARCHIVE_FORMAT_VERSION,
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    entries,
+  };
+  const data = await gzipText(JSON.stringify(file));
+  const info = describeArchive(file.id, file.createdAt, entries, data.byteLength);
+  await putAuditArchive({ ...info, data });
+
+  runInTransaction(() => {
+    // The log may have changed while the archive was written (e.g. by a reset)
+    const log = getAuditLog();
+    const tail = log.slice(log.length - entries.length);
+    if (tail.length !== entries.length || tail.some((entry, index) => entry.id !== entries[index].id)) {
+      throw new Error('Die Historie wurde während der Archivierung geändert');
+    }
+    logAuditLogArchived(info.id, info.entryCount, info.fromTimestamp, info.toTimestamp, info.lastHash);
+    const archivedIds = new Set(entries.map(entry => entry.id));
+    saveAuditLog(getAuditLog().filter(entry => !archivedIds.has(entry.id)));
+  });
+
+  changeListeners.forEach(listener => listener());
+  return info;
+}
+
+/**
+ * Apply the configured retention policy (on startup)
+ */
+export async function applyAuditRetentionPolicy(): Promise<void> {
+  if (!isAuditArchivingAvailable() || getSettings().auditRetentionMonths <= 0) return;
+  try {
+    await archiveAuditLog();
+  } catch (error) {
+    console.error('Archivierung der Historie fehlgeschlagen:', error);
+  }
+}
+
+// ============================================
+// Listing, Download and Import
+// ============================================
+
+/**
+ * List all archives, newest first
+ */
+export function listAuditArchives(): Promise<AuditArchiveInfo[]> {
+  return listAuditArchiveInfos();
+}
+
+/**
+ * Decompress and validate an archive file
+ * @throws Error if the file is no archive or its entries were modified
+ */
+async function readArchiveFile(data: BlobPart): Promise<AuditArchiveFile> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await gunzipText(data));
+  } catch {
+    throw new Error('Die Datei ist kein gültiges Historien-Archiv');
+  }
+
+  const file = parsed as Partial<AuditArchiveFile>;
+  if (file?.format !== AUDIT_ARCHIVE_FORMAT || !Array.isArray(file.entries) || !file.id) {
+    throw new Error('Die Datei ist kein gültiges Historien-Archiv');
+  }
+  if (typeof file.formatVersion !== 'number' || file.formatVersion > AUDIT_ARCHIVE_FORMAT_VERSION) {
+    throw new Error('Das Archiv wurde mit einer neueren Version der App erstellt');
+  }
+  if (file.entries.length === 0) {
+    throw new Error('Das Archiv enthält keine Einträge');
+  }
+
+  const oldest = file.entries[file.entries.length - 1];
+  const status = verifyAuditChain(file.entries, { startHash: oldest.previousHash ?? GENESIS_HASH });
+  if (status.firstBroken) {
+    throw new Error(`Das Archiv ist beschädigt: ${describeChainProblem(status.firstBroken.problem)}`);
+  }
+
+  return file as AuditArchiveFile;
+}
+
+/**
+ * Load the entries of an archive, newest first
+ */
+export async function loadAuditArchiveEntries(id: string): Promise<AuditLogEntry[]> {
+  const archive = await getAuditArchive(id);
+  if (!archive) {
+    throw new Error('Das Archiv wurde nicht gefunden');
+  }
+  return (await readArchiveFile(archive.data)).entries;
+}
+
+/**
+ * Download an archive as compressed file (.json.gz)
+ */
+export async function downloadAuditArchive(id: string): Promise<AuditArchiveInfo> {
+  const archive = await getAuditArchive(id);
+  if (!archive) {
+    throw new Error('Das Archiv wurde nicht gefunden');
+  }
+  const from = archive.fromTimestamp.split('T')[0];
+  const to = archive.toTimestamp.split('T')[0];
+  downloadFile(archive.data, `historie_archiv_${from}_${to}.json.gz`, 'application/gzip');
+  return archive;
+}
+
+/**
+ * Import a downloaded archive file (e.g. after the browser data was deleted)
+ * @throws Error if the file is invalid or the archive already exists
+ */
+export async function importAuditArchive(file: Blob): Promise<AuditArchiveInfo> {
+  const data = await file.arrayBuffer();
+  const content = await readArchiveFile(data);
+
+  if (await getAuditArchive(content.id)) {
+    throw new Error('Dieses Archiv ist bereits vorhanden');
+  }
+
+  const info = describeArchive(content.id, content.createdAt, content.entries, data.byteLength);
+  await putAuditArchive({ ...info, data });
+  changeListeners.forEach(listener => listener());
+  return info;
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuditLogEntry, Member } from '../models/types';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAuditLog } from './storageService';
+import { createMember, editMember } from './memberService';
+import { exportAuditLog } from './auditExportService';
+import { MEMBER_FORM } from '../test/fixtures';
+
+let member: Member;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  setRepositories(createRepositories(createMemoryDriver()));
+  vi.setSystemTime(new Date('2024-01-10T12:00:00.000Z'));
+  member = createMember(MEMBER_FORM);
+  vi.setSystemTime(new Date('2024-02-10T12:00:00.000Z'));
+  member = editMember(member.id, { ...MEMBER_FORM, city: 'Essen' });
+  vi.setSystemTime(new Date('2024-03-10T12:00:00.000Z'));
+  member = editMember(member.id, { ...MEMBER_FORM, city: 'Köln' });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('exportAuditLog', () => {
+  it('exports all entries in the date range as JSON lines, ignoring the pagination', () => {
+    const result = exportAuditLog({ from: '2024-02-01', to: '2024-03-31', pageSize: 1 }, 'jsonl');
+    const entries = result.content.split('\n').map(line => JSON.parse(line) as AuditLogEntry & { memberName: string });
+
+    expect(result.entryCount).toBe(2);
+    expect(entries.map(entry => entry.timestamp)).toEqual(['2024-03-10T12:00:00.000Z', '2024-02-10T12:00:00.000Z']);
+    expect(entries[0].memberName).toBe('Anna Schmidt');
+    expect(result.chainHead?.hash).toBe(getAuditLog()[0].hash);
+  });
+
+  it('exports the filtered entries as CSV with their field changes', () => {
+    const result = exportAuditLog({ action: 'MEMBER_UPDATED', to: '2024-02-28' }, 'csv');
+    const [header, row, ...rest] = result.content.split('\n');
+
+    expect(header.split(';')).toContain('changes');
+    expect(row).toContain('Bonn → Essen');
+    expect(rest).toEqual([]);
+  });
+
+  it('logs the export with its filters', () => {
+    exportAuditLog({ memberId: member.id, search: '', page: 2 }, 'csv');
+
+    const [entry] = getAuditLog();
+    expect(entry.action).toBe('AUDIT_LOG_EXPORTED');
+    expect(entry.details).toMatchObject({ filters: { memberId: member.id } });
+    expect(entry.details?.filters).not.toHaveProperty('page');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Audit Export Service
+ * Exports (filtered) audit log entries for external review, e.g. the annual audit.
+ * CSV follows the conventions of the member export (';' separator, UTF-8 with BOM);
+ * JSON lines contain one complete entry per line.
+ * Member and family IDs are resolved to their current names.
+ */
+
+import type { AuditChainHead, AuditLogEntry, AuditLogQuery } from '../models/types';
+import { getAllFamilies, getAllMembers } from './storageService';
+import {
+  findAuditLogEntries,
+  formatActionType,
+  formatFieldValue,
+  getFieldChanges,
+  logAuditLogExported,
+  recordAuditChainHead,
+} from './auditService';
+import { escapeCSVField } from './csvService';
+import { downloadCSVFile, downloadFile } from '../utils/download';
+
+export type AuditExportFormat = 'csv' | 'jsonl';
+
+// CSV column headers
+const AUDIT_CSV_HEADERS = [
+  'id',
+  'timestamp',
+  'action',
+  'actionLabel',
+  'description',
+  'actorName',
+  'memberId',
+  'memberName',
+  'familyId',
+  'familyName',
+  'changes',
+  'details',
+  'hash',
+] as const;
+
+type AuditCSVRow = Record<(typeof AUDIT_CSV_HEADERS)[number], string>;
+
+/**
+ * Audit log entry with resolved names, as written to the export
+ */
+export interface ExportedAuditEntry extends AuditLogEntry {
+  actionLabel: string;
+  memberName?: string;
+  familyName?: string;
+}
+
+/**
+ * Result of an export
+ */
+export interface AuditExport {
+  content: string;
+  entryCount: number;
+  filename: string;
+
+  /** Head of the complete log after the export, to be recorded with the exported file */
+  chainHead?: AuditChainHead;
+}
+
+/**
+ * Add the display label and the member/family names to the entries.
+ * Names recorded in the entry are used if the member or family no longer exists.
+ */
+function resolveNames(entries: AuditLogEntry[]): ExportedAuditEntry[] {
+  const memberNames = new Map(getAllMembers().map(m => [m.id, `${m.firstName} ${m.lastName}`]));
+  const familyNames = new Map(getAllFamilies().map(f => [f.id, f.name]));
+  const recorded = (entry: AuditLogEntry, key: string) => {
+    const value = entry.details?.[key];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  return entries.map(entry => ({
+    ...entry,
+    actionLabel: formatActionType(entry.action),
+    memberName: entry.memberId
+      ? memberNames.get(entry.memberId) ?? recorded(entry, 'memberName')
+      : undefined,
+    familyName: entry.familyId
+      ? familyNames.get(entry.familyId) ?? recorded(entry, 'familyName')
+      : undefined,
+  }));
+}
+
+/**
+ * Summarize the field changes of an entry, e.g. 'Ort: Köln → Bonn'
+ */
+function formatChanges(entry: AuditLogEntry): string {
+  return getFieldChanges(entry)
+    .map(change => `${change.label}: ${formatFieldValue(change.field, change.oldValue, change.oldDisplay)}` +
+      ` → ${formatFieldValue(change.field, change.newValue, change.newDisplay)}`)
+    .join(', ');
+}
+
+/**
+ * Convert audit log entries to CSV
+ */
+export function auditEntriesToCSV(entries: ExportedAuditEntry[]): string {
+  const headerRow = AUDIT_CSV_HEADERS.join(';');
+
+  const dataRows = entries.map(entry => {
+    const row: AuditCSVRow = {
+      id: entry.id,
+      timestamp: entry.timestamp,
+      action: entry.action,
+      actionLabel: entry.actionLabel,
+      description: entry.description,
+      actorName: entry.actor?.name ?? '',
+      memberId: entry.memberId ?? '',
+      memberName: entry.memberName ?? '',
+      familyId: entry.familyId ?? '',
+      familyName: entry.familyName ?? '',
+      changes: formatChanges(entry),
+      details: entry.details ? JSON.stringify(entry.details) : '',
+      hash: entry.hash ?? '',
+    };
+
+    return AUDIT_CSV_HEADERS.map(header => escapeCSVField(row[header])).join(';');
+  });
+
+  return [headerRow, ...dataRows].join('\n');
+}
+
+/**
+ * Convert audit log entries to JSON lines (one entry per line)
+ */
+export function auditEntriesToJSONL(entries: ExportedAuditEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n');
+}
+
+/**
+ * Export the audit log entries matching the filters and log the export
+ * @param query Filters (pagination is ignored, all matching entries are exported)
+ */
+export function exportAuditLog(query: AuditLogQuery, format: AuditExportFormat): AuditExport {
+  const entries = resolveNames(findAuditLogEntries(query));
+  const content = format === 'csv' ? auditEntriesToCSV(entries) : auditEntriesToJSONL(entries);
+
+  const filters: Record<string, string> = {};
+  Object.entries(query).forEach(([key, value]) => {
+    if (key !== 'page' && key !== 'pageSize' && value) filters[key] = String(value);
+  });
+  logAuditLogExported(format, entries.length, filters);
+  const chainHead = recordAuditChainHead();
+
+  const date = new Date().toISOString().split('T')[0];
+  return { content, entryCount: entries.length, filename: `historie_export_${date}.${format}`, chainHead };
+}
+
+/**
+ * Export the audit log entries matching the filters and download them as file
+ */
+export function downloadAuditLog(query: AuditLogQuery, format: AuditExportFormat): AuditExport {
+  const result = exportAuditLog(query, format);
+  if (format === 'csv') {
+    downloadCSVFile(result.content, result.filename);
+  } else {
+    downloadFile(result.content, result.filename, 'application/x-ndjson;charset=utf-8;');
+  }
+  return result;
+}
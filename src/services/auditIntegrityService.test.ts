@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuditActionType, AuditLogEntry } from '../models/types';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAuditLog, getKnownAuditChainHeads, saveAuditLog } from './storageService';
+import { clearAuditLog, logDataExported, recordAuditChainHead, verifyAuditLog } from './auditService';
+import { GENESIS_HASH, getAuditChainHead, sealAuditEntry, verifyAuditChain } from './auditIntegrityService';
+
+/**
+ * Build a sealed log of entries (newest first) continuing the given hash
+ */
+function sealedLog(actions: AuditActionType[], startHash = GENESIS_HASH): AuditLogEntry[] {
+  let previousHash = startHash;
+  const entries = actions.map((action, index) => {
+    const entry = sealAuditEntry({
+      id: `e${index}`,
+      timestamp: `2024-01-0${index + 1}T00:00:00.000Z`,
+      action,
+      description: action,
+    }, previousHash);
+    previousHash = entry.hash!;
+    return entry;
+  });
+  return entries.reverse();
+}
+
+describe('verifyAuditChain', () => {
+  it('reports the head of the log', () => {
+    const log = sealedLog(['MEMBER_CREATED', 'MEMBER_UPDATED']);
+
+    expect(verifyAuditChain(log)).toEqual({
+      valid: true,
+      checkedCount: 2,
+      head: { hash: log[0].hash, entryCount: 2, timestamp: log[0].timestamp },
+      missingHead: undefined,
+    });
+  });
+
+  it('detects removed newest entries by a known head', () => {
+    const log = sealedLog(['MEMBER_CREATED', 'MEMBER_UPDATED', 'MEMBER_DEACTIVATED']);
+    const head = getAuditChainHead(log)!;
+    const truncated = log.slice(1);
+
+    expect(verifyAuditChain(truncated).valid).toBe(true);
+    const status = verifyAuditChain(truncated, { knownHeads: [head] });
+    expect(status.valid).toBe(false);
+    expect(status.missingHead).toEqual(head);
+    expect(verifyAuditChain(log, { knownHeads: [getAuditChainHead(truncated)!] }).valid).toBe(true);
+  });
+
+  it('accepts the anchor of a cleared log only if the head before clearing is known', () => {
+    const cleared = sealedLog(['MEMBER_CREATED', 'MEMBER_UPDATED']);
+    const head = getAuditChainHead(cleared)!;
+    const anchored = sealedLog(['AUDIT_LOG_CLEARED'], head.hash);
+
+    expect(verifyAuditChain(anchored).firstBroken?.problem).toBe('unknown-anchor');
+    expect(verifyAuditChain(anchored, { knownHeads: [head] }).valid).toBe(true);
+    expect(verifyAuditChain(sealedLog(['MEMBER_CREATED'], head.hash), { knownHeads: [head] }).firstBroken?.problem)
+      .toBe('link-broken');
+  });
+
+  it('accepts known heads removed together with all older entries', () => {
+    const archivedHead = { ...getAuditChainHead(sealedLog(['MEMBER_CREATED']))!, timestamp: '2023-12-01T00:00:00.000Z' };
+
+    expect(verifyAuditChain(sealedLog(['MEMBER_UPDATED']), { knownHeads: [archivedHead] }).valid).toBe(true);
+  });
+});
+
+describe('verifyAuditLog', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T10:00:00.000Z'));
+    setRepositories(createRepositories(createMemoryDriver()));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stays valid after the log was cleared', () => {
+    logDataExported(3);
+    clearAuditLog();
+
+    expect(verifyAuditLog().valid).toBe(true);
+  });
+
+  it('detects removed entries after the head was recorded', () => {
+    logDataExported(3);
+    logDataExported(4);
+    recordAuditChainHead();
+    saveAuditLog(getAuditLog().slice(1));
+
+    expect(verifyAuditLog().missingHead?.entryCount).toBe(2);
+  });
+
+  it('checks a head recorded outside the app and remembers it', () => {
+    logDataExported(3);
+    const head = verifyAuditLog().head!;
+    logDataExported(4);
+
+    expect(verifyAuditLog({ hash: head.hash, entryCount: head.entryCount }).valid).toBe(true);
+    expect(verifyAuditLog({ hash: 'f'.repeat(64), entryCount: 5 }).valid).toBe(false);
+    expect(getKnownAuditChainHeads().map(known => known.hash)).toEqual([head.hash]);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Audit Integrity Service
+ * Chains the audit log entries with SHA-256 hashes, so changed, inserted or
+ * removed entries can be detected. Each entry stores the hash of the entry
+ * before it (previousHash) and the hash of its own content (hash).
+ * The newest end of the chain (its head) is recorded outside the log (backup,
+ * audit export, viewer), so removed newest entries can be detected as well.
+ */
+
+import type { AuditChainHead, AuditLogEntry } from '../models/types';
+import { sha256 } from '../utils/sha256';
+
+/** previousHash of the first entry of a log */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Why the chain is broken at an entry
+ * - missing-hash: the entry was never sealed (or the hash was removed)
+ * - content-modified: the entry does not match its hash
+ * - link-broken: the entry does not follow the entry before it (entries removed or reordered)
+ * - unknown-anchor: the log was cleared, but the head before clearing is not a known head
+ */
+export type AuditChainProblem = 'missing-hash' | 'content-modified' | 'link-broken' | 'unknown-anchor';
+
+/**
+ * Result of the chain verification
+ */
+export interface AuditChainStatus {
+  valid: boolean;
+
+  /** Number of entries checked */
+  checkedCount: number;
+
+  /** Newest end of the log (undefined if the log is empty) */
+  head?: AuditChainHead;
+
+  /** A known head that is no longer part of the log: newer entries were removed */
+  missingHead?: AuditChainHead;
+
+  /** First entry (oldest first) at which the chain is broken */
+  firstBroken?: {
+    entryId: string;
+    timestamp: string;
+    /** Position in the log, counted from the oldest entry (1-based) */
+    position: number;
+    problem: AuditChainProblem;
+  };
+}
+
+/**
+ * Serialize a value with sorted keys, so the hash does not depend on key order.
+ * Undefined properties are left out, as in JSON.stringify.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Compute the hash of an entry (all fields except the hash itself)
+ */
+export function computeAuditEntryHash(entry: AuditLogEntry): string {
+  return sha256(canonicalJson({ ...entry, hash: undefined }));
+}
+
+/**
+ * Link an entry to its predecessor and compute its hash
+ */
+export function sealAuditEntry(entry: AuditLogEntry, previousHash: string): AuditLogEntry {
+  const linked: AuditLogEntry = { ...entry, previousHash, hash: undefined };
+  return { ...linked, hash: computeAuditEntryHash(linked) };
+}
+
+/**
+ * Seal a complete log from scratch (used for logs written before the chain existed)
+ * @param entries Audit log, newest entry first
+ */
+export function sealAuditLog(entries: AuditLogEntry[]): AuditLogEntry[] {
+  let previousHash = GENESIS_HASH;
+  const sealed = [...entries].reverse().map(entry => {
+    const sealedEntry = sealAuditEntry(entry, previousHash);
+    previousHash = sealedEntry.hash!;
+    return sealedEntry;
+  });
+  return sealed.reverse();
+}
+
+/**
+ * Options of verifyAuditChain
+ */
+export interface AuditChainOptions {
+  /** previousHash the oldest entry must have (e.g. for an archive chunk) */
+  startHash?: string;
+
+  /** Heads recorded earlier; each must still be part of the log */
+  knownHeads?: AuditChainHead[];
+}
+
+/**
+ * Get the newest end of a log
+ * @param entries Audit log, newest entry first
+ */
+export function getAuditChainHead(entries: AuditLogEntry[]): AuditChainHead | undefined {
+  const newest = entries[0];
+  if (!newest?.hash) return undefined;
+  return { hash: newest.hash, entryCount: entries.length, timestamp: newest.timestamp };
+}
+
+/**
+ * Check whether a known head is covered by a log: it is one of its entries, or
+ * it was removed together with all older entries (cleared or archived log).
+ * Heads without timestamp (entered by hand) must be part of the log or link to its oldest entry.
+ * @param entries Audit log, newest entry first
+ */
+export function isHeadCovered(entries: AuditLogEntry[], head: AuditChainHead): boolean {
+  const oldest = entries[entries.length - 1];
+  if (!oldest) return false;
+  if (oldest.previousHash === head.hash || entries.some(entry => entry.hash === head.hash)) return true;
+  return head.timestamp !== undefined && head.timestamp < oldest.timestamp;
+}
+
+/**
+ * Hashes the oldest entry of a log may link to: the genesis hash, or the last
+ * hash of entries that were archived (recorded in AUDIT_LOG_ARCHIVED entries)
+ */
+function getValidStartHashes(entries: AuditLogEntry[]): Set<string> {
+  const hashes = new Set([GENESIS_HASH]);
+  entries.forEach(entry => {
+    const lastArchivedHash = entry.details?.lastArchivedHash;
+    if (entry.action === 'AUDIT_LOG_ARCHIVED' && typeof lastArchivedHash === 'string') {
+      hashes.add(lastArchivedHash);
+    }
+  });
+  return hashes;
+}
+
+/**
+ * Check the hash chain of the audit log.
+ * The oldest entry must start the chain, unless it follows entries that were
+ * moved to an archive, or it is the anchor entry left by clearing the log
+ * (AUDIT_LOG_CLEARED): its previous hash must then be a known head.
+ * Known heads that are no longer part of the log mean that newest entries were removed.
+ * @param entries Audit log, newest entry first
+ */
+export function verifyAuditChain(entries: AuditLogEntry[], options: AuditChainOptions = {}): AuditChainStatus {
+  const { startHash, knownHeads = [] } = options;
+  const oldestFirst = [...entries].reverse();
+  const validStartHashes = startHash !== undefined ? new Set([startHash]) : getValidStartHashes(entries);
+  const knownHashes = new Set(knownHeads.map(head => head.hash));
+
+  for (let i = 0; i < oldestFirst.length; i++) {
+    const entry = oldestFirst[i];
+    let problem: AuditChainProblem | undefined;
+
+    if (!entry.hash || !entry.previousHash) {
+      problem = 'missing-hash';
+    } else if (computeAuditEntryHash(entry) !== entry.hash) {
+      problem = 'content-modified';
+    } else if (i > 0 && entry.previousHash !== oldestFirst[i - 1].hash) {
+      problem = 'link-broken';
+    } else if (i === 0 && !validStartHashes.has(entry.previousHash)) {
+      const isAnchor = startHash === undefined && entry.action === 'AUDIT_LOG_CLEARED';
+      if (!isAnchor) {
+        problem = 'link-broken';
+      } else if (!knownHashes.has(entry.previousHash)) {
+        problem = 'unknown-anchor';
+      }
+    }
+
+    if (problem) {
+      return {
+        valid: false,
+        checkedCount: i + 1,
+        firstBroken: { entryId: entry.id, timestamp: entry.timestamp, position: i + 1, problem },
+      };
+    }
+  }
+
+  const head = getAuditChainHead(entries);
+  const missingHead = knownHeads.find(known => !isHeadCovered(entries, known));
+  return { valid: !missingHead, checkedCount: oldestFirst.length, head, missingHead };
+}
+
+/**
+ * Describe a broken chain for display
+ */
+export function describeChainProblem(problem: AuditChainProblem): string {
+  const descriptions: Record<AuditChainProblem, string> = {
+    'missing-hash': 'Eintrag ist nicht versiegelt',
+    'content-modified': 'Eintrag wurde nachträglich verändert',
+    'link-broken': 'Vorherige Einträge fehlen oder wurden umsortiert',
+    'unknown-anchor': 'Die Historie wurde geleert, der Stand davor ist nicht als festgehalten bekannt',
+  };
+  return descriptions[problem];
+}
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { AuditActionType, AuditLogEntry, FieldChange, Member } from '../models/types';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { saveAuditLog } from './storageService';
+import { NO_ACTOR_FILTER, queryAuditLog, reconstructMemberAt } from './auditService';
+
+const MEMBER: Member = {
+  id: 'm1',
+  firstName: 'Anna',
+  lastName: 'Schmidt',
+  birthDate: '1985-03-09',
+  street: 'Hauptstraße 1',
+  postalCode: '50667',
+  city: 'Köln',
+  iban: 'DE89370400440532013000',
+  bic: 'COBADEFFXXX',
+  entryDate: '2020-01-01',
+  isActive: true,
+  isMainFamilyMember: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-04-01T00:00:00.000Z',
+};
+
+/**
+ * Build an audit log entry
+ */
+function entry(
+  action: AuditActionType,
+  timestamp: string,
+  memberId?: string,
+  details?: Record<string, unknown>
+): AuditLogEntry {
+  return { id: `${action}-${timestamp}`, timestamp, action, memberId, description: action, details };
+}
+
+/**
+ * Build the change of a field
+ */
+function change(field: string, oldValue: string | boolean | null, newValue: string | boolean | null): FieldChange {
+  return { field, label: field, oldValue, newValue };
+}
+
+describe('reconstructMemberAt', () => {
+  it('reverts the changes recorded after the point in time, newest first', () => {
+    const history = [
+      entry('MEMBER_UPDATED', '2024-02-01T00:00:00.000Z', 'm1', { changes: [change('city', 'Bonn', 'Essen')] }),
+      entry('MEMBER_UPDATED', '2024-03-01T00:00:00.000Z', 'm1', { changes: [change('city', 'Essen', 'Köln')] }),
+      entry('MEMBER_DEACTIVATED', '2024-03-15T00:00:00.000Z', 'm1', { changes: [change('isActive', true, false)] }),
+      entry('MEMBER_ACTIVATED', '2024-04-01T00:00:00.000Z', 'm1', { changes: [change('isActive', false, true)] }),
+    ];
+
+    const reconstructed = reconstructMemberAt(MEMBER, history, new Date('2024-02-15T00:00:00.000Z'));
+
+    expect(reconstructed?.values.city).toBe('Essen');
+    expect(reconstructed?.values.isActive).toBe(true);
+    expect(reconstructed?.incompleteEntries).toEqual([]);
+    expect(reconstructMemberAt(MEMBER, history, new Date('2024-01-15T00:00:00.000Z'))?.values.city).toBe('Bonn');
+  });
+
+  it('returns undefined before the member was created', () => {
+    expect(reconstructMemberAt(MEMBER, [], new Date('2023-12-31T00:00:00.000Z'))).toBeUndefined();
+  });
+
+  it('uses the changes of the member in undo/redo entries of several members', () => {
+    const history = [
+      entry('ACTION_UNDONE', '2024-03-01T00:00:00.000Z', undefined, {
+        memberIds: ['m2', 'm1'],
+        memberChanges: [
+          { memberId: 'm2', changes: [change('city', 'Köln', 'Bonn')] },
+          { memberId: 'm1', changes: [change('city', 'Essen', 'Köln')] },
+        ],
+      }),
+    ];
+
+    const reconstructed = reconstructMemberAt(MEMBER, history, new Date('2024-02-01T00:00:00.000Z'));
+
+    expect(reconstructed?.values.city).toBe('Essen');
+    expect(reconstructed?.incompleteEntries).toEqual([]);
+  });
+
+  it('keeps masked values apart from the restorable ones', () => {
+    const history = [
+      entry('MEMBER_UPDATED', '2024-03-01T00:00:00.000Z', 'm1', {
+        changes: [{ ...change('iban', 'DE12…0000', 'DE89…3000'), masked: true }],
+      }),
+    ];
+
+    const reconstructed = reconstructMemberAt(MEMBER, history, new Date('2024-02-01T00:00:00.000Z'));
+
+    expect(reconstructed?.values.iban).toBe('DE12…0000');
+    expect(reconstructed?.maskedFields).toEqual(['iban']);
+  });
+
+  it('reports later changes of the member that recorded no field values', () => {
+    const history = [
+      entry('MEMBER_UPDATED', '2024-03-01T00:00:00.000Z', 'm1', { changedFields: ['Ort'] }),
+      entry('ACTION_UNDONE', '2024-03-02T00:00:00.000Z', undefined, { memberIds: ['m1'] }),
+      entry('FAMILY_MEMBER_ADDED', '2024-03-03T00:00:00.000Z', 'm1'),
+    ];
+
+    const reconstructed = reconstructMemberAt(MEMBER, history, new Date('2024-02-01T00:00:00.000Z'));
+
+    expect(reconstructed?.incompleteEntries.map(e => e.action)).toEqual(['ACTION_UNDONE', 'MEMBER_UPDATED']);
+  });
+
+  it('reports later operations that may have changed all members', () => {
+    const history: AuditLogEntry[] = [
+      entry('DATA_IMPORTED', '2024-03-01T00:00:00.000Z', undefined, { importedCount: 0, updatedCount: 3 }),
+      entry('BACKUP_RESTORED', '2024-03-02T00:00:00.000Z'),
+      entry('SNAPSHOT_RESTORED', '2024-03-03T00:00:00.000Z'),
+      entry('AUDIT_LOG_CLEARED', '2024-03-04T00:00:00.000Z'),
+      entry('DATA_EXPORTED', '2024-03-05T00:00:00.000Z'),
+    ];
+
+    const before = reconstructMemberAt(MEMBER, history, new Date('2024-02-01T00:00:00.000Z'));
+    const after = reconstructMemberAt(MEMBER, history, new Date('2024-03-06T00:00:00.000Z'));
+
+    expect(before?.incompleteEntries).toHaveLength(4);
+    expect(after?.incompleteEntries).toEqual([]);
+  });
+
+  it('reports an archive of the log only if it holds changes after the point in time', () => {
+    const archived = entry('AUDIT_LOG_ARCHIVED', '2024-06-01T00:00:00.000Z', undefined, {
+      fromTimestamp: '2023-01-01T00:00:00.000Z',
+      toTimestamp: '2024-03-01T00:00:00.000Z',
+    });
+
+    const before = reconstructMemberAt(MEMBER, [archived], new Date('2024-02-01T00:00:00.000Z'));
+    const after = reconstructMemberAt(MEMBER, [archived], new Date('2024-03-15T00:00:00.000Z'));
+
+    expect(before?.incompleteEntries).toEqual([archived]);
+    expect(after?.incompleteEntries).toEqual([]);
+  });
+});
+
+describe('queryAuditLog', () => {
+  beforeEach(() => {
+    setRepositories(createRepositories(createMemoryDriver()));
+    saveAuditLog([
+      { ...entry('MEMBER_UPDATED', '2024-03-10T12:00:00.000Z', 'm2'), actor: { id: 'a1', name: 'Petra Kassenwartin' } },
+      entry('FAMILY_CREATED', '2024-02-10T12:00:00.000Z'),
+      entry('MEMBER_UPDATED', '2024-02-01T12:00:00.000Z', 'm1', { changes: [change('city', 'Köln', 'Bonn')] }),
+      { ...entry('MEMBER_CREATED', '2024-01-05T12:00:00.000Z', 'm1'), actor: { id: 'a1', name: 'Petra Kassenwartin' } },
+    ]);
+  });
+
+  it('combines the filters', () => {
+    const ids = (query: Parameters<typeof queryAuditLog>[0]) => queryAuditLog(query).entries.map(e => e.timestamp);
+
+    expect(ids({ action: 'MEMBER_UPDATED', memberId: 'm1' })).toEqual(['2024-02-01T12:00:00.000Z']);
+    expect(ids({ actorId: 'a1', from: '2024-02-01' })).toEqual(['2024-03-10T12:00:00.000Z']);
+    expect(ids({ actorId: NO_ACTOR_FILTER, to: '2024-02-01' })).toEqual(['2024-02-01T12:00:00.000Z']);
+    expect(ids({ search: 'KASSENWART' })).toHaveLength(2);
+    expect(ids({ search: 'city' })).toEqual(['2024-02-01T12:00:00.000Z']);
+  });
+
+  it('paginates the matches and clamps the page number', () => {
+    expect(queryAuditLog({ pageSize: 3, page: 2 })).toMatchObject({ total: 4, page: 2, totalPages: 2 });
+    expect(queryAuditLog({ pageSize: 3, page: 2 }).entries.map(e => e.action)).toEqual(['MEMBER_CREATED']);
+    expect(queryAuditLog({ pageSize: 3, page: 9 }).page).toBe(2);
+    expect(queryAuditLog({ action: 'DATA_IMPORTED' })).toMatchObject({ entries: [], total: 0, page: 1, totalPages: 1 });
+  });
+});
@@ -5,11 +5,121 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { AuditLogEntry, AuditActionType, Member, Family } from '../models/types';
-import { addAuditLogEntry, getAuditLog, getMemberAuditLog } from './storageService';
+import type {
+  AuditLogEntry,
+  AuditActionType,
+  AuditChainHead,
+  AuditLogPage,
+  AuditLogQuery,
+  Member,
+  Family,
+  FieldChange,
+  FieldValue,
+  MemberFieldChanges,
+  IntegrityIssue,
+} from '../models/types';
+import {
+  addAuditLogEntry,
+  getAuditLog,
+  getLatestAuditLogEntry,
+  getMemberAuditLog,
+  saveAuditLog,
+  runInTransaction,
+  getKnownAuditChainHeads,
+  saveKnownAuditChainHeads,
+} from './storageService';
+import {
+  GENESIS_HASH,
+  getAuditChainHead,
+  isHeadCovered,
+  sealAuditEntry,
+  verifyAuditChain,
+  type AuditChainStatus,
+} from './auditIntegrityService';
+import { concernsMember, affectsAllMembers } from '../repositories';
+import { getCurrentActor } from './actorService';
 
 /**
- * Create and save an audit log entry
+ * Member fields whose values are only stored masked: all fields that can be
+ * encrypted (ENCRYPTABLE_FIELDS), so entries written before encryption was
+ * enabled hold no plaintext
+ */
+const MASKED_FIELDS = new Set(['iban', 'bic', 'birthDate']);
+
+/** Masked fields that keep no characters (a partly masked date would still reveal it) */
+const FULLY_MASKED_FIELDS = new Set(['birthDate']);
+
+const BOOLEAN_FIELDS = new Set(['isActive', 'isMainFamilyMember']);
+
+/** AuditLogQuery.actorId value for entries without actor */
+export const NO_ACTOR_FILTER = '__none__';
+
+/** Number of recorded chain heads kept (besides the one the log is anchored to) */
+const MAX_KNOWN_CHAIN_HEADS = 50;
+
+/** Page size of queryAuditLog if none is given */
+export const DEFAULT_AUDIT_PAGE_SIZE = 20;
+
+/**
+ * Normalize a member property for the audit log ('' and undefined count as empty)
+ */
+export function toFieldValue(field: string, value: unknown): FieldValue {
+  if (BOOLEAN_FIELDS.has(field)) return Boolean(value);
+  if (value === undefined || value === null || value === '') return null;
+  return String(value);
+}
+
+/**
+ * Format a recorded field value for display
+ * @param display Display text of a reference value (e.g. family name)
+ */
+export function formatFieldValue(field: string, value: FieldValue, display?: string): string {
+  if (display) return display;
+  if (value === null || value === '') return '–';
+  if (typeof value === 'boolean') {
+    if (field === 'isActive') return value ? 'Aktiv' : 'Inaktiv';
+    return value ? 'Ja' : 'Nein';
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(value).toLocaleDateString('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    });
+  }
+  return value;
+}
+
+/**
+ * Mask a sensitive value, keeping only the first and last four characters
+ * @param field Member property of the value (birth dates are masked completely)
+ */
+export function maskValue(value: FieldValue, field?: string): FieldValue {
+  if (typeof value !== 'string') return value;
+  const compact = value.replace(/\s/g, '');
+  if (compact.length <= 8 || (field && FULLY_MASKED_FIELDS.has(field))) return '*'.repeat(compact.length);
+  return `${compact.slice(0, 4)}${'*'.repeat(compact.length - 8)}${compact.slice(-4)}`;
+}
+
+/**
+ * Mask the values of sensitive fields before they are stored.
+ * The audit log is not encrypted, so this includes the fields that can be stored encrypted.
+ */
+function maskChanges(changes: FieldChange[]): FieldChange[] {
+  return changes.map(change => MASKED_FIELDS.has(change.field)
+    ? {
+      ...change,
+      oldValue: maskValue(change.oldValue, change.field),
+      newValue: maskValue(change.newValue, change.field),
+      masked: true,
+    }
+    : change
+  );
+}
+
+/**
+ * Create and save an audit log entry, chained to the newest entry.
+ * The entry is attributed to the actor of the current session.
  */
 function logAction(
   action: AuditActionType,
@@ -18,7 +128,8 @@ function logAction(
   familyId?: string,
   details?: Record<string, unknown>
 ): AuditLogEntry {
-  const entry: AuditLogEntry = {
+  const actor = getCurrentActor();
+  const entry = sealAuditEntry({
     id: uuidv4(),
     timestamp: new Date().toISOString(),
     action,
@@ -26,7 +137,8 @@ function logAction(
     memberId,
     familyId,
     details,
-  };
+    actor: actor ? { id: actor.id, name: actor.name } : undefined,
+  }, getLatestAuditLogEntry()?.hash ?? GENESIS_HASH);
   
   addAuditLogEntry(entry);
   return entry;
@@ -51,43 +163,80 @@ export function logMemberCreated(member: Member): AuditLogEntry {
 
 /**
  * Log member update
+ * @param changes Old and new value of every changed field
  */
 export function logMemberUpdated(
   member: Member,
-  changedFields: string[]
+  changes: FieldChange[]
 ): AuditLogEntry {
   return logAction(
     'MEMBER_UPDATED',
     `Mitglied "${member.firstName} ${member.lastName}" wurde aktualisiert`,
     member.id,
     member.familyId,
-    { changedFields, memberName: `${member.firstName} ${member.lastName}` }
+    {
+      changedFields: changes.map(change => change.label),
+      changes: maskChanges(changes),
+      memberName: `${member.firstName} ${member.lastName}`,
+    }
   );
 }
 
 /**
  * Log member activation
  */
-export function logMemberActivated(member: Member): AuditLogEntry {
+export function logMemberActivated(member: Member, changes: FieldChange[] = []): AuditLogEntry {
   return logAction(
     'MEMBER_ACTIVATED',
     `Mitglied "${member.firstName} ${member.lastName}" wurde aktiviert`,
     member.id,
     member.familyId,
-    { memberName: `${member.firstName} ${member.lastName}` }
+    { memberName: `${member.firstName} ${member.lastName}`, changes: maskChanges(changes) }
   );
 }
 
 /**
  * Log member deactivation
  */
-export function logMemberDeactivated(member: Member): AuditLogEntry {
+export function logMemberDeactivated(member: Member, changes: FieldChange[] = []): AuditLogEntry {
   return logAction(
     'MEMBER_DEACTIVATED',
     `Mitglied "${member.firstName} ${member.lastName}" wurde deaktiviert`,
     member.id,
     member.familyId,
-    { memberName: `${member.firstName} ${member.lastName}` }
+    { memberName: `${member.firstName} ${member.lastName}`, changes: maskChanges(changes) }
+  );
+}
+
+/**
+ * Log that a former version of a member was restored
+ * @param changes Old and new value of every restored field
+ * @param restoredFrom The audit log entry whose before-values were restored,
+ *   or the point in time whose state was restored
+ * @param skippedFields Labels of fields that could not be restored (only recorded masked)
+ */
+export function logMemberRestored(
+  member: Member,
+  changes: FieldChange[],
+  restoredFrom: { entryId?: string; timestamp: string },
+  skippedFields: string[] = []
+): AuditLogEntry {
+  const when = new Date(restoredFrom.timestamp).toLocaleString('de-DE');
+  return logAction(
+    'MEMBER_RESTORED',
+    restoredFrom.entryId
+      ? `Mitglied "${member.firstName} ${member.lastName}" wurde auf den Stand vor der Änderung vom ${when} zurückgesetzt`
+      : `Mitglied "${member.firstName} ${member.lastName}" wurde auf den Stand vom ${when} zurückgesetzt`,
+    member.id,
+    member.familyId,
+    {
+      changedFields: changes.map(change => change.label),
+      changes: maskChanges(changes),
+      memberName: `${member.firstName} ${member.lastName}`,
+      restoredEntryId: restoredFrom.entryId,
+      restoredTimestamp: restoredFrom.timestamp,
+      skippedFields,
+    }
   );
 }
 
@@ -140,7 +289,11 @@ export function logFamilyMemberAdded(member: Member, family: Family): AuditLogEn
 /**
  * Log member removed from family
  */
-export function logFamilyMemberRemoved(member: Member, family: Family): AuditLogEntry {
+export function logFamilyMemberRemoved(
+  member: Member,
+  family: Family,
+  changes: FieldChange[] = []
+): AuditLogEntry {
   return logAction(
     'FAMILY_MEMBER_REMOVED',
     `Mitglied "${member.firstName} ${member.lastName}" wurde aus Familie "${family.name}" entfernt`,
@@ -148,7 +301,8 @@ export function logFamilyMemberRemoved(member: Member, family: Family): AuditLog
     family.id,
     { 
       memberName: `${member.firstName} ${member.lastName}`,
-      familyName: family.name 
+      familyName: family.name,
+      changes: maskChanges(changes),
     }
   );
 }
@@ -158,7 +312,8 @@ export function logFamilyMemberRemoved(member: Member, family: Family): AuditLog
  */
 export function logFamilyMainMemberChanged(
   family: Family,
-  newMainMember: Member
+  newMainMember: Member,
+  changes: FieldChange[] = []
 ): AuditLogEntry {
   return logAction(
     'FAMILY_MAIN_MEMBER_CHANGED',
@@ -167,48 +322,376 @@ export function logFamilyMainMemberChanged(
     family.id,
     { 
       memberName: `${newMainMember.firstName} ${newMainMember.lastName}`,
-      familyName: family.name 
+      familyName: family.name,
+      changes: maskChanges(changes),
+    }
+  );
+}
+
+/**
+ * Log that a member is no longer main member because another one took over
+ */
+export function logFamilyMainMemberReplaced(
+  family: Family,
+  formerMainMember: Member,
+  newMainMember: Member,
+  changes: FieldChange[] = []
+): AuditLogEntry {
+  return logAction(
+    'FAMILY_MAIN_MEMBER_CHANGED',
+    `"${formerMainMember.firstName} ${formerMainMember.lastName}" ist nicht mehr Hauptmitglied der Familie "${family.name}"`,
+    formerMainMember.id,
+    family.id,
+    { 
+      memberName: `${formerMainMember.firstName} ${formerMainMember.lastName}`,
+      familyName: family.name,
+      newMainMemberId: newMainMember.id,
+      changes: maskChanges(changes),
     }
   );
 }
 
+// ============================================
+// Data Integrity Audit Functions
+// ============================================
+
+/**
+ * Log the repair of a data inconsistency.
+ * One entry is written per repaired member; a repaired family without
+ * changed members gets an entry of its own.
+ * @param member The changed member (undefined if only the family changed)
+ * @param changes Old and new value of every changed member field
+ * @param mainMemberChange Old and new main member of the family (if changed)
+ */
+export function logIntegrityRepaired(
+  issue: IntegrityIssue,
+  member: Member | undefined,
+  family: Family | undefined,
+  changes: FieldChange[] = [],
+  mainMemberChange?: { previousMainMemberId?: string; mainMemberId?: string }
+): AuditLogEntry {
+  const subject = member
+    ? `Mitglied "${member.firstName} ${member.lastName}"`
+    : `Familie "${family?.name ?? ''}"`;
+  return logAction(
+    'INTEGRITY_REPAIRED',
+    `Datenfehler bei ${subject} behoben: ${issue.repairLabel}`,
+    member?.id,
+    family?.id ?? member?.familyId,
+    {
+      issueType: issue.type,
+      issueDescription: issue.description,
+      memberName: member ? `${member.firstName} ${member.lastName}` : undefined,
+      familyName: family?.name,
+      changedFields: changes.map(change => change.label),
+      changes: maskChanges(changes),
+      ...mainMemberChange,
+    }
+  );
+}
+
+// ============================================
+// Undo/Redo Audit Functions
+// ============================================
+
+/**
+ * Details of an undo/redo entry.
+ * Entries of a single member also keep its changes in details.changes.
+ */
+function undoRedoDetails(
+  commandLabel: string,
+  memberIds: string[],
+  familyIds: string[],
+  memberChanges: MemberFieldChanges[]
+): Record<string, unknown> {
+  const masked = memberChanges.map(({ memberId, changes }) => ({ memberId, changes: maskChanges(changes) }));
+  const singleMemberChanges = memberIds.length === 1
+    ? masked.find(item => item.memberId === memberIds[0])?.changes ?? []
+    : [];
+  return { commandLabel, memberIds, familyIds, changes: singleMemberChanges, memberChanges: masked };
+}
+
+/**
+ * Log that an operation was undone
+ * @param memberChanges Field changes of each changed member
+ */
+export function logActionUndone(
+  commandLabel: string,
+  memberIds: string[],
+  familyIds: string[],
+  memberChanges: MemberFieldChanges[] = []
+): AuditLogEntry {
+  return logAction(
+    'ACTION_UNDONE',
+    `Rückgängig gemacht: ${commandLabel}`,
+    memberIds.length === 1 ? memberIds[0] : undefined,
+    familyIds.length === 1 ? familyIds[0] : undefined,
+    undoRedoDetails(commandLabel, memberIds, familyIds, memberChanges)
+  );
+}
+
+/**
+ * Log that an undone operation was applied again
+ * @param memberChanges Field changes of each changed member
+ */
+export function logActionRedone(
+  commandLabel: string,
+  memberIds: string[],
+  familyIds: string[],
+  memberChanges: MemberFieldChanges[] = []
+): AuditLogEntry {
+  return logAction(
+    'ACTION_REDONE',
+    `Wiederholt: ${commandLabel}`,
+    memberIds.length === 1 ? memberIds[0] : undefined,
+    familyIds.length === 1 ? familyIds[0] : undefined,
+    undoRedoDetails(commandLabel, memberIds, familyIds, memberChanges)
+  );
+}
+
 // ============================================
 // Import/Export Audit Functions
 // ============================================
 
 /**
- * Log data import
+ * Log data import.
+ * The imported members are logged one by one (MEMBER_CREATED / MEMBER_UPDATED),
+ * so this entry does not count as a gap in their history (see affectsAllMembers).
  */
 export function logDataImported(
   importedCount: number,
-  updatedCount: number
+  updatedCount: number,
+  familiesImportedCount: number = 0,
+  familiesUpdatedCount: number = 0
 ): AuditLogEntry {
+  const familyPart = familiesImportedCount > 0 || familiesUpdatedCount > 0
+    ? `, ${familiesImportedCount} neue Familien, ${familiesUpdatedCount} Familien aktualisiert`
+    : '';
   return logAction(
     'DATA_IMPORTED',
-    `Daten importiert: ${importedCount} neue Mitglieder, ${updatedCount} aktualisiert`,
+    `Daten importiert: ${importedCount} neue Mitglieder, ${updatedCount} aktualisiert${familyPart}`,
     undefined,
     undefined,
-    { importedCount, updatedCount }
+    { importedCount, updatedCount, familiesImportedCount, familiesUpdatedCount, loggedPerMember: true }
   );
 }
 
 /**
  * Log data export
+ * @param familyCount Number of exported families (0 if only members were exported)
  */
-export function logDataExported(memberCount: number): AuditLogEntry {
+export function logDataExported(memberCount: number, familyCount: number = 0): AuditLogEntry {
+  const parts = [
+    memberCount > 0 || familyCount === 0 ? `${memberCount} Mitglieder` : '',
+    familyCount > 0 ? `${familyCount} Familien` : '',
+  ].filter(Boolean);
   return logAction(
     'DATA_EXPORTED',
-    `${memberCount} Mitglieder wurden exportiert`,
+    `${parts.join(' und ')} wurden exportiert`,
+    undefined,
+    undefined,
+    { memberCount, familyCount }
+  );
+}
+
+/**
+ * Log creation of a full backup
+ */
+export function logBackupCreated(
+  memberCount: number,
+  familyCount: number,
+  auditLogCount: number
+): AuditLogEntry {
+  return logAction(
+    'BACKUP_CREATED',
+    `Backup erstellt: ${memberCount} Mitglieder, ${familyCount} Familien`,
+    undefined,
+    undefined,
+    { memberCount, familyCount, auditLogCount }
+  );
+}
+
+/**
+ * Log restore of a full backup
+ */
+export function logBackupRestored(
+  backupCreatedAt: string,
+  memberCount: number,
+  familyCount: number,
+  auditLogCount: number
+): AuditLogEntry {
+  return logAction(
+    'BACKUP_RESTORED',
+    `Backup vom ${new Date(backupCreatedAt).toLocaleString('de-DE')} wiederhergestellt: ` +
+      `${memberCount} Mitglieder, ${familyCount} Familien`,
+    undefined,
+    undefined,
+    { backupCreatedAt, memberCount, familyCount, auditLogCount }
+  );
+}
+
+/**
+ * Log restore of an automatic snapshot
+ */
+export function logSnapshotRestored(
+  snapshotCreatedAt: string,
+  memberCount: number,
+  familyCount: number,
+  auditLogCount: number
+): AuditLogEntry {
+  return logAction(
+    'SNAPSHOT_RESTORED',
+    `Snapshot vom ${new Date(snapshotCreatedAt).toLocaleString('de-DE')} wiederhergestellt: ` +
+      `${memberCount} Mitglieder, ${familyCount} Familien`,
     undefined,
     undefined,
-    { memberCount }
+    { snapshotCreatedAt, memberCount, familyCount, auditLogCount }
   );
 }
 
+// ============================================
+// System Audit Functions
+// ============================================
+
+/**
+ * Log a schema migration of the persisted data
+ */
+export function logSchemaMigrated(
+  fromVersion: number,
+  toVersion: number,
+  migrations: string[]
+): AuditLogEntry {
+  return logAction(
+    'SCHEMA_MIGRATED',
+    `Datenschema von Version ${fromVersion} auf ${toVersion} migriert`,
+    undefined,
+    undefined,
+    { fromVersion, toVersion, migrations }
+  );
+}
+
+/**
+ * Log that the audit log was cleared.
+ * The entry continues the hash chain of the cleared log, so it serves as anchor.
+ */
+export function logAuditLogCleared(clearedCount: number, lastHash?: string): AuditLogEntry {
+  return logAction(
+    'AUDIT_LOG_CLEARED',
+    `Historie geleert: ${clearedCount} Einträge entfernt`,
+    undefined,
+    undefined,
+    { clearedCount, lastHash }
+  );
+}
+
+/**
+ * Log an export of the audit log
+ * @param filters Filters of the exported selection (empty values omitted)
+ */
+export function logAuditLogExported(
+  format: string,
+  entryCount: number,
+  filters: Record<string, string>
+): AuditLogEntry {
+  return logAction(
+    'AUDIT_LOG_EXPORTED',
+    `Historie exportiert: ${entryCount} Einträge (${format.toUpperCase()})`,
+    undefined,
+    undefined,
+    { format, entryCount, filters }
+  );
+}
+
+/**
+ * Log that old entries were moved to an archive.
+ * The entry records the hash of the newest archived entry, so the remaining
+ * log can still be verified (see verifyAuditChain).
+ */
+export function logAuditLogArchived(
+  archiveId: string,
+  entryCount: number,
+  fromTimestamp: string,
+  toTimestamp: string,
+  lastArchivedHash: string
+): AuditLogEntry {
+  return logAction(
+    'AUDIT_LOG_ARCHIVED',
+    `Historie archiviert: ${entryCount} Einträge bis ${new Date(toTimestamp).toLocaleDateString('de-DE')}`,
+    undefined,
+    undefined,
+    { archiveId, entryCount, fromTimestamp, toTimestamp, lastArchivedHash }
+  );
+}
+
+/**
+ * Clear all audit log entries (use with caution).
+ * An AUDIT_LOG_CLEARED entry remains, so the log is never silently empty.
+ */
+export function clearAuditLog(): AuditLogEntry {
+  return runInTransaction(() => {
+    // The anchor is only accepted if the head it continues is known
+    recordAuditChainHead();
+    const clearedCount = getAuditLog().length;
+    const anchor = logAuditLogCleared(clearedCount, getLatestAuditLogEntry()?.hash);
+    saveAuditLog([anchor]);
+    return anchor;
+  });
+}
+
 // ============================================
 // Query Functions
 // ============================================
 
+/**
+ * Verify the hash chain of the complete audit log against the recorded heads
+ * @param recordedHead A head recorded outside the app (e.g. by the auditors);
+ *   remembered as known head if the log matches it
+ */
+export function verifyAuditLog(recordedHead?: AuditChainHead): AuditChainStatus {
+  const log = getAuditLog();
+  const knownHeads = getKnownAuditChainHeads();
+  const status = verifyAuditChain(log, {
+    knownHeads: recordedHead ? [...knownHeads, recordedHead] : knownHeads,
+  });
+  if (status.valid && recordedHead) {
+    // Heads entered by hand lack the timestamp needed once their entry is archived
+    const timestamp = log.find(entry => entry.hash === recordedHead.hash)?.timestamp
+      ?? log[log.length - 1]?.timestamp;
+    rememberAuditChainHead({ ...recordedHead, timestamp });
+  }
+  return status;
+}
+
+/**
+ * Add a head to the recorded heads.
+ * The head the oldest entry links to is always kept, it confirms a cleared log.
+ */
+function rememberAuditChainHead(head: AuditChainHead): void {
+  const log = getAuditLog();
+  const anchorHash = log[log.length - 1]?.previousHash;
+  const heads = [head, ...getKnownAuditChainHeads().filter(known => known.hash !== head.hash)];
+  saveKnownAuditChainHeads(heads.filter((known, index) => index < MAX_KNOWN_CHAIN_HEADS || known.hash === anchorHash));
+}
+
+/**
+ * Record the current head of the audit log, e.g. when it is written to a backup or export
+ * @returns The head (undefined if the log is empty)
+ */
+export function recordAuditChainHead(): AuditChainHead | undefined {
+  const head = getAuditChainHead(getAuditLog());
+  if (head) rememberAuditChainHead(head);
+  return head;
+}
+
+/**
+ * Keep only the recorded heads the current log still covers (after the log was
+ * replaced by an older state, e.g. a snapshot)
+ */
+export function pruneAuditChainHeads(): void {
+  const log = getAuditLog();
+  saveKnownAuditChainHeads(getKnownAuditChainHeads().filter(head => isHeadCovered(log, head)));
+}
+
 /**
  * Get all audit log entries
  */
@@ -231,22 +714,237 @@ export function getRecentAuditLogs(limit: number = 50): AuditLogEntry[] {
   return logs.slice(0, limit);
 }
 
+/**
+ * Check whether an audit log entry contains the (lowercase) search text
+ */
+function matchesSearch(entry: AuditLogEntry, search: string): boolean {
+  const texts = [
+    entry.description,
+    entry.actor?.name,
+    entry.memberId,
+    entry.familyId,
+    ...getFieldChanges(entry).map(change => change.label),
+  ];
+  return texts.some(text => text?.toLowerCase().includes(search));
+}
+
+/**
+ * Find all audit log entries matching the filters of a query (newest first, no pagination)
+ */
+export function findAuditLogEntries(query: AuditLogQuery = {}): AuditLogEntry[] {
+  const search = query.search?.trim().toLowerCase();
+  // Date filters are whole days in local time
+  const from = query.from ? new Date(`${query.from}T00:00:00`) : undefined;
+  const to = query.to ? new Date(`${query.to}T23:59:59.999`) : undefined;
+
+  return getAuditLog().filter(entry => {
+    if (query.action && entry.action !== query.action) return false;
+    if (query.memberId && !concernsMember(entry, query.memberId)) return false;
+    if (query.familyId && entry.familyId !== query.familyId) return false;
+    if (query.actorId === NO_ACTOR_FILTER) {
+      if (entry.actor) return false;
+    } else if (query.actorId && entry.actor?.id !== query.actorId) {
+      return false;
+    }
+    const timestamp = new Date(entry.timestamp);
+    if (from && timestamp < from) return false;
+    if (to && timestamp > to) return false;
+    if (search && !matchesSearch(entry, search)) return false;
+    return true;
+  });
+}
+
+/**
+ * Query the complete audit log with filters and pagination
+ */
+export function queryAuditLog(query: AuditLogQuery = {}): AuditLogPage {
+  const matches = findAuditLogEntries(query);
+
+  const pageSize = Math.max(1, Math.floor(query.pageSize ?? DEFAULT_AUDIT_PAGE_SIZE));
+  const totalPages = Math.max(1, Math.ceil(matches.length / pageSize));
+  const page = Math.min(Math.max(1, Math.floor(query.page ?? 1)), totalPages);
+
+  return {
+    entries: matches.slice((page - 1) * pageSize, page * pageSize),
+    total: matches.length,
+    page,
+    pageSize,
+    totalPages,
+  };
+}
+
+/**
+ * Check whether the values before an audit log entry can be restored:
+ * it must be a member update with at least one field recorded unmasked
+ */
+export function isRestorableMemberEntry(entry: AuditLogEntry): boolean {
+  return entry.action === 'MEMBER_UPDATED'
+    && getFieldChanges(entry).some(change => !change.masked);
+}
+
+/**
+ * Get the field changes recorded in an audit log entry
+ * @returns Empty list for entries without field changes (e.g. older entries)
+ */
+export function getFieldChanges(entry: AuditLogEntry): FieldChange[] {
+  const changes = entry.details?.changes;
+  return Array.isArray(changes) ? changes as FieldChange[] : [];
+}
+
+/**
+ * Get the field changes of one member recorded in an audit log entry.
+ * Undo/redo entries of several members record them per member in details.memberChanges.
+ * @returns undefined if the entry concerns the member but recorded no field changes for it
+ */
+export function getMemberFieldChanges(entry: AuditLogEntry, memberId: string): FieldChange[] | undefined {
+  const memberChanges = entry.details?.memberChanges;
+  if (Array.isArray(memberChanges)) {
+    return (memberChanges as MemberFieldChanges[]).find(item => item.memberId === memberId)?.changes;
+  }
+  if (entry.memberId === memberId && Array.isArray(entry.details?.changes)) {
+    return getFieldChanges(entry);
+  }
+  return undefined;
+}
+
+// ============================================
+// Time Travel
+// ============================================
+
+/**
+ * State of a member at a point in time, reconstructed from the audit log
+ */
+export interface ReconstructedMember {
+  /** Field values at that time, keyed by Member property */
+  values: Record<string, FieldValue>;
+
+  /** Display texts of reference values that differ from today (e.g. former family name) */
+  displays: Record<string, string | undefined>;
+
+  /** Fields whose value at that time is only known masked (e.g. IBAN) */
+  maskedFields: string[];
+
+  /**
+   * Entries after that time that changed (or may have changed) the member without
+   * recording its field changes, e.g. an import, a restored backup or an archive
+   * of the log that holds later changes
+   */
+  incompleteEntries: AuditLogEntry[];
+}
+
+/** Actions that change member fields */
+const MEMBER_CHANGING_ACTIONS = new Set<AuditActionType>([
+  'MEMBER_UPDATED',
+  'MEMBER_ACTIVATED',
+  'MEMBER_DEACTIVATED',
+  'MEMBER_RESTORED',
+  'INTEGRITY_REPAIRED',
+  'FAMILY_MEMBER_REMOVED',
+  'FAMILY_MAIN_MEMBER_CHANGED',
+  'ACTION_UNDONE',
+  'ACTION_REDONE',
+]);
+
+/**
+ * Reconstruct the state of a member at a point in time.
+ * Starting from the current member, all field changes recorded after that
+ * time are reverted, newest first.
+ * @param history Audit log entries of the member (any order), see getMemberAuditLog
+ * @returns undefined if the member did not exist at that time
+ */
+export function reconstructMemberAt(
+  member: Member,
+  history: AuditLogEntry[],
+  pointInTime: Date
+): ReconstructedMember | undefined {
+  if (new Date(member.createdAt) > pointInTime) return undefined;
+
+  const values: Record<string, FieldValue> = {};
+  Object.entries(member).forEach(([field, value]) => {
+    values[field] = toFieldValue(field, value);
+  });
+  const displays: Record<string, string | undefined> = {};
+  const maskedFields = new Set<string>();
+  const incompleteEntries: AuditLogEntry[] = [];
+
+  history
+    .filter(entry => new Date(entry.timestamp) > pointInTime)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .forEach(entry => {
+      // Archived entries are no longer in the log: a gap if they reach past the point in time
+      if (entry.action === 'AUDIT_LOG_ARCHIVED') {
+        const archivedUntil = entry.details?.toTimestamp;
+        if (typeof archivedUntil !== 'string' || new Date(archivedUntil) > pointInTime) {
+          incompleteEntries.push(entry);
+        }
+        return;
+      }
+
+      // Entries written before field changes were recorded cannot be replayed
+      const changes = getMemberFieldChanges(entry, member.id);
+      if (!changes) {
+        if (MEMBER_CHANGING_ACTIONS.has(entry.action) || affectsAllMembers(entry)) {
+          incompleteEntries.push(entry);
+        }
+        return;
+      }
+      changes.forEach(change => {
+        values[change.field] = change.oldValue;
+        displays[change.field] = change.oldDisplay;
+        if (change.masked) {
+          maskedFields.add(change.field);
+        } else {
+          maskedFields.delete(change.field);
+        }
+      });
+    });
+
+  return { values, displays, maskedFields: [...maskedFields], incompleteEntries };
+}
+
+/** Display labels of the action types */
+const ACTION_LABELS: Record<AuditActionType, string> = {
+  'MEMBER_CREATED': 'Mitglied erstellt',
+  'MEMBER_UPDATED': 'Mitglied aktualisiert',
+  'MEMBER_ACTIVATED': 'Mitglied aktiviert',
+  'MEMBER_DEACTIVATED': 'Mitglied deaktiviert',
+  'MEMBER_RESTORED': 'Mitglied wiederhergestellt',
+  'FAMILY_CREATED': 'Familie erstellt',
+  'FAMILY_UPDATED': 'Familie aktualisiert',
+  'FAMILY_MEMBER_ADDED': 'Familienmitglied hinzugefügt',
+  'FAMILY_MEMBER_REMOVED': 'Familienmitglied entfernt',
+  'FAMILY_MAIN_MEMBER_CHANGED': 'Hauptmitglied geändert',
+  'DATA_IMPORTED': 'Daten importiert',
+  'DATA_EXPORTED': 'Daten exportiert',
+  'SCHEMA_MIGRATED': 'Datenmigration',
+  'BACKUP_CREATED': 'Backup erstellt',
+  'BACKUP_RESTORED': 'Backup wiederhergestellt',
+  'SNAPSHOT_RESTORED': 'Snapshot wiederhergestellt',
+  'ACTION_UNDONE': 'Rückgängig gemacht',
+  'ACTION_REDONE': 'Wiederholt',
+  'AUDIT_LOG_CLEARED': 'Historie geleert',
+  'AUDIT_LOG_EXPORTED': 'Historie exportiert',
+  'AUDIT_LOG_ARCHIVED': 'Historie archiviert',
+  'INTEGRITY_REPAIRED': 'Datenfehler behoben',
+};
+
 /**
  * Format action type for display
  */
 export function formatActionType(action: AuditActionType): string {
-  const actionLabels: Record<AuditActionType, string> = {
-    'MEMBER_CREATED': 'Mitglied erstellt',
-    'MEMBER_UPDATED': 'Mitglied aktualisiert',
-    'MEMBER_ACTIVATED': 'Mitglied aktiviert',
-    'MEMBER_DEACTIVATED': 'Mitglied deaktiviert',
-    'FAMILY_CREATED': 'Familie erstellt',
-    'FAMILY_UPDATED': 'Familie aktualisiert',
-    'FAMILY_MEMBER_ADDED': 'Familienmitglied hinzugefügt',
-    'FAMILY_MEMBER_REMOVED': 'Familienmitglied entfernt',
-    'FAMILY_MAIN_MEMBER_CHANGED': 'Hauptmitglied geändert',
-    'DATA_IMPORTED': 'Daten importiert',
-    'DATA_EXPORTED': 'Daten exportiert',
-  };
-  return actionLabels[action] || action;
+  return ACTION_LABELS[action] || action;
+}
+
+/**
+ * Get all action types, e.g. for filter options
+ */
+export function getAuditActionTypes(): AuditActionType[] {
+  return Object.keys(ACTION_LABELS) as AuditActionType[];
+}
+
+/**
+ * Check whether a string is a known action type (e.g. a URL parameter)
+ */
+export function isAuditActionType(value: string): value is AuditActionType {
+  return Object.hasOwn(ACTION_LABELS, value);
 }
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAllMembers, getAuditLog } from './storageService';
+import { verifyAuditLog } from './auditService';
+import { createFamily, createMember, editMember } from './memberService';
+import {
+  BackupValidationError,
+  createBackup,
+  parseBackup,
+  restoreBackup,
+  validateBackup,
+  type BackupFile,
+} from './backupService';
+import { MEMBER_FORM } from '../test/fixtures';
+
+/**
+ * Write a backup to JSON and read it again, as with a downloaded file
+ */
+function roundTrip(backup: BackupFile): BackupFile {
+  return parseBackup(JSON.stringify(backup));
+}
+
+beforeEach(() => {
+  setRepositories(createRepositories(createMemoryDriver()));
+});
+
+describe('restoreBackup', () => {
+  it('restores the data of a backup file', async () => {
+    const member = createMember(MEMBER_FORM);
+    const backup = roundTrip(createBackup());
+    editMember(member.id, { ...MEMBER_FORM, city: 'Essen' });
+
+    await restoreBackup(backup);
+
+    expect(getAllMembers().map(m => m.city)).toEqual(['Bonn']);
+    expect(getAuditLog()[0].action).toBe('BACKUP_RESTORED');
+    expect(verifyAuditLog().valid).toBe(true);
+  });
+
+  it('refuses a backup with broken references and keeps the current data', async () => {
+    const family = createFamily('Familie Schmidt');
+    createMember({ ...MEMBER_FORM, familyId: family.id });
+    const backup = roundTrip(createBackup());
+    backup.data.families = [];
+
+    expect(validateBackup(backup)).toEqual([expect.stringContaining('unbekannte Familie')]);
+    await expect(restoreBackup(backup)).rejects.toThrow(BackupValidationError);
+    expect(getAllMembers()[0].familyId).toBe(family.id);
+  });
+
+  it('reports duplicate ids, missing names and unknown main members', () => {
+    const backup = roundTrip(createBackup());
+    const member = { ...createMember(MEMBER_FORM), firstName: '' };
+    backup.data.members = [member, member];
+    backup.data.families = [{ id: 'f1', name: 'Familie Weber', mainMemberId: 'm9', createdAt: '', updatedAt: '' }];
+
+    expect(validateBackup(backup)).toEqual([
+      `Mitglied ${member.id}: Name fehlt`,
+      `Mitglied 2: doppelte ID ${member.id}`,
+      `Mitglied ${member.id}: Name fehlt`,
+      'Familie "Familie Weber" verweist auf unbekanntes Hauptmitglied m9',
+    ]);
+  });
+});
+
+describe('parseBackup', () => {
+  it('refuses files that are no backup of this app', () => {
+    expect(() => parseBackup('{')).toThrow('kein gültiges JSON');
+    expect(() => parseBackup('{"format":"other"}')).toThrow('kein Backup dieser Anwendung');
+  });
+
+  it('refuses backups of a newer app version', () => {
+    const backup = { ...createBackup(), schemaVersion: 99 };
+
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow('neueren App-Version');
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Backup Service
+ * Full backup and restore of all club data (members, families, audit log, settings)
+ * as a versioned JSON file.
+ */
+
+import type {
+  Member,
+  Family,
+  AuditLogEntry,
+  AuditChainHead,
+  AppSettings,
+  ClubData,
+  EncryptionConfig,
+} from '../models/types';
+import {
+  getAllMembers,
+  getAllFamilies,
+  getAuditLog,
+  collectClubData,
+  replaceClubData,
+  runInTransaction,
+  getKnownAuditChainHeads,
+  saveKnownAuditChainHeads,
+} from './storageService';
+import { logBackupCreated, logBackupRestored, recordAuditChainHead } from './auditService';
+import { snapshotBeforeChange, type SnapshotBeforeChangeOptions } from './snapshotService';
+import { clearUndoHistory } from './undoService';
+import {
+  describeEncryptionConflict,
+  getEncryptionConfig,
+  isEncryptionConfig,
+  requireDecryptedMembers,
+  sealMembers,
+  withRestoredEncryption,
+} from './encryptionService';
+import { downloadFile } from '../utils/download';
+import {
+  CURRENT_SCHEMA_VERSION,
+  migratePersistedData,
+  stampSchemaVersion,
+  type RawRecord,
+} from './migrationService';
+
+/** Identifies a file as backup of this app */
+export const BACKUP_FORMAT = 'kanu-member-backup';
+
+/** Version of the backup file layout (independent of the data schema version) */
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Content of a backup file
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+
+  /** When the backup was created (ISO datetime) */
+  createdAt: string;
+
+  /** Schema version of the contained data (see migrationService) */
+  schemaVersion: number;
+
+  data: ClubData;
+
+  /** Set if the encrypted member fields are contained encrypted */
+  encryption?: EncryptionConfig;
+
+  /** Head of the contained audit log, to be recorded outside the app */
+  auditChainHead?: AuditChainHead;
+
+  /** Heads of the audit log recorded by the app (confirm a cleared log after a restore) */
+  knownAuditChainHeads?: AuditChainHead[];
+}
+
+/**
+ * Options of createBackup
+ */
+export interface BackupOptions {
+  /**
+   * Include encrypted member fields decrypted (requires the data to be unlocked).
+   * Otherwise they stay encrypted and the backup can only be read with the passphrase.
+   */
+  includeDecrypted?: boolean;
+}
+
+/**
+ * Thrown if a backup file cannot be read or would leave inconsistent data
+ */
+export class BackupValidationError extends Error {
+  /** All problems found in the backup */
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Das Backup ist ungültig: ${problems[0]}${problems.length > 1 ? ` (und ${problems.length - 1} weitere Probleme)` : ''}`);
+    this.name = 'BackupValidationError';
+    this.problems = problems;
+  }
+}
+
+// ============================================
+// Backup
+// ============================================
+
+/**
+ * Create a backup of all data.
+ * The BACKUP_CREATED entry is logged first, so it is part of the backup itself.
+ * @throws EncryptionLockedError if decrypted values are requested while locked
+ */
+export function createBackup(options: BackupOptions = {}): BackupFile {
+  return runInTransaction(() => {
+    logBackupCreated(getAllMembers().length, getAllFamilies().length, getAuditLog().length + 1);
+    const auditChainHead = recordAuditChainHead();
+
+    const data = collectClubData();
+    return {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      data: {
+        ...data,
+        members: options.includeDecrypted ? requireDecryptedMembers(data.members) : sealMembers(data.members),
+      },
+      encryption: options.includeDecrypted ? undefined : getEncryptionConfig(),
+      auditChainHead,
+      knownAuditChainHeads: getKnownAuditChainHeads(),
+    };
+  });
+}
+
+/**
+ * Create a backup and download it as JSON file
+ */
+export function downloadBackup(filename?: string, options: BackupOptions = {}): BackupFile {
+  const backup = createBackup(options);
+  const date = backup.createdAt.split('T')[0];
+  downloadFile(
+    JSON.stringify(backup, null, 2),
+    filename ?? `kanu_backup_${date}.json`,
+    'application/json;charset=utf-8;'
+  );
+
+  return backup;
+}
+
+// ============================================
+// Restore
+// ============================================
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAuditChainHead = (value: unknown): value is AuditChainHead =>
+  isObject(value) && typeof value.hash === 'string' && typeof value.entryCount === 'number';
+
+/**
+ * Parse and check the structure of a backup file.
+ * Backups of an older schema version are migrated to the current one.
+ * @throws BackupValidationError if the file is not a readable backup
+ */
+export function parseBackup(content: string): BackupFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new BackupValidationError(['Die Datei enthält kein gültiges JSON.']);
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError(['Die Datei ist kein Backup dieser Anwendung.']);
+  }
+  if (typeof raw.formatVersion !== 'number' || raw.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupValidationError([
+      `Backup-Format ${String(raw.formatVersion)} wird nicht unterstützt (maximal ${BACKUP_FORMAT_VERSION}).`,
+    ]);
+  }
+  if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupValidationError([
+      `Das Backup stammt von einer neueren App-Version (Schema-Version ${String(raw.schemaVersion)}).`,
+    ]);
+  }
+
+  const data = raw.data;
+  if (
+    !isObject(data) ||
+    !Array.isArray(data.members) ||
+    !Array.isArray(data.families) ||
+    !Array.isArray(data.auditLog)
+  ) {
+    throw new BackupValidationError(['Mitglieder, Familien oder Historie fehlen im Backup.']);
+  }
+
+  const { data: migrated } = migratePersistedData({
+    members: data.members as RawRecord[],
+    families: data.families as RawRecord[],
+    auditLog: data.auditLog as RawRecord[],
+  }, raw.schemaVersion);
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: raw.formatVersion,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date(0).toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: {
+      members: migrated.members as unknown as Member[],
+      families: migrated.families as unknown as Family[],
+      auditLog: migrated.auditLog as unknown as AuditLogEntry[],
+      settings: isObject(data.settings) ? data.settings as Partial<AppSettings> : {},
+    },
+    encryption: isEncryptionConfig(raw.encryption) ? raw.encryption : undefined,
+    auditChainHead: isAuditChainHead(raw.auditChainHead) ? raw.auditChainHead : undefined,
+    knownAuditChainHeads: Array.isArray(raw.knownAuditChainHeads)
+      ? raw.knownAuditChainHeads.filter(isAuditChainHead)
+      : undefined,
+  };
+}
+
+/**
+ * Check the backup data for missing fields, duplicate IDs and broken references,
+ * and whether its encryption matches the active one
+ * @returns List of problems (empty if the backup can be restored)
+ */
+export function validateBackup(backup: BackupFile): string[] {
+  const problems = validateClubData(backup.data);
+  const encryptionConflict = describeEncryptionConflict(backup.encryption, backup.data.members);
+  if (encryptionConflict) problems.push(encryptionConflict);
+  return problems;
+}
+
+/**
+ * Check club data for missing fields, duplicate IDs and broken references
+ * @returns List of problems (empty if the data is consistent)
+ */
+export function validateClubData(data: ClubData): string[] {
+  const problems: string[] = [];
+  const { members, families, auditLog } = data;
+
+  const memberIds = new Set<string>();
+  members.forEach((member, index) => {
+    if (!member || typeof member.id !== 'string' || !member.id) {
+      problems.push(`Mitglied ${index + 1}: ID fehlt`);
+      return;
+    }
+    if (memberIds.has(member.id)) {
+      problems.push(`Mitglied ${index + 1}: doppelte ID ${member.id}`);
+    }
+    memberIds.add(member.id);
+    if (!member.firstName || !member.lastName) {
+      problems.push(`Mitglied ${member.id}: Name fehlt`);
+    }
+  });
+
+  const familyIds = new Set<string>();
+  families.forEach((family, index) => {
+    if (!family || typeof family.id !== 'string' || !family.id) {
+      problems.push(`Familie ${index + 1}: ID fehlt`);
+      return;
+    }
+    if (familyIds.has(family.id)) {
+      problems.push(`Familie ${index + 1}: doppelte ID ${family.id}`);
+    }
+    familyIds.add(family.id);
+  });
+
+  // Referential integrity
+  members.forEach(member => {
+    if (member?.familyId && !familyIds.has(member.familyId)) {
+      problems.push(
+        `Mitglied "${member.firstName} ${member.lastName}" verweist auf unbekannte Familie ${member.familyId}`
+      );
+    }
+  });
+  families.forEach(family => {
+    if (!family?.mainMemberId) return;
+    const mainMember = members.find(m => m?.id === family.mainMemberId);
+    if (!mainMember) {
+      problems.push(`Familie "${family.name}" verweist auf unbekanntes Hauptmitglied ${family.mainMemberId}`);
+    } else if (mainMember.familyId !== family.id) {
+      problems.push(
+        `Hauptmitglied "${mainMember.firstName} ${mainMember.lastName}" gehört nicht zur Familie "${family.name}"`
+      );
+    }
+  });
+
+  auditLog.forEach((entry, index) => {
+    if (!entry || typeof entry.id !== 'string' || typeof entry.action !== 'string') {
+      problems.push(`Historien-Eintrag ${index + 1} ist unvollständig`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Replace all data with the content of a backup.
+ * An encrypted backup brings its encryption along if none is enabled yet.
+ * @throws BackupValidationError if the backup would leave inconsistent data
+ * @throws SnapshotFailedError if the current data could not be saved
+ */
+export async function restoreBackup(backup: BackupFile, options: SnapshotBeforeChangeOptions = {}): Promise<void> {
+  const problems = validateBackup(backup);
+  if (problems.length > 0) {
+    throw new BackupValidationError(problems);
+  }
+
+  const { members, families, auditLog } = backup.data;
+  await snapshotBeforeChange('restore', options);
+  await withRestoredEncryption(backup.encryption, members, () => runInTransaction(() => {
+    replaceClubData(backup.data);
+    logBackupRestored(backup.createdAt, members.length, families.length, auditLog.length);
+  }));
+  // The heads recorded for the replaced log do not apply to the restored one
+  saveKnownAuditChainHeads(backup.knownAuditChainHeads ?? (backup.auditChainHead ? [backup.auditChainHead] : []));
+  stampSchemaVersion();
+  clearUndoHistory();
+}
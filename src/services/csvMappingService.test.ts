@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { CSVColumnMapping } from '../models/types';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { inspectCSV } from './csvService';
+import {
+  applyMappingProfile,
+  deleteMappingProfile,
+  findMatchingProfile,
+  getMappingProfiles,
+  saveMappingProfile,
+  suggestColumnMapping,
+  validateColumnMapping,
+} from './csvMappingService';
+
+const OLD_EXCEL_LIST = inspectCSV(
+  'Vorname;Nachname;Geb.-Datum;Straße u. Nr.;PLZ;Wohnort;Eintritt;Bemerkung\n' +
+  'Anna;Schmidt;09.03.1985;Hauptstraße 1;50667;Köln;01.01.2020;Kassenwartin\n'
+);
+
+const MAPPING: CSVColumnMapping = {
+  columns: { Vorname: 'firstName', Nachname: 'lastName', 'Geb.-Datum': 'birthDate', Eintritt: 'entryDate' },
+  dateFormat: 'DD.MM.YYYY',
+};
+
+beforeEach(() => {
+  setRepositories(createRepositories(createMemoryDriver()));
+});
+
+describe('suggestColumnMapping', () => {
+  it('assigns German headers and detects the date format', () => {
+    expect(suggestColumnMapping(OLD_EXCEL_LIST)).toEqual({
+      columns: {
+        Vorname: 'firstName',
+        Nachname: 'lastName',
+        'Geb.-Datum': 'birthDate',
+        'Straße u. Nr.': 'street',
+        PLZ: 'postalCode',
+        Wohnort: 'city',
+        Eintritt: 'entryDate',
+      },
+      dateFormat: 'DD.MM.YYYY',
+    });
+  });
+});
+
+describe('validateColumnMapping', () => {
+  it('reports missing required fields and fields assigned twice', () => {
+    const problems = validateColumnMapping({
+      columns: { Vorname: 'firstName', Rufname: 'firstName' },
+      dateFormat: 'YYYY-MM-DD',
+    });
+
+    expect(problems).toContain('"Vorname" ist mehreren Spalten zugeordnet');
+    expect(problems.some(problem => problem.includes('Nachname'))).toBe(true);
+  });
+});
+
+describe('mapping profiles', () => {
+  it('replaces a profile saved under the same name', () => {
+    const first = saveMappingProfile('Alte Excel-Liste', MAPPING);
+    const second = saveMappingProfile(' alte excel-liste ', { ...MAPPING, dateFormat: 'YYYY-MM-DD' });
+
+    expect(second.id).toBe(first.id);
+    expect(getMappingProfiles()).toEqual([second]);
+    expect(() => saveMappingProfile(' ', MAPPING)).toThrow('Namen');
+  });
+
+  it('finds the largest valid profile whose columns the file has', () => {
+    const small = saveMappingProfile('Klein', {
+      ...MAPPING,
+      columns: { Vorname: 'firstName', Nachname: 'lastName', Eintritt: 'entryDate', 'Geb.-Datum': 'birthDate' },
+    });
+    const large = saveMappingProfile('Groß', { ...MAPPING, columns: { ...MAPPING.columns, PLZ: 'postalCode' } });
+    saveMappingProfile('Fremd', { ...MAPPING, columns: { ...MAPPING.columns, Telefon: 'city' } });
+    saveMappingProfile('Unvollständig', { ...MAPPING, columns: { Vorname: 'firstName' } });
+
+    expect(findMatchingProfile(OLD_EXCEL_LIST)?.id).toBe(large.id);
+    deleteMappingProfile(large.id);
+    expect(findMatchingProfile(OLD_EXCEL_LIST)?.id).toBe(small.id);
+  });
+
+  it('drops the columns the file does not have when applied', () => {
+    const profile = saveMappingProfile('Mit Telefon', { ...MAPPING, columns: { ...MAPPING.columns, Telefon: 'city' } });
+
+    expect(applyMappingProfile(profile, OLD_EXCEL_LIST)).toEqual(MAPPING);
+  });
+});
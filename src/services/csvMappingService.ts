@@ -0,0 +1,226 @@
+/**
+ * CSV Mapping Service
+ * Assigns the columns of foreign CSV layouts (e.g. the old Excel member list
+ * with German headers) to member fields: suggestions from known synonyms and
+ * fuzzy matching, date format detection and saved mapping profiles.
+ * The profiles are stored in the settings.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  CSVColumnMapping,
+  CSVDateFormat,
+  CSVMappingProfile,
+  MemberCSVField,
+} from '../models/types';
+import {
+  CSV_FIELD_LABELS,
+  CSV_HEADERS,
+  REQUIRED_CSV_HEADERS,
+  type CSVFileInfo,
+} from './csvService';
+import { getSettings, updateSettings } from './settingsService';
+
+/** Display labels of the supported date formats */
+export const CSV_DATE_FORMAT_LABELS: Record<CSVDateFormat, string> = {
+  'YYYY-MM-DD': 'JJJJ-MM-TT (2024-01-15)',
+  'DD.MM.YYYY': 'TT.MM.JJJJ (15.01.2024)',
+};
+
+/** Minimum similarity of a header to a synonym for a suggestion */
+const MIN_SIMILARITY = 0.75;
+
+/** Similarity of a header that starts with a synonym (e.g. "Straße u. Nr.") */
+const PREFIX_SIMILARITY = 0.8;
+
+/** Known headers per field, normalized (see normalizeHeader) */
+const FIELD_SYNONYMS: Record<MemberCSVField, string[]> = {
+  id: ['id', 'uuid', 'mitgliedid'],
+  firstName: ['firstname', 'vorname', 'rufname', 'givenname'],
+  lastName: ['lastname', 'nachname', 'familienname', 'zuname', 'name', 'surname'],
+  birthDate: ['birthdate', 'geburtsdatum', 'gebdatum', 'geburtstag', 'geboren', 'gebam', 'dateofbirth', 'birthday'],
+  street: ['street', 'strasse', 'adresse', 'anschrift', 'address'],
+  postalCode: ['postalcode', 'plz', 'postleitzahl', 'zipcode', 'zip'],
+  city: ['city', 'ort', 'wohnort', 'stadt'],
+  iban: ['iban', 'kontonummer'],
+  bic: ['bic', 'swift', 'swiftbic'],
+  entryDate: ['entrydate', 'eintrittsdatum', 'eintritt', 'eintrittam', 'mitgliedseit'],
+  exitDate: ['exitdate', 'austrittsdatum', 'austritt', 'austrittam'],
+  isActive: ['isactive', 'active', 'aktiv', 'status'],
+  familyId: ['familyid', 'familienid'],
+  familyName: ['familyname', 'familie', 'family', 'familienbezeichnung'],
+  isMainFamilyMember: ['ismainfamilymember', 'hauptmitglied', 'mainmember'],
+};
+
+const DATE_FIELDS = new Set<MemberCSVField>(['birthDate', 'entryDate', 'exitDate']);
+
+// ============================================
+// Suggestions
+// ============================================
+
+/**
+ * Lowercase a header and drop umlauts, spaces and punctuation ("Geb.-Datum" -> "gebdatum")
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Number of single-character edits that turn one string into the other (Levenshtein)
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a header matches a field (0 to 1)
+ */
+function matchScore(header: string, field: MemberCSVField): number {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 0;
+
+  return Math.max(...FIELD_SYNONYMS[field].map(synonym => {
+    if (normalized === synonym) return 1;
+    if (normalized.startsWith(synonym) && synonym.length >= 3) return PREFIX_SIMILARITY;
+    return 1 - editDistance(normalized, synonym) / Math.max(normalized.length, synonym.length);
+  }));
+}
+
+/**
+ * Guess the date format from sample values (German dates contain dots)
+ */
+export function detectDateFormat(values: string[]): CSVDateFormat {
+  return values.some(value => /^\d{1,2}\.\d{1,2}\.\d{4}$/.test(value.trim()))
+    ? 'DD.MM.YYYY'
+    : 'YYYY-MM-DD';
+}
+
+/**
+ * Sample values of the columns assigned to date fields
+ */
+function collectDateSamples(file: CSVFileInfo, columns: Record<string, MemberCSVField>): string[] {
+  return file.headers.flatMap((header, index) =>
+    DATE_FIELDS.has(columns[header])
+      ? file.sampleRows.map(row => row[index] ?? '')
+      : []
+  );
+}
+
+/**
+ * Suggest a mapping for the columns of a file.
+ * The best matching pairs of column and field are assigned first, every
+ * column and every field at most once.
+ */
+export function suggestColumnMapping(file: CSVFileInfo): CSVColumnMapping {
+  const candidates = file.headers
+    .flatMap(header => CSV_HEADERS.map(field => ({ header, field, score: matchScore(header, field) })))
+    .filter(candidate => candidate.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+
+  const columns: Record<string, MemberCSVField> = {};
+  const assignedFields = new Set<MemberCSVField>();
+  candidates.forEach(({ header, field }) => {
+    if (columns[header] || assignedFields.has(field)) return;
+    columns[header] = field;
+    assignedFields.add(field);
+  });
+
+  return { columns, dateFormat: detectDateFormat(collectDateSamples(file, columns)) };
+}
+
+/**
+ * Check a mapping before it is used
+ * @returns Problems (empty if the mapping can be used)
+ */
+export function validateColumnMapping(mapping: CSVColumnMapping): string[] {
+  const problems: string[] = [];
+  const fields = Object.values(mapping.columns);
+
+  REQUIRED_CSV_HEADERS
+    .filter(field => !fields.includes(field))
+    .forEach(field => problems.push(`Pflichtfeld "${CSV_FIELD_LABELS[field]}" ist keiner Spalte zugeordnet`));
+
+  CSV_HEADERS
+    .filter(field => fields.filter(assigned => assigned === field).length > 1)
+    .forEach(field => problems.push(`"${CSV_FIELD_LABELS[field]}" ist mehreren Spalten zugeordnet`));
+
+  return problems;
+}
+
+// ============================================
+// Mapping Profiles
+// ============================================
+
+/**
+ * Get all saved mapping profiles, sorted by name
+ */
+export function getMappingProfiles(): CSVMappingProfile[] {
+  return [...getSettings().csvMappingProfiles].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Save a mapping as profile. A profile with the same name is replaced.
+ * @throws Error if the name is empty
+ */
+export function saveMappingProfile(name: string, mapping: CSVColumnMapping): CSVMappingProfile {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Bitte einen Namen für das Profil eingeben');
+  }
+
+  const profiles = getSettings().csvMappingProfiles;
+  const existing = profiles.find(profile => profile.name.toLowerCase() === trimmed.toLowerCase());
+  const profile: CSVMappingProfile = { id: existing?.id ?? uuidv4(), name: trimmed, mapping };
+  updateSettings({
+    csvMappingProfiles: [...profiles.filter(other => other.id !== profile.id), profile],
+  });
+  return profile;
+}
+
+/**
+ * Delete a mapping profile
+ */
+export function deleteMappingProfile(id: string): void {
+  updateSettings({
+    csvMappingProfiles: getSettings().csvMappingProfiles.filter(profile => profile.id !== id),
+  });
+}
+
+/**
+ * Take over a profile for a file; columns the file does not have are dropped
+ */
+export function applyMappingProfile(profile: CSVMappingProfile, file: CSVFileInfo): CSVColumnMapping {
+  const columns = Object.fromEntries(
+    Object.entries(profile.mapping.columns).filter(([header]) => file.headers.includes(header))
+  );
+  return { columns, dateFormat: profile.mapping.dateFormat };
+}
+
+/**
+ * Find the saved profile that fits the columns of a file best: all of its
+ * columns must exist in the file, the profile with the most columns wins
+ */
+export function findMatchingProfile(file: CSVFileInfo): CSVMappingProfile | undefined {
+  return getMappingProfiles()
+    .filter(profile => Object.keys(profile.mapping.columns).every(header => file.headers.includes(header)))
+    .filter(profile => validateColumnMapping(profile.mapping).length === 0)
+    .sort((a, b) => Object.keys(b.mapping.columns).length - Object.keys(a.mapping.columns).length)[0];
+}
@@ -0,0 +1,331 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import type { Family, Member, MemberFormData } from '../models/types';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAllFamilies, getMemberAuditLog, saveAllFamilies, saveAllMembers } from './storageService';
+import {
+  CSV_HEADERS,
+  applyCSVImport,
+  escapeCSVField,
+  exportMembersToCSV,
+  exportToZip,
+  previewCSVImport,
+  previewMembersCSV,
+  readCSVImportFiles,
+} from './csvService';
+import { reconstructMemberAt } from './auditService';
+import { createFamily, createMember, getMember, restoreMemberVersion } from './memberService';
+import { decodeCSVBytes, parseCSV, parseCSVRecords } from '../utils/csvParser';
+
+const RUNS = 200;
+
+/** Characters the exporter has to quote or keep, mixed with ordinary text */
+const SPECIAL_TOKENS = [';', '"', '""', ',', '\t', ' ', '  ', '\r', '\n', '\r\n'];
+
+/**
+ * Text representable in Windows-1252. The euro sign is left out: Node 20
+ * decodes Windows-1252 like Latin-1, where 0x80 is a control character.
+ */
+const LATIN_TOKENS = ['a', 'Z', '7', 'ä', 'Ö', 'ü', 'ß', 'é', 'ç', '-', '.', "'"];
+
+/** Text only representable in Unicode */
+const UNICODE_TOKENS = ['€', 'ł', 'Ş', '日本', '🛶'];
+
+/**
+ * Deterministic random numbers (mulberry32), so a failing case can be reproduced
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a text of up to maxTokens tokens
+ */
+function randomText(random: () => number, tokens: string[], maxTokens: number): string {
+  const count = Math.floor(random() * (maxTokens + 1));
+  return Array.from({ length: count }, () => tokens[Math.floor(random() * tokens.length)]).join('');
+}
+
+/**
+ * Generate a date between 1940 and 2024 (YYYY-MM-DD)
+ */
+function randomDate(random: () => number): string {
+  const date = new Date(Date.UTC(1940, 0, 1) + Math.floor(random() * 85 * 365) * 86400000);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Generate a member; names are never empty because the import requires them
+ */
+function randomMember(random: () => number, tokens: string[], families: Family[]): Member {
+  const text = (maxTokens: number) => randomText(random, tokens, maxTokens);
+  const family = random() < 0.3 ? families[Math.floor(random() * families.length)] : undefined;
+  const timestamp = new Date(2024, 0, 1).toISOString();
+  return {
+    id: uuidv4(),
+    firstName: `A${text(6)}`,
+    lastName: `${text(6)}z`,
+    birthDate: randomDate(random),
+    street: text(10),
+    postalCode: text(3),
+    city: text(8),
+    iban: text(4),
+    bic: text(4),
+    entryDate: randomDate(random),
+    exitDate: random() < 0.2 ? randomDate(random) : undefined,
+    isActive: random() < 0.8,
+    familyId: family?.id,
+    isMainFamilyMember: family !== undefined && random() < 0.5,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Store generated members (and some families) and return them
+ */
+function storeRandomMembers(random: () => number, tokens: string[], count: number): Member[] {
+  const timestamp = new Date(2024, 0, 1).toISOString();
+  const families: Family[] = Array.from({ length: 3 }, () => ({
+    id: uuidv4(),
+    name: `F${randomText(random, tokens, 4)}`,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }));
+  const members = Array.from({ length: count }, () => randomMember(random, tokens, families));
+  saveAllFamilies(families);
+  saveAllMembers(members);
+  return members;
+}
+
+/**
+ * Encode text as Windows-1252 (only the characters it shares with Latin-1)
+ */
+function encodeWindows1252(text: string): Uint8Array {
+  return Uint8Array.from([...text], char => {
+    const code = char.charCodeAt(0);
+    if (code > 0xff || (code >= 0x80 && code < 0xa0)) {
+      throw new Error(`"${char}" is not a Windows-1252 character`);
+    }
+    return code;
+  });
+}
+
+/**
+ * Encode text as UTF-8 with byte order mark, as Excel saves "CSV UTF-8"
+ */
+function encodeUtf8WithBOM(text: string): Uint8Array {
+  const bytes = new TextEncoder().encode(text);
+  const result = new Uint8Array(bytes.length + 3);
+  result.set([0xef, 0xbb, 0xbf]);
+  result.set(bytes, 3);
+  return result;
+}
+
+/**
+ * Expect every row of a preview to match the stored member exactly
+ */
+function expectAllUnchanged(preview: ReturnType<typeof previewMembersCSV>, members: Member[]): void {
+  expect(preview.errors).toEqual([]);
+  expect(preview.rows.map(row => row.member.id)).toEqual(members.map(member => member.id));
+  preview.rows.forEach(row => {
+    expect(row.changes).toEqual([]);
+    expect(row.status).toBe('unchanged');
+  });
+}
+
+beforeEach(() => {
+  setRepositories(createRepositories(createMemoryDriver()));
+});
+
+describe('escapeCSVField and parseCSVRecords', () => {
+  it('read back every generated field exactly', () => {
+    const random = createRandom(1);
+    const tokens = [...SPECIAL_TOKENS, ...LATIN_TOKENS, ...UNICODE_TOKENS];
+
+    for (let run = 0; run < RUNS; run++) {
+      const rows = Array.from({ length: 1 + Math.floor(random() * 4) }, () =>
+        Array.from({ length: 2 + Math.floor(random() * 4) }, () => randomText(random, tokens, 8))
+      );
+      const lineBreak = random() < 0.5 ? '\n' : '\r\n';
+      const text = rows.map(row => row.map(escapeCSVField).join(';')).join(lineBreak);
+
+      const records = [...parseCSVRecords(text, ';')];
+
+      expect(records.map(record => record.fields)).toEqual(rows);
+    }
+  });
+
+  it('count line breaks in quoted fields for the line numbers', () => {
+    const text = ['a;b', `${escapeCSVField('x\r\ny\nz')};1`, 'c;2'].join('\r\n');
+
+    expect([...parseCSVRecords(text, ';')].map(record => record.line)).toEqual([1, 2, 5]);
+  });
+
+  it('skip a byte order mark in front of the first header', () => {
+    const records = [...parseCSVRecords(`\uFEFF${escapeCSVField(' id')};name`, ';')];
+
+    expect(records[0].fields).toEqual([' id', 'name']);
+  });
+});
+
+describe('exportMembersToCSV and previewMembersCSV', () => {
+  it('import the exported members unchanged', () => {
+    const random = createRandom(2);
+    const tokens = [...SPECIAL_TOKENS, ...LATIN_TOKENS, ...UNICODE_TOKENS];
+
+    for (let run = 0; run < RUNS / 10; run++) {
+      setRepositories(createRepositories(createMemoryDriver()));
+      const members = storeRandomMembers(random, tokens, 10);
+
+      const csv = exportMembersToCSV();
+
+      expect(parseCSV(csv).delimiter).toBe(';');
+      expectAllUnchanged(previewMembersCSV(csv), members);
+    }
+  });
+
+  it('import the exported members from a UTF-8 file with byte order mark', async () => {
+    const random = createRandom(3);
+    const members = storeRandomMembers(random, [...SPECIAL_TOKENS, ...LATIN_TOKENS, ...UNICODE_TOKENS], 30);
+    const bytes = encodeUtf8WithBOM(exportMembersToCSV());
+
+    expect(decodeCSVBytes(bytes).encoding).toBe('utf-8');
+    const files = await readCSVImportFiles('mitglieder.csv', bytes.buffer as ArrayBuffer);
+    expectAllUnchanged(previewCSVImport(files), members);
+  });
+
+  it('import the exported members from a Windows-1252 file', async () => {
+    const random = createRandom(4);
+    const members = storeRandomMembers(random, [...SPECIAL_TOKENS, ...LATIN_TOKENS], 30);
+    const csv = exportMembersToCSV();
+    const bytes = encodeWindows1252(csv);
+
+    expect(decodeCSVBytes(bytes)).toEqual({ text: csv, encoding: 'windows-1252' });
+    const files = await readCSVImportFiles('mitglieder.csv', bytes.buffer as ArrayBuffer);
+    expectAllUnchanged(previewCSVImport(files), members);
+  });
+});
+
+describe('applyCSVImport', () => {
+  const form: MemberFormData = {
+    firstName: 'Anna',
+    lastName: 'Schmidt',
+    birthDate: '1985-03-09',
+    street: 'Hauptstraße 1',
+    postalCode: '50667',
+    city: 'OldCity',
+    iban: 'DE89370400440532013000',
+    bic: 'COBADEFFXXX',
+    entryDate: '2020-01-01',
+    isMainFamilyMember: false,
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('logs every imported member, so time travel reverts the import', async () => {
+    vi.setSystemTime(new Date('2024-01-01T10:00:00.000Z'));
+    const member = createMember(form);
+    const exported = exportMembersToCSV();
+    // The changed row plus a row without ID, which is imported as a new member
+    const newRow = exported.split('\n')[1].replace(member.id, '').replace('Anna', 'Berta');
+    const csv = `${exported.replace('OldCity', 'NewCity')}\n${newRow}`;
+
+    vi.setSystemTime(new Date('2024-02-01T10:00:00.000Z'));
+    const preview = previewMembersCSV(csv);
+    const result = await applyCSVImport(preview, preview.rows.map(row => row.line));
+
+    expect(result).toMatchObject({ success: true, imported: 1, updated: 1 });
+    const history = getMemberAuditLog(member.id);
+    expect(history.map(entry => entry.action)).toEqual(['MEMBER_UPDATED', 'MEMBER_CREATED']);
+
+    const reconstructed = reconstructMemberAt(getMember(member.id)!, history, new Date('2024-01-15T00:00:00.000Z'));
+    expect(reconstructed?.values.city).toBe('OldCity');
+    expect(reconstructed?.incompleteEntries).toEqual([]);
+
+    vi.setSystemTime(new Date('2024-03-01T10:00:00.000Z'));
+    expect(restoreMemberVersion(member.id, { pointInTime: '2024-01-15T00:00:00.000Z' }).city).toBe('OldCity');
+  });
+});
+
+describe('family import', () => {
+  const form: MemberFormData = {
+    firstName: 'Hans',
+    lastName: 'Weber',
+    birthDate: '1975-05-20',
+    street: 'Rheinufer 3',
+    postalCode: '53111',
+    city: 'Bonn',
+    iban: '',
+    bic: '',
+    entryDate: '2015-04-01',
+    isMainFamilyMember: false,
+  };
+
+  /**
+   * Build a members CSV file in the layout of the own export
+   */
+  function membersCSV(...rows: Partial<Record<(typeof CSV_HEADERS)[number], string>>[]): string {
+    const values = { ...form, isActive: 'true', isMainFamilyMember: 'false' };
+    return [
+      CSV_HEADERS.join(';'),
+      ...rows.map(row => CSV_HEADERS.map(header => ({ ...values, ...row } as Record<string, string>)[header] ?? '').join(';')),
+    ].join('\n');
+  }
+
+  it('reads members and families of a ZIP export back unchanged', async () => {
+    const family = createFamily('Familie Weber');
+    createMember({ ...form, familyId: family.id });
+    const zip = exportToZip();
+
+    const files = await readCSVImportFiles('export.zip', zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer);
+    const preview = previewCSVImport(files);
+
+    expect(preview.errors).toEqual([]);
+    expect(preview.families.map(row => row.status)).toEqual(['unchanged']);
+    expect(preview.rows.map(row => row.status)).toEqual(['unchanged']);
+  });
+
+  it('imports new and changed families and the members assigned to them', async () => {
+    const family = createFamily('Familie Weber');
+    const preview = previewCSVImport({
+      families: `id;name;mainMemberId\n${family.id};Familie Weber-Schulz;\nf-neu;Familie Schulz;`,
+      members: membersCSV({ firstName: 'Greta', lastName: 'Schulz', familyId: 'f-neu' }),
+    });
+
+    expect(preview.families.map(row => row.status)).toEqual(['updated', 'new']);
+    expect(preview.families[0].changes).toMatchObject([{ field: 'name', newValue: 'Familie Weber-Schulz' }]);
+    const result = await applyCSVImport(preview, preview.rows.map(row => row.line));
+
+    expect(result).toMatchObject({ success: true, imported: 1, familiesImported: 1, familiesUpdated: 1 });
+    expect(getAllFamilies().map(f => f.name).sort()).toEqual(['Familie Schulz', 'Familie Weber-Schulz']);
+  });
+
+  it('creates families named in the members file only if requested', async () => {
+    const files = { members: membersCSV({ familyName: 'Familie Weber', isMainFamilyMember: 'true' }) };
+
+    const withoutFamilies = previewCSVImport(files);
+    expect(withoutFamilies.missingFamilyCount).toBe(1);
+    expect(withoutFamilies.rows[0].member.familyId).toBeUndefined();
+
+    const preview = previewCSVImport(files, { createMissingFamilies: true });
+    const [created] = preview.families;
+    expect(created.family).toMatchObject({ name: 'Familie Weber', mainMemberId: preview.rows[0].member.id });
+    await applyCSVImport(preview, preview.rows.map(row => row.line));
+
+    expect(getAllFamilies()).toEqual([expect.objectContaining({ id: created.family.id, name: 'Familie Weber' })]);
+    expect(getMember(preview.rows[0].member.id)?.familyId).toBe(created.family.id);
+  });
+});
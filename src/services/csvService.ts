@@ -4,12 +4,53 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { Member, MemberCSVRow, CSVImportResult } from '../models/types';
-import { getAllMembers, saveAllMembers } from './storageService';
-import { logDataImported, logDataExported } from './auditService';
+import type {
+  Family,
+  FamilyCSVRow,
+  Member,
+  MemberCSVRow,
+  CSVColumnMapping,
+  CSVDateFormat,
+  CSVImportPreview,
+  CSVImportResult,
+  CSVFamilyPreviewRow,
+  CSVImportPreviewRow,
+  FieldChange,
+  MemberCSVField,
+} from '../models/types';
+import {
+  getAllFamilies,
+  getAllMembers,
+  runInTransaction,
+  saveAllFamilies,
+  saveAllMembers,
+} from './storageService';
+import { logDataImported, logDataExported, logMemberCreated, logMemberUpdated } from './auditService';
+import { snapshotBeforeChange, type SnapshotBeforeChangeOptions } from './snapshotService';
+import { clearUndoHistory } from './undoService';
+import { scanDataIntegrity } from './dataIntegrityService';
+import { diffMemberFields } from './memberService';
+import {
+  isEncryptedValue,
+  isEncryptionEnabled,
+  requireDecryptedMembers,
+  revealKnownValues,
+  sealMembers,
+  withEncryptedWrites,
+} from './encryptionService';
+import { downloadCSVFile, downloadFile } from '../utils/download';
+import {
+  decodeCSVBytes,
+  detectCSVDelimiter,
+  parseCSVRecords,
+  type CSVDelimiter,
+  type CSVRecord,
+} from '../utils/csvParser';
+import { createZip, readZip } from '../utils/zip';
+import { createXlsx, readXlsx, type XlsxCellValue, type XlsxColumn } from '../utils/xlsx';
 
 // CSV column headers
-const CSV_HEADERS = [
+export const CSV_HEADERS = [
   'id',
   'firstName',
   'lastName',
@@ -23,153 +64,866 @@ const CSV_HEADERS = [
   'exitDate',
   'isActive',
   'familyId',
+  'familyName',
   'isMainFamilyMember',
 ] as const;
 
+// CSV column headers of the family export
+export const FAMILY_CSV_HEADERS = ['id', 'name', 'mainMemberId'] as const;
+
+/** File names in the ZIP export */
+export const ZIP_MEMBERS_FILE = 'mitglieder.csv';
+export const ZIP_FAMILIES_FILE = 'familien.csv';
+
+/** Sheet names in the Excel export */
+export const XLSX_MEMBERS_SHEET = 'Mitglieder';
+export const XLSX_FAMILIES_SHEET = 'Familien';
+
+/** Columns of the Excel export kept as text, so Excel does not drop leading zeros */
+const XLSX_TEXT_COLUMNS = new Set<string>(['id', 'postalCode', 'iban', 'bic', 'familyId', 'mainMemberId']);
+
+/** Columns of the Excel export written as date cells */
+const XLSX_DATE_COLUMNS = new Set<string>(['birthDate', 'entryDate', 'exitDate']);
+
+/** Columns of the Excel export written as boolean cells */
+const XLSX_BOOLEAN_COLUMNS = new Set<string>(['isActive', 'isMainFamilyMember']);
+
+/** Widths of the wide columns of the Excel export (characters) */
+const XLSX_COLUMN_WIDTHS: Record<string, number> = { id: 38, familyId: 38, mainMemberId: 38, iban: 28 };
+
+/** Display labels of the CSV columns */
+export const CSV_FIELD_LABELS: Record<MemberCSVField, string> = {
+  id: 'ID',
+  firstName: 'Vorname',
+  lastName: 'Nachname',
+  birthDate: 'Geburtsdatum',
+  street: 'Straße',
+  postalCode: 'PLZ',
+  city: 'Ort',
+  iban: 'IBAN',
+  bic: 'BIC',
+  entryDate: 'Eintrittsdatum',
+  exitDate: 'Austrittsdatum',
+  isActive: 'Aktiv',
+  familyId: 'Familien-ID',
+  familyName: 'Familie (Name)',
+  isMainFamilyMember: 'Hauptmitglied',
+};
+
+/** Columns that every import needs */
+export const REQUIRED_CSV_HEADERS: MemberCSVField[] = ['firstName', 'lastName', 'birthDate', 'entryDate'];
+
+/** Columns of the own export that older exports do not have */
+const OPTIONAL_CSV_HEADERS: MemberCSVField[] = ['familyName'];
+
+/** Cell values read as yes (boolean columns, case-insensitive) */
+const TRUE_VALUES = new Set(['true', 'ja', 'j', 'yes', 'y', 'x', '1']);
+
+/** Cell values read as no (boolean columns, case-insensitive) */
+const FALSE_VALUES = new Set(['false', 'nein', 'n', 'no', '0', 'inaktiv']);
+
+/** Shown instead of values that are only known encrypted */
+const ENCRYPTED_DISPLAY = '🔒 verschlüsselt';
+
 /**
- * Export all members to CSV format
+ * Options of the member export
  */
-export function exportMembersToCSV(): string {
-  const members = getAllMembers();
+export interface MemberExportOptions {
+  /**
+   * Export encrypted fields decrypted (requires the data to be unlocked).
+   * Otherwise they are exported encrypted and can only be imported again.
+   */
+  includeDecrypted?: boolean;
+}
+
+/**
+ * Members as they are exported (encrypted fields decrypted on request)
+ * @throws EncryptionLockedError if decrypted values are requested while locked
+ */
+function getExportMembers(options: MemberExportOptions): Member[] {
+  return options.includeDecrypted
+    ? requireDecryptedMembers(getAllMembers())
+    : sealMembers(getAllMembers());
+}
+
+/**
+ * Build the member CSV; the family name is written next to the family ID,
+ * so the families can be created again from the members file alone
+ */
+function buildMembersCSV(members: Member[], families: Family[]): string {
+  const familyNames = new Map(families.map(family => [family.id, family.name]));
   
   // Create header row
   const headerRow = CSV_HEADERS.join(';');
   
   // Create data rows
   const dataRows = members.map(member => {
-    const row: MemberCSVRow = {
-      id: member.id,
-      firstName: escapeCSVField(member.firstName),
-      lastName: escapeCSVField(member.lastName),
-      birthDate: member.birthDate,
-      street: escapeCSVField(member.street),
-      postalCode: member.postalCode,
-      city: escapeCSVField(member.city),
-      iban: member.iban,
-      bic: member.bic,
-      entryDate: member.entryDate,
-      exitDate: member.exitDate || '',
-      isActive: member.isActive ? 'true' : 'false',
-      familyId: member.familyId || '',
-      isMainFamilyMember: member.isMainFamilyMember ? 'true' : 'false',
-    };
-    
-    return CSV_HEADERS.map(header => row[header]).join(';');
+    const row = toMemberCSVRow(member, familyNames);
+    return CSV_HEADERS.map(header => escapeCSVField(row[header])).join(';');
   });
   
+  return [headerRow, ...dataRows].join('\n');
+}
+
+/**
+ * Export values of a member
+ * @param familyNames Family names by family ID
+ */
+function toMemberCSVRow(member: Member, familyNames: Map<string, string>): MemberCSVRow {
+  return {
+    id: member.id,
+    firstName: member.firstName,
+    lastName: member.lastName,
+    birthDate: member.birthDate,
+    street: member.street,
+    postalCode: member.postalCode,
+    city: member.city,
+    iban: member.iban,
+    bic: member.bic,
+    entryDate: member.entryDate,
+    exitDate: member.exitDate || '',
+    isActive: member.isActive ? 'true' : 'false',
+    familyId: member.familyId || '',
+    familyName: (member.familyId && familyNames.get(member.familyId)) || '',
+    isMainFamilyMember: member.isMainFamilyMember ? 'true' : 'false',
+  };
+}
+
+/**
+ * Export values of a family
+ */
+function toFamilyCSVRow(family: Family): FamilyCSVRow {
+  return {
+    id: family.id,
+    name: family.name,
+    mainMemberId: family.mainMemberId || '',
+  };
+}
+
+/**
+ * Build the family CSV
+ */
+function buildFamiliesCSV(families: Family[]): string {
+  const dataRows = families.map(family => {
+    const row = toFamilyCSVRow(family);
+    return FAMILY_CSV_HEADERS.map(header => escapeCSVField(row[header])).join(';');
+  });
+  
+  return [FAMILY_CSV_HEADERS.join(';'), ...dataRows].join('\n');
+}
+
+/**
+ * Export all members to CSV format
+ * @throws EncryptionLockedError if decrypted values are requested while locked
+ */
+export function exportMembersToCSV(options: MemberExportOptions = {}): string {
+  const members = getExportMembers(options);
+  const csv = buildMembersCSV(members, getAllFamilies());
+  
   // Log the export
   logDataExported(members.length);
   
-  return [headerRow, ...dataRows].join('\n');
+  return csv;
 }
 
 /**
  * Download CSV as a file
  */
-export function downloadCSV(filename: string = 'mitglieder_export.csv'): void {
-  const csvContent = exportMembersToCSV();
-  const blob = new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
+export function downloadCSV(
+  filename: string = 'mitglieder_export.csv',
+  options: MemberExportOptions = {}
+): void {
+  downloadCSVFile(exportMembersToCSV(options), filename);
+}
+
+/**
+ * Export all families to CSV format
+ */
+export function exportFamiliesToCSV(): string {
+  const families = getAllFamilies();
+  const csv = buildFamiliesCSV(families);
+  logDataExported(0, families.length);
+  return csv;
+}
+
+/**
+ * Download the families as CSV file
+ */
+export function downloadFamiliesCSV(filename: string = 'familien_export.csv'): void {
+  downloadCSVFile(exportFamiliesToCSV(), filename);
+}
+
+/**
+ * Export members and families as ZIP archive with one CSV file each
+ * @throws EncryptionLockedError if decrypted values are requested while locked
+ */
+export function exportToZip(options: MemberExportOptions = {}): Uint8Array {
+  const members = getExportMembers(options);
+  const families = getAllFamilies();
+  const encoder = new TextEncoder();
+  
+  // With byte order mark as in downloadCSVFile, so Excel detects the encoding
+  const zip = createZip([
+    { name: ZIP_MEMBERS_FILE, data: encoder.encode('\ufeff' + buildMembersCSV(members, families)) },
+    { name: ZIP_FAMILIES_FILE, data: encoder.encode('\ufeff' + buildFamiliesCSV(families)) },
+  ]);
   
-  link.setAttribute('href', url);
-  link.setAttribute('download', filename);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  logDataExported(members.length, families.length);
+  
+  return zip;
 }
 
 /**
- * Parse CSV content and import members
+ * Download members and families as ZIP archive
  */
-export function importMembersFromCSV(csvContent: string): CSVImportResult {
-  const result: CSVImportResult = {
-    success: true,
-    imported: 0,
-    updated: 0,
-    errors: [],
+export function downloadZip(
+  filename: string = 'mitglieder_export.zip',
+  options: MemberExportOptions = {}
+): void {
+  downloadFile(exportToZip(options) as BlobPart, filename, 'application/zip');
+}
+
+/**
+ * Column definitions of the Excel export
+ */
+function toXlsxColumns(headers: readonly string[]): XlsxColumn[] {
+  return headers.map(header => ({
+    header,
+    width: XLSX_COLUMN_WIDTHS[header] ?? Math.max(header.length + 2, 14),
+    format: XLSX_TEXT_COLUMNS.has(header) ? 'text' : XLSX_DATE_COLUMNS.has(header) ? 'date' : undefined,
+  }));
+}
+
+/**
+ * Typed cell values of an export row: dates as date cells (encrypted ones stay
+ * text), yes/no columns as boolean cells, everything else as text
+ */
+function toXlsxCells(row: Record<string, string>, headers: readonly string[]): XlsxCellValue[] {
+  return headers.map(header => {
+    const value = row[header];
+    if (XLSX_DATE_COLUMNS.has(header)) {
+      return value && !isEncryptedValue(value) ? { date: value } : value || null;
+    }
+    if (XLSX_BOOLEAN_COLUMNS.has(header)) {
+      return value === 'true';
+    }
+    return value;
+  });
+}
+
+/**
+ * Export members and families as Excel workbook with one sheet each.
+ * The columns are the same as in the CSV export, so the file can be imported again.
+ * @throws EncryptionLockedError if decrypted values are requested while locked
+ */
+export function exportToXlsx(options: MemberExportOptions = {}): Uint8Array {
+  const members = getExportMembers(options);
+  const families = getAllFamilies();
+  const familyNames = new Map(families.map(family => [family.id, family.name]));
+  
+  const workbook = createXlsx([
+    {
+      name: XLSX_MEMBERS_SHEET,
+      columns: toXlsxColumns(CSV_HEADERS),
+      rows: members.map(member => toXlsxCells({ ...toMemberCSVRow(member, familyNames) }, CSV_HEADERS)),
+    },
+    {
+      name: XLSX_FAMILIES_SHEET,
+      columns: toXlsxColumns(FAMILY_CSV_HEADERS),
+      rows: families.map(family => toXlsxCells({ ...toFamilyCSVRow(family) }, FAMILY_CSV_HEADERS)),
+    },
+  ]);
+  
+  logDataExported(members.length, families.length);
+  
+  return workbook;
+}
+
+/**
+ * Download members and families as Excel workbook
+ */
+export function downloadXlsx(
+  filename: string = 'mitglieder_export.xlsx',
+  options: MemberExportOptions = {}
+): void {
+  downloadFile(
+    exportToXlsx(options) as BlobPart,
+    filename,
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+}
+
+/**
+ * Header and first data rows of a CSV file
+ */
+export interface CSVFileInfo {
+  headers: string[];
+  sampleRows: string[][];
+  delimiter: CSVDelimiter;
+}
+
+/**
+ * Read the header and the first data rows (e.g. to map the columns of a foreign layout).
+ * The delimiter (semicolon, comma or tab) is detected automatically.
+ */
+export function inspectCSV(csvContent: string, sampleSize: number = 3): CSVFileInfo {
+  const delimiter = detectCSVDelimiter(csvContent);
+  const info: CSVFileInfo = { headers: [], sampleRows: [], delimiter };
+
+  for (const record of parseCSVRecords(csvContent, delimiter)) {
+    if (info.headers.length === 0) {
+      info.headers = record.fields;
+    } else if (info.sampleRows.length < sampleSize) {
+      info.sampleRows.push(record.fields);
+    } else {
+      break;
+    }
+  }
+  return info;
+}
+
+/**
+ * Check whether a file has the layout of the own export (all columns, English headers)
+ */
+export function isNativeCSVLayout(headers: string[]): boolean {
+  return CSV_HEADERS
+    .filter(header => !OPTIONAL_CSV_HEADERS.includes(header))
+    .every(header => headers.includes(header));
+}
+
+/**
+ * Check whether a file has the layout of the family export
+ */
+export function isFamilyCSVLayout(headers: string[]): boolean {
+  return FAMILY_CSV_HEADERS.every(header => headers.includes(header)) && !headers.includes('firstName');
+}
+
+/**
+ * Contents of the files of an import
+ */
+export interface CSVImportFiles {
+  members?: string;
+  families?: string;
+}
+
+/**
+ * Convert the records of an Excel sheet into CSV text, so sheets go through the
+ * same preview and validation as CSV files. Empty lines are inserted for empty
+ * rows, so line numbers in errors are the row numbers of the sheet.
+ */
+function recordsToCSV(records: CSVRecord[]): string {
+  let text = '';
+  let line = 1;
+  records.forEach(record => {
+    for (; line < record.line; line++) text += '\n';
+    // Every field is quoted, so commas or tabs in the values do not affect the delimiter
+    // detection and surrounding whitespace is kept as in escapeCSVField
+    const row = record.fields.map(field => `"${field.replace(/"/g, '""')}"`).join(';');
+    text += row + '\n';
+    line += 1 + (row.match(/\r\n?|\n/g)?.length ?? 0);
+  });
+  return text;
+}
+
+/**
+ * Read a CSV file, a ZIP archive (see exportToZip) or an Excel workbook (see
+ * exportToXlsx) for the import. The files or sheets are assigned by their
+ * columns: those with the layout of the family export contain families, all
+ * others members.
+ * @throws Error if the file has no or several tables of one kind
+ */
+export async function readCSVImportFiles(fileName: string, data: ArrayBuffer): Promise<CSVImportFiles> {
+  const extension = fileName.toLowerCase().split('.').pop();
+  let tables: { name: string; content: string }[];
+  if (extension === 'xlsx') {
+    tables = (await readXlsx(data))
+      .filter(sheet => sheet.records.length > 0)
+      .map(sheet => ({ name: sheet.name, content: recordsToCSV(sheet.records) }));
+  } else if (extension === 'zip') {
+    // Excel saves CSV files as UTF-8 or Windows-1252 depending on version and format
+    tables = (await readZip(data))
+      .filter(entry => entry.name.toLowerCase().endsWith('.csv'))
+      .map(entry => ({ name: entry.name, content: decodeCSVBytes(entry.data).text }));
+  } else {
+    tables = [{ name: fileName, content: decodeCSVBytes(data).text }];
+  }
+  
+  if (tables.length === 0) {
+    throw new Error(extension === 'xlsx'
+      ? 'Die Arbeitsmappe enthält keine Tabellenblätter mit Daten'
+      : 'Das ZIP-Archiv enthält keine CSV-Dateien');
+  }
+  
+  const files: CSVImportFiles = {};
+  const names: Partial<Record<keyof CSVImportFiles, string>> = {};
+  tables.forEach(({ name, content }) => {
+    const kind = isFamilyCSVLayout(inspectCSV(content, 0).headers) ? 'families' : 'members';
+    if (names[kind]) {
+      const label = kind === 'families' ? 'Familienlisten' : 'Mitgliederlisten';
+      throw new Error(`Die Datei enthält mehrere ${label}: ${names[kind]}, ${name}`);
+    }
+    names[kind] = name;
+    files[kind] = content;
+  });
+  return files;
+}
+
+/**
+ * Convert a date of the given format into YYYY-MM-DD.
+ * Values that do not match the format are returned unchanged (and fail validation).
+ */
+function normalizeDate(value: string, dateFormat: CSVDateFormat): string {
+  if (dateFormat === 'DD.MM.YYYY') {
+    const match = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(value);
+    if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  return value;
+}
+
+/**
+ * Compare an imported member with the existing one.
+ * Encrypted values (from an encrypted export) are compared by their plaintext
+ * where it is known and shown as encrypted otherwise.
+ */
+function diffImportedMember(existing: Member, imported: Member): FieldChange[] {
+  return diffMemberFields(revealKnownValues(existing), revealKnownValues(imported)).map(change => ({
+    ...change,
+    oldDisplay: isEncryptedValue(change.oldValue) ? ENCRYPTED_DISPLAY : change.oldDisplay,
+    newDisplay: isEncryptedValue(change.newValue) ? ENCRYPTED_DISPLAY : change.newDisplay,
+  }));
+}
+
+/**
+ * Compare an imported family with the existing one
+ */
+function diffImportedFamily(existing: Family, imported: Family, members: Map<string, Member>): FieldChange[] {
+  const memberName = (id?: string) => {
+    const member = id ? members.get(id) : undefined;
+    return member ? `${member.firstName} ${member.lastName}` : undefined;
   };
   
-  try {
-    const lines = csvContent.split(/\r?\n/).filter(line => line.trim());
+  const changes: FieldChange[] = [];
+  if (existing.name !== imported.name) {
+    changes.push({ field: 'name', label: 'Name', oldValue: existing.name, newValue: imported.name });
+  }
+  if ((existing.mainMemberId ?? null) !== (imported.mainMemberId ?? null)) {
+    changes.push({
+      field: 'mainMemberId',
+      label: 'Hauptmitglied',
+      oldValue: existing.mainMemberId ?? null,
+      newValue: imported.mainMemberId ?? null,
+      oldDisplay: memberName(existing.mainMemberId),
+      newDisplay: memberName(imported.mainMemberId),
+    });
+  }
+  return changes;
+}
+
+/**
+ * Options of the CSV import
+ */
+export interface CSVImportOptions {
+  /**
+   * Column assignment of a foreign members layout; without it the members
+   * file needs the columns of the own export
+   */
+  mapping?: CSVColumnMapping;
+  
+  /**
+   * Create families that members refer to by family ID or family name but
+   * that neither exist nor are contained in a families file
+   */
+  createMissingFamilies?: boolean;
+}
+
+/**
+ * Families an import can assign members to, by ID and by name (lowercase)
+ */
+interface FamilyLookup {
+  byId: Map<string, Family>;
+  byName: Map<string, Family>;
+  
+  /** Referenced families that are not found (IDs, or names prefixed with "name:") */
+  missing: Set<string>;
+}
+
+/**
+ * Parse CSV content (a members file and/or a families file) into a preview
+ * without saving anything.
+ * Every valid row is classified as new, updated (with field changes) or
+ * unchanged compared to the existing members and families.
+ */
+export function previewCSVImport(files: CSVImportFiles, options: CSVImportOptions = {}): CSVImportPreview {
+  const preview: CSVImportPreview = { rows: [], families: [], missingFamilyCount: 0, errors: [] };
+  
+  const existingMembers = new Map(getAllMembers().map(member => [member.id, member]));
+  const lookup: FamilyLookup = { byId: new Map(), byName: new Map(), missing: new Set() };
+  getAllFamilies().forEach(family => registerFamily(lookup, family));
+  
+  if (files.families !== undefined) {
+    previewFamilyRows(files.families, preview, lookup, existingMembers);
+  }
+  if (files.members !== undefined) {
+    previewMemberRows(files.members, preview, lookup, existingMembers, options);
+  }
+  preview.missingFamilyCount = lookup.missing.size;
+  
+  return preview;
+}
+
+/**
+ * Parse members CSV content into a preview without saving anything
+ * @param mapping Column assignment of a foreign layout
+ */
+export function previewMembersCSV(csvContent: string, mapping?: CSVColumnMapping): CSVImportPreview {
+  return previewCSVImport({ members: csvContent }, { mapping });
+}
+
+/**
+ * Make a family known to the import
+ */
+function registerFamily(lookup: FamilyLookup, family: Family): void {
+  lookup.byId.set(family.id, family);
+  lookup.byName.set(family.name.toLowerCase(), family);
+}
+
+/**
+ * Add the rows of a families file to the preview
+ */
+function previewFamilyRows(
+  csvContent: string,
+  preview: CSVImportPreview,
+  lookup: FamilyLookup,
+  existingMembers: Map<string, Member>
+): void {
+  const records = parseCSVRecords(csvContent, detectCSVDelimiter(csvContent));
+  const header = records.next();
+  if (header.done) {
+    preview.errors.push('Familien: CSV-Datei enthält keine Daten');
+    return;
+  }
+  
+  const headers = header.value.fields;
+  const missingHeaders = ['id', 'name'].filter(h => !headers.includes(h));
+  if (missingHeaders.length > 0) {
+    preview.errors.push(`Familien: Fehlende Spalten: ${missingHeaders.join(', ')}`);
+    return;
+  }
+  const getValue = (fields: string[], column: string) => fields[headers.indexOf(column)] ?? '';
+  
+  const linesById = new Map<string, number>();
+  
+  for (const record of records) {
+    const lineNumber = record.line;
+    const name = getValue(record.fields, 'name');
+    if (!name) {
+      preview.errors.push(`Familien, Zeile ${lineNumber}: Name fehlt`);
+      continue;
+    }
     
-    if (lines.length < 2) {
-      result.success = false;
-      result.errors.push('CSV-Datei enthält keine Daten');
-      return result;
+    // Members refer to the family by its ID, so it is kept even if it is no UUID
+    const id = getValue(record.fields, 'id') || uuidv4();
+    const firstLine = linesById.get(id);
+    if (firstLine !== undefined) {
+      preview.errors.push(`Familien, Zeile ${lineNumber}: Die ID kommt bereits in Zeile ${firstLine} vor`);
+      continue;
     }
+    linesById.set(id, lineNumber);
     
-    // Parse header
-    const headerLine = lines[0];
-    const headers = parseCSVLine(headerLine);
+    const now = new Date().toISOString();
+    const family: Family = {
+      id,
+      name,
+      mainMemberId: getValue(record.fields, 'mainMemberId') || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
     
+    const existing = lookup.byId.get(id);
+    if (!existing) {
+      preview.families.push({ line: lineNumber, status: 'new', family, changes: [] });
+    } else {
+      const changes = diffImportedFamily(existing, family, existingMembers);
+      preview.families.push({
+        line: lineNumber,
+        status: changes.length > 0 ? 'updated' : 'unchanged',
+        family: { ...family, createdAt: existing.createdAt },
+        changes,
+        existingUpdatedAt: existing.updatedAt,
+      });
+    }
+    registerFamily(lookup, family);
+  }
+}
+
+/**
+ * Assign an imported member to a family: a family ID is kept, a family name
+ * alone is looked up. Families that are not found are created if requested
+ * (named after the family name column or the member's last name).
+ */
+function resolveMemberFamily(
+  member: Member,
+  familyName: string,
+  preview: CSVImportPreview,
+  lookup: FamilyLookup,
+  createMissing: boolean
+): void {
+  let family = member.familyId
+    ? lookup.byId.get(member.familyId)
+    : familyName ? lookup.byName.get(familyName.toLowerCase()) : undefined;
+  
+  if (!family && (member.familyId || familyName)) {
+    if (!createMissing) {
+      lookup.missing.add(member.familyId ?? `name:${familyName.toLowerCase()}`);
+      return;
+    }
+    const now = new Date().toISOString();
+    family = {
+      id: member.familyId ?? uuidv4(),
+      name: familyName || member.lastName,
+      createdAt: now,
+      updatedAt: now,
+    };
+    preview.families.push({ status: 'new', family, changes: [] });
+    registerFamily(lookup, family);
+  }
+  if (!family) return;
+  
+  member.familyId = family.id;
+  
+  // A created family gets the first member marked as main member
+  const created = preview.families.some(row => row.line === undefined && row.family === family);
+  if (created && member.isMainFamilyMember && !family.mainMemberId) {
+    family.mainMemberId = member.id;
+  }
+}
+
+/**
+ * Add the rows of a members file to the preview
+ */
+function previewMemberRows(
+  csvContent: string,
+  preview: CSVImportPreview,
+  lookup: FamilyLookup,
+  existingMembers: Map<string, Member>,
+  options: CSVImportOptions
+): void {
+  const { mapping } = options;
+  
+  // Records are read one by one; line numbers refer to the file
+  const records = parseCSVRecords(csvContent, detectCSVDelimiter(csvContent));
+  const header = records.next();
+  if (header.done) {
+    preview.errors.push('CSV-Datei enthält keine Daten');
+    return;
+  }
+  
+  // Parse header
+  const headers = header.value.fields;
+  
+  // Create header index map (member field -> column)
+  const headerIndex: Record<string, number> = {};
+  if (mapping) {
+    Object.entries(mapping.columns).forEach(([column, field]) => {
+      const index = headers.indexOf(column);
+      if (index !== -1) headerIndex[field] = index;
+    });
+    const unmapped = REQUIRED_CSV_HEADERS.filter(field => headerIndex[field] === undefined);
+    if (unmapped.length > 0) {
+      preview.errors.push(
+        `Keine Spalte zugeordnet für: ${unmapped.map(field => CSV_FIELD_LABELS[field]).join(', ')}`
+      );
+      return;
+    }
+  } else {
     // Validate headers
-    const missingHeaders = CSV_HEADERS.filter(h => !headers.includes(h));
+    const missingHeaders = CSV_HEADERS.filter(h => !headers.includes(h) && !OPTIONAL_CSV_HEADERS.includes(h));
     if (missingHeaders.length > 0) {
-      result.success = false;
-      result.errors.push(`Fehlende Spalten: ${missingHeaders.join(', ')}`);
-      return result;
+      preview.errors.push(`Fehlende Spalten: ${missingHeaders.join(', ')}`);
+      return;
     }
-    
-    // Create header index map
-    const headerIndex: Record<string, number> = {};
     headers.forEach((header, index) => {
       headerIndex[header] = index;
     });
+  }
+  const dateFormat = mapping?.dateFormat ?? 'YYYY-MM-DD';
+  
+  // Process data rows
+  const linesById = new Map<string, number>();
+  
+  let recordCount = 0;
+  
+  for (const record of records) {
+    recordCount++;
+    const lineNumber = record.line;
     
-    // Process data rows
-    const existingMembers = getAllMembers();
-    const processedMembers: Member[] = [...existingMembers];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
+    try {
+      const rowData = parseRowToMember(record.fields, headerIndex, lineNumber, dateFormat);
+      
+      if (rowData.errors.length > 0) {
+        preview.errors.push(...rowData.errors);
+        continue;
+      }
+      
+      const member = rowData.member!;
       
-      try {
-        const values = parseCSVLine(line);
-        const rowData = parseRowToMember(values, headerIndex, i + 1);
-        
-        if (rowData.errors.length > 0) {
-          result.errors.push(...rowData.errors);
-          continue;
+      // A member can only be taken over from one row
+      const firstLine = linesById.get(member.id);
+      if (firstLine !== undefined) {
+        preview.errors.push(`Zeile ${lineNumber}: Die ID kommt bereits in Zeile ${firstLine} vor`);
+        continue;
+      }
+      linesById.set(member.id, lineNumber);
+      
+      resolveMemberFamily(member, rowData.familyName, preview, lookup, options.createMissingFamilies ?? false);
+      
+      // Check if member exists (by ID)
+      const existing = existingMembers.get(member.id);
+      if (!existing) {
+        preview.rows.push({ line: lineNumber, status: 'new', member, changes: [] });
+        continue;
+      }
+      
+      const changes = diffImportedMember(existing, member);
+      preview.rows.push({
+        line: lineNumber,
+        status: changes.length > 0 ? 'updated' : 'unchanged',
+        member: { ...member, createdAt: existing.createdAt },
+        changes,
+        existingUpdatedAt: existing.updatedAt,
+      });
+    } catch (error) {
+      preview.errors.push(`Zeile ${lineNumber}: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`);
+    }
+  }
+  
+  if (recordCount === 0) {
+    preview.errors.push('CSV-Datei enthält keine Daten');
+  }
+}
+
+/**
+ * Save the selected new and updated rows of a preview.
+ * Rows whose member or family was changed since the preview are skipped.
+ * Families created for members are only saved if one of their members is.
+ * Values of encrypted fields are encrypted before they are saved.
+ * Every saved row is logged for its member (with the field changes of the
+ * preview), so the member history and time travel cover the import.
+ * Nothing is saved if the snapshot before the import fails and the user does
+ * not confirm to continue without it.
+ * @param selectedLines Line numbers of the member rows to take over
+ * @param selectedFamilyIds IDs of the families of a families file to take
+ *   over (all if omitted)
+ */
+export async function applyCSVImport(
+  preview: CSVImportPreview,
+  selectedLines: Iterable<number>,
+  selectedFamilyIds?: Iterable<string>,
+  options: SnapshotBeforeChangeOptions = {}
+): Promise<CSVImportResult> {
+  const result: CSVImportResult = {
+    success: true,
+    imported: 0,
+    updated: 0,
+    familiesImported: 0,
+    familiesUpdated: 0,
+    errors: [...preview.errors],
+  };
+  
+  try {
+    const selected = new Set(selectedLines);
+    const selectedFamilies = selectedFamilyIds ? new Set(selectedFamilyIds) : undefined;
+    const processedMembers = new Map(getAllMembers().map(member => [member.id, member]));
+    const processedFamilies = new Map(getAllFamilies().map(family => [family.id, family]));
+    const appliedMemberIds = new Set<string>();
+    const appliedRows: CSVImportPreviewRow[] = [];
+    let familiesImported = 0;
+    let familiesUpdated = 0;
+    const now = new Date().toISOString();
+    
+    preview.rows
+      .filter(row => row.status !== 'unchanged' && selected.has(row.line))
+      .forEach(row => {
+        const current = processedMembers.get(row.member.id);
+        if (current?.updatedAt !== row.existingUpdatedAt) {
+          result.errors.push(`Zeile ${row.line}: Das Mitglied wurde seit der Vorschau geändert`);
+          return;
         }
-        
-        const member = rowData.member!;
-        
-        // Check if member exists (by ID)
-        const existingIndex = processedMembers.findIndex(m => m.id === member.id);
-        
-        if (existingIndex !== -1) {
-          // Update existing member
-          processedMembers[existingIndex] = {
-            ...member,
-            createdAt: processedMembers[existingIndex].createdAt,
-            updatedAt: new Date().toISOString(),
-          };
+        processedMembers.set(row.member.id, {
+          ...row.member,
+          createdAt: current?.createdAt ?? now,
+          updatedAt: now,
+        });
+        appliedMemberIds.add(row.member.id);
+        appliedRows.push(row);
+        if (current) {
           result.updated++;
         } else {
-          // Add new member
-          processedMembers.push({
-            ...member,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-          });
           result.imported++;
         }
-      } catch (error) {
-        result.errors.push(`Zeile ${i + 1}: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`);
-      }
-    }
+      });
+    
+    const referencedFamilyIds = new Set(
+      [...appliedMemberIds].map(id => processedMembers.get(id)!.familyId)
+    );
+    const isFamilySelected = (row: CSVFamilyPreviewRow) => row.line === undefined
+      ? referencedFamilyIds.has(row.family.id)
+      : !selectedFamilies || selectedFamilies.has(row.family.id);
     
-    // Save all members
-    if (result.imported > 0 || result.updated > 0) {
-      saveAllMembers(processedMembers);
-      logDataImported(result.imported, result.updated);
+    preview.families
+      .filter(row => row.status !== 'unchanged' && isFamilySelected(row))
+      .forEach(row => {
+        const current = processedFamilies.get(row.family.id);
+        if (current?.updatedAt !== row.existingUpdatedAt) {
+          const location = row.line === undefined ? `Familie "${row.family.name}"` : `Familien, Zeile ${row.line}`;
+          result.errors.push(`${location}: Die Familie wurde seit der Vorschau geändert`);
+          return;
+        }
+        // The main member of a created family may not be among the selected rows
+        const mainMemberId = row.line === undefined && !appliedMemberIds.has(row.family.mainMemberId ?? '')
+          ? undefined
+          : row.family.mainMemberId;
+        processedFamilies.set(row.family.id, {
+          ...row.family,
+          mainMemberId,
+          createdAt: current?.createdAt ?? now,
+          updatedAt: now,
+        });
+        if (current) {
+          familiesUpdated++;
+        } else {
+          familiesImported++;
+        }
+      });
+    
+    const membersChanged = result.imported > 0 || result.updated > 0;
+    const familiesChanged = familiesImported > 0 || familiesUpdated > 0;
+    result.familiesImported = familiesImported;
+    result.familiesUpdated = familiesUpdated;
+    
+    // Save all members and families
+    if (membersChanged || familiesChanged) {
+      await snapshotBeforeChange('import', options);
+      await withEncryptedWrites(() => runInTransaction(() => {
+        if (familiesChanged) saveAllFamilies([...processedFamilies.values()]);
+        if (membersChanged) saveAllMembers([...processedMembers.values()]);
+        appliedRows.forEach(row => {
+          const member = processedMembers.get(row.member.id)!;
+          if (row.status === 'new') {
+            logMemberCreated(member);
+          } else {
+            logMemberUpdated(member, row.changes);
+          }
+        });
+        logDataImported(result.imported, result.updated, familiesImported, familiesUpdated);
+      }));
+      clearUndoHistory();
+      
+      // Imported family IDs and flags are not checked row by row
+      result.integrityIssues = scanDataIntegrity().issues;
     }
     
-    if (result.errors.length > 0 && result.imported === 0 && result.updated === 0) {
+    if (result.errors.length > 0 && !membersChanged && !familiesChanged) {
       result.success = false;
     }
     
@@ -182,45 +936,23 @@ export function importMembersFromCSV(csvContent: string): CSVImportResult {
 }
 
 /**
- * Parse a CSV line respecting quoted fields
+ * Parse CSV content and import all new and changed members without preview
  */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote
-        current += '"';
-        i++;
-      } else {
-        // Toggle quote mode
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ';' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  
-  result.push(current.trim());
-  return result;
+export async function importMembersFromCSV(csvContent: string): Promise<CSVImportResult> {
+  const preview = previewMembersCSV(csvContent);
+  return applyCSVImport(preview, preview.rows.map(row => row.line));
 }
 
 /**
  * Parse a row of values into a Member object
+ * @param dateFormat Format of the date columns (converted to YYYY-MM-DD)
  */
 function parseRowToMember(
   values: string[],
   headerIndex: Record<string, number>,
-  rowNumber: number
-): { member: Member | null; errors: string[] } {
+  rowNumber: number,
+  dateFormat: CSVDateFormat = 'YYYY-MM-DD'
+): { member: Member | null; familyName: string; errors: string[] } {
   const errors: string[] = [];
   
   const getValue = (header: string): string => {
@@ -231,29 +963,34 @@ function parseRowToMember(
   // Validate required fields
   const firstName = getValue('firstName');
   const lastName = getValue('lastName');
-  const birthDate = getValue('birthDate');
-  const entryDate = getValue('entryDate');
+  const birthDate = normalizeDate(getValue('birthDate'), dateFormat);
+  const entryDate = normalizeDate(getValue('entryDate'), dateFormat);
   
   if (!firstName) errors.push(`Zeile ${rowNumber}: Vorname fehlt`);
   if (!lastName) errors.push(`Zeile ${rowNumber}: Nachname fehlt`);
   if (!birthDate) errors.push(`Zeile ${rowNumber}: Geburtsdatum fehlt`);
   if (!entryDate) errors.push(`Zeile ${rowNumber}: Eintrittsdatum fehlt`);
   
-  // Validate date formats
-  if (birthDate && !isValidDate(birthDate)) {
-    errors.push(`Zeile ${rowNumber}: Ungültiges Geburtsdatum (Format: YYYY-MM-DD)`);
+  // Encrypted values (from an encrypted export) can only be taken over while encryption is enabled
+  if (!isEncryptionEnabled() && ['birthDate', 'iban', 'bic'].some(header => isEncryptedValue(getValue(header)))) {
+    errors.push(`Zeile ${rowNumber}: Verschlüsselte Werte können nur bei aktivierter Verschlüsselung importiert werden`);
+  }
+  
+  // Validate date formats (an encrypted birth date cannot be checked)
+  if (birthDate && !isValidDate(birthDate) && !isEncryptedValue(birthDate)) {
+    errors.push(`Zeile ${rowNumber}: Ungültiges Geburtsdatum (Format: ${dateFormat})`);
   }
   if (entryDate && !isValidDate(entryDate)) {
-    errors.push(`Zeile ${rowNumber}: Ungültiges Eintrittsdatum (Format: YYYY-MM-DD)`);
+    errors.push(`Zeile ${rowNumber}: Ungültiges Eintrittsdatum (Format: ${dateFormat})`);
   }
   
-  const exitDate = getValue('exitDate');
+  const exitDate = normalizeDate(getValue('exitDate'), dateFormat);
   if (exitDate && !isValidDate(exitDate)) {
-    errors.push(`Zeile ${rowNumber}: Ungültiges Austrittsdatum (Format: YYYY-MM-DD)`);
+    errors.push(`Zeile ${rowNumber}: Ungültiges Austrittsdatum (Format: ${dateFormat})`);
   }
   
   if (errors.length > 0) {
-    return { member: null, errors };
+    return { member: null, familyName: '', errors };
   }
   
   // Get or generate ID
@@ -274,21 +1011,22 @@ function parseRowToMember(
     bic: getValue('bic'),
     entryDate,
     exitDate: exitDate || undefined,
-    isActive: getValue('isActive').toLowerCase() !== 'false',
+    isActive: !FALSE_VALUES.has(getValue('isActive').toLowerCase()),
     familyId: getValue('familyId') || undefined,
-    isMainFamilyMember: getValue('isMainFamilyMember').toLowerCase() === 'true',
+    isMainFamilyMember: TRUE_VALUES.has(getValue('isMainFamilyMember').toLowerCase()),
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
   
-  return { member, errors: [] };
+  return { member, familyName: getValue('familyName'), errors: [] };
 }
 
 /**
  * Escape a field for CSV (handle quotes and special characters)
  */
-function escapeCSVField(field: string): string {
-  if (field.includes(';') || field.includes('"') || field.includes('\n')) {
+export function escapeCSVField(field: string): string {
+  // Unquoted fields are trimmed on import, so surrounding whitespace is quoted as well
+  if (/[;"\r\n]/.test(field) || field !== field.trim()) {
     return `"${field.replace(/"/g, '""')}"`;
   }
   return field;
@@ -332,6 +1070,7 @@ export function generateCSVTemplate(): string {
     '', // exitDate
     'true',
     '', // familyId
+    '', // familyName
     'false',
   ].join(';');
   
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Family, Member } from '../models/types';
+import { STORAGE_KEYS, createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAuditLog, getFamilyById, getMemberById } from './storageService';
+import { clearUndoHistory, undo } from './undoService';
+import { repairAllIntegrityIssues, repairIntegrityIssue, scanDataIntegrity } from './dataIntegrityService';
+
+/**
+ * Build a member with the given id and fields
+ */
+function member(id: string, fields: Partial<Member> = {}): Member {
+  return {
+    id,
+    firstName: 'Anna',
+    lastName: id,
+    birthDate: '1985-03-09',
+    street: 'Hauptstraße 1',
+    postalCode: '50667',
+    city: 'Köln',
+    iban: '',
+    bic: '',
+    entryDate: '2020-01-01',
+    isActive: true,
+    isMainFamilyMember: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+/**
+ * Build a family with the given id and main member
+ */
+function family(id: string, mainMemberId?: string): Family {
+  return { id, name: `Familie ${id}`, mainMemberId, createdAt: '', updatedAt: '' };
+}
+
+/**
+ * Use repositories seeded with the given members and families
+ */
+function useData(members: Member[], families: Family[]): void {
+  setRepositories(createRepositories(createMemoryDriver({
+    [STORAGE_KEYS.MEMBERS]: members,
+    [STORAGE_KEYS.FAMILIES]: families,
+  })));
+}
+
+beforeEach(() => {
+  clearUndoHistory();
+});
+
+describe('scanDataIntegrity', () => {
+  it('reports broken references and contradictory flags, errors first', () => {
+    useData([
+      member('a', { familyId: 'gone' }),
+      member('b', { isActive: false, updatedAt: '2024-05-03T10:00:00.000Z' }),
+      member('c', { familyId: 'f1', isMainFamilyMember: true, createdAt: '2023-01-01T00:00:00.000Z' }),
+      member('d', { familyId: 'f1', isMainFamilyMember: true }),
+    ], [family('f1', 'x')]);
+
+    expect(scanDataIntegrity().issues.map(issue => issue.id)).toEqual([
+      'MEMBER_FAMILY_MISSING:a',
+      'MAIN_MEMBER_MISSING:f1',
+      'MULTIPLE_MAIN_MEMBERS:f1',
+      'INACTIVE_WITHOUT_EXIT_DATE:b',
+    ]);
+  });
+
+  it('finds nothing in consistent data', () => {
+    useData([member('a', { familyId: 'f1', isMainFamilyMember: true })], [family('f1', 'a')]);
+
+    expect(scanDataIntegrity().issues).toEqual([]);
+  });
+});
+
+describe('repairIntegrityIssue', () => {
+  it('repairs a single issue, logs it and can be undone', () => {
+    useData([member('a', { familyId: 'gone', isMainFamilyMember: true })], []);
+
+    const report = repairIntegrityIssue('MEMBER_FAMILY_MISSING:a');
+
+    expect(report.issues).toEqual([]);
+    expect(getMemberById('a')).toMatchObject({ familyId: undefined, isMainFamilyMember: false });
+    expect(getAuditLog()[0].action).toBe('INTEGRITY_REPAIRED');
+    undo();
+    expect(getMemberById('a')?.familyId).toBe('gone');
+  });
+
+  it('refuses issues that no longer exist', () => {
+    useData([member('a')], []);
+
+    expect(() => repairIntegrityIssue('MEMBER_FAMILY_MISSING:a')).toThrow('besteht nicht mehr');
+  });
+});
+
+describe('repairAllIntegrityIssues', () => {
+  it('keeps the longest-standing flagged member as only main member', () => {
+    useData([
+      member('b', { isActive: false, updatedAt: '2024-05-03T10:00:00.000Z' }),
+      member('c', { familyId: 'f1', isMainFamilyMember: true, createdAt: '2023-01-01T00:00:00.000Z' }),
+      member('d', { familyId: 'f1', isMainFamilyMember: true }),
+    ], [family('f1', 'x')]);
+
+    const { resolvedCount, report } = repairAllIntegrityIssues();
+
+    expect(resolvedCount).toBe(3);
+    expect(report.issues).toEqual([]);
+    expect(getFamilyById('f1')?.mainMemberId).toBe('c');
+    expect(getMemberById('d')?.isMainFamilyMember).toBe(false);
+    expect(getMemberById('b')?.exitDate).toBe('2024-05-03');
+  });
+});
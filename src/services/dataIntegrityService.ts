@@ -0,0 +1,324 @@
+/**
+ * Data Integrity Service
+ * Scans members and families for broken references and contradictory flags
+ * (e.g. a family whose main member belongs to another family) and repairs them.
+ * Every repair is recorded in the audit log and can be undone.
+ */
+
+import type {
+  Family,
+  IntegrityIssue,
+  IntegrityIssueType,
+  IntegrityReport,
+  IntegritySeverity,
+  Member,
+} from '../models/types';
+import {
+  getAllFamilies,
+  getAllMembers,
+  getFamilyById,
+  getMemberAuditLog,
+  getMemberById,
+  updateFamily,
+  updateMember,
+} from './storageService';
+import { diffMemberFields } from './memberService';
+import { logIntegrityRepaired } from './auditService';
+import { executeUndoable } from './undoService';
+
+/** Display labels of the severities */
+export const INTEGRITY_SEVERITY_LABELS: Record<IntegritySeverity, string> = {
+  error: 'Fehler',
+  warning: 'Warnung',
+};
+
+const SEVERITY_ORDER: Record<IntegritySeverity, number> = {
+  error: 0,
+  warning: 1,
+};
+
+const fullName = (member: Member) => `"${member.firstName} ${member.lastName}"`;
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('de-DE');
+
+function createIssue(
+  type: IntegrityIssueType,
+  severity: IntegritySeverity,
+  entityId: string,
+  fields: Pick<IntegrityIssue, 'description' | 'repairLabel' | 'memberIds' | 'familyId'>
+): IntegrityIssue {
+  return { id: `${type}:${entityId}`, type, severity, ...fields };
+}
+
+// ============================================
+// Scan
+// ============================================
+
+/**
+ * Most likely exit date of an inactive member: the day of the last
+ * deactivation recorded in the audit log, otherwise the day of the last change
+ */
+function estimateExitDate(member: Member): string {
+  const deactivations = getMemberAuditLog(member.id)
+    .filter(entry => entry.action === 'MEMBER_DEACTIVATED')
+    .map(entry => entry.timestamp)
+    .sort();
+  const timestamp = deactivations[deactivations.length - 1] ?? member.updatedAt;
+  return timestamp.split('T')[0];
+}
+
+/**
+ * Main member a family should have: the recorded main member if it belongs to
+ * the family, otherwise the longest-standing member flagged as main member
+ */
+function resolveMainMember(family: Family, familyMembers: Member[]): Member | undefined {
+  const recorded = familyMembers.find(member => member.id === family.mainMemberId);
+  if (recorded) return recorded;
+  return familyMembers
+    .filter(member => member.isMainFamilyMember)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+}
+
+/**
+ * Check the references and flags of a single member
+ */
+function scanMember(member: Member, familyIds: Set<string>): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  if (member.familyId && !familyIds.has(member.familyId)) {
+    issues.push(createIssue('MEMBER_FAMILY_MISSING', 'error', member.id, {
+      description: `${fullName(member)} ist einer Familie zugeordnet, die nicht existiert`,
+      repairLabel: 'Familienzuordnung entfernen',
+      memberIds: [member.id],
+    }));
+  } else if (!member.familyId && member.isMainFamilyMember) {
+    issues.push(createIssue('MAIN_FLAG_WITHOUT_FAMILY', 'warning', member.id, {
+      description: `${fullName(member)} ist als Hauptmitglied markiert, gehört aber keiner Familie an`,
+      repairLabel: 'Markierung als Hauptmitglied entfernen',
+      memberIds: [member.id],
+    }));
+  }
+
+  if (!member.isActive && !member.exitDate) {
+    issues.push(createIssue('INACTIVE_WITHOUT_EXIT_DATE', 'warning', member.id, {
+      description: `${fullName(member)} ist inaktiv, hat aber kein Austrittsdatum`,
+      repairLabel: `Austrittsdatum auf ${formatDate(estimateExitDate(member))} setzen`,
+      memberIds: [member.id],
+    }));
+  }
+
+  return issues;
+}
+
+/**
+ * Check that a family has at most one main member and that the recorded main
+ * member and the flags of its members agree
+ */
+function scanFamily(
+  family: Family,
+  familyMembers: Member[],
+  membersById: Map<string, Member>
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const mainMember = resolveMainMember(family, familyMembers);
+  const repairLabel = mainMember
+    ? `${fullName(mainMember)} als einziges Hauptmitglied festlegen`
+    : 'Hauptmitglied entfernen';
+  const flagged = familyMembers.filter(member => member.isMainFamilyMember);
+
+  let hasBrokenReference = false;
+  if (family.mainMemberId) {
+    const recorded = membersById.get(family.mainMemberId);
+    if (!recorded) {
+      hasBrokenReference = true;
+      issues.push(createIssue('MAIN_MEMBER_MISSING', 'error', family.id, {
+        description: `Das Hauptmitglied der Familie "${family.name}" existiert nicht`,
+        repairLabel,
+        memberIds: [],
+        familyId: family.id,
+      }));
+    } else if (recorded.familyId !== family.id) {
+      hasBrokenReference = true;
+      issues.push(createIssue('MAIN_MEMBER_NOT_IN_FAMILY', 'error', family.id, {
+        description: `${fullName(recorded)} ist Hauptmitglied der Familie "${family.name}", gehört ihr aber nicht an`,
+        repairLabel,
+        memberIds: [recorded.id],
+        familyId: family.id,
+      }));
+    }
+  }
+
+  if (flagged.length > 1) {
+    issues.push(createIssue('MULTIPLE_MAIN_MEMBERS', 'error', family.id, {
+      description: `Die Familie "${family.name}" hat ${flagged.length} Hauptmitglieder: ` +
+        flagged.map(fullName).join(', '),
+      repairLabel,
+      memberIds: flagged.map(member => member.id),
+      familyId: family.id,
+    }));
+    return issues;
+  }
+
+  // Contradictions that the errors above do not already cover
+  if (mainMember && !mainMember.isMainFamilyMember) {
+    issues.push(createIssue('MAIN_MEMBER_NOT_FLAGGED', 'warning', family.id, {
+      description: `${fullName(mainMember)} ist Hauptmitglied der Familie "${family.name}", aber nicht als solches markiert`,
+      repairLabel,
+      memberIds: [mainMember.id],
+      familyId: family.id,
+    }));
+  }
+  if (flagged.length === 1 && flagged[0].id !== family.mainMemberId && !hasBrokenReference) {
+    issues.push(createIssue('FLAGGED_MEMBER_NOT_MAIN', 'warning', family.id, {
+      description: `${fullName(flagged[0])} ist als Hauptmitglied markiert, aber nicht als Hauptmitglied der Familie "${family.name}" eingetragen`,
+      repairLabel,
+      memberIds: [flagged[0].id],
+      familyId: family.id,
+    }));
+  }
+
+  return issues;
+}
+
+/**
+ * Collect all issues of the current data, errors first
+ */
+function collectIssues(): IntegrityIssue[] {
+  const members = getAllMembers();
+  const families = getAllFamilies();
+  const membersById = new Map(members.map(member => [member.id, member]));
+  const familyIds = new Set(families.map(family => family.id));
+
+  const issues = [
+    ...members.flatMap(member => scanMember(member, familyIds)),
+    ...families.flatMap(family => scanFamily(
+      family,
+      members.filter(member => member.familyId === family.id),
+      membersById
+    )),
+  ];
+
+  return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+// ============================================
+// Repair
+// ============================================
+
+/**
+ * Change fields of a member and record the repair
+ */
+function repairMember(
+  issue: IntegrityIssue,
+  member: Member,
+  fields: Partial<Member>,
+  family?: Family
+): void {
+  const updatedMember: Member = { ...member, ...fields, updatedAt: new Date().toISOString() };
+  const changes = diffMemberFields(member, updatedMember);
+  updateMember(updatedMember);
+  logIntegrityRepaired(issue, updatedMember, family, changes);
+}
+
+/**
+ * Give a family exactly its resolved main member (or none) and align the
+ * main member flags of its members
+ */
+function repairMainMember(issue: IntegrityIssue, family: Family): void {
+  const familyMembers = getAllMembers().filter(member => member.familyId === family.id);
+  const mainMember = resolveMainMember(family, familyMembers);
+
+  familyMembers.forEach(member => {
+    const isMain = member.id === mainMember?.id;
+    if (member.isMainFamilyMember !== isMain) {
+      repairMember(issue, member, { isMainFamilyMember: isMain }, family);
+    }
+  });
+
+  if (family.mainMemberId !== mainMember?.id) {
+    const updatedFamily: Family = {
+      ...family,
+      mainMemberId: mainMember?.id,
+      updatedAt: new Date().toISOString(),
+    };
+    updateFamily(updatedFamily);
+    logIntegrityRepaired(issue, undefined, updatedFamily, [], {
+      previousMainMemberId: family.mainMemberId,
+      mainMemberId: mainMember?.id,
+    });
+  }
+}
+
+/**
+ * Apply the one-click repair of an issue (inside a transaction)
+ */
+function applyRepair(issue: IntegrityIssue): void {
+  if (issue.familyId) {
+    const family = getFamilyById(issue.familyId);
+    if (family) repairMainMember(issue, family);
+    return;
+  }
+
+  const member = getMemberById(issue.memberIds[0]);
+  if (!member) return;
+  switch (issue.type) {
+    case 'MEMBER_FAMILY_MISSING':
+    case 'MAIN_FLAG_WITHOUT_FAMILY':
+      repairMember(issue, member, { familyId: undefined, isMainFamilyMember: false });
+      break;
+    case 'INACTIVE_WITHOUT_EXIT_DATE':
+      repairMember(issue, member, { exitDate: estimateExitDate(member) });
+      break;
+  }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Check the members and families for inconsistencies
+ */
+export function scanDataIntegrity(): IntegrityReport {
+  return { checkedAt: new Date().toISOString(), issues: collectIssues() };
+}
+
+/**
+ * Repair a single issue (recorded for undo)
+ * @returns A new report of the repaired data
+ * @throws Error if the issue no longer exists
+ */
+export function repairIntegrityIssue(issueId: string): IntegrityReport {
+  const issue = collectIssues().find(candidate => candidate.id === issueId);
+  if (!issue) {
+    throw new Error('Der Datenfehler besteht nicht mehr. Bitte prüfen Sie die Daten erneut.');
+  }
+  executeUndoable(`Datenfehler behoben: ${issue.repairLabel}`, () => applyRepair(issue));
+  return scanDataIntegrity();
+}
+
+/**
+ * Repair all issues in one step (recorded for undo as a single operation).
+ * Repairing one issue may resolve others, so the data is scanned again after
+ * every repair; each issue is attempted at most once.
+ * @returns Number of resolved issues and a new report of the repaired data
+ */
+export function repairAllIntegrityIssues(): { resolvedCount: number; report: IntegrityReport } {
+  const initialCount = collectIssues().length;
+
+  executeUndoable(
+    `${initialCount} Datenfehler behoben`,
+    () => {
+      const attempted = new Set<string>();
+      let issue: IntegrityIssue | undefined = collectIssues()[0];
+      while (issue) {
+        attempted.add(issue.id);
+        applyRepair(issue);
+        issue = collectIssues().find(candidate => !attempted.has(candidate.id));
+      }
+    }
+  );
+
+  const report = scanDataIntegrity();
+  return { resolvedCount: initialCount - report.issues.length, report };
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { ApiError } from './apiClient';
+import { ConcurrentModificationError } from './memberService';
+import { apiDataSource } from './dataSource';
+import { MEMBER_FORM, buildMember } from '../test/fixtures';
+
+/**
+ * Answer every request with the given JSON body and status
+ */
+function respondWith(body: unknown, status: number): void {
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json(body, { status })));
+}
+
+beforeEach(() => {
+  vi.stubEnv('VITE_API_URL', 'http://localhost:3001/api');
+  setRepositories(createRepositories(createMemoryDriver()));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('apiDataSource', () => {
+  it('returns undefined for a member the server does not know', async () => {
+    respondWith({ error: 'Mitglied nicht gefunden' }, 404);
+
+    expect(await apiDataSource.getMember('m1')).toBeUndefined();
+  });
+
+  it('passes on other errors when looking up a member', async () => {
+    respondWith({ error: 'Interner Fehler' }, 500);
+
+    await expect(apiDataSource.getMember('m1')).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('reports a conflicting edit with the member stored on the server', async () => {
+    const current = { ...buildMember('m1'), city: 'Essen' };
+    respondWith({ error: 'Konflikt', current }, 409);
+
+    const error = await apiDataSource.editMember('m1', MEMBER_FORM, '2024-01-01T00:00:00.000Z')
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ConcurrentModificationError);
+    expect((error as ConcurrentModificationError).currentMember).toEqual(current);
+    expect(fetch).toHaveBeenCalledWith('http://localhost:3001/api/members/m1', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ ...MEMBER_FORM, expectedUpdatedAt: '2024-01-01T00:00:00.000Z' }),
+    }));
+  });
+});
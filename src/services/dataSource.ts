@@ -0,0 +1,280 @@
+/**
+ * Data Source
+ * Asynchronous access to member, family and audit operations.
+ * The hooks only talk to this interface, so the app can run against the local
+ * services (default) or the REST backend (if VITE_API_URL is set).
+ */
+
+import type {
+  Member,
+  MemberFormData,
+  MemberFilter,
+  MemberStats,
+  MemberRestoreSource,
+  Family,
+  AuditLogEntry,
+  AuditLogPage,
+  AuditLogQuery,
+  AuditChainHead,
+} from '../models/types';
+import * as memberService from './memberService';
+import * as auditService from './auditService';
+import type { AuditChainStatus } from './auditIntegrityService';
+import { executeUndoable } from './undoService';
+import { withEncryptedWrites } from './encryptionService';
+import { ApiError, apiRequest, getApiBaseUrl } from './apiClient';
+
+export interface DataSource {
+  /** Where the data comes from */
+  readonly kind: 'local' | 'api';
+
+  // Members
+  getMembers(filter?: MemberFilter): Promise<Member[]>;
+  getMember(id: string): Promise<Member | undefined>;
+  createMember(data: MemberFormData): Promise<Member>;
+  /** Rejects with ConcurrentModificationError if the member changed since expectedUpdatedAt */
+  editMember(id: string, data: MemberFormData, expectedUpdatedAt?: string): Promise<Member>;
+  activateMember(id: string): Promise<Member>;
+  deactivateMember(id: string): Promise<Member>;
+  /** Restore a former version of a member from the audit log */
+  restoreMemberVersion(id: string, source: MemberRestoreSource): Promise<Member>;
+  getMemberStats(): Promise<MemberStats>;
+
+  // Families
+  getFamilies(): Promise<Family[]>;
+  getFamily(id: string): Promise<Family | undefined>;
+  createFamily(name: string, mainMemberId?: string): Promise<Family>;
+  getMembersOfFamily(familyId: string): Promise<Member[]>;
+  updateFamilyMainMember(familyId: string, memberId: string): Promise<void>;
+  removeMemberFromFamily(memberId: string): Promise<void>;
+
+  // Audit log
+  getRecentAuditLogs(limit: number): Promise<AuditLogEntry[]>;
+  /** Search the complete audit log (filters and pagination) */
+  queryAuditLogs(query: AuditLogQuery): Promise<AuditLogPage>;
+  getAuditLogsForMember(memberId: string): Promise<AuditLogEntry[]>;
+  /** Check the hash chain of the complete audit log, optionally against a head recorded earlier */
+  verifyAuditLog(recordedHead?: AuditChainHead): Promise<AuditChainStatus>;
+}
+
+// ============================================
+// Local Data Source
+// ============================================
+
+const memberName = (member: Member) => `"${member.firstName} ${member.lastName}"`;
+
+/**
+ * Data source backed by the local services and the active repositories.
+ * Modifying operations are recorded for undo/redo. Operations that write new
+ * member values encrypt them first if field-level encryption is enabled.
+ */
+export const localDataSource: DataSource = {
+  kind: 'local',
+
+  async getMembers(filter) {
+    return memberService.getMembers(filter);
+  },
+  async getMember(id) {
+    return memberService.getMember(id);
+  },
+  async createMember(data) {
+    return withEncryptedWrites(() => executeUndoable(
+      member => `Mitglied ${memberName(member)} angelegt`,
+      () => memberService.createMember(data)
+    ));
+  },
+  async editMember(id, data, expectedUpdatedAt) {
+    return withEncryptedWrites(() => executeUndoable(
+      member => `Mitglied ${memberName(member)} bearbeitet`,
+      () => memberService.editMember(id, data, expectedUpdatedAt)
+    ));
+  },
+  async activateMember(id) {
+    return executeUndoable(
+      member => `Mitglied ${memberName(member)} aktiviert`,
+      () => memberService.activateMember(id)
+    );
+  },
+  async deactivateMember(id) {
+    return executeUndoable(
+      member => `Mitglied ${memberName(member)} deaktiviert`,
+      () => memberService.deactivateMember(id)
+    );
+  },
+  async restoreMemberVersion(id, source) {
+    return withEncryptedWrites(() => executeUndoable(
+      member => `Frühere Version von ${memberName(member)} wiederhergestellt`,
+      () => memberService.restoreMemberVersion(id, source)
+    ));
+  },
+  async getMemberStats() {
+    return memberService.getMemberStats();
+  },
+
+  async getFamilies() {
+    return memberService.getFamilies();
+  },
+  async getFamily(id) {
+    return memberService.getFamily(id);
+  },
+  async createFamily(name, mainMemberId) {
+    return executeUndoable(
+      family => `Familie "${family.name}" angelegt`,
+      () => memberService.createFamily(name, mainMemberId)
+    );
+  },
+  async getMembersOfFamily(familyId) {
+    return memberService.getMembersOfFamily(familyId);
+  },
+  async updateFamilyMainMember(familyId, memberId) {
+    const member = memberService.getMember(memberId);
+    executeUndoable(
+      `${member ? memberName(member) : 'Mitglied'} als Hauptmitglied gesetzt`,
+      () => memberService.updateFamilyMainMember(familyId, memberId)
+    );
+  },
+  async removeMemberFromFamily(memberId) {
+    const member = memberService.getMember(memberId);
+    executeUndoable(
+      `${member ? memberName(member) : 'Mitglied'} aus Familie entfernt`,
+      () => memberService.removeMemberFromFamily(memberId)
+    );
+  },
+
+  async getRecentAuditLogs(limit) {
+    return auditService.getRecentAuditLogs(limit);
+  },
+  async queryAuditLogs(query) {
+    return auditService.queryAuditLog(query);
+  },
+  async getAuditLogsForMember(memberId) {
+    return auditService.getAuditLogsForMember(memberId);
+  },
+  async verifyAuditLog(recordedHead) {
+    return auditService.verifyAuditLog(recordedHead);
+  },
+};
+
+// ============================================
+// REST API Data Source
+// ============================================
+
+/**
+ * Return undefined instead of throwing for 404 responses
+ */
+async function findOrUndefined<T>(request: Promise<T>): Promise<T | undefined> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Data source backed by the REST backend (see mock-server/ for a local implementation)
+ */
+export const apiDataSource: DataSource = {
+  kind: 'api',
+
+  getMembers(filter) {
+    return apiRequest<Member[]>('/members', {
+      query: filter && {
+        search: filter.searchTerm,
+        showActive: filter.showActive,
+        showInactive: filter.showInactive,
+        familyId: filter.familyId,
+      },
+    });
+  },
+  getMember(id) {
+    return findOrUndefined(apiRequest<Member>(`/members/${encodeURIComponent(id)}`));
+  },
+  createMember(data) {
+    return apiRequest<Member>('/members', { method: 'POST', body: data });
+  },
+  async editMember(id, data, expectedUpdatedAt) {
+    try {
+      return await apiRequest<Member>(`/members/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        body: { ...data, expectedUpdatedAt },
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        const { current } = error.body as { current: Member };
+        throw new memberService.ConcurrentModificationError(current);
+      }
+      throw error;
+    }
+  },
+  activateMember(id) {
+    return apiRequest<Member>(`/members/${encodeURIComponent(id)}/activate`, { method: 'POST' });
+  },
+  deactivateMember(id) {
+    return apiRequest<Member>(`/members/${encodeURIComponent(id)}/deactivate`, { method: 'POST' });
+  },
+  restoreMemberVersion(id, source) {
+    return apiRequest<Member>(`/members/${encodeURIComponent(id)}/restore`, { method: 'POST', body: source });
+  },
+  getMemberStats() {
+    return apiRequest<MemberStats>('/stats');
+  },
+
+  getFamilies() {
+    return apiRequest<Family[]>('/families');
+  },
+  getFamily(id) {
+    return findOrUndefined(apiRequest<Family>(`/families/${encodeURIComponent(id)}`));
+  },
+  createFamily(name, mainMemberId) {
+    return apiRequest<Family>('/families', { method: 'POST', body: { name, mainMemberId } });
+  },
+  getMembersOfFamily(familyId) {
+    return apiRequest<Member[]>(`/families/${encodeURIComponent(familyId)}/members`);
+  },
+  async updateFamilyMainMember(familyId, memberId) {
+    await apiRequest<Family>(`/families/${encodeURIComponent(familyId)}/main-member`, {
+      method: 'PUT',
+      body: { memberId },
+    });
+  },
+  async removeMemberFromFamily(memberId) {
+    await apiRequest<Member>(`/members/${encodeURIComponent(memberId)}/family`, { method: 'DELETE' });
+  },
+
+  getRecentAuditLogs(limit) {
+    return apiRequest<AuditLogEntry[]>('/audit-log', { query: { limit } });
+  },
+  queryAuditLogs(query) {
+    return apiRequest<AuditLogPage>('/audit-log/search', {
+      query: {
+        action: query.action,
+        memberId: query.memberId,
+        familyId: query.familyId,
+        actorId: query.actorId,
+        from: query.from,
+        to: query.to,
+        search: query.search,
+        page: query.page,
+        pageSize: query.pageSize,
+      },
+    });
+  },
+  getAuditLogsForMember(memberId) {
+    return apiRequest<AuditLogEntry[]>(`/members/${encodeURIComponent(memberId)}/audit-log`);
+  },
+  verifyAuditLog(recordedHead) {
+    return apiRequest<AuditChainStatus>('/audit-log/verify', {
+      query: { head: recordedHead?.hash, count: recordedHead?.entryCount },
+    });
+  },
+};
+
+/**
+ * Get the data source for this app instance
+ */
+export function getDataSource(): DataSource {
+  return getApiBaseUrl() ? apiDataSource : localDataSource;
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Member } from '../models/types';
+import {
+  STORAGE_KEYS,
+  createMemoryDriver,
+  createRepositories,
+  setRepositories,
+  type StorageDriver,
+} from '../repositories';
+import { getAllMembers } from './storageService';
+import { createMember, editMember, getMember } from './memberService';
+import {
+  EncryptionLockedError,
+  disableEncryption,
+  enableEncryption,
+  isEncryptedValue,
+  lock,
+  memberEncryptionCodec,
+  unlock,
+  withEncryptedWrites,
+} from './encryptionService';
+import { MEMBER_FORM } from '../test/fixtures';
+
+const PASSPHRASE = 'paddel-2024';
+const NEW_IBAN = 'DE02120300000000202051';
+
+let driver: StorageDriver;
+let member: Member;
+
+/**
+ * Members as they are stored
+ */
+function storedMembers(): Member[] {
+  return driver.read<Member[]>(STORAGE_KEYS.MEMBERS, []);
+}
+
+beforeEach(async () => {
+  driver = createMemoryDriver();
+  setRepositories(createRepositories(driver, { memberCodec: memberEncryptionCodec }));
+  member = createMember(MEMBER_FORM);
+  await enableEncryption(PASSPHRASE, ['iban', 'bic']);
+});
+
+afterEach(() => lock());
+
+describe('enableEncryption', () => {
+  it('stores the selected fields encrypted and hands out the plaintext', () => {
+    const [stored] = storedMembers();
+
+    expect(isEncryptedValue(stored.iban)).toBe(true);
+    expect(isEncryptedValue(stored.bic)).toBe(true);
+    expect(stored.birthDate).toBe(MEMBER_FORM.birthDate);
+    expect(getMember(member.id)).toMatchObject({ iban: MEMBER_FORM.iban, bic: MEMBER_FORM.bic });
+  });
+
+  it('stores the values in plaintext again after disabling', async () => {
+    await disableEncryption(PASSPHRASE);
+
+    expect(storedMembers()[0].iban).toBe(MEMBER_FORM.iban);
+    expect(getMember(member.id)?.iban).toBe(MEMBER_FORM.iban);
+  });
+});
+
+describe('withEncryptedWrites', () => {
+  it('encrypts new values and repeats the write', async () => {
+    expect(() => editMember(member.id, { ...MEMBER_FORM, iban: NEW_IBAN })).toThrow('nicht verschlüsselt');
+    expect(getMember(member.id)?.iban).toBe(MEMBER_FORM.iban);
+
+    await withEncryptedWrites(() => editMember(member.id, { ...MEMBER_FORM, iban: NEW_IBAN }));
+
+    expect(getMember(member.id)?.iban).toBe(NEW_IBAN);
+    expect(isEncryptedValue(storedMembers()[0].iban)).toBe(true);
+  });
+
+  it('refuses new values while locked', async () => {
+    await lock();
+
+    await expect(withEncryptedWrites(() => editMember(member.id, { ...getMember(member.id)!, iban: NEW_IBAN })))
+      .rejects.toThrow(EncryptionLockedError);
+  });
+});
+
+describe('unlock', () => {
+  it('decrypts the locked values with the right passphrase only', async () => {
+    await lock();
+    expect(isEncryptedValue(getAllMembers()[0].iban)).toBe(true);
+
+    await expect(unlock('falsches-passwort')).rejects.toThrow('Passwort ist falsch');
+    await unlock(PASSPHRASE);
+
+    expect(getAllMembers()[0].iban).toBe(MEMBER_FORM.iban);
+  });
+});
@@ -0,0 +1,590 @@
+/**
+ * Encryption Service
+ * Field-level encryption of sensitive member data (IBAN, BIC, optionally the
+ * birth date) at rest. The key is derived from a passphrase (PBKDF2, AES-GCM)
+ * and only kept in memory, so the data has to be unlocked once after every start.
+ *
+ * The storage works synchronously, WebCrypto does not. Values are therefore
+ * encrypted and decrypted ahead of time and the pairs are kept in memory; the
+ * member codec (see repositories/entityCache) only looks them up. Writes that
+ * contain values without an encrypted counterpart fail and are retried by
+ * withEncryptedWrites() once the values are encrypted.
+ * While locked, members carry the encrypted values ("enc:v1:...").
+ */
+
+import type { EncryptableMemberField, EncryptionConfig, Member } from '../models/types';
+import { getRepositories, type EntityCodec } from '../repositories';
+import { getAllMembers, saveAllMembers, runInTransaction } from './storageService';
+import { clearUndoHistory } from './undoService';
+
+/** Prefix of encrypted values (format version 1: base64 of IV and ciphertext) */
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+
+/** Member fields that can be encrypted */
+export const ENCRYPTABLE_FIELDS: EncryptableMemberField[] = ['iban', 'bic', 'birthDate'];
+
+/** Display labels of the encryptable fields */
+export const ENCRYPTABLE_FIELD_LABELS: Record<EncryptableMemberField, string> = {
+  iban: 'IBAN',
+  bic: 'BIC',
+  birthDate: 'Geburtsdatum',
+};
+
+/** Minimum length of the passphrase */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/** Text encrypted as EncryptionConfig.verifier */
+const VERIFIER_TEXT = 'kanu-member-app';
+const VERIFIER_FIELD = 'verifier';
+
+/**
+ * Thrown if encrypted data is needed while no passphrase was entered
+ */
+export class EncryptionLockedError extends Error {
+  constructor() {
+    super('Die verschlüsselten Daten sind gesperrt. Bitte zuerst mit dem Passwort entsperren.');
+    this.name = 'EncryptionLockedError';
+  }
+}
+
+interface FieldValuePair {
+  field: string;
+  value: string;
+}
+
+/**
+ * Thrown by the member codec if a value has not been encrypted yet
+ * (handled by withEncryptedWrites)
+ */
+class PendingEncryptionError extends Error {
+  readonly values: FieldValuePair[];
+
+  constructor(values: FieldValuePair[]) {
+    super('Die Daten konnten nicht verschlüsselt werden');
+    this.name = 'PendingEncryptionError';
+    this.values = values;
+  }
+}
+
+let activeKey: CryptoKey | null = null;
+
+/** Encrypted value by `${field}:${plaintext}` */
+const encryptedByValue = new Map<string, string>();
+
+/** Plaintext by encrypted value */
+const valueByEncrypted = new Map<string, string>();
+
+/** Encrypted values that are being decrypted in the background or could not be decrypted */
+const pendingDecryption = new Set<string>();
+const undecryptable = new Set<string>();
+
+const stateListeners = new Set<() => void>();
+
+/**
+ * Subscribe to enabling, disabling, locking and unlocking
+ * @returns Function to unsubscribe
+ */
+export function onEncryptionStateChanged(listener: () => void): () => void {
+  stateListeners.add(listener);
+  return () => {
+    stateListeners.delete(listener);
+  };
+}
+
+function notifyStateListeners(): void {
+  stateListeners.forEach(listener => listener());
+}
+
+// ============================================
+// Crypto Helpers
+// ============================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+/**
+ * Derive the AES key from the passphrase
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a value. The field name is authenticated as well, so encrypted
+ * values cannot be moved to another field unnoticed.
+ */
+async function encryptText(key: CryptoKey, field: string, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(field) },
+    key,
+    new TextEncoder().encode(text)
+  );
+  const combined = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(ciphertext), IV_BYTES);
+  return `${ENCRYPTED_VALUE_PREFIX}${toBase64(combined)}`;
+}
+
+/**
+ * Decrypt a value created by encryptText
+ * @throws Error if the key is wrong or the value was modified
+ */
+async function decryptText(key: CryptoKey, field: string, value: string): Promise<string> {
+  const combined = fromBase64(value.slice(ENCRYPTED_VALUE_PREFIX.length));
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, IV_BYTES), additionalData: new TextEncoder().encode(field) },
+    key,
+    combined.slice(IV_BYTES)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// ============================================
+// State
+// ============================================
+
+/**
+ * Get the parameters of the active encryption (stored with backups and snapshots)
+ */
+export function getEncryptionConfig(): EncryptionConfig | undefined {
+  return getRepositories().meta.getEncryptionConfig();
+}
+
+/**
+ * Check whether member fields are stored encrypted
+ */
+export function isEncryptionEnabled(): boolean {
+  return getEncryptionConfig() !== undefined;
+}
+
+/**
+ * Check whether the passphrase was entered in this session
+ */
+export function isUnlocked(): boolean {
+  return activeKey !== null && isEncryptionEnabled();
+}
+
+/**
+ * Get the member fields that are stored encrypted
+ */
+export function getEncryptedFields(): EncryptableMemberField[] {
+  return getEncryptionConfig()?.fields ?? [];
+}
+
+/**
+ * Check whether a member field is stored encrypted
+ */
+export function isFieldEncrypted(field: string): boolean {
+  return getEncryptedFields().includes(field as EncryptableMemberField);
+}
+
+/**
+ * Check whether a value is still encrypted (e.g. because the data is locked)
+ */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_VALUE_PREFIX);
+}
+
+/**
+ * Check whether a value has the shape of an EncryptionConfig
+ */
+export function isEncryptionConfig(value: unknown): value is EncryptionConfig {
+  const config = value as Partial<EncryptionConfig> | null;
+  return typeof config === 'object' && config !== null &&
+    Array.isArray(config.fields) &&
+    config.fields.every(field => ENCRYPTABLE_FIELDS.includes(field)) &&
+    typeof config.salt === 'string' &&
+    typeof config.iterations === 'number' &&
+    isEncryptedValue(config.verifier);
+}
+
+function forgetKey(): void {
+  activeKey = null;
+  encryptedByValue.clear();
+  valueByEncrypted.clear();
+  undecryptable.clear();
+}
+
+function remember(field: string, value: string, encrypted: string): void {
+  encryptedByValue.set(`${field}:${value}`, encrypted);
+  valueByEncrypted.set(encrypted, value);
+}
+
+// ============================================
+// Encrypting and Decrypting Values
+// ============================================
+
+/**
+ * Encrypt values that have no encrypted counterpart yet
+ */
+async function encryptValues(values: FieldValuePair[]): Promise<void> {
+  const key = activeKey;
+  if (!key) throw new EncryptionLockedError();
+
+  for (const { field, value } of values) {
+    if (encryptedByValue.has(`${field}:${value}`)) continue;
+    remember(field, value, await encryptText(key, field, value));
+  }
+}
+
+/**
+ * Decrypt values that are not known yet.
+ * Values that cannot be decrypted stay encrypted and are not tried again.
+ */
+async function decryptValues(values: FieldValuePair[]): Promise<void> {
+  const key = activeKey;
+  if (!key) throw new EncryptionLockedError();
+
+  for (const { field, value } of values) {
+    if (valueByEncrypted.has(value) || undecryptable.has(value)) continue;
+    try {
+      remember(field, await decryptText(key, field, value), value);
+    } catch (error) {
+      undecryptable.add(value);
+      console.error(`Wert im Feld ${field} konnte nicht entschlüsselt werden:`, error);
+    }
+  }
+}
+
+/**
+ * Collect the still encrypted values of the encrypted fields
+ */
+function findEncryptedValues(members: Member[]): FieldValuePair[] {
+  const fields = getEncryptedFields();
+  return members.flatMap(member => fields
+    .map(field => ({ field, value: member[field] }))
+    .filter(pair => isEncryptedValue(pair.value))
+  );
+}
+
+/**
+ * Decrypt values that appeared while unlocked (e.g. written by another tab)
+ * and reload the members afterwards
+ */
+function decryptInBackground(values: FieldValuePair[]): void {
+  const fresh = values.filter(({ value }) => !pendingDecryption.has(value));
+  if (fresh.length === 0) return;
+  fresh.forEach(({ value }) => pendingDecryption.add(value));
+
+  decryptValues(fresh)
+    .then(() => getRepositories().refresh())
+    .then(notifyStateListeners)
+    .catch(error => console.error('Entschlüsselung fehlgeschlagen:', error))
+    .finally(() => fresh.forEach(({ value }) => pendingDecryption.delete(value)));
+}
+
+// ============================================
+// Member Codec
+// ============================================
+
+/**
+ * Replace the values of the encrypted fields by their encrypted counterparts
+ * (for storage, backups and snapshots). Values that are already encrypted are kept.
+ * @throws EncryptionLockedError if values have to be encrypted while locked
+ */
+export function sealMembers(members: Member[]): Member[] {
+  const fields = getEncryptedFields();
+  if (fields.length === 0) return members;
+
+  const missing: FieldValuePair[] = [];
+  const sealed = members.map(member => {
+    const copy = { ...member };
+    fields.forEach(field => {
+      const value = member[field];
+      if (!value || isEncryptedValue(value)) return;
+      const encrypted = encryptedByValue.get(`${field}:${value}`);
+      if (encrypted) {
+        copy[field] = encrypted;
+      } else {
+        missing.push({ field, value });
+      }
+    });
+    return copy;
+  });
+
+  if (missing.length > 0) {
+    if (!activeKey) throw new EncryptionLockedError();
+    throw new PendingEncryptionError(missing);
+  }
+  return sealed;
+}
+
+/**
+ * Replace encrypted values by their plaintext where it is known
+ */
+function openMembers(members: Member[]): Member[] {
+  const fields = getEncryptedFields();
+  if (fields.length === 0 || !activeKey) return members;
+
+  const unknown: FieldValuePair[] = [];
+  const opened = members.map(member => {
+    const copy = { ...member };
+    fields.forEach(field => {
+      const value = member[field];
+      if (!isEncryptedValue(value)) return;
+      const plaintext = valueByEncrypted.get(value);
+      if (plaintext !== undefined) {
+        copy[field] = plaintext;
+      } else if (!undecryptable.has(value)) {
+        unknown.push({ field, value });
+      }
+    });
+    return copy;
+  });
+
+  if (unknown.length > 0) decryptInBackground(unknown);
+  return opened;
+}
+
+/**
+ * Replace encrypted values by their plaintext where it is already known,
+ * without decrypting unknown values (e.g. to compare imported with stored values)
+ */
+export function revealKnownValues(member: Member): Member {
+  const copy = { ...member };
+  getEncryptedFields().forEach(field => {
+    const value = member[field];
+    const plaintext = isEncryptedValue(value) ? valueByEncrypted.get(value) : undefined;
+    if (plaintext !== undefined) copy[field] = plaintext;
+  });
+  return copy;
+}
+
+/**
+ * Codec of the member repository (see initializeRepositories)
+ */
+export const memberEncryptionCodec: EntityCodec<Member> = {
+  encode: sealMembers,
+  decode: openMembers,
+};
+
+/**
+ * Check that no member still carries encrypted values (e.g. before a decrypted export)
+ * @throws EncryptionLockedError if values are still encrypted
+ */
+export function requireDecryptedMembers(members: Member[]): Member[] {
+  if (findEncryptedValues(members).length > 0) throw new EncryptionLockedError();
+  return members;
+}
+
+/**
+ * Run a synchronous write. If it contains values that have not been encrypted
+ * yet, they are encrypted and the write is repeated (it was rolled back).
+ */
+export async function withEncryptedWrites<T>(work: () => T): Promise<T> {
+  try {
+    return work();
+  } catch (error) {
+    if (!(error instanceof PendingEncryptionError)) throw error;
+    await encryptValues(error.values);
+    return work();
+  }
+}
+
+// ============================================
+// Locking and Unlocking
+// ============================================
+
+/**
+ * Unlock the encrypted data with the passphrase
+ * @throws Error if the passphrase is wrong
+ */
+export async function unlock(passphrase: string): Promise<void> {
+  const config = getEncryptionConfig();
+  if (!config) {
+    throw new Error('Die Verschlüsselung ist nicht aktiviert.');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    await decryptText(key, VERIFIER_FIELD, config.verifier);
+  } catch {
+    throw new Error('Das Passwort ist falsch.');
+  }
+
+  // Read the members as stored (locked) to find all encrypted values
+  forgetKey();
+  await getRepositories().refresh();
+  const encryptedValues = findEncryptedValues(getRepositories().members.getAll());
+
+  activeKey = key;
+  await decryptValues(encryptedValues);
+  await getRepositories().refresh();
+  notifyStateListeners();
+}
+
+/**
+ * Forget the key and the decrypted values.
+ * The undo history is cleared as well, it contains decrypted values.
+ */
+export async function lock(): Promise<void> {
+  forgetKey();
+  clearUndoHistory();
+  await getRepositories().refresh();
+  notifyStateListeners();
+}
+
+// ============================================
+// Enabling and Disabling
+// ============================================
+
+/**
+ * Rewrite all members, so the stored values match the active configuration
+ */
+function rewriteMembers(): Promise<void> {
+  return withEncryptedWrites(() => runInTransaction(() => saveAllMembers(getAllMembers())));
+}
+
+/**
+ * Encrypt the given member fields of all members with a new passphrase.
+ * The data stays unlocked afterwards.
+ */
+export async function enableEncryption(passphrase: string, fields: EncryptableMemberField[]): Promise<void> {
+  if (isEncryptionEnabled()) {
+    throw new Error('Die Verschlüsselung ist bereits aktiviert.');
+  }
+  if (fields.length === 0) {
+    throw new Error('Bitte mindestens ein Feld auswählen.');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Das Passwort muss mindestens ${MIN_PASSPHRASE_LENGTH} Zeichen lang sein.`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const config: EncryptionConfig = {
+    fields: ENCRYPTABLE_FIELDS.filter(field => fields.includes(field)),
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptText(key, VERIFIER_FIELD, VERIFIER_TEXT),
+  };
+
+  const meta = getRepositories().meta;
+  forgetKey();
+  activeKey = key;
+  meta.setEncryptionConfig(config);
+  try {
+    await rewriteMembers();
+  } catch (error) {
+    meta.clearEncryptionConfig();
+    forgetKey();
+    throw error;
+  } finally {
+    notifyStateListeners();
+  }
+}
+
+/**
+ * Store all member fields unencrypted again
+ * @throws Error if the passphrase is wrong
+ */
+export async function disableEncryption(passphrase: string): Promise<void> {
+  const config = getEncryptionConfig();
+  if (!config) return;
+
+  await unlock(passphrase);
+  if (findEncryptedValues(getAllMembers()).length > 0) {
+    throw new Error('Einige Werte konnten nicht entschlüsselt werden. Die Verschlüsselung bleibt aktiv.');
+  }
+
+  const meta = getRepositories().meta;
+  meta.clearEncryptionConfig();
+  try {
+    await rewriteMembers();
+  } catch (error) {
+    meta.setEncryptionConfig(config);
+    throw error;
+  }
+  forgetKey();
+  notifyStateListeners();
+}
+
+// ============================================
+// Backups and Snapshots
+// ============================================
+
+/**
+ * Check whether data encrypted with `header` can be taken over
+ * @param header Encryption of the data (undefined if it is not encrypted)
+ * @returns Description of the problem, or undefined if the data can be restored
+ */
+export function describeEncryptionConflict(
+  header: EncryptionConfig | undefined,
+  members: Member[]
+): string | undefined {
+  if (!header) {
+    const hasEncryptedValues = members.some(member =>
+      ENCRYPTABLE_FIELDS.some(field => isEncryptedValue(member[field]))
+    );
+    return hasEncryptedValues
+      ? 'Die Daten enthalten verschlüsselte Werte, aber keine Angaben zur Verschlüsselung.'
+      : undefined;
+  }
+
+  const current = getEncryptionConfig();
+  if (current && current.salt !== header.salt) {
+    return 'Die Daten wurden mit einem anderen Passwort verschlüsselt. ' +
+      'Deaktivieren Sie die Verschlüsselung, bevor Sie sie wiederherstellen.';
+  }
+  return undefined;
+}
+
+/**
+ * Restore data that may be encrypted (backups, snapshots).
+ * Encrypted data is adopted together with its encryption parameters if the
+ * encryption is not enabled yet; it has to be unlocked with its passphrase then.
+ * Unencrypted data is encrypted if the encryption is enabled.
+ */
+export async function withRestoredEncryption<T>(
+  header: EncryptionConfig | undefined,
+  members: Member[],
+  work: () => T
+): Promise<T> {
+  const conflict = describeEncryptionConflict(header, members);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+
+  const meta = getRepositories().meta;
+  const adopt = header !== undefined && !isEncryptionEnabled();
+  if (adopt) {
+    forgetKey();
+    meta.setEncryptionConfig(header);
+  }
+
+  try {
+    return await withEncryptedWrites(work);
+  } catch (error) {
+    if (adopt) meta.clearEncryptionConfig();
+    throw error;
+  } finally {
+    if (adopt) notifyStateListeners();
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Member } from '../models/types';
+import {
+  STORAGE_KEYS,
+  createMemoryDriver,
+  createRepositories,
+  getRepositories,
+  setRepositories,
+  type StorageDriver,
+} from '../repositories';
+import { getAllMembers, getAuditLog, getKnownAuditChainHeads } from './storageService';
+import { logDataExported, verifyAuditLog } from './auditService';
+import { getSettings, updateSettings } from './settingsService';
+import { enableEncryption, isEncryptedValue, lock, memberEncryptionCodec } from './encryptionService';
+import { initializeExampleData, resetToExampleData } from './initService';
+
+let driver: StorageDriver;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  driver = createMemoryDriver();
+  setRepositories(createRepositories(driver, { memberCodec: memberEncryptionCodec }));
+  initializeExampleData();
+});
+
+afterEach(() => lock());
+
+describe('resetToExampleData', () => {
+  it('keeps the audit log verifiable', async () => {
+    logDataExported(3);
+
+    await resetToExampleData();
+
+    expect(getAuditLog().some(entry => entry.action === 'AUDIT_LOG_CLEARED')).toBe(true);
+    expect(getKnownAuditChainHeads()).not.toHaveLength(0);
+    expect(verifyAuditLog().valid).toBe(true);
+  });
+
+  it('keeps the settings and the encryption', async () => {
+    updateSettings({ theme: 'dark', snapshotRetention: 3 });
+    await enableEncryption('geheim123', ['iban']);
+
+    await resetToExampleData();
+
+    expect(getSettings()).toMatchObject({ theme: 'dark', snapshotRetention: 3 });
+    expect(getRepositories().meta.getEncryptionConfig()?.fields).toEqual(['iban']);
+    expect(driver.read<Member[]>(STORAGE_KEYS.MEMBERS, []).every(member => isEncryptedValue(member.iban))).toBe(true);
+    expect(getAllMembers().some(member => isEncryptedValue(member.iban))).toBe(false);
+  });
+
+  it('refuses to reset locked encrypted data', async () => {
+    await enableEncryption('geheim123', ['iban']);
+    await lock();
+
+    await expect(resetToExampleData()).rejects.toThrow('gesperrt');
+    expect(getAllMembers()).not.toHaveLength(0);
+  });
+});
@@ -5,8 +5,20 @@
  */
 
 import type { Member, Family } from '../models/types';
-import { saveAllMembers, saveAllFamilies, isInitialized, setInitialized } from './storageService';
-import { logMemberCreated, logFamilyCreated } from './auditService';
+import {
+  saveAllMembers,
+  saveAllFamilies,
+  isInitialized,
+  setInitialized,
+  clearAllData,
+  saveAuditLog,
+  runInTransaction,
+} from './storageService';
+import { logMemberCreated, logFamilyCreated, clearAuditLog } from './auditService';
+import { stampSchemaVersion } from './migrationService';
+import { snapshotBeforeChange, type SnapshotBeforeChangeOptions } from './snapshotService';
+import { clearUndoHistory } from './undoService';
+import { EncryptionLockedError, isEncryptionEnabled, isUnlocked, withEncryptedWrites } from './encryptionService';
 
 /**
  * Initialize the application with example data
@@ -16,20 +28,23 @@ export function initializeExampleData(): void {
     return; // Already initialized
   }
   
-  // Create families first
-  const families = createExampleFamilies();
-  saveAllFamilies(families);
-  
-  // Create members
-  const members = createExampleMembers(families);
-  saveAllMembers(members);
-  
-  // Log creation events
-  families.forEach(family => logFamilyCreated(family));
-  members.forEach(member => logMemberCreated(member));
+  runInTransaction(() => {
+    // Create families first
+    const families = createExampleFamilies();
+    saveAllFamilies(families);
+    
+    // Create members
+    const members = createExampleMembers(families);
+    saveAllMembers(members);
+    
+    // Log creation events
+    families.forEach(family => logFamilyCreated(family));
+    members.forEach(member => logMemberCreated(member));
+  });
   
   // Mark as initialized
   setInitialized();
+  stampSchemaVersion();
   
   console.log('Demo-Daten wurden initialisiert');
 }
@@ -277,15 +292,24 @@ function createExampleMembers(_families: Family[]): Member[] {
 }
 
 /**
- * Reset all data and reinitialize with example data
+ * Reset the club data and reinitialize with example data.
+ * Settings and the encryption stay; the example data is encrypted as well.
+ * @throws EncryptionLockedError if the encrypted data is locked
+ * @throws SnapshotFailedError if the current data could not be saved
  */
-export function resetToExampleData(): void {
-  // Clear the initialized flag to allow reinitialization
-  localStorage.removeItem('kanu_initialized');
-  localStorage.removeItem('kanu_members');
-  localStorage.removeItem('kanu_families');
-  localStorage.removeItem('kanu_audit_log');
+export async function resetToExampleData(options: SnapshotBeforeChangeOptions = {}): Promise<void> {
+  if (isEncryptionEnabled() && !isUnlocked()) {
+    throw new EncryptionLockedError();
+  }
+  await snapshotBeforeChange('reset', options);
+  
+  // Clear the club data including the initialized flag to allow reinitialization.
+  // The anchor entry of the cleared audit log is kept, so the reset stays visible.
+  const anchor = clearAuditLog();
+  clearAllData();
+  saveAuditLog([anchor]);
   
   // Reinitialize
-  initializeExampleData();
+  await withEncryptedWrites(initializeExampleData);
+  clearUndoHistory();
 }
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Member, MemberFormData } from '../models/types';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getMemberAuditLog, saveAllFamilies } from './storageService';
+import { logAuditLogArchived, logBackupRestored } from './auditService';
+import { createFamily, createMember, editMember, getMember, restoreMemberVersion } from './memberService';
+import { MEMBER_FORM } from '../test/fixtures';
+
+/**
+ * Change a member at the given time
+ */
+function editAt(time: string, member: Member, changes: Partial<MemberFormData>): Member {
+  vi.setSystemTime(new Date(time));
+  return editMember(member.id, { ...MEMBER_FORM, ...member, ...changes });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  setRepositories(createRepositories(createMemoryDriver()));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('restoreMemberVersion', () => {
+  let member: Member;
+
+  beforeEach(() => {
+    vi.setSystemTime(new Date('2024-01-01T10:00:00.000Z'));
+    member = createMember(MEMBER_FORM);
+    member = editAt('2024-02-01T10:00:00.000Z', member, { city: 'Essen' });
+    member = editAt('2024-03-01T10:00:00.000Z', member, { city: 'Köln', iban: 'DE02120300000000202051' });
+    vi.setSystemTime(new Date('2024-04-01T10:00:00.000Z'));
+  });
+
+  it('restores the state at a point in time and keeps masked fields', () => {
+    const restored = restoreMemberVersion(member.id, { pointInTime: '2024-01-15T00:00:00.000Z' });
+
+    expect(restored.city).toBe('Bonn');
+    expect(restored.iban).toBe('DE02120300000000202051');
+    expect(getMember(member.id)?.city).toBe('Bonn');
+    const [entry] = getMemberAuditLog(member.id);
+    expect(entry.action).toBe('MEMBER_RESTORED');
+    expect(entry.details?.skippedFields).toEqual(['IBAN']);
+  });
+
+  it('restores the values before a single change', () => {
+    const change = getMemberAuditLog(member.id)
+      .find(entry => entry.action === 'MEMBER_UPDATED' && entry.timestamp.startsWith('2024-02-01'))!;
+
+    expect(restoreMemberVersion(member.id, { entryId: change.id }).city).toBe('Bonn');
+  });
+
+  it('refuses to restore values the member already has', () => {
+    const change = getMemberAuditLog(member.id)
+      .find(entry => entry.action === 'MEMBER_UPDATED' && entry.timestamp.startsWith('2024-03-01'))!;
+    restoreMemberVersion(member.id, { entryId: change.id });
+
+    expect(() => restoreMemberVersion(member.id, { entryId: change.id })).toThrow('entsprechen bereits');
+  });
+
+  it('restores a former family membership unless the family was dissolved', () => {
+    const family = createFamily('Familie Schmidt');
+    member = editAt('2024-04-01T10:00:00.000Z', member, { familyId: family.id });
+    member = editAt('2024-05-01T10:00:00.000Z', member, { familyId: undefined });
+
+    expect(restoreMemberVersion(member.id, { pointInTime: '2024-04-15T00:00:00.000Z' }).familyId).toBe(family.id);
+
+    member = editAt('2024-06-01T10:00:00.000Z', getMember(member.id)!, { familyId: undefined });
+    saveAllFamilies([]);
+    expect(() => restoreMemberVersion(member.id, { pointInTime: '2024-04-15T00:00:00.000Z' }))
+      .toThrow('Familie "Familie Schmidt" existiert nicht mehr');
+  });
+
+  it('refuses a point in time before the member was created', () => {
+    expect(() => restoreMemberVersion(member.id, { pointInTime: '2023-12-01T00:00:00.000Z' }))
+      .toThrow('noch nicht erfasst');
+  });
+
+  it('refuses a point in time before an operation without recorded field values', () => {
+    logBackupRestored('2024-01-01T00:00:00.000Z', 1, 0, 3);
+    member = editAt('2024-05-01T10:00:00.000Z', member, { city: 'Dortmund' });
+
+    expect(() => restoreMemberVersion(member.id, { pointInTime: '2024-02-15T00:00:00.000Z' }))
+      .toThrow('nicht vollständig wiederhergestellt');
+    expect(getMember(member.id)?.city).toBe('Dortmund');
+    expect(restoreMemberVersion(member.id, { pointInTime: '2024-04-15T00:00:00.000Z' }).city).toBe('Köln');
+  });
+
+  it('refuses a point in time whose later changes were archived', () => {
+    logAuditLogArchived('archive-1', 2, '2024-01-01T10:00:00.000Z', '2024-02-01T10:00:00.000Z', 'hash');
+
+    expect(getMemberAuditLog(member.id)[0].action).toBe('AUDIT_LOG_ARCHIVED');
+    expect(() => restoreMemberVersion(member.id, { pointInTime: '2024-01-15T00:00:00.000Z' }))
+      .toThrow('Historie archiviert');
+    expect(restoreMemberVersion(member.id, { pointInTime: '2024-02-15T00:00:00.000Z' }).city).toBe('Essen');
+  });
+});
@@ -2,10 +2,21 @@
  * Member Service
  * Handles all member-related business logic.
  * Acts as an intermediary between components and storage.
+ * Every operation runs in a transaction, so member, family and audit log
+ * changes are stored all-or-nothing.
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { Member, MemberFormData, MemberFilter, Family } from '../models/types';
+import type {
+  Member,
+  MemberFormData,
+  MemberFilter,
+  MemberStats,
+  Family,
+  FieldChange,
+  FieldValue,
+  MemberRestoreSource,
+} from '../models/types';
 import {
   getAllMembers,
   getMemberById,
@@ -18,192 +29,273 @@ import {
   getFamilyMembers,
   saveAllMembers,
   saveAllFamilies,
+  getMemberAuditLog,
+  runInTransaction,
 } from './storageService';
 import {
   logMemberCreated,
   logMemberUpdated,
   logMemberActivated,
   logMemberDeactivated,
+  logMemberRestored,
   logFamilyCreated,
   logFamilyMemberAdded,
   logFamilyMemberRemoved,
   logFamilyMainMemberChanged,
+  logFamilyMainMemberReplaced,
+  getFieldChanges,
+  isRestorableMemberEntry,
+  reconstructMemberAt,
+  formatActionType,
+  toFieldValue,
 } from './auditService';
 
-// ============================================
-// Member Operations
-// ============================================
+/**
+ * Display labels of the editable member fields
+ */
+export const MEMBER_FIELD_LABELS: Record<keyof MemberFormData, string> = {
+  firstName: 'Vorname',
+  lastName: 'Nachname',
+  birthDate: 'Geburtsdatum',
+  street: 'Straße',
+  postalCode: 'PLZ',
+  city: 'Ort',
+  iban: 'IBAN',
+  bic: 'BIC',
+  entryDate: 'Eintrittsdatum',
+  exitDate: 'Austrittsdatum',
+  familyId: 'Familie',
+  isMainFamilyMember: 'Hauptmitglied',
+};
 
 /**
- * Create a new member
+ * Labels of all member fields recorded in the audit log
  */
-export function createMember(formData: MemberFormData): Member {
-  const now = new Date().toISOString();
-  
-  const member: Member = {
-    id: uuidv4(),
-    firstName: formData.firstName,
-    lastName: formData.lastName,
-    birthDate: formData.birthDate,
-    street: formData.street,
-    postalCode: formData.postalCode,
-    city: formData.city,
-    iban: formData.iban,
-    bic: formData.bic,
-    entryDate: formData.entryDate,
-    exitDate: formData.exitDate,
-    isActive: true,
-    familyId: formData.familyId,
-    isMainFamilyMember: formData.isMainFamilyMember,
-    createdAt: now,
-    updatedAt: now,
-  };
-  
-  saveMember(member);
-  logMemberCreated(member);
+export const AUDITED_FIELD_LABELS: Record<string, string> = {
+  ...MEMBER_FIELD_LABELS,
+  isActive: 'Status',
+};
+
+/**
+ * Determine old and new value of every field that differs between two versions of a member
+ */
+export function diffMemberFields(before: Member, after: Member): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  Object.entries(AUDITED_FIELD_LABELS).forEach(([field, label]) => {
+    const oldValue = toFieldValue(field, before[field as keyof Member]);
+    const newValue = toFieldValue(field, after[field as keyof Member]);
+    if (oldValue === newValue) return;
+
+    const change: FieldChange = { field, label, oldValue, newValue };
+    if (field === 'familyId') {
+      // Family IDs are not readable, so the names are recorded as well
+      if (typeof oldValue === 'string') change.oldDisplay = getFamilyById(oldValue)?.name;
+      if (typeof newValue === 'string') change.newDisplay = getFamilyById(newValue)?.name;
+    }
+    changes.push(change);
+  });
+
+  return changes;
+}
+
+/**
+ * Thrown if a member was changed by someone else since it was loaded for editing
+ */
+export class ConcurrentModificationError extends Error {
+  /** The member as it is stored now */
+  readonly currentMember: Member;
+
+  constructor(currentMember: Member) {
+    super(
+      `${currentMember.firstName} ${currentMember.lastName} wurde inzwischen ` +
+      'an anderer Stelle geändert.'
+    );
+    this.name = 'ConcurrentModificationError';
+    this.currentMember = currentMember;
+  }
+}
+
+/**
+ * Record that a member leaves its family and/or joins another one.
+ * The member itself is saved by the caller.
+ */
+function changeFamily(existingMember: Member, newFamilyId: string | undefined): void {
+  const oldFamilyId = existingMember.familyId;
+  if (oldFamilyId === newFamilyId) return;
   
-  // Handle family assignment
-  if (formData.familyId) {
-    const family = getFamilyById(formData.familyId);
-    if (family) {
-      logFamilyMemberAdded(member, family);
+  // Remove from old family
+  if (oldFamilyId) {
+    const oldFamily = getFamilyById(oldFamilyId);
+    if (oldFamily) {
+      logFamilyMemberRemoved(existingMember, oldFamily);
       
-      // If this is the main member, update the family
-      if (formData.isMainFamilyMember) {
-        updateFamilyMainMember(family.id, member.id);
+      // If was main member, clear that
+      if (existingMember.isMainFamilyMember && oldFamily.mainMemberId === existingMember.id) {
+        oldFamily.mainMemberId = undefined;
+        oldFamily.updatedAt = new Date().toISOString();
+        updateFamily(oldFamily);
       }
     }
   }
   
-  return member;
+  // Add to new family
+  if (newFamilyId) {
+    const newFamily = getFamilyById(newFamilyId);
+    if (newFamily) {
+      logFamilyMemberAdded({ ...existingMember, familyId: newFamilyId }, newFamily);
+    }
+  }
 }
 
+// ============================================
+// Member Operations
+// ============================================
+
 /**
- * Update an existing member
+ * Create a new member
  */
-export function editMember(id: string, formData: MemberFormData): Member {
-  const existingMember = getMemberById(id);
-  if (!existingMember) {
-    throw new Error(`Member with ID ${id} not found`);
-  }
-  
-  // Track changed fields for audit log
-  const changedFields: string[] = [];
-  if (existingMember.firstName !== formData.firstName) changedFields.push('Vorname');
-  if (existingMember.lastName !== formData.lastName) changedFields.push('Nachname');
-  if (existingMember.birthDate !== formData.birthDate) changedFields.push('Geburtsdatum');
-  if (existingMember.street !== formData.street) changedFields.push('Straße');
-  if (existingMember.postalCode !== formData.postalCode) changedFields.push('PLZ');
-  if (existingMember.city !== formData.city) changedFields.push('Ort');
-  if (existingMember.iban !== formData.iban) changedFields.push('IBAN');
-  if (existingMember.bic !== formData.bic) changedFields.push('BIC');
-  if (existingMember.entryDate !== formData.entryDate) changedFields.push('Eintrittsdatum');
-  if (existingMember.exitDate !== formData.exitDate) changedFields.push('Austrittsdatum');
-  
-  // Handle family changes
-  const oldFamilyId = existingMember.familyId;
-  const newFamilyId = formData.familyId;
-  
-  if (oldFamilyId !== newFamilyId) {
-    changedFields.push('Familie');
-    
-    // Remove from old family
-    if (oldFamilyId) {
-      const oldFamily = getFamilyById(oldFamilyId);
-      if (oldFamily) {
-        logFamilyMemberRemoved(existingMember, oldFamily);
+export function createMember(formData: MemberFormData): Member {
+  return runInTransaction(() => {
+    const now = new Date().toISOString();
+    
+    const member: Member = {
+      id: uuidv4(),
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+      birthDate: formData.birthDate,
+      street: formData.street,
+      postalCode: formData.postalCode,
+      city: formData.city,
+      iban: formData.iban,
+      bic: formData.bic,
+      entryDate: formData.entryDate,
+      exitDate: formData.exitDate,
+      isActive: true,
+      familyId: formData.familyId,
+      isMainFamilyMember: formData.isMainFamilyMember,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    saveMember(member);
+    logMemberCreated(member);
+    
+    // Handle family assignment
+    if (formData.familyId) {
+      const family = getFamilyById(formData.familyId);
+      if (family) {
+        logFamilyMemberAdded(member, family);
         
-        // If was main member, clear that
-        if (existingMember.isMainFamilyMember && oldFamily.mainMemberId === id) {
-          oldFamily.mainMemberId = undefined;
-          oldFamily.updatedAt = new Date().toISOString();
-          updateFamily(oldFamily);
+        // If this is the main member, update the family
+        if (formData.isMainFamilyMember) {
+          updateFamilyMainMember(family.id, member.id);
         }
       }
     }
     
-    // Add to new family
-    if (newFamilyId) {
-      const newFamily = getFamilyById(newFamilyId);
-      if (newFamily) {
-        logFamilyMemberAdded({ ...existingMember, familyId: newFamilyId }, newFamily);
-      }
+    return member;
+  });
+}
+
+/**
+ * Update an existing member
+ * @param expectedUpdatedAt updatedAt of the version the changes are based on;
+ *   if the stored member has changed since, a ConcurrentModificationError is thrown
+ */
+export function editMember(id: string, formData: MemberFormData, expectedUpdatedAt?: string): Member {
+  return runInTransaction(() => {
+    const existingMember = getMemberById(id);
+    if (!existingMember) {
+      throw new Error(`Member with ID ${id} not found`);
     }
-  }
-  
-  const updatedMember: Member = {
-    ...existingMember,
-    firstName: formData.firstName,
-    lastName: formData.lastName,
-    birthDate: formData.birthDate,
-    street: formData.street,
-    postalCode: formData.postalCode,
-    city: formData.city,
-    iban: formData.iban,
-    bic: formData.bic,
-    entryDate: formData.entryDate,
-    exitDate: formData.exitDate,
-    familyId: formData.familyId,
-    isMainFamilyMember: formData.isMainFamilyMember,
-    updatedAt: new Date().toISOString(),
-  };
-  
-  updateMember(updatedMember);
-  
-  if (changedFields.length > 0) {
-    logMemberUpdated(updatedMember, changedFields);
-  }
-  
-  // Handle main member status change
-  if (formData.isMainFamilyMember && formData.familyId) {
-    updateFamilyMainMember(formData.familyId, id);
-  }
-  
-  return updatedMember;
+    
+    if (expectedUpdatedAt !== undefined && existingMember.updatedAt !== expectedUpdatedAt) {
+      throw new ConcurrentModificationError(existingMember);
+    }
+    
+    changeFamily(existingMember, formData.familyId);
+    
+    const updatedMember: Member = {
+      ...existingMember,
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+      birthDate: formData.birthDate,
+      street: formData.street,
+      postalCode: formData.postalCode,
+      city: formData.city,
+      iban: formData.iban,
+      bic: formData.bic,
+      entryDate: formData.entryDate,
+      exitDate: formData.exitDate,
+      familyId: formData.familyId,
+      isMainFamilyMember: formData.isMainFamilyMember,
+      updatedAt: new Date().toISOString(),
+    };
+    
+    updateMember(updatedMember);
+    
+    // Record old and new values for the audit log
+    const changes = diffMemberFields(existingMember, updatedMember);
+    if (changes.length > 0) {
+      logMemberUpdated(updatedMember, changes);
+    }
+    
+    // Handle main member status change
+    if (formData.isMainFamilyMember && formData.familyId) {
+      updateFamilyMainMember(formData.familyId, id);
+    }
+    
+    return updatedMember;
+  });
 }
 
 /**
  * Activate a member
  */
 export function activateMember(id: string): Member {
-  const member = getMemberById(id);
-  if (!member) {
-    throw new Error(`Member with ID ${id} not found`);
-  }
-  
-  const updatedMember: Member = {
-    ...member,
-    isActive: true,
-    exitDate: undefined,
-    updatedAt: new Date().toISOString(),
-  };
-  
-  updateMember(updatedMember);
-  logMemberActivated(updatedMember);
-  
-  return updatedMember;
+  return runInTransaction(() => {
+    const member = getMemberById(id);
+    if (!member) {
+      throw new Error(`Member with ID ${id} not found`);
+    }
+    
+    const updatedMember: Member = {
+      ...member,
+      isActive: true,
+      exitDate: undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    
+    updateMember(updatedMember);
+    logMemberActivated(updatedMember, diffMemberFields(member, updatedMember));
+    
+    return updatedMember;
+  });
 }
 
 /**
  * Deactivate a member (soft delete)
  */
 export function deactivateMember(id: string): Member {
-  const member = getMemberById(id);
-  if (!member) {
-    throw new Error(`Member with ID ${id} not found`);
-  }
-  
-  const updatedMember: Member = {
-    ...member,
-    isActive: false,
-    exitDate: new Date().toISOString().split('T')[0],
-    updatedAt: new Date().toISOString(),
-  };
-  
-  updateMember(updatedMember);
-  logMemberDeactivated(updatedMember);
-  
-  return updatedMember;
+  return runInTransaction(() => {
+    const member = getMemberById(id);
+    if (!member) {
+      throw new Error(`Member with ID ${id} not found`);
+    }
+    
+    const updatedMember: Member = {
+      ...member,
+      isActive: false,
+      exitDate: new Date().toISOString().split('T')[0],
+      updatedAt: new Date().toISOString(),
+    };
+    
+    updateMember(updatedMember);
+    logMemberDeactivated(updatedMember, diffMemberFields(member, updatedMember));
+    
+    return updatedMember;
+  });
 }
 
 /**
@@ -256,27 +348,165 @@ export function getMember(id: string): Member | undefined {
 }
 
 // ============================================
-// Family Operations
+// Restoring Former Versions
 // ============================================
 
 /**
- * Create a new family
+ * Convert a recorded audit value back into a member property
  */
-export function createFamily(name: string, mainMemberId?: string): Family {
-  const now = new Date().toISOString();
+function fromFieldValue(field: string, value: FieldValue): Member[keyof Member] {
+  if (typeof value === 'boolean') return value;
+  if (value === null) return field === 'exitDate' || field === 'familyId' ? undefined : '';
+  return value;
+}
+
+/**
+ * Apply recorded field values to a member and log the restore
+ * @param values Field values to restore, keyed by Member property
+ * @param displays Recorded display texts of reference values (e.g. former family name)
+ * @throws Error if the restored family no longer exists or nothing would change
+ */
+function applyRestoredValues(
+  existingMember: Member,
+  values: Record<string, FieldValue>,
+  displays: Record<string, string | undefined>,
+  restoredFrom: { entryId?: string; timestamp: string },
+  skippedFields: string[]
+): Member {
+  const restored: Record<string, unknown> = { ...existingMember };
+  Object.keys(AUDITED_FIELD_LABELS).forEach(field => {
+    if (field in values) {
+      restored[field] = fromFieldValue(field, values[field]);
+    }
+  });
+  const updatedMember = restored as unknown as Member;
+  
+  // The family may have been dissolved since
+  if (updatedMember.familyId && !getFamilyById(updatedMember.familyId)) {
+    const familyName = displays.familyId ?? updatedMember.familyId;
+    throw new Error(
+      `Die Familie "${familyName}" existiert nicht mehr. Bitte ordnen Sie das Mitglied manuell einer Familie zu.`
+    );
+  }
+  if (!updatedMember.familyId) {
+    updatedMember.isMainFamilyMember = false;
+  }
   
-  const family: Family = {
-    id: uuidv4(),
-    name,
-    mainMemberId,
-    createdAt: now,
-    updatedAt: now,
-  };
+  const changes = diffMemberFields(existingMember, updatedMember);
+  if (changes.length === 0) {
+    throw new Error('Die Daten entsprechen bereits diesem Stand.');
+  }
   
-  saveFamily(family);
-  logFamilyCreated(family);
+  changeFamily(existingMember, updatedMember.familyId);
+  updatedMember.updatedAt = new Date().toISOString();
+  updateMember(updatedMember);
+  logMemberRestored(updatedMember, changes, restoredFrom, skippedFields);
+  
+  if (updatedMember.isMainFamilyMember && updatedMember.familyId) {
+    updateFamilyMainMember(updatedMember.familyId, updatedMember.id);
+  }
   
-  return family;
+  return updatedMember;
+}
+
+/**
+ * Restore a former version of a member from the audit log.
+ * Fields only recorded masked (IBAN, BIC, birth date) keep their current value.
+ * @throws Error if the version cannot be restored
+ */
+export function restoreMemberVersion(id: string, source: MemberRestoreSource): Member {
+  return runInTransaction(() => {
+    const existingMember = getMemberById(id);
+    if (!existingMember) {
+      throw new Error(`Member with ID ${id} not found`);
+    }
+    const history = getMemberAuditLog(id);
+    
+    if ('entryId' in source) {
+      const entry = history.find(e => e.id === source.entryId);
+      if (!entry) {
+        throw new Error('Der Eintrag wurde in der Historie des Mitglieds nicht gefunden.');
+      }
+      if (!isRestorableMemberEntry(entry)) {
+        throw new Error('Nur Änderungen an Mitgliedsdaten können rückgängig gemacht werden.');
+      }
+      
+      // The values before this change
+      const values: Record<string, FieldValue> = {};
+      const displays: Record<string, string | undefined> = {};
+      const skippedFields: string[] = [];
+      getFieldChanges(entry).forEach(change => {
+        if (change.masked) {
+          skippedFields.push(change.label);
+          return;
+        }
+        values[change.field] = change.oldValue;
+        displays[change.field] = change.oldDisplay;
+      });
+      
+      return applyRestoredValues(
+        existingMember,
+        values,
+        displays,
+        { entryId: entry.id, timestamp: entry.timestamp },
+        skippedFields
+      );
+    }
+    
+    const pointInTime = new Date(source.pointInTime);
+    if (Number.isNaN(pointInTime.getTime())) {
+      throw new Error('Ungültiger Zeitpunkt');
+    }
+    const reconstructed = reconstructMemberAt(existingMember, history, pointInTime);
+    if (!reconstructed) {
+      throw new Error('Zu diesem Zeitpunkt war das Mitglied noch nicht erfasst.');
+    }
+    if (reconstructed.incompleteEntries.length > 0) {
+      const actions = new Set(reconstructed.incompleteEntries.map(entry => formatActionType(entry.action)));
+      throw new Error(
+        `${reconstructed.incompleteEntries.length} spätere(r) Eintrag/Einträge enthalten keine Feldwerte ` +
+        `des Mitglieds (${[...actions].join(', ')}). ` +
+        'Der Stand zu diesem Zeitpunkt kann nicht vollständig wiederhergestellt werden.'
+      );
+    }
+    
+    const values = { ...reconstructed.values };
+    reconstructed.maskedFields.forEach(field => delete values[field]);
+    
+    return applyRestoredValues(
+      existingMember,
+      values,
+      reconstructed.displays,
+      { timestamp: pointInTime.toISOString() },
+      reconstructed.maskedFields.map(field => AUDITED_FIELD_LABELS[field] ?? field)
+    );
+  });
+}
+
+// ============================================
+// Family Operations
+// ============================================
+
+/**
+ * Create a new family
+ */
+export function createFamily(name: string, mainMemberId?: string): Family {
+  return runInTransaction(() => {
+    const now = new Date().toISOString();
+    
+    const family: Family = {
+      id: uuidv4(),
+      name,
+      mainMemberId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    saveFamily(family);
+    logFamilyCreated(family);
+    
+    return family;
+  });
 }
 
 /**
@@ -304,76 +534,88 @@ export function getMembersOfFamily(familyId: string): Member[] {
  * Update the main member of a family
  */
 export function updateFamilyMainMember(familyId: string, memberId: string): void {
-  const family = getFamilyById(familyId);
-  if (!family) {
-    throw new Error(`Family with ID ${familyId} not found`);
-  }
-  
-  const member = getMemberById(memberId);
-  if (!member) {
-    throw new Error(`Member with ID ${memberId} not found`);
-  }
-  
-  // Clear isMainFamilyMember from all other family members
-  const familyMembers = getFamilyMembers(familyId);
-  familyMembers.forEach(m => {
-    if (m.id !== memberId && m.isMainFamilyMember) {
-      const updated = { ...m, isMainFamilyMember: false, updatedAt: new Date().toISOString() };
-      updateMember(updated);
+  return runInTransaction(() => {
+    const family = getFamilyById(familyId);
+    if (!family) {
+      throw new Error(`Family with ID ${familyId} not found`);
     }
-  });
-  
-  // Update the family
-  const updatedFamily: Family = {
-    ...family,
-    mainMemberId: memberId,
-    updatedAt: new Date().toISOString(),
-  };
-  updateFamily(updatedFamily);
-  
-  // Update the member
-  if (!member.isMainFamilyMember) {
-    const updatedMember: Member = {
-      ...member,
-      isMainFamilyMember: true,
+    
+    const member = getMemberById(memberId);
+    if (!member) {
+      throw new Error(`Member with ID ${memberId} not found`);
+    }
+    
+    // Clear isMainFamilyMember from all other family members
+    const familyMembers = getFamilyMembers(familyId);
+    const replacedMembers: { before: Member; after: Member }[] = [];
+    familyMembers.forEach(m => {
+      if (m.id !== memberId && m.isMainFamilyMember) {
+        const updated = { ...m, isMainFamilyMember: false, updatedAt: new Date().toISOString() };
+        updateMember(updated);
+        replacedMembers.push({ before: m, after: updated });
+      }
+    });
+    
+    // Update the family
+    const updatedFamily: Family = {
+      ...family,
+      mainMemberId: memberId,
       updatedAt: new Date().toISOString(),
     };
-    updateMember(updatedMember);
-  }
-  
-  logFamilyMainMemberChanged(updatedFamily, member);
+    updateFamily(updatedFamily);
+    
+    // Update the member
+    let changes: FieldChange[] = [];
+    if (!member.isMainFamilyMember) {
+      const updatedMember: Member = {
+        ...member,
+        isMainFamilyMember: true,
+        updatedAt: new Date().toISOString(),
+      };
+      updateMember(updatedMember);
+      changes = diffMemberFields(member, updatedMember);
+    }
+    
+    logFamilyMainMemberChanged(updatedFamily, member, changes);
+    
+    // The history of each former main member records the lost flag as well
+    replacedMembers.forEach(({ before, after }) => {
+      logFamilyMainMemberReplaced(updatedFamily, before, member, diffMemberFields(before, after));
+    });
+  });
 }
 
 /**
  * Remove a member from their family
  */
 export function removeMemberFromFamily(memberId: string): void {
-  const member = getMemberById(memberId);
-  if (!member || !member.familyId) return;
-  
-  const family = getFamilyById(member.familyId);
-  if (!family) return;
-  
-  logFamilyMemberRemoved(member, family);
-  
-  // If this was the main member, clear that
-  if (family.mainMemberId === memberId) {
-    const updatedFamily: Family = {
-      ...family,
-      mainMemberId: undefined,
+  return runInTransaction(() => {
+    const member = getMemberById(memberId);
+    if (!member || !member.familyId) return;
+    
+    const family = getFamilyById(member.familyId);
+    if (!family) return;
+    
+    // If this was the main member, clear that
+    if (family.mainMemberId === memberId) {
+      const updatedFamily: Family = {
+        ...family,
+        mainMemberId: undefined,
+        updatedAt: new Date().toISOString(),
+      };
+      updateFamily(updatedFamily);
+    }
+    
+    // Update the member
+    const updatedMember: Member = {
+      ...member,
+      familyId: undefined,
+      isMainFamilyMember: false,
       updatedAt: new Date().toISOString(),
     };
-    updateFamily(updatedFamily);
-  }
-  
-  // Update the member
-  const updatedMember: Member = {
-    ...member,
-    familyId: undefined,
-    isMainFamilyMember: false,
-    updatedAt: new Date().toISOString(),
-  };
-  updateMember(updatedMember);
+    updateMember(updatedMember);
+    logFamilyMemberRemoved(member, family, diffMemberFields(member, updatedMember));
+  });
 }
 
 // ============================================
@@ -397,12 +639,7 @@ export function bulkSaveFamilies(families: Family[]): void {
 /**
  * Get member statistics
  */
-export function getMemberStats(): {
-  total: number;
-  active: number;
-  inactive: number;
-  familyCount: number;
-} {
+export function getMemberStats(): MemberStats {
   const members = getAllMembers();
   const families = getAllFamilies();
   
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { STORAGE_KEYS, createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAllFamilies, getAllMembers, getAuditLog, getSchemaVersion } from './storageService';
+import { verifyAuditLog } from './auditService';
+import { CURRENT_SCHEMA_VERSION, SchemaVersionError, migratePersistedData, runMigrations } from './migrationService';
+
+/**
+ * Use repositories seeded with the given raw values
+ */
+function useStoredData(data: Record<string, unknown>): void {
+  setRepositories(createRepositories(createMemoryDriver(data)));
+}
+
+const LEGACY_MEMBER = {
+  id: 'm1',
+  firstName: 'Anna',
+  lastName: 'Schmidt',
+  birthDate: '1985-03-09',
+  entryDate: '2020-01-01',
+  exitDate: '',
+  familyId: '',
+  isActive: 'false',
+  isMainFamilyMember: 'true',
+  createdAt: '2020-01-01T00:00:00.000Z',
+};
+
+describe('runMigrations', () => {
+  beforeEach(() => {
+    useStoredData({});
+  });
+
+  it('only stamps the schema version of a fresh install', () => {
+    expect(runMigrations().applied).toEqual([]);
+    expect(getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+    expect(getAuditLog()).toEqual([]);
+  });
+
+  it('upgrades data from before schema versioning', () => {
+    useStoredData({
+      [STORAGE_KEYS.INITIALIZED]: true,
+      [STORAGE_KEYS.MEMBERS]: [LEGACY_MEMBER],
+      [STORAGE_KEYS.FAMILIES]: [{ id: 'f1', name: 'Familie Schmidt', mainMemberId: '', createdAt: '2020-01-01T00:00:00.000Z' }],
+      [STORAGE_KEYS.AUDIT_LOG]: [
+        { id: 'e1', timestamp: '2020-01-01T00:00:00.000Z', action: 'MEMBER_CREATED', description: '', memberId: 'm1' },
+      ],
+    });
+
+    const result = runMigrations();
+
+    expect(result).toMatchObject({ fromVersion: 1, toVersion: CURRENT_SCHEMA_VERSION });
+    expect(result.applied).toHaveLength(2);
+    const [member] = getAllMembers();
+    expect(member).toMatchObject({ street: '', iban: '', isActive: false, isMainFamilyMember: true });
+    expect(member.updatedAt).toBe(LEGACY_MEMBER.createdAt);
+    expect(member).not.toHaveProperty('exitDate');
+    expect(member).not.toHaveProperty('familyId');
+    expect(getAllFamilies()[0]).not.toHaveProperty('mainMemberId');
+    expect(getAuditLog().map(entry => entry.action)).toEqual(['SCHEMA_MIGRATED', 'MEMBER_CREATED']);
+    expect(verifyAuditLog().valid).toBe(true);
+    expect(getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('leaves data in the current version untouched', () => {
+    useStoredData({ [STORAGE_KEYS.SCHEMA_VERSION]: CURRENT_SCHEMA_VERSION, [STORAGE_KEYS.MEMBERS]: [LEGACY_MEMBER] });
+
+    expect(runMigrations().applied).toEqual([]);
+    expect(getAllMembers()[0].isActive).toBe('false');
+  });
+
+  it('refuses data written by a newer app version', () => {
+    useStoredData({ [STORAGE_KEYS.SCHEMA_VERSION]: CURRENT_SCHEMA_VERSION + 1, [STORAGE_KEYS.MEMBERS]: [LEGACY_MEMBER] });
+
+    expect(() => runMigrations()).toThrow(SchemaVersionError);
+    expect(getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION + 1);
+  });
+});
+
+describe('migratePersistedData', () => {
+  it('only applies the migrations after the given version', () => {
+    const { data, applied } = migratePersistedData({
+      members: [LEGACY_MEMBER],
+      families: [],
+      auditLog: [{ id: 'e1', timestamp: '2020-01-01T00:00:00.000Z', action: 'MEMBER_CREATED', description: '' }],
+    }, 2);
+
+    expect(applied).toEqual([expect.stringMatching(/^v3:/)]);
+    expect(data.members[0].isActive).toBe('false');
+    expect(data.auditLog[0].hash).toEqual(expect.any(String));
+  });
+});
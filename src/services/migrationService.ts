@@ -0,0 +1,220 @@
+/**
+ * Migration Service
+ * Versions the persisted data and upgrades data written by older app versions.
+ * Runs once on startup, before the example data is initialized.
+ *
+ * To change the shape of Member, Family or AuditLogEntry:
+ * 1. Add a migration with the next version number to MIGRATIONS
+ * 2. The migration receives the raw persisted records and returns the upgraded ones
+ */
+
+import type { Member, Family, AuditLogEntry } from '../models/types';
+import {
+  getAllMembers,
+  getAllFamilies,
+  getAuditLog,
+  saveAllMembers,
+  saveAllFamilies,
+  saveAuditLog,
+  isInitialized,
+  getSchemaVersion,
+  setSchemaVersion,
+  runInTransaction,
+} from './storageService';
+import { logSchemaMigrated } from './auditService';
+import { sealAuditLog } from './auditIntegrityService';
+
+/**
+ * Untyped records as they are found in storage
+ */
+export type RawRecord = Record<string, unknown>;
+
+/**
+ * Persisted data passed through the migrations
+ */
+export interface PersistedData {
+  members: RawRecord[];
+  families: RawRecord[];
+  auditLog: RawRecord[];
+}
+
+/**
+ * A single schema migration
+ */
+export interface Migration {
+  /** Schema version after this migration */
+  version: number;
+
+  /** Human-readable description (stored in the audit log) */
+  description: string;
+
+  /** Upgrade the data from version - 1 to version */
+  migrate: (data: PersistedData) => PersistedData;
+}
+
+/**
+ * Result of a migration run
+ */
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+/**
+ * Thrown if the stored data was written by a newer app version
+ */
+export class SchemaVersionError extends Error {
+  readonly storedVersion: number;
+  readonly supportedVersion: number;
+
+  constructor(storedVersion: number, supportedVersion: number) {
+    super(
+      `Die gespeicherten Daten haben Schema-Version ${storedVersion}, ` +
+      `diese App-Version unterstützt nur bis Version ${supportedVersion}.`
+    );
+    this.name = 'SchemaVersionError';
+    this.storedVersion = storedVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+/** Data persisted before schema versioning was introduced */
+const LEGACY_SCHEMA_VERSION = 1;
+
+// ============================================
+// Migration Registry
+// ============================================
+
+/**
+ * All migrations, ordered by version
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Optionale Felder von Mitgliedern und Familien vereinheitlicht',
+    migrate: (data) => ({
+      ...data,
+      members: data.members.map(member => {
+        const normalized: RawRecord = {
+          ...member,
+          street: member.street ?? '',
+          postalCode: member.postalCode ?? '',
+          city: member.city ?? '',
+          iban: member.iban ?? '',
+          bic: member.bic ?? '',
+          isActive: member.isActive !== false && member.isActive !== 'false',
+          isMainFamilyMember: member.isMainFamilyMember === true || member.isMainFamilyMember === 'true',
+          updatedAt: member.updatedAt ?? member.createdAt,
+        };
+        // Empty strings were used for "not set" by early CSV imports
+        if (!normalized.exitDate) delete normalized.exitDate;
+        if (!normalized.familyId) delete normalized.familyId;
+        return normalized;
+      }),
+      families: data.families.map(family => {
+        const normalized: RawRecord = { ...family, updatedAt: family.updatedAt ?? family.createdAt };
+        if (!normalized.mainMemberId) delete normalized.mainMemberId;
+        return normalized;
+      }),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Historie mit SHA-256-Hash-Kette versiegelt',
+    migrate: (data) => ({
+      ...data,
+      auditLog: sealAuditLog(data.auditLog as unknown as AuditLogEntry[]) as unknown as RawRecord[],
+    }),
+  },
+];
+
+/**
+ * Schema version written by this app version
+ */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.reduce(
+  (version, migration) => Math.max(version, migration.version),
+  LEGACY_SCHEMA_VERSION
+);
+
+// ============================================
+// Migration Runner
+// ============================================
+
+/**
+ * Mark the stored data as being in the current schema version
+ * (used when data is created from scratch)
+ */
+export function stampSchemaVersion(): void {
+  setSchemaVersion(CURRENT_SCHEMA_VERSION);
+}
+
+/**
+ * Upgrade data from the given schema version to the current one.
+ * Works on the passed data only (e.g. for backups), the storage is not touched.
+ * @throws SchemaVersionError if the data is newer than this app version
+ */
+export function migratePersistedData(
+  data: PersistedData,
+  fromVersion: number
+): { data: PersistedData; applied: string[] } {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion, CURRENT_SCHEMA_VERSION);
+  }
+
+  const pending = MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let migrated = data;
+  pending.forEach(migration => {
+    migrated = migration.migrate(migrated);
+  });
+
+  return {
+    data: migrated,
+    applied: pending.map(migration => `v${migration.version}: ${migration.description}`),
+  };
+}
+
+/**
+ * Upgrade the persisted data to the current schema version.
+ * @throws SchemaVersionError if the data is newer than this app version
+ */
+export function runMigrations(): MigrationResult {
+  const storedVersion = getSchemaVersion();
+
+  // Fresh install: nothing to migrate
+  if (storedVersion === undefined && !isInitialized() && getAllMembers().length === 0) {
+    stampSchemaVersion();
+    return { fromVersion: CURRENT_SCHEMA_VERSION, toVersion: CURRENT_SCHEMA_VERSION, applied: [] };
+  }
+
+  const fromVersion = storedVersion ?? LEGACY_SCHEMA_VERSION;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion, CURRENT_SCHEMA_VERSION);
+  }
+
+  if (fromVersion === CURRENT_SCHEMA_VERSION) {
+    if (storedVersion === undefined) stampSchemaVersion();
+    return { fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  // Run all migrations in memory first, so a failing migration leaves the data untouched
+  const { data, applied } = migratePersistedData({
+    members: getAllMembers() as unknown as RawRecord[],
+    families: getAllFamilies() as unknown as RawRecord[],
+    auditLog: getAuditLog() as unknown as RawRecord[],
+  }, fromVersion);
+
+  runInTransaction(() => {
+    saveAllMembers(data.members as unknown as Member[]);
+    saveAllFamilies(data.families as unknown as Family[]);
+    saveAuditLog(data.auditLog as unknown as AuditLogEntry[]);
+    logSchemaMigrated(fromVersion, CURRENT_SCHEMA_VERSION, applied);
+  });
+  stampSchemaVersion();
+
+  return { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied };
+}
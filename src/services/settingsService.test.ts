@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getStoredSettings } from './storageService';
+import { getSettings, migrateLegacyTheme, updateSettings } from './settingsService';
+
+let legacyStorage: Map<string, string>;
+
+beforeEach(() => {
+  setRepositories(createRepositories(createMemoryDriver()));
+  legacyStorage = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => legacyStorage.get(key) ?? null,
+    removeItem: (key: string) => legacyStorage.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('migrateLegacyTheme', () => {
+  it('takes over the theme of older app versions once', () => {
+    legacyStorage.set('theme', 'dark');
+
+    migrateLegacyTheme();
+
+    expect(getSettings().theme).toBe('dark');
+    expect(legacyStorage.has('theme')).toBe(false);
+  });
+
+  it('keeps a theme that is already in the settings', () => {
+    updateSettings({ theme: 'light' });
+    legacyStorage.set('theme', 'dark');
+
+    migrateLegacyTheme();
+
+    expect(getSettings().theme).toBe('light');
+    expect(legacyStorage.has('theme')).toBe(false);
+  });
+
+  it('ignores unknown values', () => {
+    legacyStorage.set('theme', 'sepia');
+
+    migrateLegacyTheme();
+
+    expect(getStoredSettings().theme).toBeUndefined();
+    expect(legacyStorage.has('theme')).toBe(false);
+  });
+});
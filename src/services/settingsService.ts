@@ -0,0 +1,78 @@
+/**
+ * Settings Service
+ * Application settings with defaults. The settings are stored with the club
+ * data (see storageService), so they are part of backups.
+ */
+
+import type { AppSettings, ThemeMode } from '../models/types';
+import { getStoredSettings, saveSettings, onDataCommitted, type Collection } from './storageService';
+import { subscribeToExternalChanges } from './syncService';
+
+/**
+ * Settings used for keys that were never saved
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  theme: 'system',
+  snapshotRetention: 10,
+  actors: [],
+  auditRetentionMonths: 0,
+  csvMappingProfiles: [],
+};
+
+/** LocalStorage key of the theme before it became part of the settings */
+const LEGACY_THEME_KEY = 'theme';
+
+const THEME_MODES: ThemeMode[] = ['light', 'dark', 'system'];
+
+/**
+ * Get the current settings
+ */
+export function getSettings(): AppSettings {
+  return { ...DEFAULT_SETTINGS, ...getStoredSettings() };
+}
+
+/**
+ * Change some settings
+ * @returns The updated settings
+ */
+export function updateSettings(changes: Partial<AppSettings>): AppSettings {
+  const settings = { ...getSettings(), ...changes };
+  saveSettings(settings);
+  return settings;
+}
+
+/**
+ * Subscribe to settings changes (from this or another tab, e.g. by a restored backup)
+ * @returns Function to unsubscribe
+ */
+export function onSettingsChanged(listener: (settings: AppSettings) => void): () => void {
+  const handleChange = (collections: Collection[]) => {
+    if (collections.includes('settings')) {
+      listener(getSettings());
+    }
+  };
+  const unsubscribeLocal = onDataCommitted(handleChange);
+  const unsubscribeExternal = subscribeToExternalChanges(handleChange);
+
+  return () => {
+    unsubscribeLocal();
+    unsubscribeExternal();
+  };
+}
+
+/**
+ * Take over the theme that older app versions stored under its own
+ * LocalStorage key, unless the settings already have one (call on startup)
+ */
+export function migrateLegacyTheme(): void {
+  try {
+    const legacyTheme = localStorage.getItem(LEGACY_THEME_KEY);
+    if (legacyTheme === null) return;
+    if (getStoredSettings().theme === undefined && THEME_MODES.includes(legacyTheme as ThemeMode)) {
+      updateSettings({ theme: legacyTheme as ThemeMode });
+    }
+    localStorage.removeItem(LEGACY_THEME_KEY);
+  } catch (error) {
+    console.error('Früheres Theme konnte nicht übernommen werden:', error);
+  }
+}
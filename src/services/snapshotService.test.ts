@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Snapshot } from '../models/types';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAllMembers, getAuditLog } from './storageService';
+import { verifyAuditLog } from './auditService';
+import { updateSettings } from './settingsService';
+import { createMember, editMember } from './memberService';
+import {
+  SnapshotFailedError,
+  listSnapshots,
+  restoreSnapshot,
+  snapshotBeforeChange,
+  takeSnapshot,
+} from './snapshotService';
+import { MEMBER_FORM } from '../test/fixtures';
+
+// IndexedDB is not available in Node, the snapshots are kept in a Map instead
+const store = vi.hoisted(() => ({ snapshots: new Map<string, Snapshot>(), failing: false }));
+
+vi.mock('../repositories/snapshotStore', () => ({
+  isSnapshotStoreAvailable: () => true,
+  putSnapshot: async (snapshot: Snapshot) => {
+    if (store.failing) throw new Error('Speicher voll');
+    store.snapshots.set(snapshot.id, structuredClone(snapshot));
+  },
+  listSnapshotInfos: async () => [...store.snapshots.values()]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  getSnapshot: async (id: string) => structuredClone(store.snapshots.get(id)),
+  deleteSnapshots: async (ids: string[]) => {
+    ids.forEach(id => store.snapshots.delete(id));
+  },
+}));
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-01-01T10:00:00.000Z'));
+  store.snapshots.clear();
+  store.failing = false;
+  setRepositories(createRepositories(createMemoryDriver()));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('restoreSnapshot', () => {
+  it('restores the data and keeps the replaced state as snapshot', async () => {
+    const member = createMember(MEMBER_FORM);
+    const snapshot = await takeSnapshot('manual');
+    vi.setSystemTime(new Date('2024-01-02T10:00:00.000Z'));
+    editMember(member.id, { ...MEMBER_FORM, city: 'Essen' });
+
+    await restoreSnapshot(snapshot.id);
+
+    expect(getAllMembers().map(m => m.city)).toEqual(['Bonn']);
+    expect(getAuditLog()[0].action).toBe('SNAPSHOT_RESTORED');
+    expect(verifyAuditLog().valid).toBe(true);
+    const [before] = await listSnapshots();
+    expect(before.reason).toBe('restore');
+    await restoreSnapshot(before.id);
+    expect(getAllMembers().map(m => m.city)).toEqual(['Essen']);
+  });
+
+  it('refuses unknown snapshots', async () => {
+    await expect(restoreSnapshot('missing')).rejects.toThrow('nicht gefunden');
+  });
+});
+
+describe('takeSnapshot', () => {
+  it('keeps only the configured number of snapshots', async () => {
+    updateSettings({ snapshotRetention: 2 });
+    for (const day of ['01', '02', '03']) {
+      vi.setSystemTime(new Date(`2024-01-${day}T10:00:00.000Z`));
+      await takeSnapshot('daily');
+    }
+
+    expect((await listSnapshots()).map(snapshot => snapshot.createdAt)).toEqual([
+      '2024-01-03T10:00:00.000Z',
+      '2024-01-02T10:00:00.000Z',
+    ]);
+  });
+});
+
+describe('snapshotBeforeChange', () => {
+  beforeEach(() => {
+    store.failing = true;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('stops the operation if the snapshot fails', async () => {
+    await expect(snapshotBeforeChange('import')).rejects.toThrow(SnapshotFailedError);
+  });
+
+  it('continues without snapshot if confirmed', async () => {
+    const confirmWithoutSnapshot = vi.fn(() => true);
+
+    await snapshotBeforeChange('import', { confirmWithoutSnapshot });
+
+    expect(confirmWithoutSnapshot).toHaveBeenCalledWith(expect.stringContaining('Speicher voll'));
+  });
+});
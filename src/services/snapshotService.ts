@@ -0,0 +1,248 @@
+/**
+ * Snapshot Service
+ * Automatic copies of all club data, taken before destructive operations
+ * (CSV import, reset, restore) and once per day. Snapshots are kept in
+ * IndexedDB; only the newest N (see settings) are kept.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Snapshot, SnapshotInfo, SnapshotReason } from '../models/types';
+import {
+  isSnapshotStoreAvailable,
+  putSnapshot,
+  listSnapshotInfos,
+  getSnapshot,
+  deleteSnapshots,
+} from '../repositories';
+import { collectClubData, replaceClubData, runInTransaction } from './storageService';
+import { logSnapshotRestored, pruneAuditChainHeads } from './auditService';
+import { clearUndoHistory } from './undoService';
+import { CURRENT_SCHEMA_VERSION, migratePersistedData, stampSchemaVersion, type RawRecord } from './migrationService';
+import { getSettings } from './settingsService';
+import { getEncryptionConfig, sealMembers, withEncryptedWrites, withRestoredEncryption } from './encryptionService';
+
+/**
+ * Display labels of the snapshot reasons
+ */
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: 'Täglich',
+  import: 'Vor CSV-Import',
+  reset: 'Vor Zurücksetzen',
+  restore: 'Vor Wiederherstellung',
+  manual: 'Manuell',
+};
+
+export { isSnapshotStoreAvailable };
+
+/**
+ * Options of operations that take a snapshot before they change the data
+ */
+export interface SnapshotBeforeChangeOptions {
+  /** Asked with a description of the problem if the snapshot fails; true continues without it */
+  confirmWithoutSnapshot?: (message: string) => boolean;
+}
+
+/**
+ * Describe why the snapshot before a destructive operation failed
+ */
+function describeSnapshotFailure(error: unknown): string {
+  const reason = error instanceof Error ? error.message : 'unbekannter Fehler';
+  return `Der aktuelle Stand konnte nicht als Snapshot gesichert werden (${reason}).`;
+}
+
+/**
+ * Thrown if the snapshot before a destructive operation could not be stored
+ * and the operation was not continued without it
+ */
+export class SnapshotFailedError extends Error {
+  constructor(cause: unknown) {
+    super(`${describeSnapshotFailure(cause)} Der Vorgang wurde abgebrochen.`, { cause });
+    this.name = 'SnapshotFailedError';
+  }
+}
+
+const changeListeners = new Set<() => void>();
+
+/**
+ * Subscribe to changes of the snapshot list
+ * @returns Function to unsubscribe
+ */
+export function onSnapshotsChanged(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+// ============================================
+// Taking Snapshots
+// ============================================
+
+/**
+ * Copy the current data (synchronously, so it reflects the state at call time).
+ * Encrypted member fields stay encrypted.
+ */
+function captureSnapshot(reason: SnapshotReason): Snapshot {
+  const clubData = collectClubData();
+  const data = { ...clubData, members: sealMembers(clubData.members) };
+  return {
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    reason,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    memberCount: data.members.length,
+    familyCount: data.families.length,
+    auditLogCount: data.auditLog.length,
+    data,
+    encryption: getEncryptionConfig(),
+  };
+}
+
+/**
+ * Delete the oldest snapshots beyond the configured number
+ */
+export async function pruneSnapshots(retention: number = getSettings().snapshotRetention): Promise<void> {
+  const snapshots = await listSnapshotInfos();
+  await deleteSnapshots(snapshots.slice(Math.max(retention, 1)).map(snapshot => snapshot.id));
+}
+
+/**
+ * Take a snapshot of the current data
+ */
+export async function takeSnapshot(reason: SnapshotReason): Promise<SnapshotInfo> {
+  const snapshot = captureSnapshot(reason);
+  await putSnapshot(snapshot);
+  await pruneSnapshots();
+  changeListeners.forEach(listener => listener());
+  return snapshot;
+}
+
+/**
+ * Take a snapshot before a destructive operation and wait until it is stored.
+ * Without snapshot support in the browser the operation continues without one.
+ * @throws SnapshotFailedError if storing failed and the user did not confirm to continue
+ */
+export async function snapshotBeforeChange(
+  reason: SnapshotReason,
+  options: SnapshotBeforeChangeOptions = {}
+): Promise<void> {
+  if (!isSnapshotStoreAvailable()) return;
+  try {
+    await takeSnapshot(reason);
+  } catch (error) {
+    console.error('Snapshot konnte nicht gespeichert werden:', error);
+    if (!options.confirmWithoutSnapshot?.(`${describeSnapshotFailure(error)} Ohne Snapshot fortfahren?`)) {
+      throw new SnapshotFailedError(error);
+    }
+  }
+}
+
+/**
+ * Take the daily snapshot, unless one was already taken today
+ */
+export async function ensureDailySnapshot(): Promise<void> {
+  if (!isSnapshotStoreAvailable()) return;
+  try {
+    const today = new Date().toDateString();
+    const snapshots = await listSnapshotInfos();
+    const hasTodaysSnapshot = snapshots.some(
+      snapshot => snapshot.reason === 'daily' && new Date(snapshot.createdAt).toDateString() === today
+    );
+    if (!hasTodaysSnapshot) {
+      await takeSnapshot('daily');
+    }
+  } catch (error) {
+    console.error('Täglicher Snapshot fehlgeschlagen:', error);
+  }
+}
+
+/**
+ * Encrypt the member fields of snapshots taken while the encryption was
+ * disabled, so they do not keep the values in plaintext (call after enabling it)
+ * @returns Number of encrypted snapshots
+ */
+export async function sealUnencryptedSnapshots(): Promise<number> {
+  const encryption = getEncryptionConfig();
+  if (!encryption || !isSnapshotStoreAvailable()) return 0;
+
+  let count = 0;
+  for (const info of await listSnapshotInfos()) {
+    const snapshot = await getSnapshot(info.id);
+    if (!snapshot || snapshot.encryption) continue;
+    const members = await withEncryptedWrites(() => sealMembers(snapshot.data.members));
+    await putSnapshot({ ...snapshot, data: { ...snapshot.data, members }, encryption });
+    count++;
+  }
+  if (count > 0) {
+    changeListeners.forEach(listener => listener());
+  }
+  return count;
+}
+
+// ============================================
+// Listing and Restoring
+// ============================================
+
+/**
+ * List all snapshots, newest first
+ */
+export function listSnapshots(): Promise<SnapshotInfo[]> {
+  return listSnapshotInfos();
+}
+
+/**
+ * Load a snapshot including its data (migrated to the current schema version)
+ */
+export async function loadSnapshot(id: string): Promise<Snapshot | undefined> {
+  const snapshot = await getSnapshot(id);
+  if (!snapshot || snapshot.schemaVersion === CURRENT_SCHEMA_VERSION) {
+    return snapshot;
+  }
+
+  const { data: migrated } = migratePersistedData({
+    members: snapshot.data.members as unknown as RawRecord[],
+    families: snapshot.data.families as unknown as RawRecord[],
+    auditLog: snapshot.data.auditLog as unknown as RawRecord[],
+  }, snapshot.schemaVersion);
+
+  return {
+    ...snapshot,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: {
+      ...snapshot.data,
+      members: migrated.members as unknown as Snapshot['data']['members'],
+      families: migrated.families as unknown as Snapshot['data']['families'],
+      auditLog: migrated.auditLog as unknown as Snapshot['data']['auditLog'],
+    },
+  };
+}
+
+/**
+ * Replace all data with a snapshot.
+ * The current data is saved as a snapshot first, so the restore can be undone.
+ * @throws Error if the snapshot was encrypted with another passphrase
+ * @throws SnapshotFailedError if the current data could not be saved
+ */
+export async function restoreSnapshot(id: string, options: SnapshotBeforeChangeOptions = {}): Promise<Snapshot> {
+  const snapshot = await loadSnapshot(id);
+  if (!snapshot) {
+    throw new Error('Der Snapshot wurde nicht gefunden');
+  }
+
+  await snapshotBeforeChange('restore', options);
+  await withRestoredEncryption(snapshot.encryption, snapshot.data.members, () => runInTransaction(() => {
+    replaceClubData(snapshot.data);
+    logSnapshotRestored(
+      snapshot.createdAt,
+      snapshot.memberCount,
+      snapshot.familyCount,
+      snapshot.auditLogCount
+    );
+  }));
+  // Heads recorded after the snapshot are no longer part of the log
+  pruneAuditChainHeads();
+  stampSchemaVersion();
+  clearUndoHistory();
+
+  return snapshot;
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuditLogEntry } from '../models/types';
+import {
+  STORAGE_KEYS,
+  StorageQuotaError,
+  StorageUnavailableError,
+  createMemoryDriver,
+  createRepositories,
+  setRepositories,
+  type StorageDriver,
+} from '../repositories';
+import {
+  addAuditLogEntry,
+  getAllFamilies,
+  getAuditLog,
+  onDataCommitted,
+  onStorageQuotaExceeded,
+  onWriteFailed,
+  reportFailedWrite,
+  requiresReload,
+  runInTransaction,
+  saveFamily,
+} from './storageService';
+import { FAMILY } from '../test/fixtures';
+
+const ENTRY: AuditLogEntry = {
+  id: 'e1',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  action: 'FAMILY_CREATED',
+  description: 'Familie angelegt',
+};
+
+let failingKey: string | undefined;
+
+/**
+ * Memory driver whose writes to `failingKey` fail as if the storage was full
+ */
+function createFailingDriver(): StorageDriver {
+  const driver = createMemoryDriver();
+  return {
+    ...driver,
+    write(key, data) {
+      if (key === failingKey) throw new StorageQuotaError(key, 1);
+      driver.write(key, data);
+    },
+  };
+}
+
+beforeEach(() => {
+  failingKey = undefined;
+  setRepositories(createRepositories(createFailingDriver()));
+});
+
+describe('runInTransaction', () => {
+  it('commits all changes together and notifies once', () => {
+    const listener = vi.fn();
+    const unsubscribe = onDataCommitted(listener);
+
+    runInTransaction(() => {
+      saveFamily(FAMILY);
+      runInTransaction(() => addAuditLogEntry(ENTRY));
+      expect(getAllFamilies()).toHaveLength(1);
+    });
+    unsubscribe();
+
+    expect(getAllFamilies()).toHaveLength(1);
+    expect(getAuditLog()).toHaveLength(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(['families', 'auditLog']);
+  });
+
+  it('writes nothing if the work throws', () => {
+    const listener = vi.fn();
+    const unsubscribe = onDataCommitted(listener);
+
+    expect(() => runInTransaction(() => {
+      saveFamily(FAMILY);
+      throw new Error('abgebrochen');
+    })).toThrow('abgebrochen');
+    unsubscribe();
+
+    expect(getAllFamilies()).toEqual([]);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('rolls back the collections written before a failed write', () => {
+    failingKey = STORAGE_KEYS.AUDIT_LOG;
+
+    expect(() => runInTransaction(() => {
+      saveFamily(FAMILY);
+      addAuditLogEntry(ENTRY);
+    })).toThrow(StorageQuotaError);
+
+    expect(getAllFamilies()).toEqual([]);
+    expect(getAuditLog()).toEqual([]);
+  });
+});
+
+describe('failed writes', () => {
+  it('reports a commit that failed because the storage is full', () => {
+    failingKey = STORAGE_KEYS.FAMILIES;
+    const listener = vi.fn();
+    const unsubscribe = onStorageQuotaExceeded(listener);
+
+    expect(() => saveFamily(FAMILY)).toThrow(StorageQuotaError);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ key: STORAGE_KEYS.FAMILIES }));
+  });
+
+  it('reports failed background writes to the quota or the write failure listeners', () => {
+    const quotaListener = vi.fn();
+    const failureListener = vi.fn();
+    const unsubscribeQuota = onStorageQuotaExceeded(quotaListener);
+    const unsubscribeFailures = onWriteFailed(failureListener);
+
+    const lostConnection = new Error('Verbindung verloren');
+    const quotaExceeded = new StorageQuotaError(STORAGE_KEYS.MEMBERS, 10);
+    reportFailedWrite(lostConnection);
+    reportFailedWrite(quotaExceeded);
+    unsubscribeQuota();
+    unsubscribeFailures();
+
+    expect(quotaListener).toHaveBeenCalledTimes(1);
+    expect(quotaListener).toHaveBeenCalledWith(quotaExceeded);
+    expect(failureListener).toHaveBeenCalledTimes(1);
+    expect(failureListener).toHaveBeenCalledWith(lostConnection);
+  });
+
+  it('tells failures that require a reload apart', () => {
+    expect(requiresReload(new StorageUnavailableError('Bitte neu laden'))).toBe(true);
+    expect(requiresReload(new Error('Verbindung verloren'))).toBe(false);
+  });
+});
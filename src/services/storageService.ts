@@ -1,42 +1,207 @@
 /**
- * LocalStorage Service
- * Handles all data persistence using browser's LocalStorage.
- * This service can be easily replaced with an API service for backend migration.
+ * Storage Service
+ * Facade over the active repositories (see src/repositories).
+ * The storage backend (LocalStorage, IndexedDB, in-memory) is selected at startup,
+ * the services below stay the same for every backend.
+ *
+ * Operations that touch several entities should be wrapped in runInTransaction(),
+ * so they are written all-or-nothing.
  */
 
-import type { Member, Family, AuditLogEntry } from '../models/types';
+import type { Member, Family, AuditLogEntry, AuditChainHead, AppSettings, ClubData } from '../models/types';
+import {
+  getRepositories,
+  concernsMember,
+  affectsAllMembers,
+  StorageQuotaError,
+  StorageUnavailableError,
+} from '../repositories';
 
-// Storage keys
-const STORAGE_KEYS = {
-  MEMBERS: 'kanu_members',
-  FAMILIES: 'kanu_families',
-  AUDIT_LOG: 'kanu_audit_log',
-  INITIALIZED: 'kanu_initialized',
-} as const;
+// ============================================
+// Transactions (Unit of Work)
+// ============================================
+
+export type Collection = 'members' | 'families' | 'auditLog' | 'settings';
+
+export type CommitListener = (collections: Collection[]) => void;
+
+export type QuotaListener = (error: StorageQuotaError) => void;
+
+export type WriteFailureListener = (error: Error) => void;
+
+/**
+ * Staged changes of a running transaction.
+ * Collections are loaded lazily on first access and only written on commit.
+ */
+interface UnitOfWork {
+  members?: Member[];
+  families?: Family[];
+  auditLog?: AuditLogEntry[];
+  settings?: Partial<AppSettings>;
+  dirty: Set<Collection>;
+}
+
+let activeUnitOfWork: UnitOfWork | null = null;
+const commitListeners = new Set<CommitListener>();
+const quotaListeners = new Set<QuotaListener>();
+const writeFailureListeners = new Set<WriteFailureListener>();
+
+function stagedMembers(unit: UnitOfWork): Member[] {
+  if (!unit.members) unit.members = getRepositories().members.getAll();
+  return unit.members;
+}
+
+function stagedFamilies(unit: UnitOfWork): Family[] {
+  if (!unit.families) unit.families = getRepositories().families.getAll();
+  return unit.families;
+}
+
+function stagedAuditLog(unit: UnitOfWork): AuditLogEntry[] {
+  if (!unit.auditLog) unit.auditLog = getRepositories().audit.getAll();
+  return unit.auditLog;
+}
+
+function stagedSettings(unit: UnitOfWork): Partial<AppSettings> {
+  if (!unit.settings) unit.settings = getRepositories().settings.get();
+  return unit.settings;
+}
 
 /**
- * Generic function to get data from LocalStorage
+ * Write all staged collections. If a write fails, the collections written
+ * before are restored, so the storage never contains a half-applied change.
  */
-function getFromStorage<T>(key: string, defaultValue: T): T {
+function commitUnitOfWork(unit: UnitOfWork): void {
+  const repositories = getRepositories();
+  const rollbacks: Array<() => void> = [];
+
   try {
-    const item = localStorage.getItem(key);
-    return item ? JSON.parse(item) : defaultValue;
+    if (unit.dirty.has('members')) {
+      const original = repositories.members.getAll();
+      repositories.members.replaceAll(unit.members!);
+      rollbacks.push(() => repositories.members.replaceAll(original));
+    }
+    if (unit.dirty.has('families')) {
+      const original = repositories.families.getAll();
+      repositories.families.replaceAll(unit.families!);
+      rollbacks.push(() => repositories.families.replaceAll(original));
+    }
+    if (unit.dirty.has('auditLog')) {
+      const original = repositories.audit.getAll();
+      repositories.audit.replaceAll(unit.auditLog!);
+      rollbacks.push(() => repositories.audit.replaceAll(original));
+    }
+    if (unit.dirty.has('settings')) {
+      const original = repositories.settings.get();
+      repositories.settings.save(unit.settings!);
+      rollbacks.push(() => repositories.settings.save(original));
+    }
   } catch (error) {
-    console.error(`Error reading from localStorage key "${key}":`, error);
-    return defaultValue;
+    rollbacks.reverse().forEach(rollback => {
+      try {
+        rollback();
+      } catch (rollbackError) {
+        console.error('Rollback fehlgeschlagen:', rollbackError);
+      }
+    });
+    if (error instanceof StorageQuotaError) {
+      quotaListeners.forEach(listener => listener(error));
+    }
+    throw error;
   }
+
+  if (unit.dirty.size > 0) {
+    notifyCommitListeners([...unit.dirty]);
+  }
+}
+
+function notifyCommitListeners(collections: Collection[]): void {
+  commitListeners.forEach(listener => listener(collections));
 }
 
 /**
- * Generic function to save data to LocalStorage
+ * Register a listener that is called after changes have been committed
+ * @returns Function to remove the listener
  */
-function saveToStorage<T>(key: string, data: T): void {
+export function onDataCommitted(listener: CommitListener): () => void {
+  commitListeners.add(listener);
+  return () => commitListeners.delete(listener);
+}
+
+/**
+ * Register a listener that is called when a commit failed because the storage is full.
+ * Nothing of the failed transaction has been written at that point (with IndexedDB
+ * the listener is called after the commit, once the background write failed).
+ * @returns Function to remove the listener
+ */
+export function onStorageQuotaExceeded(listener: QuotaListener): () => void {
+  quotaListeners.add(listener);
+  return () => quotaListeners.delete(listener);
+}
+
+/**
+ * Register a listener that is called when a write failed after its commit for another
+ * reason than a full storage (e.g. an aborted IndexedDB transaction). The change has
+ * been reverted in the repositories at that point.
+ * @returns Function to remove the listener
+ */
+export function onWriteFailed(listener: WriteFailureListener): () => void {
+  writeFailureListeners.add(listener);
+  return () => writeFailureListeners.delete(listener);
+}
+
+/**
+ * Report a write that failed after its commit (IndexedDB writes in the background).
+ * A full storage is passed to the quota listeners like a failed commit,
+ * every other error to the write failure listeners.
+ */
+export function reportFailedWrite(error: Error): void {
+  if (error instanceof StorageQuotaError) {
+    quotaListeners.forEach(listener => listener(error));
+  } else {
+    writeFailureListeners.forEach(listener => listener(error));
+  }
+}
+
+/**
+ * Check whether a failed write left the storage unusable until the app is reloaded
+ */
+export function requiresReload(error: Error): boolean {
+  return error instanceof StorageUnavailableError;
+}
+
+/**
+ * Apply a change to the running transaction (or to a new one for single writes)
+ */
+function stage(collection: Collection, apply: (unit: UnitOfWork) => void): void {
+  runInTransaction(() => {
+    apply(activeUnitOfWork!);
+    activeUnitOfWork!.dirty.add(collection);
+  });
+}
+
+/**
+ * Run several storage operations as one transaction.
+ * All member, family, audit log and settings changes made inside `work` are staged and
+ * committed together when it returns; if it throws, nothing is written.
+ * Nested calls join the outer transaction.
+ */
+export function runInTransaction<T>(work: () => T): T {
+  if (activeUnitOfWork) {
+    return work();
+  }
+
+  const unit: UnitOfWork = { dirty: new Set() };
+  activeUnitOfWork = unit;
+
+  let result: T;
   try {
-    localStorage.setItem(key, JSON.stringify(data));
-  } catch (error) {
-    console.error(`Error saving to localStorage key "${key}":`, error);
-    throw new Error('Failed to save data to storage');
+    result = work();
+  } finally {
+    activeUnitOfWork = null;
   }
+
+  commitUnitOfWork(unit);
+  return result;
 }
 
 // ============================================
@@ -47,45 +212,46 @@ function saveToStorage<T>(key: string, data: T): void {
  * Get all members from storage
  */
 export function getAllMembers(): Member[] {
-  return getFromStorage<Member[]>(STORAGE_KEYS.MEMBERS, []);
+  if (activeUnitOfWork) return [...stagedMembers(activeUnitOfWork)];
+  return getRepositories().members.getAll();
 }
 
 /**
  * Get a single member by ID
  */
 export function getMemberById(id: string): Member | undefined {
-  const members = getAllMembers();
-  return members.find(m => m.id === id);
+  if (activeUnitOfWork) return stagedMembers(activeUnitOfWork).find(m => m.id === id);
+  return getRepositories().members.getById(id);
 }
 
 /**
  * Save a new member
  */
 export function saveMember(member: Member): void {
-  const members = getAllMembers();
-  members.push(member);
-  saveToStorage(STORAGE_KEYS.MEMBERS, members);
+  stage('members', unit => stagedMembers(unit).push(member));
 }
 
 /**
  * Update an existing member
  */
 export function updateMember(updatedMember: Member): void {
-  const members = getAllMembers();
-  const index = members.findIndex(m => m.id === updatedMember.id);
-  if (index !== -1) {
+  stage('members', unit => {
+    const members = stagedMembers(unit);
+    const index = members.findIndex(m => m.id === updatedMember.id);
+    if (index === -1) {
+      throw new Error(`Member with ID ${updatedMember.id} not found`);
+    }
     members[index] = updatedMember;
-    saveToStorage(STORAGE_KEYS.MEMBERS, members);
-  } else {
-    throw new Error(`Member with ID ${updatedMember.id} not found`);
-  }
+  });
 }
 
 /**
  * Save multiple members (used for import)
  */
 export function saveAllMembers(members: Member[]): void {
-  saveToStorage(STORAGE_KEYS.MEMBERS, members);
+  stage('members', unit => {
+    unit.members = [...members];
+  });
 }
 
 // ============================================
@@ -96,53 +262,54 @@ export function saveAllMembers(members: Member[]): void {
  * Get all families from storage
  */
 export function getAllFamilies(): Family[] {
-  return getFromStorage<Family[]>(STORAGE_KEYS.FAMILIES, []);
+  if (activeUnitOfWork) return [...stagedFamilies(activeUnitOfWork)];
+  return getRepositories().families.getAll();
 }
 
 /**
  * Get a single family by ID
  */
 export function getFamilyById(id: string): Family | undefined {
-  const families = getAllFamilies();
-  return families.find(f => f.id === id);
+  if (activeUnitOfWork) return stagedFamilies(activeUnitOfWork).find(f => f.id === id);
+  return getRepositories().families.getById(id);
 }
 
 /**
  * Save a new family
  */
 export function saveFamily(family: Family): void {
-  const families = getAllFamilies();
-  families.push(family);
-  saveToStorage(STORAGE_KEYS.FAMILIES, families);
+  stage('families', unit => stagedFamilies(unit).push(family));
 }
 
 /**
  * Update an existing family
  */
 export function updateFamily(updatedFamily: Family): void {
-  const families = getAllFamilies();
-  const index = families.findIndex(f => f.id === updatedFamily.id);
-  if (index !== -1) {
+  stage('families', unit => {
+    const families = stagedFamilies(unit);
+    const index = families.findIndex(f => f.id === updatedFamily.id);
+    if (index === -1) {
+      throw new Error(`Family with ID ${updatedFamily.id} not found`);
+    }
     families[index] = updatedFamily;
-    saveToStorage(STORAGE_KEYS.FAMILIES, families);
-  } else {
-    throw new Error(`Family with ID ${updatedFamily.id} not found`);
-  }
+  });
 }
 
 /**
  * Get all members belonging to a family
  */
 export function getFamilyMembers(familyId: string): Member[] {
-  const members = getAllMembers();
-  return members.filter(m => m.familyId === familyId);
+  if (activeUnitOfWork) return stagedMembers(activeUnitOfWork).filter(m => m.familyId === familyId);
+  return getRepositories().members.getByFamilyId(familyId);
 }
 
 /**
  * Save all families (used for import)
  */
 export function saveAllFamilies(families: Family[]): void {
-  saveToStorage(STORAGE_KEYS.FAMILIES, families);
+  stage('families', unit => {
+    unit.families = [...families];
+  });
 }
 
 // ============================================
@@ -153,31 +320,107 @@ export function saveAllFamilies(families: Family[]): void {
  * Get all audit log entries
  */
 export function getAuditLog(): AuditLogEntry[] {
-  return getFromStorage<AuditLogEntry[]>(STORAGE_KEYS.AUDIT_LOG, []);
+  if (activeUnitOfWork) return [...stagedAuditLog(activeUnitOfWork)];
+  return getRepositories().audit.getAll();
+}
+
+/**
+ * Get the newest audit log entry
+ */
+export function getLatestAuditLogEntry(): AuditLogEntry | undefined {
+  if (activeUnitOfWork) return stagedAuditLog(activeUnitOfWork)[0];
+  return getRepositories().audit.getAll()[0];
 }
 
 /**
  * Add a new audit log entry
  */
 export function addAuditLogEntry(entry: AuditLogEntry): void {
-  const log = getAuditLog();
-  log.unshift(entry); // Add to beginning for chronological order (newest first)
-  saveToStorage(STORAGE_KEYS.AUDIT_LOG, log);
+  stage('auditLog', unit => stagedAuditLog(unit).unshift(entry)); // Newest first
+}
+
+/**
+ * Save all audit log entries (replaces the existing log)
+ */
+export function saveAuditLog(entries: AuditLogEntry[]): void {
+  stage('auditLog', unit => {
+    unit.auditLog = [...entries];
+  });
 }
 
 /**
- * Get audit log entries for a specific member
+ * Get audit log entries for a specific member, including undo/redo entries that list it
+ * and operations that may have changed all members (imports, restored backups)
  */
 export function getMemberAuditLog(memberId: string): AuditLogEntry[] {
-  const log = getAuditLog();
-  return log.filter(entry => entry.memberId === memberId);
+  if (activeUnitOfWork) {
+    return stagedAuditLog(activeUnitOfWork)
+      .filter(entry => concernsMember(entry, memberId) || affectsAllMembers(entry));
+  }
+  return getRepositories().audit.getByMemberId(memberId);
 }
 
 /**
- * Clear all audit log entries (use with caution)
+ * Get the heads of the audit log recorded by this app (see auditIntegrityService)
  */
-export function clearAuditLog(): void {
-  saveToStorage(STORAGE_KEYS.AUDIT_LOG, []);
+export function getKnownAuditChainHeads(): AuditChainHead[] {
+  return getRepositories().meta.getAuditChainHeads();
+}
+
+/**
+ * Replace the recorded heads of the audit log
+ */
+export function saveKnownAuditChainHeads(heads: AuditChainHead[]): void {
+  getRepositories().meta.setAuditChainHeads(heads);
+}
+
+// ============================================
+// Settings
+// ============================================
+
+/**
+ * Get the stored settings (without defaults, see settingsService)
+ */
+export function getStoredSettings(): Partial<AppSettings> {
+  if (activeUnitOfWork) return { ...stagedSettings(activeUnitOfWork) };
+  return getRepositories().settings.get();
+}
+
+/**
+ * Save the settings (replaces the stored settings)
+ */
+export function saveSettings(settings: Partial<AppSettings>): void {
+  stage('settings', unit => {
+    unit.settings = { ...settings };
+  });
+}
+
+// ============================================
+// All Data
+// ============================================
+
+/**
+ * Collect a copy of all club data (for backups and snapshots)
+ */
+export function collectClubData(): ClubData {
+  return {
+    members: getAllMembers(),
+    families: getAllFamilies(),
+    auditLog: getAuditLog(),
+    settings: getStoredSettings(),
+  };
+}
+
+/**
+ * Replace all club data in one transaction (joins the caller's transaction)
+ */
+export function replaceClubData(data: ClubData): void {
+  runInTransaction(() => {
+    saveAllMembers(data.members);
+    saveAllFamilies(data.families);
+    saveAuditLog(data.auditLog);
+    saveSettings(data.settings);
+  });
 }
 
 // ============================================
@@ -188,22 +431,35 @@ export function clearAuditLog(): void {
  * Check if the app has been initialized with example data
  */
 export function isInitialized(): boolean {
-  return getFromStorage<boolean>(STORAGE_KEYS.INITIALIZED, false);
+  return getRepositories().meta.isInitialized();
 }
 
 /**
  * Mark the app as initialized
  */
 export function setInitialized(): void {
-  saveToStorage(STORAGE_KEYS.INITIALIZED, true);
+  getRepositories().meta.setInitialized();
+}
+
+/**
+ * Get the version of the persisted data schema
+ */
+export function getSchemaVersion(): number | undefined {
+  return getRepositories().meta.getSchemaVersion();
+}
+
+/**
+ * Set the version of the persisted data schema
+ */
+export function setSchemaVersion(version: number): void {
+  getRepositories().meta.setSchemaVersion(version);
 }
 
 /**
- * Clear all data (for testing/reset purposes)
+ * Clear all club data (for testing/reset purposes).
+ * Settings and the encryption config are kept.
  */
 export function clearAllData(): void {
-  localStorage.removeItem(STORAGE_KEYS.MEMBERS);
-  localStorage.removeItem(STORAGE_KEYS.FAMILIES);
-  localStorage.removeItem(STORAGE_KEYS.AUDIT_LOG);
-  localStorage.removeItem(STORAGE_KEYS.INITIALIZED);
+  getRepositories().clear();
+  notifyCommitListeners(['members', 'families', 'auditLog']);
 }
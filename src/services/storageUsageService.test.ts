@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalStorageDriver, createRepositories, setRepositories } from '../repositories';
+import { saveAllFamilies } from './storageService';
+import {
+  LOCAL_STORAGE_QUOTA_BYTES,
+  OTHER_STORAGE_KEY,
+  formatBytes,
+  getStorageUsage,
+  isStorageNearlyFull,
+} from './storageUsageService';
+
+let items: Map<string, string>;
+
+beforeEach(() => {
+  items = new Map();
+  vi.stubGlobal('localStorage', {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+  setRepositories(createRepositories(createLocalStorageDriver()));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getStorageUsage', () => {
+  it('breaks the LocalStorage usage down by storage key', async () => {
+    saveAllFamilies([{ id: 'f1', name: 'Familie Schmidt', createdAt: '', updatedAt: '' }]);
+    items.set('fremd', 'x'.repeat(500));
+
+    const usage = (await getStorageUsage())!;
+
+    expect(usage.backend).toBe('localStorage');
+    expect(usage.usedBytes).toBe([...items].reduce((sum, [key, value]) => sum + (key.length + value.length) * 2, 0));
+    expect(usage.keys.map(key => key.key)).toEqual([OTHER_STORAGE_KEY, 'kanu_families']);
+    expect(usage.keys[1].label).toBe('Familien');
+    expect(isStorageNearlyFull(usage)).toBe(false);
+  });
+
+  it('warns when the storage is nearly full', async () => {
+    items.set('fremd', 'x'.repeat(LOCAL_STORAGE_QUOTA_BYTES * 0.45));
+
+    expect(isStorageNearlyFull(await getStorageUsage())).toBe(true);
+  });
+});
+
+describe('formatBytes', () => {
+  it('uses the largest fitting unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1,5 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5 MB');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Storage Usage Service
+ * Estimates how much of the browser storage the club data uses, so the user
+ * can be warned before writes fail because the quota is exhausted, and moves
+ * the data to IndexedDB when LocalStorage becomes too small.
+ */
+
+import {
+  copyLocalStorageToIndexedDb,
+  getRepositories,
+  isIndexedDbAvailable,
+  setStorageBackendPreference,
+  STORAGE_KEYS,
+  type StorageBackendType,
+} from '../repositories';
+
+/** Typical LocalStorage quota of browsers (5 MB per origin) */
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+/** Usage ratio from which a warning is shown */
+export const STORAGE_WARNING_RATIO = 0.8;
+
+/** Display labels of the storage keys */
+const STORAGE_KEY_LABELS: Record<string, string> = {
+  [STORAGE_KEYS.MEMBERS]: 'Mitglieder',
+  [STORAGE_KEYS.FAMILIES]: 'Familien',
+  [STORAGE_KEYS.AUDIT_LOG]: 'Historie',
+  [STORAGE_KEYS.SETTINGS]: 'Einstellungen',
+  [STORAGE_KEYS.INITIALIZED]: 'Status',
+  [STORAGE_KEYS.SCHEMA_VERSION]: 'Schema-Version',
+  [STORAGE_KEYS.ENCRYPTION]: 'Verschlüsselung',
+};
+
+/** StorageKeyUsage.key of everything not stored by the repositories (snapshots, archives, other apps) */
+export const OTHER_STORAGE_KEY = 'other';
+
+/**
+ * Storage used by one key
+ */
+export interface StorageKeyUsage {
+  key: string;
+  label: string;
+  bytes: number;
+}
+
+/**
+ * Used and available storage of the active backend
+ */
+export interface StorageUsage {
+  backend: StorageBackendType;
+  usedBytes: number;
+  quotaBytes: number;
+
+  /** usedBytes / quotaBytes (0..1) */
+  ratio: number;
+
+  /** Usage per storage key, largest first (keys without data are omitted) */
+  keys: StorageKeyUsage[];
+}
+
+/**
+ * Size of all LocalStorage entries (strings are stored as UTF-16, two bytes per character)
+ */
+function getLocalStorageBytes(): number {
+  let characters = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key === null) continue;
+    characters += key.length + (localStorage.getItem(key)?.length ?? 0);
+  }
+  return characters * 2;
+}
+
+/**
+ * Break the used storage down by storage key.
+ * The rest of usedBytes is reported as OTHER_STORAGE_KEY.
+ */
+function getKeyUsage(usedBytes: number): StorageKeyUsage[] {
+  const keys = Object.entries(getRepositories().getStorageSizes())
+    .filter(([, bytes]) => bytes > 0)
+    .map(([key, bytes]) => ({ key, label: STORAGE_KEY_LABELS[key] ?? key, bytes }));
+
+  const otherBytes = usedBytes - keys.reduce((sum, usage) => sum + usage.bytes, 0);
+  if (otherBytes > 0) {
+    keys.push({ key: OTHER_STORAGE_KEY, label: 'Sonstige Daten', bytes: otherBytes });
+  }
+  return keys.sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Estimate the storage usage of the active backend
+ * @returns undefined if the usage cannot be determined (e.g. in-memory backend)
+ */
+export async function getStorageUsage(): Promise<StorageUsage | undefined> {
+  const backend = getRepositories().backend;
+
+  if (backend === 'localStorage') {
+    const usedBytes = getLocalStorageBytes();
+    return {
+      backend,
+      usedBytes,
+      quotaBytes: LOCAL_STORAGE_QUOTA_BYTES,
+      ratio: usedBytes / LOCAL_STORAGE_QUOTA_BYTES,
+      keys: getKeyUsage(usedBytes),
+    };
+  }
+
+  if (backend === 'indexedDB' && typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    if (quota === 0) return undefined;
+    return {
+      backend,
+      usedBytes: usage,
+      quotaBytes: quota,
+      ratio: usage / quota,
+      keys: getKeyUsage(usage),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether the storage is close to its limit
+ */
+export function isStorageNearlyFull(usage: StorageUsage | undefined): boolean {
+  return usage !== undefined && usage.ratio >= STORAGE_WARNING_RATIO;
+}
+
+/**
+ * Format a size in bytes for display, e.g. '1,2 MB'
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString('de-DE', { maximumFractionDigits: 1 })} ${units[unit]}`;
+}
+
+// ============================================
+// Switching the Backend
+// ============================================
+
+/**
+ * Check whether the data can be moved from LocalStorage to IndexedDB
+ * (which offers far more space)
+ */
+export function canSwitchToIndexedDB(): boolean {
+  return getRepositories().backend === 'localStorage' && isIndexedDbAvailable();
+}
+
+/**
+ * Copy the data to IndexedDB and use it as backend from the next start on.
+ * The app has to be reloaded afterwards; the LocalStorage data is kept as fallback.
+ */
+export async function switchToIndexedDB(): Promise<void> {
+  if (!canSwitchToIndexedDB()) {
+    throw new Error('IndexedDB ist in diesem Browser nicht verfügbar');
+  }
+  await copyLocalStorageToIndexedDb();
+  setStorageBackendPreference('indexedDB');
+}
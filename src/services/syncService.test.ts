@@ -0,0 +1,68 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { STORAGE_KEYS, createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAllFamilies, onWriteFailed, saveFamily } from './storageService';
+import { executeUndoable, getUndoState } from './undoService';
+import { handleFailedWrite, startSync, subscribeToExternalChanges } from './syncService';
+import { FAMILY } from '../test/fixtures';
+
+/** Channel of the other tab */
+const otherTab = new BroadcastChannel('kanu-member-sync');
+
+// The memory backend is not synchronized, so the driver poses as LocalStorage
+const driver = { ...createMemoryDriver(), type: 'localStorage' as const };
+
+beforeAll(() => {
+  setRepositories(createRepositories(driver));
+  startSync();
+});
+
+afterEach(() => {
+  otherTab.onmessage = null;
+});
+
+afterAll(() => {
+  otherTab.close();
+});
+
+describe('startSync', () => {
+  it('announces committed changes to other tabs', async () => {
+    const received = new Promise(resolve => {
+      otherTab.onmessage = event => resolve(event.data);
+    });
+
+    saveFamily(FAMILY);
+
+    expect(await received).toEqual({ type: 'data-changed', collections: ['families'] });
+  });
+
+  it('reloads the data changed by another tab and informs the subscribers', async () => {
+    driver.write(STORAGE_KEYS.FAMILIES, [{ ...FAMILY, name: 'Familie Weber' }]);
+    const listener = vi.fn();
+    const unsubscribe = subscribeToExternalChanges(listener);
+
+    otherTab.postMessage({ type: 'data-changed', collections: ['families'] });
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(['families']));
+    unsubscribe();
+
+    expect(getAllFamilies()[0].name).toBe('Familie Weber');
+  });
+});
+
+describe('handleFailedWrite', () => {
+  it('reports the error, discards the undo history and reloads the subscribers', () => {
+    executeUndoable('Familie angelegt', () => saveFamily({ ...FAMILY, id: 'f2' }));
+    const failureListener = vi.fn();
+    const changeListener = vi.fn();
+    const unsubscribeFailures = onWriteFailed(failureListener);
+    const unsubscribeChanges = subscribeToExternalChanges(changeListener);
+
+    const error = new Error('Die Daten konnten nicht gespeichert werden');
+    handleFailedWrite(error);
+    unsubscribeFailures();
+    unsubscribeChanges();
+
+    expect(failureListener).toHaveBeenCalledWith(error);
+    expect(getUndoState().canUndo).toBe(false);
+    expect(changeListener).toHaveBeenCalledWith(['members', 'families', 'auditLog', 'settings']);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Sync Service
+ * Keeps several open tabs of the app in sync.
+ * Every committed change is announced on a BroadcastChannel; the other tabs
+ * reload their repositories and notify their subscribers (e.g. the hooks).
+ * Browsers without BroadcastChannel fall back to the `storage` event, which
+ * only works with the LocalStorage backend.
+ */
+
+import { getRepositories, STORAGE_KEYS } from '../repositories';
+import { onDataCommitted, reportFailedWrite, type Collection } from './storageService';
+import { clearUndoHistory } from './undoService';
+
+const CHANNEL_NAME = 'kanu-member-sync';
+
+/**
+ * Message exchanged between tabs
+ */
+interface SyncMessage {
+  type: 'data-changed';
+  collections: Collection[];
+}
+
+export type ExternalChangeListener = (collections: Collection[]) => void;
+
+const ALL_COLLECTIONS: Collection[] = ['members', 'families', 'auditLog', 'settings'];
+
+const STORAGE_KEY_COLLECTIONS: Record<string, Collection> = {
+  [STORAGE_KEYS.MEMBERS]: 'members',
+  [STORAGE_KEYS.FAMILIES]: 'families',
+  [STORAGE_KEYS.AUDIT_LOG]: 'auditLog',
+  [STORAGE_KEYS.SETTINGS]: 'settings',
+};
+
+const listeners = new Set<ExternalChangeListener>();
+let started = false;
+
+// ============================================
+// Incoming Changes
+// ============================================
+
+/**
+ * Reload the repositories and inform all subscribers about a change made in another tab
+ */
+async function handleExternalChange(collections: Collection[]): Promise<void> {
+  try {
+    // IndexedDB orders transactions across connections, so the write of the
+    // other tab is visible once its message has arrived
+    await getRepositories().refresh();
+  } catch (error) {
+    console.error('Fehler beim Nachladen geänderter Daten:', error);
+    return;
+  }
+  listeners.forEach(listener => listener(collections));
+}
+
+/**
+ * Translate a `storage` event into the affected collections
+ */
+function collectionsForStorageEvent(event: StorageEvent): Collection[] {
+  // key is null if the whole storage was cleared
+  if (event.key === null) return ALL_COLLECTIONS;
+  const collection = STORAGE_KEY_COLLECTIONS[event.key];
+  return collection ? [collection] : [];
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Start synchronizing with other tabs (call once after the repositories are initialized)
+ */
+export function startSync(): void {
+  if (started) return;
+
+  // In-memory data is not shared between tabs
+  if (getRepositories().backend === 'memory') return;
+  started = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      if (event.data?.type === 'data-changed') {
+        handleExternalChange(event.data.collections);
+      }
+    };
+
+    onDataCommitted(collections => {
+      const message: SyncMessage = { type: 'data-changed', collections };
+      channel.postMessage(message);
+    });
+    return;
+  }
+
+  if (getRepositories().backend === 'localStorage') {
+    window.addEventListener('storage', event => {
+      const collections = collectionsForStorageEvent(event);
+      if (collections.length > 0) {
+        handleExternalChange(collections);
+      }
+    });
+  }
+}
+
+/**
+ * Handle a background write that failed (see RepositoryOptions.onWriteError).
+ * The repositories hold the stored data again, so the subscribers reload as
+ * after a change in another tab. The recorded undo commands may refer to the
+ * lost change, so they are discarded.
+ */
+export function handleFailedWrite(error: Error): void {
+  clearUndoHistory();
+  reportFailedWrite(error);
+  listeners.forEach(listener => listener(ALL_COLLECTIONS));
+}
+
+/**
+ * Subscribe to changes made in other tabs
+ * @returns Function to unsubscribe
+ */
+export function subscribeToExternalChanges(listener: ExternalChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryDriver, createRepositories, setRepositories } from '../repositories';
+import { getAuditLog, getMemberById, saveMember, updateMember } from './storageService';
+import { clearUndoHistory, executeUndoable, getUndoState, redo, undo } from './undoService';
+import { buildMember } from '../test/fixtures';
+
+/**
+ * Move a member to another city as an undoable operation
+ */
+function move(id: string, city: string): void {
+  executeUndoable(`${id} umgezogen`, () => updateMember({ ...getMemberById(id)!, city }));
+}
+
+beforeEach(() => {
+  setRepositories(createRepositories(createMemoryDriver()));
+  clearUndoHistory();
+  saveMember(buildMember('a'));
+  saveMember(buildMember('b'));
+});
+
+describe('undo and redo', () => {
+  it('revert and re-apply an operation and log the field changes of every member', () => {
+    executeUndoable('Beide umgezogen', () => {
+      updateMember({ ...getMemberById('a')!, city: 'Bonn' });
+      updateMember({ ...getMemberById('b')!, city: 'Essen' });
+    });
+
+    expect(undo()?.label).toBe('Beide umgezogen');
+    expect(getMemberById('a')?.city).toBe('Köln');
+    expect(getAuditLog()[0]).toMatchObject({
+      action: 'ACTION_UNDONE',
+      details: {
+        memberIds: ['a', 'b'],
+        memberChanges: [
+          { memberId: 'a', changes: [expect.objectContaining({ field: 'city', oldValue: 'Bonn', newValue: 'Köln' })] },
+          { memberId: 'b', changes: [expect.objectContaining({ field: 'city', oldValue: 'Essen', newValue: 'Köln' })] },
+        ],
+      },
+    });
+
+    expect(redo()?.label).toBe('Beide umgezogen');
+    expect(getMemberById('b')?.city).toBe('Essen');
+    expect(getAuditLog()[0]).toMatchObject({
+      action: 'ACTION_REDONE',
+      details: {
+        memberChanges: [
+          { memberId: 'a', changes: [expect.objectContaining({ oldValue: 'Köln', newValue: 'Bonn' })] },
+          { memberId: 'b', changes: [expect.objectContaining({ oldValue: 'Köln', newValue: 'Essen' })] },
+        ],
+      },
+    });
+  });
+
+  it('refuse an operation whose data was changed since and discard it', () => {
+    move('a', 'Bonn');
+    updateMember({ ...getMemberById('a')!, city: 'Essen' });
+
+    expect(() => undo()).toThrow('Die Daten wurden inzwischen geändert');
+    expect(getMemberById('a')?.city).toBe('Essen');
+    expect(getUndoState()).toMatchObject({ canUndo: false, canRedo: false });
+  });
+
+  it('forget the undone operations once a new one is recorded', () => {
+    move('a', 'Bonn');
+    undo();
+    expect(getUndoState()).toMatchObject({ canRedo: true, redoLabel: 'a umgezogen' });
+
+    move('b', 'Essen');
+
+    expect(getUndoState()).toMatchObject({ canUndo: true, undoLabel: 'b umgezogen', canRedo: false });
+    expect(redo()).toBeUndefined();
+  });
+});
+
+describe('executeUndoable', () => {
+  it('keeps only the last 50 operations', () => {
+    for (let step = 1; step <= 51; step++) {
+      move('a', `Ort ${step}`);
+    }
+
+    for (let step = 0; step < 50; step++) {
+      undo();
+    }
+
+    expect(getUndoState().canUndo).toBe(false);
+    expect(getMemberById('a')?.city).toBe('Ort 1');
+  });
+
+  it('records nothing if the operation changed no member or family', () => {
+    executeUndoable('Nichts geändert', () => updateMember(getMemberById('a')!));
+
+    expect(getUndoState().canUndo).toBe(false);
+  });
+});
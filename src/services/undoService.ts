@@ -0,0 +1,252 @@
+/**
+ * Undo Service
+ * Command-based undo/redo for member and family operations.
+ * Each operation is recorded with the states of all members and families it
+ * changed, so it can be reverted and re-applied. Undo and redo are logged in
+ * the audit log; the original log entries stay untouched.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Member, Family, MemberFieldChanges } from '../models/types';
+import {
+  getAllMembers,
+  getAllFamilies,
+  saveAllMembers,
+  saveAllFamilies,
+  runInTransaction,
+} from './storageService';
+import { logActionUndone, logActionRedone } from './auditService';
+import { diffMemberFields } from './memberService';
+
+/**
+ * Change of a single entity by a command
+ */
+interface EntityChange<T> {
+  id: string;
+  /** State before the command (undefined if the command created the entity) */
+  before?: T;
+  /** State after the command */
+  after?: T;
+}
+
+/**
+ * A recorded operation
+ */
+export interface UndoCommand {
+  id: string;
+
+  /** Human-readable description, e.g. 'Mitglied "Anna Schmidt" deaktiviert' */
+  label: string;
+
+  memberChanges: EntityChange<Member>[];
+  familyChanges: EntityChange<Family>[];
+}
+
+/**
+ * Current state of the undo/redo stacks
+ */
+export interface UndoState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+/** Maximum number of commands kept for undo */
+const MAX_UNDO_STEPS = 50;
+
+let undoStack: UndoCommand[] = [];
+let redoStack: UndoCommand[] = [];
+const listeners = new Set<(command?: UndoCommand) => void>();
+
+function notifyListeners(recorded?: UndoCommand): void {
+  listeners.forEach(listener => listener(recorded));
+}
+
+/**
+ * Determine all entities that differ between two lists
+ */
+function diffEntities<T extends { id: string }>(before: T[], after: T[]): EntityChange<T>[] {
+  const beforeById = new Map(before.map(entity => [entity.id, entity]));
+  const changes: EntityChange<T>[] = [];
+
+  after.forEach(entity => {
+    const previous = beforeById.get(entity.id);
+    beforeById.delete(entity.id);
+    if (!previous || JSON.stringify(previous) !== JSON.stringify(entity)) {
+      changes.push({ id: entity.id, before: previous, after: entity });
+    }
+  });
+  beforeById.forEach(previous => changes.push({ id: previous.id, before: previous }));
+
+  return changes;
+}
+
+/**
+ * Move entities from one state to the other.
+ * @throws Error if an entity was changed elsewhere since the command
+ */
+function applyChanges<T extends { id: string }>(
+  entities: T[],
+  changes: EntityChange<T>[],
+  direction: 'undo' | 'redo'
+): T[] {
+  const result = [...entities];
+
+  changes.forEach(change => {
+    const expected = direction === 'undo' ? change.after : change.before;
+    const target = direction === 'undo' ? change.before : change.after;
+    const index = result.findIndex(entity => entity.id === change.id);
+    const current = index === -1 ? undefined : result[index];
+
+    if (JSON.stringify(current) !== JSON.stringify(expected)) {
+      throw new Error('Die Daten wurden inzwischen geändert, die Aktion kann nicht mehr umgekehrt werden.');
+    }
+
+    if (target && index === -1) {
+      result.push(target);
+    } else if (target) {
+      result[index] = target;
+    } else if (index !== -1) {
+      result.splice(index, 1);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Apply a command in the given direction and log it
+ */
+function replay(command: UndoCommand, direction: 'undo' | 'redo'): void {
+  runInTransaction(() => {
+    if (command.memberChanges.length > 0) {
+      saveAllMembers(applyChanges(getAllMembers(), command.memberChanges, direction));
+    }
+    if (command.familyChanges.length > 0) {
+      saveAllFamilies(applyChanges(getAllFamilies(), command.familyChanges, direction));
+    }
+
+    const memberIds = command.memberChanges.map(change => change.id);
+    const familyIds = command.familyChanges.map(change => change.id);
+
+    // Record the field changes of every changed member
+    const fieldChanges: MemberFieldChanges[] = command.memberChanges.flatMap(({ id, before, after }) =>
+      before && after
+        ? [{
+          memberId: id,
+          changes: direction === 'undo' ? diffMemberFields(after, before) : diffMemberFields(before, after),
+        }]
+        : []
+    );
+
+    if (direction === 'undo') {
+      logActionUndone(command.label, memberIds, familyIds, fieldChanges);
+    } else {
+      logActionRedone(command.label, memberIds, familyIds, fieldChanges);
+    }
+  });
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Run an operation and record it for undo
+ * @param label Description of the operation, or a function building it from the result
+ */
+export function executeUndoable<T>(label: string | ((result: T) => string), work: () => T): T {
+  const membersBefore = getAllMembers();
+  const familiesBefore = getAllFamilies();
+
+  const result = runInTransaction(work);
+
+  const command: UndoCommand = {
+    id: uuidv4(),
+    label: typeof label === 'function' ? label(result) : label,
+    memberChanges: diffEntities(membersBefore, getAllMembers()),
+    familyChanges: diffEntities(familiesBefore, getAllFamilies()),
+  };
+
+  if (command.memberChanges.length > 0 || command.familyChanges.length > 0) {
+    undoStack = [...undoStack, command].slice(-MAX_UNDO_STEPS);
+    redoStack = [];
+    notifyListeners(command);
+  }
+
+  return result;
+}
+
+/**
+ * Revert the last operation
+ * @returns The reverted command, or undefined if there is nothing to undo
+ * @throws Error if the affected data was changed in the meantime (the command is discarded)
+ */
+export function undo(): UndoCommand | undefined {
+  const command = undoStack[undoStack.length - 1];
+  if (!command) return undefined;
+
+  undoStack = undoStack.slice(0, -1);
+  try {
+    replay(command, 'undo');
+    redoStack = [...redoStack, command];
+  } finally {
+    notifyListeners();
+  }
+  return command;
+}
+
+/**
+ * Re-apply the last reverted operation
+ * @returns The re-applied command, or undefined if there is nothing to redo
+ * @throws Error if the affected data was changed in the meantime (the command is discarded)
+ */
+export function redo(): UndoCommand | undefined {
+  const command = redoStack[redoStack.length - 1];
+  if (!command) return undefined;
+
+  redoStack = redoStack.slice(0, -1);
+  try {
+    replay(command, 'redo');
+    undoStack = [...undoStack, command];
+  } finally {
+    notifyListeners();
+  }
+  return command;
+}
+
+/**
+ * Get the current state of the undo/redo stacks
+ */
+export function getUndoState(): UndoState {
+  const nextUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[redoStack.length - 1];
+  return {
+    canUndo: nextUndo !== undefined,
+    canRedo: nextRedo !== undefined,
+    undoLabel: nextUndo?.label,
+    redoLabel: nextRedo?.label,
+  };
+}
+
+/**
+ * Forget all recorded operations
+ */
+export function clearUndoHistory(): void {
+  undoStack = [];
+  redoStack = [];
+  notifyListeners();
+}
+
+/**
+ * Subscribe to changes of the undo/redo stacks
+ * @param listener Receives the newly recorded command (undefined after undo, redo or clear)
+ * @returns Function to unsubscribe
+ */
+export function onUndoStateChanged(listener: (recorded?: UndoCommand) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Test Fixtures
+ * Members, form data and families shared by the unit tests.
+ */
+
+import type { Family, Member, MemberFormData } from '../models/types';
+
+/** Form data of a complete member */
+export const MEMBER_FORM: MemberFormData = {
+  firstName: 'Anna',
+  lastName: 'Schmidt',
+  birthDate: '1985-03-09',
+  street: 'Hauptstraße 1',
+  postalCode: '50667',
+  city: 'Bonn',
+  iban: 'DE89370400440532013000',
+  bic: 'COBADEFFXXX',
+  entryDate: '2020-01-01',
+  isMainFamilyMember: false,
+};
+
+/** A family without main member */
+export const FAMILY: Family = {
+  id: 'f1',
+  name: 'Familie Schmidt',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+/**
+ * Build a stored member with the given id and family
+ */
+export function buildMember(id: string, familyId?: string): Member {
+  return {
+    id,
+    firstName: 'Anna',
+    lastName: 'Schmidt',
+    birthDate: '1985-03-09',
+    street: 'Hauptstraße 1',
+    postalCode: '50667',
+    city: 'Köln',
+    iban: '',
+    bic: '',
+    entryDate: '2020-01-01',
+    isActive: true,
+    familyId,
+    isMainFamilyMember: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
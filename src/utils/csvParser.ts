@@ -0,0 +1,169 @@
+/**
+ * CSV Parser
+ * RFC 4180 parser working as a state machine over the text, so quoted fields
+ * may contain delimiters, doubled quotes and line breaks. Also detects the
+ * delimiter and the text encoding of CSV files.
+ */
+
+export type CSVDelimiter = ';' | ',' | '\t';
+
+/** Supported delimiters, preferred first if a file is ambiguous */
+export const CSV_DELIMITERS: CSVDelimiter[] = [';', ',', '\t'];
+
+export type CSVEncoding = 'utf-8' | 'windows-1252';
+
+/**
+ * A record (row) of a CSV file
+ */
+export interface CSVRecord {
+  /** Line of the file the record starts in (1-based) */
+  line: number;
+  fields: string[];
+}
+
+type ParserState =
+  | 'fieldStart'
+  | 'unquoted'
+  | 'quoted'
+  | 'afterQuote';
+
+/**
+ * Parse CSV text record by record.
+ * Unquoted fields are trimmed, quoted fields are taken over exactly (including
+ * their line breaks). Empty lines are skipped. An unterminated quoted field
+ * ends with the text.
+ */
+export function* parseCSVRecords(text: string, delimiter: CSVDelimiter): Generator<CSVRecord> {
+  let state: ParserState = 'fieldStart';
+  let fields: string[] = [];
+  let field = '';
+  let fieldQuoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(fieldQuoted ? field : field.trim());
+    field = '';
+    state = 'fieldStart';
+  };
+  const isBlankRecord = () => fields.length === 1 && fields[0] === '' && !fieldQuoted;
+
+  // A byte order mark is not part of the first header
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (state === 'quoted') {
+      if (char === '"') {
+        state = 'afterQuote';
+      } else if (char === '\r' || char === '\n') {
+        // CR LF counts as one line
+        if (char === '\r' && text[i + 1] === '\n') {
+          field += '\r\n';
+          i++;
+        } else {
+          field += char;
+        }
+        line++;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (state === 'afterQuote' && char === '"') {
+      // Escaped quote
+      field += '"';
+      state = 'quoted';
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+      fieldQuoted = false;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endField();
+      if (!isBlankRecord()) yield { line: recordLine, fields };
+      fields = [];
+      fieldQuoted = false;
+      line++;
+      recordLine = line;
+      continue;
+    }
+
+    if (state === 'fieldStart') {
+      if (char === '"') {
+        // Whitespace before the opening quote is dropped
+        field = '';
+        fieldQuoted = true;
+        state = 'quoted';
+      } else {
+        field += char;
+        if (char !== ' ') state = 'unquoted';
+      }
+    } else if (state === 'afterQuote') {
+      // Text after the closing quote is kept, whitespace is dropped
+      if (char !== ' ' && char !== '\t') field += char;
+    } else {
+      field += char;
+    }
+  }
+
+  if (fields.length > 0 || field !== '' || state !== 'fieldStart') {
+    endField();
+    if (!isBlankRecord()) yield { line: recordLine, fields };
+  }
+}
+
+/**
+ * Detect the delimiter from the first record: the candidate found most often
+ * outside of quotes (semicolon if none is found)
+ */
+export function detectCSVDelimiter(text: string): CSVDelimiter {
+  const counts = new Map<CSVDelimiter, number>(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      // Skip leading empty lines
+      if ([...counts.values()].some(count => count > 0)) break;
+    } else if (!inQuotes && counts.has(char as CSVDelimiter)) {
+      counts.set(char as CSVDelimiter, counts.get(char as CSVDelimiter)! + 1);
+    }
+  }
+
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    counts.get(delimiter)! > counts.get(best)! ? delimiter : best
+  );
+}
+
+/**
+ * Parse a complete CSV text with automatically detected delimiter
+ */
+export function parseCSV(text: string): { delimiter: CSVDelimiter; records: CSVRecord[] } {
+  const delimiter = detectCSVDelimiter(text);
+  return { delimiter, records: [...parseCSVRecords(text, delimiter)] };
+}
+
+/**
+ * Decode the bytes of a CSV file. Files with UTF-8 byte order mark or valid
+ * UTF-8 are read as UTF-8, anything else as Windows-1252 (e.g. older Excel
+ * versions saving "CSV (Trennzeichen-getrennt)").
+ */
+export function decodeCSVBytes(data: ArrayBuffer | Uint8Array): { text: string; encoding: CSVEncoding } {
+  const bytes = new Uint8Array(data);
+  try {
+    // The decoder removes a byte order mark itself
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * File Download
+ * Offers generated content (CSV, JSON, ...) as file download in the browser.
+ */
+
+/**
+ * Download content as a file
+ * @param mimeType e.g. 'text/csv;charset=utf-8;'
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download CSV content as a file.
+ * A UTF-8 byte order mark is prepended, so Excel detects the encoding.
+ */
+export function downloadCSVFile(content: string, filename: string): void {
+  downloadFile('\ufeff' + content, filename, 'text/csv;charset=utf-8;');
+}
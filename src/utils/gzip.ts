@@ -0,0 +1,28 @@
+/**
+ * Gzip
+ * Compression of text with the browser's CompressionStream API.
+ */
+
+/**
+ * Check whether the browser supports gzip compression
+ */
+export function isGzipAvailable(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/**
+ * Compress text (UTF-8) with gzip
+ */
+export async function gzipText(text: string): Promise<ArrayBuffer> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+}
+
+/**
+ * Decompress gzip data to text (UTF-8)
+ * @throws Error if the data is not valid gzip
+ */
+export async function gunzipText(data: BlobPart): Promise<string> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
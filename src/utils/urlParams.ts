@@ -0,0 +1,31 @@
+/**
+ * URL Parameters
+ * Keeps UI state (active tab, filters) in the query string of the current URL,
+ * so views can be bookmarked and shared. The history is not extended.
+ */
+
+/**
+ * Get the query parameters of the current URL
+ */
+export function getUrlParams(): URLSearchParams {
+  return new URLSearchParams(window.location.search);
+}
+
+/**
+ * Set or remove query parameters of the current URL
+ * @param values Empty and undefined values remove the parameter
+ */
+export function updateUrlParams(values: Record<string, string | number | undefined>): void {
+  const params = getUrlParams();
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined || value === '') {
+      params.delete(key);
+    } else {
+      params.set(key, String(value));
+    }
+  });
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  window.history.replaceState(window.history.state, '', url);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createXlsx, readXlsx } from './xlsx';
+import { createZip } from './zip';
+
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/**
+ * Build a workbook with one sheet whose row XML is taken as it is
+ */
+function workbookWithRow(rowXml: string): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const files: Record<string, string> = {
+    '_rels/.rels': '<Relationships>' +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Mitglieder" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships>' +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData><row r="1">${rowXml}</row></sheetData></worksheet>`,
+  };
+  const zip = createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer;
+}
+
+describe('readXlsx', () => {
+  it('reads the values written by createXlsx', async () => {
+    const zip = createXlsx([{ name: 'Mitglieder', columns: [{ header: 'Name' }], rows: [['Müller & <Söhne>']] }]);
+    const [sheet] = await readXlsx(zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer);
+
+    expect(sheet.records.map(record => record.fields)).toEqual([['Name'], ['Müller & <Söhne>']]);
+  });
+
+  it('keeps literal _xHHHH_ sequences and drops control characters', async () => {
+    const zip = createXlsx([{ name: 'Mitglieder', columns: [{ header: 'Name' }], rows: [['A_x0041_B\u0001\tC']] }]);
+    const [sheet] = await readXlsx(zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer);
+
+    expect(sheet.records[1].fields).toEqual(['A_x0041_B\tC']);
+  });
+
+  it('decodes known entities and keeps unknown ones and invalid character references', async () => {
+    const [sheet] = await readXlsx(workbookWithRow(
+      '<c r="A1" t="inlineStr"><is><t>&lt;&amp;&#x4B;&#107;</t></is></c>' +
+      '<c r="B1" t="inlineStr"><is><t>&LT;&Amp;&#x110000;&#0;&#xD800;&nbsp;</t></is></c>'
+    ));
+
+    expect(sheet.records[0].fields).toEqual(['<&Kk', '&LT;&Amp;&#x110000;&#0;&#xD800;&nbsp;']);
+  });
+});
@@ -0,0 +1,467 @@
+/**
+ * XLSX
+ * Writes Excel workbooks (Office Open XML) with typed cells and reads the cell
+ * values of the sheets of a workbook as text. Only the parts needed for plain
+ * tables are supported: inline and shared strings, numbers, booleans and dates.
+ */
+
+import type { CSVRecord } from './csvParser';
+import { createZip, readZip } from './zip';
+
+/**
+ * A date cell value (YYYY-MM-DD)
+ */
+export interface XlsxDate {
+  date: string;
+}
+
+export type XlsxCellValue = string | number | boolean | XlsxDate | null;
+
+/**
+ * A column of a sheet to write
+ */
+export interface XlsxColumn {
+  header: string;
+  /** Width in characters */
+  width?: number;
+  /** 'text' keeps values such as postal codes as typed (leading zeros), 'date' shows dates */
+  format?: 'text' | 'date';
+}
+
+/**
+ * A sheet to write; the header row is frozen
+ */
+export interface XlsxSheet {
+  /** Name of the sheet (at most 31 characters) */
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellValue[][];
+}
+
+/**
+ * A sheet read from a workbook. Records carry the row number of the sheet;
+ * dates are returned as YYYY-MM-DD, booleans as 'true' / 'false'.
+ */
+export interface XlsxSheetData {
+  name: string;
+  records: CSVRecord[];
+}
+
+const MAIN_NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** Cell styles (index into cellXfs of the written styles) */
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_TEXT = 3;
+
+/** Days between the Excel epoch (1899-12-30, 1900 date system) and 1970-01-01 */
+const EXCEL_EPOCH_OFFSET = 25569;
+
+/** Days between the 1900 and the 1904 date system */
+const DATE_1904_OFFSET = 1462;
+
+const MS_PER_DAY = 86400000;
+
+// ============================================
+// Writing
+// ============================================
+
+/**
+ * Check whether XML allows a character (control characters except tab and line breaks are not allowed)
+ */
+function isXmlCharacter(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Escape text for XML content and attributes (characters XML does not allow are dropped).
+ * Literal _xHHHH_ sequences are escaped as well, so readers do not decode them.
+ */
+function escapeXml(text: string): string {
+  return [...text].filter(isXmlCharacter).join('')
+    .replace(/_x([0-9a-f]{4})_/gi, '_x005F_x$1_')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letters of a zero-based column index (0 -> A, 26 -> AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Excel serial number of a date (YYYY-MM-DD), undefined if it is no valid date
+ */
+function toSerialDate(date: string): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return undefined;
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(time) ? undefined : time / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+}
+
+/**
+ * XML of a single cell (empty for empty values)
+ */
+function cellXml(reference: string, value: XlsxCellValue, column: XlsxColumn): string {
+  if (value === null || value === '') return '';
+
+  if (typeof value === 'object') {
+    const serial = toSerialDate(value.date);
+    // Invalid dates are kept as text rather than lost
+    if (serial === undefined) return cellXml(reference, value.date, { ...column, format: 'text' });
+    return `<c r="${reference}" s="${STYLE_DATE}"><v>${serial}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return `<c r="${reference}"><v>${value}</v></c>`;
+  }
+  const style = column.format === 'text' ? ` s="${STYLE_TEXT}"` : '';
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * XML of a worksheet with frozen, bold header row
+ */
+function worksheetXml(sheet: XlsxSheet): string {
+  const cols = sheet.columns.map((column, index) => {
+    const style = column.format === 'text' ? ` style="${STYLE_TEXT}"` : column.format === 'date' ? ` style="${STYLE_DATE}"` : '';
+    return `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? 15}"${style} customWidth="1"/>`;
+  }).join('');
+
+  const headerCells = sheet.columns.map((column, index) =>
+    `<c r="${columnName(index)}1" s="${STYLE_HEADER}" t="inlineStr"><is><t>${escapeXml(column.header)}</t></is></c>`
+  ).join('');
+
+  const dataRows = sheet.rows.map((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = sheet.columns.map((column, index) =>
+      cellXml(`${columnName(index)}${rowNumber}`, row[index] ?? null, column)
+    ).join('');
+    return `<row r="${rowNumber}">${cells}</row>`;
+  }).join('');
+
+  return XML_DECLARATION +
+    `<worksheet xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}">` +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>' +
+    '</sheetView></sheetViews>' +
+    '<sheetFormatPr defaultRowHeight="15"/>' +
+    `<cols>${cols}</cols>` +
+    `<sheetData><row r="1">${headerCells}</row>${dataRows}</sheetData>` +
+    '</worksheet>';
+}
+
+/**
+ * Styles: default, bold header, date (locale short date format), text
+ */
+const STYLES_XML = XML_DECLARATION +
+  `<styleSheet xmlns="${MAIN_NAMESPACE}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+/**
+ * Create an Excel workbook (.xlsx) with one sheet per entry
+ */
+export function createXlsx(sheets: XlsxSheet[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const sheetOverrides = sheets.map((_, index) =>
+    `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  ).join('');
+  const sheetRelationships = sheets.map((_, index) =>
+    `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+  ).join('');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheetOverrides +
+      '</Types>',
+    '_rels/.rels': XML_DECLARATION +
+      `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml': XML_DECLARATION +
+      `<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}"><sheets>` +
+      sheets.map((sheet, index) =>
+        `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      ).join('') +
+      '</sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': XML_DECLARATION +
+      `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+      sheetRelationships +
+      `<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIP_NAMESPACE}/styles" Target="styles.xml"/>` +
+      '</Relationships>',
+    'xl/styles.xml': STYLES_XML,
+  };
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = worksheetXml(sheet);
+  });
+
+  return createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+}
+
+// ============================================
+// Reading
+// ============================================
+
+/** Characters of the named XML entities (names are case-sensitive) */
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: '\'', amp: '&' };
+
+/**
+ * Replace XML entities and Excel's _xHHHH_ escapes.
+ * Unknown entities and character references outside the Unicode range are kept as they are.
+ */
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-fA-F]+);/g, (match, entity: string) => {
+      if (entity in XML_ENTITIES) return XML_ENTITIES[entity];
+      const codePoint = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      const isCharacter = codePoint > 0 && codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+      return isCharacter ? String.fromCodePoint(codePoint) : match;
+    })
+    .replace(/_x([0-9a-f]{4})_/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+}
+
+/**
+ * Attributes of an XML tag (namespace prefixes are kept, e.g. 'r:id')
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = unescapeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * All elements with the given local name (with or without namespace prefix)
+ */
+function findElements(xml: string, name: string): { attributes: Record<string, string>; content: string }[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${name}>)`, 'g');
+  return [...xml.matchAll(pattern)].map(match => ({
+    attributes: parseAttributes(match[1]),
+    content: match[2] ?? '',
+  }));
+}
+
+/**
+ * Text of the <t> elements of a string item (phonetic hints are skipped)
+ */
+function stringItemText(xml: string): string {
+  return findElements(xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, ''), 't')
+    .map(element => unescapeXml(element.content))
+    .join('');
+}
+
+/**
+ * Relationship targets by ID, resolved against the folder of the part
+ */
+function readRelationships(xml: string | undefined, partFolder: string): Map<string, { type: string; path: string }> {
+  const relationships = new Map<string, { type: string; path: string }>();
+  if (!xml) return relationships;
+  findElements(xml, 'Relationship').forEach(({ attributes }) => {
+    const target = attributes.Target ?? '';
+    const path = target.startsWith('/') ? target.slice(1) : partFolder + target;
+    relationships.set(attributes.Id, { type: attributes.Type ?? '', path: normalizePath(path) });
+  });
+  return relationships;
+}
+
+/**
+ * Resolve "." and ".." segments of a path in the archive
+ */
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  path.split('/').forEach(segment => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  });
+  return segments.join('/');
+}
+
+/** Built-in number formats that show dates */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+/**
+ * Check whether a number format code shows a date (literal text and colors are ignored)
+ */
+function isDateFormatCode(code: string): boolean {
+  const stripped = code
+    .replace(/"[^"]*"/g, '')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\\./g, '');
+  return /[dy]/i.test(stripped);
+}
+
+/**
+ * For each cell style: whether it shows a date
+ */
+function readDateStyles(xml: string | undefined): boolean[] {
+  if (!xml) return [];
+  const customDateFormats = new Set(
+    findElements(xml, 'numFmt')
+      .filter(({ attributes }) => isDateFormatCode(attributes.formatCode ?? ''))
+      .map(({ attributes }) => Number(attributes.numFmtId))
+  );
+  const cellXfs = findElements(xml, 'cellXfs')[0]?.content ?? '';
+  return findElements(cellXfs, 'xf').map(({ attributes }) => {
+    const id = Number(attributes.numFmtId ?? 0);
+    return BUILTIN_DATE_FORMATS.has(id) || customDateFormats.has(id);
+  });
+}
+
+/**
+ * Zero-based column index of a cell reference ("C7" -> 2)
+ */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Date (YYYY-MM-DD) of an Excel serial number; the time of day is dropped
+ */
+function fromSerialDate(serial: number, date1904: boolean): string {
+  const days = Math.floor(serial) + (date1904 ? DATE_1904_OFFSET : 0) - EXCEL_EPOCH_OFFSET;
+  return new Date(days * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+/**
+ * Text of a cell
+ */
+function cellText(
+  cell: { attributes: Record<string, string>; content: string },
+  sharedStrings: string[],
+  dateStyles: boolean[],
+  date1904: boolean
+): string {
+  const type = cell.attributes.t ?? 'n';
+  if (type === 'inlineStr') {
+    return stringItemText(findElements(cell.content, 'is')[0]?.content ?? '');
+  }
+
+  const raw = unescapeXml(findElements(cell.content, 'v')[0]?.content ?? '');
+  if (raw === '') return '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(raw)] ?? '';
+    case 'b':
+      return raw === '1' ? 'true' : 'false';
+    case 'd':
+      // ISO date (written by some other applications)
+      return raw.split('T')[0];
+    case 'str':
+    case 'e':
+      return raw;
+  }
+
+  // Serial numbers beyond the year 9999 are no dates
+  const number = Number(raw);
+  if (dateStyles[Number(cell.attributes.s ?? 0)] && number >= 0 && number < 2958466) {
+    return fromSerialDate(number, date1904);
+  }
+  return raw;
+}
+
+/**
+ * Read the cell values of all sheets of an Excel workbook (.xlsx).
+ * Empty rows are skipped; trailing empty cells of a row are dropped.
+ * @throws Error if the data is no Excel workbook
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<XlsxSheetData[]> {
+  // Workbooks are ZIP archives; password protected and old .xls files are not
+  const signature = new Uint8Array(buffer.slice(0, 4));
+  if (signature.length < 4 || signature[0] !== 0x50 || signature[1] !== 0x4b) {
+    throw new Error('Die Datei ist keine Excel-Arbeitsmappe (.xlsx). Kennwortgeschützte und ältere .xls-Dateien werden nicht unterstützt.');
+  }
+
+  const decoder = new TextDecoder();
+  const parts = new Map((await readZip(buffer)).map(entry => [entry.name, entry.data]));
+  const readPart = (path: string) => {
+    const data = parts.get(path);
+    return data ? decoder.decode(data) : undefined;
+  };
+
+  const workbookPath = [...readRelationships(readPart('_rels/.rels'), '').values()]
+    .find(relationship => relationship.type.endsWith('/officeDocument'))?.path;
+  const workbook = workbookPath ? readPart(workbookPath) : undefined;
+  if (!workbookPath || !workbook) {
+    throw new Error('Die Datei ist keine Excel-Arbeitsmappe');
+  }
+
+  const folder = workbookPath.includes('/') ? workbookPath.slice(0, workbookPath.lastIndexOf('/') + 1) : '';
+  const fileName = workbookPath.slice(folder.length);
+  const relationships = readRelationships(readPart(`${folder}_rels/${fileName}.rels`), folder);
+  const partOfType = (type: string) =>
+    [...relationships.values()].find(relationship => relationship.type.endsWith(type))?.path;
+
+  const sharedStringsPath = partOfType('/sharedStrings');
+  const sharedStrings = findElements((sharedStringsPath && readPart(sharedStringsPath)) || '', 'si')
+    .map(item => stringItemText(item.content));
+  const stylesPath = partOfType('/styles');
+  const dateStyles = readDateStyles(stylesPath ? readPart(stylesPath) : undefined);
+  const workbookProperties = findElements(workbook, 'workbookPr')[0]?.attributes;
+  const date1904 = workbookProperties?.date1904 === '1' || workbookProperties?.date1904 === 'true';
+
+  return findElements(workbook, 'sheet').map(({ attributes }) => {
+    const relationshipId = attributes['r:id'] ??
+      Object.entries(attributes).find(([name]) => name.endsWith(':id'))?.[1];
+    const path = relationshipId ? relationships.get(relationshipId)?.path : undefined;
+    const xml = (path && readPart(path)) || '';
+    const sheetData = findElements(xml, 'sheetData')[0]?.content ?? '';
+
+    const records: CSVRecord[] = [];
+    let previousRow = 0;
+    findElements(sheetData, 'row').forEach(row => {
+      const line = Number(row.attributes.r) || previousRow + 1;
+      previousRow = line;
+
+      const fields: string[] = [];
+      let previousColumn = -1;
+      findElements(row.content, 'c').forEach(cell => {
+        const column = cell.attributes.r ? columnIndex(cell.attributes.r) : previousColumn + 1;
+        previousColumn = column;
+        fields[column] = cellText(cell, sharedStrings, dateStyles, date1904);
+      });
+
+      const values = Array.from(fields, value => value ?? '');
+      while (values.length > 0 && values[values.length - 1] === '') values.pop();
+      if (values.length > 0) records.push({ line, fields: values });
+    });
+
+    return { name: attributes.name ?? '', records };
+  });
+}
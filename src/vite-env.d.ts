@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Storage backend: "localStorage" (default), "indexedDB" or "memory" */
+  readonly VITE_STORAGE_BACKEND?: string;
+
+  /** Base URL of the REST backend, e.g. "http://localhost:3001/api" (local services if unset) */
+  readonly VITE_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}